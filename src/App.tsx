@@ -8,6 +8,9 @@ import { ProtectedRoute } from "./components/ProtectedRoute";
 import Dashboard from "./pages/Dashboard";
 import CashApplication from "./pages/CashApplication";
 import DisputeManagement from "./pages/DisputeManagement";
+import Settings from "./pages/Settings";
+import CustomerDetail from "./pages/CustomerDetail";
+import Forecast from "./pages/Forecast";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
@@ -48,6 +51,33 @@ const App = () => (
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/forecast"
+            element={
+              <ProtectedRoute>
+                <Navigation />
+                <Forecast />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/settings"
+            element={
+              <ProtectedRoute>
+                <Navigation />
+                <Settings />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/customers/:customerId"
+            element={
+              <ProtectedRoute>
+                <Navigation />
+                <CustomerDetail />
+              </ProtectedRoute>
+            }
+          />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
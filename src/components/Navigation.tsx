@@ -1,5 +1,5 @@
 import { Link, useLocation } from "react-router-dom";
-import { LayoutDashboard, CreditCard, AlertCircle, LogOut } from "lucide-react";
+import { LayoutDashboard, CreditCard, AlertCircle, CalendarRange, Settings, LogOut } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
@@ -19,6 +19,16 @@ const navItems = [
     title: "Dispute Management",
     href: "/dispute-management",
     icon: AlertCircle
+  },
+  {
+    title: "Forecast",
+    href: "/forecast",
+    icon: CalendarRange
+  },
+  {
+    title: "Settings",
+    href: "/settings",
+    icon: Settings
   }
 ];
 
@@ -0,0 +1,181 @@
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCurrency } from "@/lib/currency";
+
+export interface MatchRun {
+  run_id: string;
+  status: "running" | "completed" | "failed";
+  total_payments: number;
+  processed_payments: number;
+  auto_cleared_count: number;
+  auto_cleared_amount: number;
+  needs_review_count: number;
+  conflict_count: number;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface MatchRunItem {
+  item_id: string;
+  payment_id: string;
+  outcome: "pending" | "auto_cleared" | "needs_review" | "skipped";
+  invoice_numbers: string[];
+  amount_applied: number;
+  matched_by: "reference" | "amount" | "suggestion" | null;
+  reason: string | null;
+  conflict: boolean;
+  payments: {
+    payer_name: string | null;
+    amount_received: number | string;
+    currency: string;
+    payment_date: string;
+    bank_reference: string | null;
+    status: string;
+  } | null;
+}
+
+export interface MatchRunDetail {
+  run: MatchRun;
+  items: MatchRunItem[];
+}
+
+interface MatchRunDialogProps {
+  detail: MatchRunDetail | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReviewPayment: (paymentId: string) => void;
+}
+
+const OUTCOME_STYLES: Record<MatchRunItem["outcome"], string> = {
+  auto_cleared: "bg-success/10 text-success",
+  needs_review: "bg-warning/10 text-warning",
+  skipped: "bg-muted/10 text-muted-foreground",
+  pending: "bg-muted/10 text-muted-foreground",
+};
+
+export const MatchRunDialog = ({ detail, open, onOpenChange, onReviewPayment }: MatchRunDialogProps) => {
+  if (!detail) return null;
+
+  const { run, items } = detail;
+  // Payments still waiting on an analyst come first
+  const sortedItems = [...items].sort(
+    (a, b) => Number(b.outcome === "needs_review") - Number(a.outcome === "needs_review")
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[calc(100vh-4rem)] overflow-y-auto sm:max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle>Auto-match run</DialogTitle>
+          <DialogDescription>
+            {[
+              run.started_at ? `Started ${new Date(run.started_at).toLocaleString()}` : undefined,
+              `${run.processed_payments} of ${run.total_payments} payments processed`,
+              run.status !== "completed" ? run.status : undefined,
+            ]
+              .filter(Boolean)
+              .join(" • ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {run.error_message && (
+          <div className="text-sm text-danger">{run.error_message}</div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card className="p-4">
+            <p className="text-xs text-muted-foreground">Auto-cleared</p>
+            <p className="text-2xl font-semibold">{run.auto_cleared_count}</p>
+          </Card>
+          <Card className="p-4">
+            <p className="text-xs text-muted-foreground">Amount cleared</p>
+            <p className="text-2xl font-semibold">{formatCurrency(run.auto_cleared_amount)}</p>
+          </Card>
+          <Card className="p-4">
+            <p className="text-xs text-muted-foreground">Needs review</p>
+            <p className="text-2xl font-semibold">{run.needs_review_count}</p>
+          </Card>
+          <Card className="p-4">
+            <p className="text-xs text-muted-foreground">Conflicts resolved</p>
+            <p className="text-2xl font-semibold">{run.conflict_count}</p>
+          </Card>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Payer</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Outcome</TableHead>
+              <TableHead>Detail</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedItems.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No unmatched payments were found
+                </TableCell>
+              </TableRow>
+            ) : (
+              sortedItems.map((item) => (
+                <TableRow key={item.item_id}>
+                  <TableCell>
+                    <div>{item.payments?.payer_name || item.payment_id.slice(0, 8) + "..."}</div>
+                    {item.payments?.payment_date && (
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(item.payments.payment_date).toLocaleDateString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{item.payments ? formatCurrency(item.payments.amount_received, item.payments.currency) : "-"}</TableCell>
+                  <TableCell>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${OUTCOME_STYLES[item.outcome]}`}>
+                      {item.outcome.replace(/_/g, " ")}
+                    </span>
+                    {item.conflict && (
+                      <Badge variant="outline" className="ml-2">conflict</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {item.outcome === "auto_cleared" ? (
+                      <span>
+                        {item.invoice_numbers.join(", ")}
+                        {item.matched_by && (
+                          <span className="text-xs text-muted-foreground"> by {item.matched_by}</span>
+                        )}
+                        {item.reason && (
+                          <span className="block text-xs text-muted-foreground">{item.reason}</span>
+                        )}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">{item.reason ?? "-"}</span>
+                    )}
+                    {item.outcome === "needs_review" && item.payments?.status !== "matched" && (
+                      <button
+                        type="button"
+                        className="block text-xs text-primary hover:underline mt-1"
+                        onClick={() => onReviewPayment(item.payment_id)}
+                      >
+                        Review suggestions
+                      </button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useState } from "react";
+import { CheckCircle2, Loader2, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+
+export interface CustomerCredit {
+  customer_id: string;
+  customer_name: string;
+  currency: string;
+  unapplied_amount: number;
+  payment_count: number;
+  oldest_payment_date: string | null;
+}
+
+// Credit is held per customer and currency; totals are in the functional currency
+export interface UnappliedCashSummary {
+  functional_currency: string;
+  total_credit: number;
+  customers: CustomerCredit[];
+  unplaced: { amount: number; payment_count: number };
+}
+
+interface CustomerCreditDetail {
+  customer_id: string;
+  currency: string;
+  unapplied_amount: number;
+  open_invoices: Array<{
+    invoice_id: string;
+    invoice_number: string;
+    due_date: string;
+    open_balance: number | string;
+  }>;
+}
+
+interface OnAccountCreditsProps {
+  // Credits are reloaded whenever this changes (e.g. after payments are refetched)
+  refreshKey: unknown;
+  onApplied: () => void;
+}
+
+export const OnAccountCredits = ({ refreshKey, onApplied }: OnAccountCreditsProps) => {
+  const [summary, setSummary] = useState<UnappliedCashSummary | null>(null);
+  const [selected, setSelected] = useState<CustomerCredit | null>(null);
+  const [detail, setDetail] = useState<CustomerCreditDetail | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [isApplying, setIsApplying] = useState(false);
+  const { toast } = useToast();
+
+  const getErrorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unexpected error occurred';
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<UnappliedCashSummary>('unapplied-cash', {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      setSummary(data ?? null);
+    } catch (error: unknown) {
+      console.error('Error fetching on-account credits:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary, refreshKey]);
+
+  const openCustomer = async (credit: CustomerCredit) => {
+    setSelected(credit);
+    setDetail(null);
+    setDrafts({});
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<CustomerCreditDetail>(
+        `unapplied-cash?customer_id=${credit.customer_id}&currency=${credit.currency}`,
+        {
+          method: 'GET',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      );
+
+      if (error) throw error;
+      if (!data) return;
+
+      // Spend the credit on the oldest invoices first
+      let remaining = data.unapplied_amount;
+      setDrafts(
+        Object.fromEntries(
+          data.open_invoices.map((invoice) => {
+            const amount = Math.max(0, Math.min(Number(invoice.open_balance), remaining));
+            remaining -= amount;
+            return [invoice.invoice_id, amount > 0 ? amount.toFixed(2) : ""];
+          })
+        )
+      );
+      setDetail(data);
+    } catch (error: unknown) {
+      console.error('Error fetching customer credit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the customer's credit",
+        variant: "destructive",
+      });
+      setSelected(null);
+    }
+  };
+
+  const allocations = Object.entries(drafts)
+    .map(([invoice_id, value]) => ({ invoice_id, amount: Number(Number(value || 0).toFixed(2)) }))
+    .filter((allocation) => allocation.amount > 0);
+  const allocatedTotal = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+  const isOverAllocated = Boolean(detail) && allocatedTotal > (detail?.unapplied_amount ?? 0) + 0.005;
+
+  const handleApply = async () => {
+    if (!selected || allocations.length === 0) return;
+
+    try {
+      setIsApplying(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { error } = await supabase.functions.invoke('unapplied-cash', {
+        body: {
+          action: 'apply',
+          customer_id: selected.customer_id,
+          allocations,
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Credit applied",
+        description: `${formatCurrency(allocatedTotal, selected.currency)} of ${selected.customer_name}'s credit applied`,
+      });
+
+      setSelected(null);
+      onApplied();
+    } catch (error: unknown) {
+      console.error('Error applying on-account credit:', error);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to apply credit",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!summary || (summary.customers.length === 0 && summary.unplaced.payment_count === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">On-account credits</h2>
+        <div className="text-right text-sm">
+          <div className="font-semibold">{formatCurrency(summary.total_credit, summary.functional_currency)} held on account</div>
+          {summary.unplaced.payment_count > 0 && (
+            <div className="text-xs text-muted-foreground">
+              {formatCurrency(summary.unplaced.amount, summary.functional_currency)} unapplied on {summary.unplaced.payment_count} open payment
+              {summary.unplaced.payment_count === 1 ? "" : "s"}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {summary.customers.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Customer</TableHead>
+              <TableHead>Credit</TableHead>
+              <TableHead>Payments</TableHead>
+              <TableHead>Oldest</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.customers.map((credit) => (
+              <TableRow key={`${credit.customer_id}-${credit.currency}`}>
+                <TableCell>{credit.customer_name}</TableCell>
+                <TableCell className="font-medium">{formatCurrency(credit.unapplied_amount, credit.currency)}</TableCell>
+                <TableCell>{credit.payment_count}</TableCell>
+                <TableCell>
+                  {credit.oldest_payment_date ? new Date(credit.oldest_payment_date).toLocaleDateString() : "-"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="outline" onClick={() => openCustomer(credit)}>
+                    <Wallet className="h-4 w-4 mr-1" />
+                    Apply credit
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={Boolean(selected)} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Apply on-account credit</DialogTitle>
+            <DialogDescription>
+              {selected
+                ? `${selected.customer_name} has ${formatCurrency(detail?.unapplied_amount ?? selected.unapplied_amount, selected.currency)} on account. The oldest payments are used first.`
+                : undefined}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!detail ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : detail.open_invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This customer has no open invoices in this currency to apply credit to.</p>
+          ) : (
+            <div className="space-y-3">
+              {detail.open_invoices.map((invoice) => (
+                <div key={invoice.invoice_id} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="flex-1">
+                    {invoice.invoice_number}
+                    <span className="text-xs text-muted-foreground">
+                      {" "}due {new Date(invoice.due_date).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <span className="font-medium">{formatCurrency(invoice.open_balance, selected?.currency)}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    aria-label={`Credit to apply to ${invoice.invoice_number}`}
+                    className="h-8 w-28 text-right"
+                    value={drafts[invoice.invoice_id] ?? ""}
+                    onChange={(event) => setDrafts((current) => ({ ...current, [invoice.invoice_id]: event.target.value }))}
+                  />
+                </div>
+              ))}
+              <div className="flex items-center justify-between border-t border-border pt-3 text-sm">
+                <span className="text-muted-foreground">Applying</span>
+                <span className={`font-semibold ${isOverAllocated ? "text-destructive" : ""}`}>
+                  {formatCurrency(allocatedTotal, selected?.currency)}
+                </span>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleApply} disabled={isApplying || isOverAllocated || allocations.length === 0}>
+                  {isApplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                  Apply credit
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/currency";
+
+interface PaymentMatchEvent {
+  event_id: string;
+  event_type: "applied" | "reversed";
+  amount: number | string;
+  match_method: string | null;
+  reason: string | null;
+  actor_email: string | null;
+  created_at: string;
+  invoice_id: string | null;
+  invoices: { invoice_number: string; currency: string } | null;
+}
+
+interface PaymentHistoryDialogProps {
+  paymentId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  reference: "quoted reference",
+  amount: "exact amount",
+  manual: "manual",
+  suggestion: "auto-applied suggestion",
+};
+
+export const PaymentHistoryDialog = ({ paymentId, onOpenChange }: PaymentHistoryDialogProps) => {
+  const [events, setEvents] = useState<PaymentMatchEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!paymentId) return;
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
+
+        const { data, error: invokeError } = await supabase.functions.invoke<PaymentMatchEvent[]>(
+          `match-payments?view=history&payment_id=${paymentId}`,
+          {
+            method: 'GET',
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          }
+        );
+
+        if (invokeError) throw invokeError;
+        setEvents(data ?? []);
+      } catch (fetchError: unknown) {
+        console.error('Error fetching payment history:', fetchError);
+        setError("Failed to load payment history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [paymentId]);
+
+  return (
+    <Dialog open={Boolean(paymentId)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Payment history</DialogTitle>
+          <DialogDescription>
+            {paymentId ? `Applications and reversals for payment ${paymentId.slice(0, 8)}...` : undefined}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-danger">{error}</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This payment has not been applied yet.</p>
+        ) : (
+          <ol className="space-y-3">
+            {events.map((event) => (
+              <li key={event.event_id} className="border-l-2 pl-3 border-border">
+                <div className="text-sm">
+                  <span className={event.event_type === "reversed" ? "font-medium text-danger" : "font-medium text-success"}>
+                    {event.event_type === "reversed" ? "Reversed" : "Applied"}
+                  </span>{" "}
+                  {formatCurrency(event.amount, event.invoices?.currency)}
+                  {" "}{event.event_type === "reversed" ? "from" : "to"}{" "}
+                  {event.invoices?.invoice_number ?? event.invoice_id?.slice(0, 8) ?? "-"}
+                  {event.match_method && event.event_type === "applied" && (
+                    <span className="text-muted-foreground"> ({METHOD_LABELS[event.match_method] ?? event.match_method})</span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(event.created_at).toLocaleString()}
+                  {event.actor_email ? ` • ${event.actor_email}` : " • system"}
+                </div>
+                {event.reason && (
+                  <div className="text-xs mt-1">Reason: {event.reason}</div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,16 +1,21 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+import { formatPredictedDate, formatPredictionRange, type PaymentPrediction, type RiskFactor } from "@/lib/risk";
 
 interface Invoice {
   id: string;
   customer: string;
   amount: number;
+  currency: string;
   dueDate: string;
   riskLevel: "high" | "medium" | "low";
   riskScore: number;
   daysOverdue: number;
   invoiceNumber: string;
+  riskFactors: RiskFactor[];
+  paymentPrediction: PaymentPrediction | null;
 }
 
 interface InvoiceListProps {
@@ -81,10 +86,15 @@ export const InvoiceList = ({ invoices, onInvoiceClick }: InvoiceListProps) => {
                       {invoice.daysOverdue} days overdue
                     </span>
                   )}
+                  {invoice.paymentPrediction && (
+                    <span title={`Likely between ${formatPredictionRange(invoice.paymentPrediction)}`}>
+                      Expected: {formatPredictedDate(invoice.paymentPrediction)}
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="text-right">
-                <p className="text-2xl font-bold">${invoice.amount.toLocaleString()}</p>
+                <p className="text-2xl font-bold">{formatCurrency(invoice.amount, invoice.currency)}</p>
                 <p className="text-sm text-muted-foreground">Risk Score: {invoice.riskScore}</p>
               </div>
             </div>
@@ -1,39 +1,56 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useNavigate } from "react-router-dom";
 import { Bell, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
 
-const notifications = [
-  {
-    id: 1,
-    type: "high-risk",
-    title: "High-Risk Invoice Detected",
-    description: "Metro Solutions invoice flagged with 91% risk score",
-    time: "2 minutes ago",
-    unread: true
-  },
-  {
-    id: 2,
-    type: "dispute",
-    title: "New Dispute Case Created",
-    description: "Short payment of $5,000 from Acme Corporation",
-    time: "15 minutes ago",
-    unread: true
-  },
-  {
-    id: 3,
-    type: "payment",
-    title: "Payment Auto-Cleared",
-    description: "Successfully matched 12 payments totaling $245K",
-    time: "1 hour ago",
-    unread: false
-  },
-];
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  description: string;
+  invoice_id: string | null;
+  customer_id: string | null;
+  created_at: string;
+}
+
+// Anything raised in the last day is shown as new
+const UNREAD_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 export const NotificationCenter = () => {
   const [isOpen, setIsOpen] = useState(false);
-  const unreadCount = notifications.filter(n => n.unread).length;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const navigate = useNavigate();
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<{ notifications: Notification[] }>('notifications', {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      setNotifications(data?.notifications ?? []);
+    } catch (error: unknown) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const isUnread = (notification: Notification) =>
+    Date.now() - new Date(notification.created_at).getTime() < UNREAD_WINDOW_MS;
+  const unreadCount = notifications.filter(isUnread).length;
 
   return (
     <div className="relative">
@@ -66,16 +83,24 @@ export const NotificationCenter = () => {
             </Button>
           </div>
           <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 && (
+              <p className="p-4 text-sm text-muted-foreground">No notifications in the last two weeks.</p>
+            )}
             {notifications.map((notification) => (
               <div
                 key={notification.id}
+                onClick={() => {
+                  if (!notification.customer_id) return;
+                  setIsOpen(false);
+                  navigate(`/customers/${notification.customer_id}`);
+                }}
                 className={`p-4 border-b border-border hover:bg-muted/50 transition-colors cursor-pointer ${
-                  notification.unread ? "bg-primary/5" : ""
+                  isUnread(notification) ? "bg-primary/5" : ""
                 }`}
               >
                 <div className="flex items-start gap-3">
                   <div className={`h-2 w-2 rounded-full mt-2 flex-shrink-0 ${
-                    notification.unread ? "bg-primary" : "bg-muted"
+                    isUnread(notification) ? "bg-primary" : "bg-muted"
                   }`} />
                   <div className="flex-1">
                     <h4 className="font-medium text-sm">{notification.title}</h4>
@@ -83,7 +108,7 @@ export const NotificationCenter = () => {
                       {notification.description}
                     </p>
                     <p className="text-xs text-muted-foreground mt-2">
-                      {notification.time}
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,61 @@
+import { Card } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/currency";
+import type { RiskDriverSummary } from "@/lib/risk";
+
+interface RiskDriversProps {
+  drivers: RiskDriverSummary[];
+  currency: string;
+  // Currencies whose balances have no FX rate and are left out of the exposure
+  excludedCurrencies?: string[];
+  activeFactor: string | null;
+  onFactorClick: (code: string | null) => void;
+}
+
+export const RiskDrivers = ({ drivers, currency, excludedCurrencies = [], activeFactor, onFactorClick }: RiskDriversProps) => {
+  const maxExposure = Math.max(1, ...drivers.map((driver) => driver.exposure));
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Risk Drivers</h2>
+        {activeFactor && (
+          <button className="text-xs text-primary hover:underline" onClick={() => onFactorClick(null)}>
+            Clear filter
+          </button>
+        )}
+      </div>
+      {drivers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No scored invoices yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {drivers.map((driver) => (
+            <button
+              key={driver.code}
+              className={`w-full text-left rounded-md p-2 transition-colors ${
+                activeFactor === driver.code ? "bg-primary/10" : "hover:bg-muted"
+              } ${activeFactor && activeFactor !== driver.code ? "opacity-50" : ""}`}
+              onClick={() => onFactorClick(activeFactor === driver.code ? null : driver.code)}
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{driver.label}</span>
+                <span className="text-muted-foreground">{formatCurrency(driver.exposure, currency)}</span>
+              </div>
+              <div className="h-1.5 mt-1 rounded-full bg-muted overflow-hidden">
+                <div className="h-full bg-danger" style={{ width: `${(driver.exposure / maxExposure) * 100}%` }} />
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {driver.invoiceCount} invoice{driver.invoiceCount === 1 ? "" : "s"}
+                {driver.topCount > 0 ? `, largest factor on ${driver.topCount}` : ""}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+      {excludedCurrencies.length > 0 && (
+        <p className="text-xs text-muted-foreground mt-3">
+          Exposure excludes {excludedCurrencies.join(", ")} (no FX rate)
+        </p>
+      )}
+    </Card>
+  );
+};
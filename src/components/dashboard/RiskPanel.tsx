@@ -1,20 +1,35 @@
-import { X, TrendingUp, DollarSign, Clock, AlertCircle, RefreshCw } from "lucide-react";
+import { X, TrendingUp, AlertCircle, RefreshCw, ChartLine, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import {
+  formatPredictedDate,
+  formatPredictionRange,
+  formatRiskFactorValue,
+  type PaymentPrediction,
+  type RiskFactor,
+  type RiskHistory,
+} from "@/lib/risk";
+import { RiskSparkline } from "@/components/dashboard/RiskSparkline";
 
 interface Invoice {
   id: string;
   customer: string;
+  customerId?: string;
   amount: number;
+  currency: string;
   dueDate: string;
   riskLevel: "high" | "medium" | "low";
   riskScore: number;
   daysOverdue: number;
   invoiceNumber: string;
   riskExplanation?: string;
+  riskFactors: RiskFactor[];
+  paymentPrediction: PaymentPrediction | null;
 }
 
 interface RiskPanelProps {
@@ -26,8 +41,40 @@ interface RiskPanelProps {
 export const RiskPanel = ({ invoice, onClose, onRiskUpdated }: RiskPanelProps) => {
   const [calculating, setCalculating] = useState(false);
   const [currentInvoice, setCurrentInvoice] = useState(invoice);
+  const [history, setHistory] = useState<RiskHistory | null>(null);
   const { toast } = useToast();
 
+  const fetchHistory = useCallback(async (invoiceId: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<{
+        invoice: Array<{ risk_score: number; scored_at: string }>;
+        customer: Array<{ risk_score: number; date: string }>;
+      }>(`risk-history?invoice_id=${invoiceId}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      setHistory({
+        invoice: (data?.invoice ?? []).map((point) => ({ riskScore: point.risk_score, at: point.scored_at })),
+        customer: (data?.customer ?? []).map((point) => ({ riskScore: point.risk_score, at: point.date })),
+      });
+    } catch (error: unknown) {
+      console.error('Error fetching risk history:', error);
+    }
+  }, []);
+
+  const invoiceId = invoice?.id;
+  useEffect(() => {
+    setHistory(null);
+    if (invoiceId) fetchHistory(invoiceId);
+  }, [invoiceId, fetchHistory]);
+
   if (!invoice) return null;
 
   const displayInvoice = currentInvoice || invoice;
@@ -66,9 +113,12 @@ export const RiskPanel = ({ invoice, onClose, onRiskUpdated }: RiskPanelProps) =
         riskScore,
         riskLevel,
         riskExplanation: data.risk_explanation,
+        riskFactors: data.risk_factors ?? [],
+        paymentPrediction: data.payment_prediction ?? null,
       };
 
       setCurrentInvoice(updatedInvoice);
+      fetchHistory(invoice.id);
       
       if (onRiskUpdated) {
         onRiskUpdated(updatedInvoice);
@@ -90,77 +140,9 @@ export const RiskPanel = ({ invoice, onClose, onRiskUpdated }: RiskPanelProps) =
     }
   };
 
-  const getRiskFactors = () => {
-    if (displayInvoice.daysOverdue === 0 && displayInvoice.riskLevel === "high") {
-      // Proactive prediction for not-yet-overdue high-risk invoices
-      return [
-        {
-          icon: Clock,
-          title: "Historical Payment Pattern",
-          description: `${displayInvoice.customer} has paid late on 4 of the last 6 invoices (avg 8 days late)`,
-          impact: "High Impact",
-          impactColor: "text-danger"
-        },
-        {
-          icon: DollarSign,
-          title: "Invoice Value Risk",
-          description: `Amount of $${displayInvoice.amount.toLocaleString()} is 62% above customer's typical payment capacity`,
-          impact: "High Impact",
-          impactColor: "text-danger"
-        },
-        {
-          icon: TrendingUp,
-          title: "Predictive Model Analysis",
-          description: `AI model predicts 82% probability of payment delay beyond due date`,
-          impact: "Critical",
-          impactColor: "text-danger"
-        },
-        {
-          icon: AlertCircle,
-          title: "Financial Health Indicators",
-          description: "Customer's credit score decreased 12% in last quarter; cash flow concerns detected",
-          impact: "High Impact",
-          impactColor: "text-danger"
-        }
-      ];
-    }
-    
-    // Default factors for overdue or lower-risk invoices
-    return [
-      {
-        icon: Clock,
-        title: "Payment History",
-        description: `${displayInvoice.customer} has paid late on 3 of the last 5 invoices`,
-        impact: "High Impact",
-        impactColor: "text-danger"
-      },
-      {
-        icon: DollarSign,
-        title: "Invoice Value",
-        description: `Amount of $${displayInvoice.amount.toLocaleString()} is 45% above customer average`,
-        impact: "Medium Impact",
-        impactColor: "text-warning"
-      },
-      {
-        icon: TrendingUp,
-        title: "Current Days Overdue",
-        description: displayInvoice.daysOverdue > 0 
-          ? `Invoice is ${displayInvoice.daysOverdue} days overdue` 
-          : "Invoice is not yet due",
-        impact: displayInvoice.daysOverdue > 0 ? "High Impact" : "Low Impact",
-        impactColor: displayInvoice.daysOverdue > 0 ? "text-danger" : "text-success"
-      },
-      {
-        icon: AlertCircle,
-        title: "Industry Trends",
-        description: "Recent economic indicators show 15% slowdown in customer's sector",
-        impact: "Medium Impact",
-        impactColor: "text-warning"
-      }
-    ];
-  };
-
-  const riskFactors = getRiskFactors();
+  // Ranked as scored: the largest effect on the score first, whichever way it pushes
+  const riskFactors = displayInvoice.riskFactors;
+  const maxContribution = Math.max(0.01, ...riskFactors.map((factor) => Math.abs(factor.contribution)));
 
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex justify-end animate-fade-in">
@@ -206,10 +188,16 @@ export const RiskPanel = ({ invoice, onClose, onRiskUpdated }: RiskPanelProps) =
             <div className="flex items-center justify-between mb-4">
               <div>
                 <h3 className="text-xl font-semibold">{displayInvoice.invoiceNumber}</h3>
-                <p className="text-muted-foreground">{displayInvoice.customer}</p>
+                {displayInvoice.customerId ? (
+                  <Link to={`/customers/${displayInvoice.customerId}`} className="text-primary hover:underline">
+                    {displayInvoice.customer}
+                  </Link>
+                ) : (
+                  <p className="text-muted-foreground">{displayInvoice.customer}</p>
+                )}
               </div>
               <div className="text-right">
-                <p className="text-3xl font-bold">${displayInvoice.amount.toLocaleString()}</p>
+                <p className="text-3xl font-bold">{formatCurrency(displayInvoice.amount, displayInvoice.currency)}</p>
                 <p className="text-sm text-muted-foreground">Due: {new Date(displayInvoice.dueDate).toLocaleDateString()}</p>
               </div>
             </div>
@@ -227,34 +215,88 @@ export const RiskPanel = ({ invoice, onClose, onRiskUpdated }: RiskPanelProps) =
             </div>
           </div>
 
+          {displayInvoice.paymentPrediction && (
+            <div className="bg-muted/50 rounded-lg p-4 flex items-start gap-3">
+              <CalendarClock className="h-5 w-5 text-primary mt-0.5" />
+              <div>
+                <p className="font-semibold">
+                  Expected payment: {formatPredictedDate(displayInvoice.paymentPrediction)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Most likely {formatPredictionRange(displayInvoice.paymentPrediction)},{" "}
+                  {displayInvoice.paymentPrediction.basis === "customer"
+                    ? `from how ${displayInvoice.customer} has paid before`
+                    : displayInvoice.paymentPrediction.basis === "portfolio"
+                    ? "from how all customers have paid, as this one has too few paid invoices"
+                    : "from the due date, as no invoices have been paid yet"}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <ChartLine className="h-5 w-5 text-primary" />
+              Risk Trend
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              <RiskSparkline label="This invoice" points={history?.invoice ?? []} />
+              <RiskSparkline label={`${displayInvoice.customer}, daily average`} points={history?.customer ?? []} />
+            </div>
+          </div>
+
           <div>
             <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
               <TrendingUp className="h-5 w-5 text-primary" />
               Key Risk Factors
             </h3>
-            <div className="space-y-4">
-              {riskFactors.map((factor, index) => (
-                <div 
-                  key={index}
-                  className="bg-muted/50 rounded-lg p-4 hover:bg-muted transition-colors duration-200"
-                >
-                  <div className="flex items-start gap-3">
-                    <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
-                      <factor.icon className="h-5 w-5 text-primary" />
+            {riskFactors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This invoice has not been scored yet. Recalculate to see what drives its risk.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {riskFactors.map((factor) => (
+                  <div key={factor.code} className="bg-muted/50 rounded-lg p-3">
+                    <div className="flex items-center justify-between text-sm mb-2">
+                      <span className="font-medium">{factor.label}</span>
+                      <span className="text-muted-foreground">{formatRiskFactorValue(factor)}</span>
                     </div>
-                    <div className="flex-1">
-                      <div className="flex items-center justify-between mb-1">
-                        <h4 className="font-semibold">{factor.title}</h4>
-                        <span className={`text-sm font-medium ${factor.impactColor}`}>
-                          {factor.impact}
-                        </span>
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 grid grid-cols-2 h-2">
+                        <div className="flex justify-end bg-muted rounded-l-full overflow-hidden">
+                          {factor.contribution < 0 && (
+                            <div
+                              className="h-full bg-success"
+                              style={{ width: `${(Math.abs(factor.contribution) / maxContribution) * 100}%` }}
+                            />
+                          )}
+                        </div>
+                        <div className="bg-muted rounded-r-full overflow-hidden">
+                          {factor.contribution > 0 && (
+                            <div
+                              className="h-full bg-danger"
+                              style={{ width: `${(factor.contribution / maxContribution) * 100}%` }}
+                            />
+                          )}
+                        </div>
                       </div>
-                      <p className="text-sm text-muted-foreground">{factor.description}</p>
+                      <span
+                        className={`w-14 text-right text-xs font-medium ${
+                          factor.contribution > 0 ? "text-danger" : factor.contribution < 0 ? "text-success" : "text-muted-foreground"
+                        }`}
+                      >
+                        {factor.contribution > 0 ? "+" : ""}
+                        {factor.contribution.toFixed(2)}
+                      </span>
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Bars show each factor's effect on the score: red raises the risk, green lowers it.
+                </p>
+              </div>
+            )}
           </div>
 
           <div className="bg-primary/10 rounded-lg p-4 border-l-4 border-primary">
@@ -0,0 +1,44 @@
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, YAxis } from "recharts";
+import type { RiskHistoryPoint } from "@/lib/risk";
+
+interface RiskSparklineProps {
+  label: string;
+  points: RiskHistoryPoint[];
+}
+
+export const RiskSparkline = ({ label, points }: RiskSparklineProps) => {
+  const first = points[0]?.riskScore;
+  const last = points[points.length - 1]?.riskScore;
+  const change = first !== undefined && last !== undefined ? Math.round((last - first) * 100) : 0;
+  const color = change > 0 ? "hsl(var(--danger))" : change < 0 ? "hsl(var(--success))" : "hsl(var(--primary))";
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        {points.length > 1 && (
+          <span className={change > 0 ? "text-danger" : change < 0 ? "text-success" : "text-muted-foreground"}>
+            {Math.round(first * 100)} → {Math.round(last * 100)}
+          </span>
+        )}
+      </div>
+      {points.length < 2 ? (
+        <p className="text-xs text-muted-foreground mt-2">
+          {points.length === 0 ? "No scores recorded yet." : "One score so far; the trend appears after the next scoring."}
+        </p>
+      ) : (
+        <div className="h-12 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <YAxis domain={[0, 1]} hide />
+              {/* Band boundaries, as on the dashboard */}
+              <ReferenceLine y={0.7} stroke="hsl(var(--danger))" strokeDasharray="2 2" strokeOpacity={0.4} />
+              <ReferenceLine y={0.4} stroke="hsl(var(--warning))" strokeDasharray="2 2" strokeOpacity={0.4} />
+              <Line type="monotone" dataKey="riskScore" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
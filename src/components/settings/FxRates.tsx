@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface FxRate {
+  rate_date: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+}
+
+interface FxRatesSummary {
+  functional_currency: string;
+  rate_count: number;
+  latest_rates: FxRate[];
+}
+
+type ImportFunctionResponse = {
+  imported: number;
+  errors: Array<{ line: number; message: string }>;
+};
+
+export const FxRates = () => {
+  const [summary, setSummary] = useState<FxRatesSummary | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const getErrorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unexpected error occurred';
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<FxRatesSummary>('fx-rates', {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      setSummary(data ?? null);
+    } catch (error: unknown) {
+      console.error('Error fetching FX rates:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<ImportFunctionResponse>('fx-rates', {
+        body: { file_name: file.name, content: await file.text() },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      if (data) {
+        const firstError = data.errors[0];
+        toast({
+          title: `Imported ${data.imported} FX rate${data.imported === 1 ? "" : "s"}`,
+          description: data.errors.length > 0
+            ? `${data.errors.length} line${data.errors.length === 1 ? "" : "s"} skipped (line ${firstError.line}: ${firstError.message})`
+            : file.name,
+          variant: data.errors.length > 0 ? "destructive" : undefined,
+        });
+      }
+
+      await fetchRates();
+    } catch (error: unknown) {
+      console.error('Error importing FX rates:', error);
+      toast({
+        title: "Import failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-card space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">FX rates</h2>
+          <p className="text-sm text-muted-foreground">
+            {summary
+              ? `Reporting currency ${summary.functional_currency}. ${summary.rate_count} rate${summary.rate_count === 1 ? "" : "s"} loaded.`
+              : "Rates used to match and report payments in other currencies."}
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,.tsv"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+          {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          Import rates
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        One rate per row: date (YYYY-MM-DD), from currency, to currency and rate. A rate already loaded for the same pair and date is replaced.
+      </p>
+
+      {summary && summary.latest_rates.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pair</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>As of</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.latest_rates.map((rate) => (
+              <TableRow key={`${rate.from_currency}-${rate.to_currency}`}>
+                <TableCell className="font-medium">{rate.from_currency}/{rate.to_currency}</TableCell>
+                <TableCell>{Number(rate.rate).toLocaleString(undefined, { maximumFractionDigits: 6 })}</TableCell>
+                <TableCell>{new Date(rate.rate_date).toLocaleDateString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from "react";
+import { BrainCircuit, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface RiskModelSummary {
+  version: number;
+  is_default: boolean;
+  sample_size: number;
+  trained_at: string | null;
+  metrics: {
+    invoice_count: number;
+    late_rate: number;
+    log_loss: number;
+    accuracy: number;
+  } | null;
+}
+
+export const RiskModel = () => {
+  const [model, setModel] = useState<RiskModelSummary | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+  const [isBacktesting, setIsBacktesting] = useState(false);
+  const { toast } = useToast();
+
+  const getErrorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unexpected error occurred';
+
+  const fetchModel = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<RiskModelSummary>('train-risk-model', {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      setModel(data ?? null);
+    } catch (error: unknown) {
+      console.error('Error fetching risk model:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchModel();
+  }, [fetchModel]);
+
+  const handleTrain = async () => {
+    try {
+      setIsTraining(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<RiskModelSummary>('train-risk-model', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      if (data) {
+        setModel(data);
+        toast({
+          title: `Risk model v${data.version} trained`,
+          description: data.metrics
+            ? `${data.metrics.invoice_count} paid invoices, ${Math.round(data.metrics.accuracy * 100)}% accurate on them`
+            : undefined,
+        });
+      }
+    } catch (error: unknown) {
+      console.error('Error training risk model:', error);
+      toast({
+        title: "Training failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const handleBacktest = async () => {
+    try {
+      setIsBacktesting(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<string>('risk-backtest?format=markdown', {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      const url = URL.createObjectURL(new Blob([data ?? ""], { type: "text/markdown" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `risk-backtest-v${model?.version ?? 0}-${new Date().toISOString().slice(0, 10)}.md`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      console.error('Error backtesting risk model:', error);
+      toast({
+        title: "Backtest failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsBacktesting(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-card space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Risk model</h2>
+          <p className="text-sm text-muted-foreground">
+            {!model
+              ? "Scores invoices from each customer's payment history."
+              : model.is_default
+              ? "Using the built-in model. Train one from your paid invoices to fit your customers."
+              : `Version ${model.version}, trained ${model.trained_at ? new Date(model.trained_at).toLocaleDateString() : ""} on ${model.metrics?.invoice_count ?? model.sample_size} paid invoices.`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleBacktest} disabled={isBacktesting} title="Scores past invoices as of their issue dates and compares with how they were paid">
+            {isBacktesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Backtest report
+          </Button>
+          <Button variant="outline" onClick={handleTrain} disabled={isTraining}>
+            {isTraining ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BrainCircuit className="h-4 w-4 mr-2" />}
+            Train model
+          </Button>
+        </div>
+      </div>
+
+      {model?.metrics && (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Paid late</p>
+            <p className="font-semibold">{Math.round(model.metrics.late_rate * 100)}%</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Accuracy</p>
+            <p className="font-semibold">{Math.round(model.metrics.accuracy * 100)}%</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Log loss</p>
+            <p className="font-semibold">{model.metrics.log_loss.toFixed(3)}</p>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -14,9 +14,238 @@ export type Database = {
   }
   public: {
     Tables: {
+      credit_limit_alerts: {
+        Row: {
+          alert_id: string
+          created_at: string
+          credit_hold: boolean
+          credit_limit: number | null
+          customer_id: string
+          exposure: number
+          invoice_id: string
+          tenant_id: string
+        }
+        Insert: {
+          alert_id?: string
+          created_at?: string
+          credit_hold?: boolean
+          credit_limit?: number | null
+          customer_id: string
+          exposure: number
+          invoice_id: string
+          tenant_id: string
+        }
+        Update: {
+          alert_id?: string
+          created_at?: string
+          credit_hold?: boolean
+          credit_limit?: number | null
+          customer_id?: string
+          exposure?: number
+          invoice_id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_limit_alerts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "credit_limit_alerts_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "credit_limit_alerts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      credit_limit_changes: {
+        Row: {
+          change_id: string
+          changed_at: string
+          changed_by: string | null
+          credit_limit: number | null
+          customer_id: string
+          previous_limit: number | null
+          tenant_id: string
+        }
+        Insert: {
+          change_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          credit_limit?: number | null
+          customer_id: string
+          previous_limit?: number | null
+          tenant_id: string
+        }
+        Update: {
+          change_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          credit_limit?: number | null
+          customer_id?: string
+          previous_limit?: number | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_limit_changes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "credit_limit_changes_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      credit_memo_applications: {
+        Row: {
+          amount: number
+          applied_at: string | null
+          applied_by: string | null
+          credit_application_id: string
+          credit_memo_id: string
+          dispute_id: string | null
+          invoice_id: string
+          payment_id: string | null
+          reversed_at: string | null
+          reversed_by: string | null
+          tenant_id: string
+        }
+        Insert: {
+          amount: number
+          applied_at?: string | null
+          applied_by?: string | null
+          credit_application_id?: string
+          credit_memo_id: string
+          dispute_id?: string | null
+          invoice_id: string
+          payment_id?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+          tenant_id: string
+        }
+        Update: {
+          amount?: number
+          applied_at?: string | null
+          applied_by?: string | null
+          credit_application_id?: string
+          credit_memo_id?: string
+          dispute_id?: string | null
+          invoice_id?: string
+          payment_id?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_memo_applications_credit_memo_id_fkey"
+            columns: ["credit_memo_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "credit_memo_applications_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["dispute_id"]
+          },
+          {
+            foreignKeyName: "credit_memo_applications_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "credit_memo_applications_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["payment_id"]
+          },
+          {
+            foreignKeyName: "credit_memo_applications_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      customer_payer_aliases: {
+        Row: {
+          alias_id: string
+          alias_type: string
+          alias_value: string
+          confirmed_matches: number
+          created_at: string | null
+          customer_id: string
+          last_confirmed_at: string | null
+          tenant_id: string
+        }
+        Insert: {
+          alias_id?: string
+          alias_type: string
+          alias_value: string
+          confirmed_matches?: number
+          created_at?: string | null
+          customer_id: string
+          last_confirmed_at?: string | null
+          tenant_id: string
+        }
+        Update: {
+          alias_id?: string
+          alias_type?: string
+          alias_value?: string
+          confirmed_matches?: number
+          created_at?: string | null
+          customer_id?: string
+          last_confirmed_at?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_payer_aliases_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "customer_payer_aliases_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           created_at: string | null
+          credit_hold: boolean
+          credit_hold_reason: string | null
+          credit_limit: number | null
           customer_id: string
           name: string
           payment_history_notes: string | null
@@ -24,6 +253,9 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          credit_hold?: boolean
+          credit_hold_reason?: string | null
+          credit_limit?: number | null
           customer_id?: string
           name: string
           payment_history_notes?: string | null
@@ -31,6 +263,9 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          credit_hold?: boolean
+          credit_hold_reason?: string | null
+          credit_limit?: number | null
           customer_id?: string
           name?: string
           payment_history_notes?: string | null
@@ -49,32 +284,48 @@ export type Database = {
       disputes: {
         Row: {
           created_at: string | null
+          credit_memo_id: string | null
+          difference_type: string | null
           dispute_id: string
           disputed_amount: number
           invoice_id: string
+          payment_id: string | null
           reason: string | null
           status: string | null
           tenant_id: string | null
         }
         Insert: {
           created_at?: string | null
+          credit_memo_id?: string | null
+          difference_type?: string | null
           dispute_id?: string
           disputed_amount: number
           invoice_id: string
+          payment_id?: string | null
           reason?: string | null
           status?: string | null
           tenant_id?: string | null
         }
         Update: {
           created_at?: string | null
+          credit_memo_id?: string | null
+          difference_type?: string | null
           dispute_id?: string
           disputed_amount?: number
           invoice_id?: string
+          payment_id?: string | null
           reason?: string | null
           status?: string | null
           tenant_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "disputes_credit_memo_id_fkey"
+            columns: ["credit_memo_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
           {
             foreignKeyName: "disputes_invoice_id_fkey"
             columns: ["invoice_id"]
@@ -82,6 +333,13 @@ export type Database = {
             referencedRelation: "invoices"
             referencedColumns: ["invoice_id"]
           },
+          {
+            foreignKeyName: "disputes_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["payment_id"]
+          },
           {
             foreignKeyName: "disputes_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -91,39 +349,174 @@ export type Database = {
           },
         ]
       }
+      fx_rates: {
+        Row: {
+          created_at: string
+          from_currency: string
+          fx_rate_id: string
+          imported_by: string | null
+          rate: number
+          rate_date: string
+          source: string | null
+          tenant_id: string
+          to_currency: string
+        }
+        Insert: {
+          created_at?: string
+          from_currency: string
+          fx_rate_id?: string
+          imported_by?: string | null
+          rate: number
+          rate_date: string
+          source?: string | null
+          tenant_id: string
+          to_currency: string
+        }
+        Update: {
+          created_at?: string
+          from_currency?: string
+          fx_rate_id?: string
+          imported_by?: string | null
+          rate?: number
+          rate_date?: string
+          source?: string | null
+          tenant_id?: string
+          to_currency?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fx_rates_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      invoice_write_offs: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          invoice_id: string
+          payment_id: string | null
+          reason: string | null
+          reversed_at: string | null
+          reversed_by: string | null
+          tenant_id: string
+          write_off_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          invoice_id: string
+          payment_id?: string | null
+          reason?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+          tenant_id: string
+          write_off_id?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          invoice_id?: string
+          payment_id?: string | null
+          reason?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+          tenant_id?: string
+          write_off_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_write_offs_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "invoice_write_offs_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["payment_id"]
+          },
+          {
+            foreignKeyName: "invoice_write_offs_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
       invoices: {
         Row: {
           amount: number
+          amount_credited: number
+          amount_paid: number
+          amount_written_off: number
           created_at: string | null
+          credit_reason: string | null
+          currency: string
           customer_id: string
+          document_type: string
           due_date: string
           invoice_id: string
           invoice_number: string
+          open_balance: number | null
+          original_invoice_id: string | null
           risk_explanation: string | null
+          risk_factors: Json
+          risk_model_version: number | null
           risk_score: number | null
           status: string | null
           tenant_id: string | null
         }
         Insert: {
           amount: number
+          amount_credited?: number
+          amount_paid?: number
+          amount_written_off?: number
           created_at?: string | null
+          credit_reason?: string | null
+          currency?: string
           customer_id: string
+          document_type?: string
           due_date: string
           invoice_id?: string
           invoice_number: string
+          open_balance?: never
+          original_invoice_id?: string | null
           risk_explanation?: string | null
+          risk_factors?: Json
+          risk_model_version?: number | null
           risk_score?: number | null
           status?: string | null
           tenant_id?: string | null
         }
         Update: {
           amount?: number
+          amount_credited?: number
+          amount_paid?: number
+          amount_written_off?: number
           created_at?: string | null
+          credit_reason?: string | null
+          currency?: string
           customer_id?: string
+          document_type?: string
           due_date?: string
           invoice_id?: string
           invoice_number?: string
+          open_balance?: never
+          original_invoice_id?: string | null
           risk_explanation?: string | null
+          risk_factors?: Json
+          risk_model_version?: number | null
           risk_score?: number | null
           status?: string | null
           tenant_id?: string | null
@@ -136,6 +529,13 @@ export type Database = {
             referencedRelation: "customers"
             referencedColumns: ["customer_id"]
           },
+          {
+            foreignKeyName: "invoices_original_invoice_id_fkey"
+            columns: ["original_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
           {
             foreignKeyName: "invoices_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -145,35 +545,495 @@ export type Database = {
           },
         ]
       }
+      match_run_items: {
+        Row: {
+          amount_applied: number
+          conflict: boolean
+          invoice_ids: string[]
+          item_id: string
+          matched_by: string | null
+          outcome: string
+          payment_id: string
+          processed_at: string | null
+          reason: string | null
+          run_id: string
+          sequence: number
+          tenant_id: string
+        }
+        Insert: {
+          amount_applied?: number
+          conflict?: boolean
+          invoice_ids?: string[]
+          item_id?: string
+          matched_by?: string | null
+          outcome?: string
+          payment_id: string
+          processed_at?: string | null
+          reason?: string | null
+          run_id: string
+          sequence: number
+          tenant_id: string
+        }
+        Update: {
+          amount_applied?: number
+          conflict?: boolean
+          invoice_ids?: string[]
+          item_id?: string
+          matched_by?: string | null
+          outcome?: string
+          payment_id?: string
+          processed_at?: string | null
+          reason?: string | null
+          run_id?: string
+          sequence?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_run_items_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["payment_id"]
+          },
+          {
+            foreignKeyName: "match_run_items_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "match_runs"
+            referencedColumns: ["run_id"]
+          },
+          {
+            foreignKeyName: "match_run_items_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      match_runs: {
+        Row: {
+          auto_cleared_amount: number
+          auto_cleared_count: number
+          completed_at: string | null
+          conflict_count: number
+          error_message: string | null
+          needs_review_count: number
+          processed_payments: number
+          run_id: string
+          started_at: string | null
+          started_by: string | null
+          status: string
+          tenant_id: string
+          total_payments: number
+        }
+        Insert: {
+          auto_cleared_amount?: number
+          auto_cleared_count?: number
+          completed_at?: string | null
+          conflict_count?: number
+          error_message?: string | null
+          needs_review_count?: number
+          processed_payments?: number
+          run_id?: string
+          started_at?: string | null
+          started_by?: string | null
+          status?: string
+          tenant_id: string
+          total_payments?: number
+        }
+        Update: {
+          auto_cleared_amount?: number
+          auto_cleared_count?: number
+          completed_at?: string | null
+          conflict_count?: number
+          error_message?: string | null
+          needs_review_count?: number
+          processed_payments?: number
+          run_id?: string
+          started_at?: string | null
+          started_by?: string | null
+          status?: string
+          tenant_id?: string
+          total_payments?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_runs_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      matching_settings: {
+        Row: {
+          auto_apply_enabled: boolean
+          auto_apply_min_confidence: number
+          auto_dispute_threshold: number | null
+          combo_bonus: number
+          created_at: string | null
+          exact_tolerance: number
+          fx_tolerance_percent: number
+          suggestion_tolerance_minimum: number
+          suggestion_tolerance_percent: number
+          tenant_id: string
+          updated_at: string | null
+          updated_by: string | null
+          write_off_limit: number | null
+        }
+        Insert: {
+          auto_apply_enabled?: boolean
+          auto_apply_min_confidence?: number
+          auto_dispute_threshold?: number | null
+          combo_bonus?: number
+          created_at?: string | null
+          exact_tolerance?: number
+          fx_tolerance_percent?: number
+          suggestion_tolerance_minimum?: number
+          suggestion_tolerance_percent?: number
+          tenant_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+          write_off_limit?: number | null
+        }
+        Update: {
+          auto_apply_enabled?: boolean
+          auto_apply_min_confidence?: number
+          auto_dispute_threshold?: number | null
+          combo_bonus?: number
+          created_at?: string | null
+          exact_tolerance?: number
+          fx_tolerance_percent?: number
+          suggestion_tolerance_minimum?: number
+          suggestion_tolerance_percent?: number
+          tenant_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          write_off_limit?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "matching_settings_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      payment_applications: {
+        Row: {
+          amount_applied: number
+          applied_at: string | null
+          applied_by: string | null
+          application_id: string
+          exchange_rate: number
+          fx_gain_loss: number
+          invoice_id: string
+          invoice_status_before: string | null
+          match_method: string
+          payment_amount: number
+          payment_id: string
+          reversal_reason: string | null
+          reversed_at: string | null
+          reversed_by: string | null
+          tenant_id: string
+        }
+        Insert: {
+          amount_applied: number
+          applied_at?: string | null
+          applied_by?: string | null
+          application_id?: string
+          exchange_rate?: number
+          fx_gain_loss?: number
+          invoice_id: string
+          invoice_status_before?: string | null
+          match_method?: string
+          payment_amount: number
+          payment_id: string
+          reversal_reason?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+          tenant_id: string
+        }
+        Update: {
+          amount_applied?: number
+          applied_at?: string | null
+          applied_by?: string | null
+          application_id?: string
+          exchange_rate?: number
+          fx_gain_loss?: number
+          invoice_id?: string
+          invoice_status_before?: string | null
+          match_method?: string
+          payment_amount?: number
+          payment_id?: string
+          reversal_reason?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_applications_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "payment_applications_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["payment_id"]
+          },
+          {
+            foreignKeyName: "payment_applications_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      payment_date_predictions: {
+        Row: {
+          basis: string
+          customer_id: string
+          earliest_date: string
+          invoice_id: string
+          latest_date: string
+          predicted_at: string
+          predicted_date: string
+          prediction_id: string
+          sample_size: number
+          tenant_id: string
+        }
+        Insert: {
+          basis: string
+          customer_id: string
+          earliest_date: string
+          invoice_id: string
+          latest_date: string
+          predicted_at?: string
+          predicted_date: string
+          prediction_id?: string
+          sample_size?: number
+          tenant_id: string
+        }
+        Update: {
+          basis?: string
+          customer_id?: string
+          earliest_date?: string
+          invoice_id?: string
+          latest_date?: string
+          predicted_at?: string
+          predicted_date?: string
+          prediction_id?: string
+          sample_size?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_date_predictions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "payment_date_predictions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "payment_date_predictions_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      payment_match_events: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          amount: number
+          application_id: string | null
+          created_at: string | null
+          event_id: string
+          event_type: string
+          invoice_id: string | null
+          match_method: string | null
+          payment_id: string
+          reason: string | null
+          tenant_id: string
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          amount: number
+          application_id?: string | null
+          created_at?: string | null
+          event_id?: string
+          event_type: string
+          invoice_id?: string | null
+          match_method?: string | null
+          payment_id: string
+          reason?: string | null
+          tenant_id: string
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          amount?: number
+          application_id?: string | null
+          created_at?: string | null
+          event_id?: string
+          event_type?: string
+          invoice_id?: string | null
+          match_method?: string | null
+          payment_id?: string
+          reason?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_match_events_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "payment_applications"
+            referencedColumns: ["application_id"]
+          },
+          {
+            foreignKeyName: "payment_match_events_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "payment_match_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["payment_id"]
+          },
+          {
+            foreignKeyName: "payment_match_events_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
       payments: {
         Row: {
+          amount_applied: number
           amount_received: number
+          bank_reference: string | null
+          check_image_key: string | null
+          check_number: string | null
           created_at: string | null
+          currency: string
+          customer_id: string | null
+          import_fingerprint: string | null
+          lockbox_batch: string | null
+          lockbox_item: number | null
+          lockbox_number: string | null
+          match_evidence: Json | null
           matched_invoice_id: string | null
+          micr_account_number: string | null
+          micr_routing_number: string | null
+          on_account_at: string | null
+          on_account_by: string | null
+          on_account_reason: string | null
+          payer_account: string | null
+          payer_name: string | null
           payment_date: string
           payment_id: string
+          remittance_references: string[]
+          remittance_text: string | null
+          source: string
           status: string | null
           tenant_id: string | null
         }
         Insert: {
+          amount_applied?: number
           amount_received: number
+          bank_reference?: string | null
+          check_image_key?: string | null
+          check_number?: string | null
           created_at?: string | null
+          currency?: string
+          customer_id?: string | null
+          import_fingerprint?: string | null
+          lockbox_batch?: string | null
+          lockbox_item?: number | null
+          lockbox_number?: string | null
+          match_evidence?: Json | null
           matched_invoice_id?: string | null
+          micr_account_number?: string | null
+          micr_routing_number?: string | null
+          on_account_at?: string | null
+          on_account_by?: string | null
+          on_account_reason?: string | null
+          payer_account?: string | null
+          payer_name?: string | null
           payment_date: string
           payment_id?: string
+          remittance_references?: string[]
+          remittance_text?: string | null
+          source?: string
           status?: string | null
           tenant_id?: string | null
         }
         Update: {
+          amount_applied?: number
           amount_received?: number
+          bank_reference?: string | null
+          check_image_key?: string | null
+          check_number?: string | null
           created_at?: string | null
+          currency?: string
+          customer_id?: string | null
+          import_fingerprint?: string | null
+          lockbox_batch?: string | null
+          lockbox_item?: number | null
+          lockbox_number?: string | null
+          match_evidence?: Json | null
           matched_invoice_id?: string | null
+          micr_account_number?: string | null
+          micr_routing_number?: string | null
+          on_account_at?: string | null
+          on_account_by?: string | null
+          on_account_reason?: string | null
+          payer_account?: string | null
+          payer_name?: string | null
           payment_date?: string
           payment_id?: string
+          remittance_references?: string[]
+          remittance_text?: string | null
+          source?: string
           status?: string | null
           tenant_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["customer_id"]
+          },
           {
             foreignKeyName: "payments_matched_invoice_id_fkey"
             columns: ["matched_invoice_id"]
@@ -219,19 +1079,124 @@ export type Database = {
           },
         ]
       }
+      risk_models: {
+        Row: {
+          metrics: Json
+          model: Json
+          model_id: string
+          sample_size: number
+          tenant_id: string
+          trained_at: string | null
+          trained_by: string | null
+          version: number
+        }
+        Insert: {
+          metrics?: Json
+          model: Json
+          model_id?: string
+          sample_size: number
+          tenant_id: string
+          trained_at?: string | null
+          trained_by?: string | null
+          version: number
+        }
+        Update: {
+          metrics?: Json
+          model?: Json
+          model_id?: string
+          sample_size?: number
+          tenant_id?: string
+          trained_at?: string | null
+          trained_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_models_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
+      risk_score_history: {
+        Row: {
+          customer_id: string
+          history_id: string
+          invoice_id: string
+          previous_band: string | null
+          previous_score: number | null
+          risk_band: string
+          risk_model_version: number | null
+          risk_score: number
+          scored_at: string
+          tenant_id: string
+        }
+        Insert: {
+          customer_id: string
+          history_id?: string
+          invoice_id: string
+          previous_band?: string | null
+          previous_score?: number | null
+          risk_band: string
+          risk_model_version?: number | null
+          risk_score: number
+          scored_at?: string
+          tenant_id: string
+        }
+        Update: {
+          customer_id?: string
+          history_id?: string
+          invoice_id?: string
+          previous_band?: string | null
+          previous_score?: number | null
+          risk_band?: string
+          risk_model_version?: number | null
+          risk_score?: number
+          scored_at?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_score_history_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "risk_score_history_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["invoice_id"]
+          },
+          {
+            foreignKeyName: "risk_score_history_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["tenant_id"]
+          },
+        ]
+      }
       tenants: {
         Row: {
           created_at: string | null
+          functional_currency: string
           tenant_id: string
           tenant_name: string
         }
         Insert: {
           created_at?: string | null
+          functional_currency?: string
           tenant_id?: string
           tenant_name: string
         }
         Update: {
           created_at?: string | null
+          functional_currency?: string
           tenant_id?: string
           tenant_name?: string
         }
@@ -239,10 +1204,170 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      customer_credit_balances: {
+        Row: {
+          currency: string | null
+          customer_id: string | null
+          oldest_payment_date: string | null
+          payment_count: number | null
+          tenant_id: string | null
+          unapplied_amount: number | null
+        }
+        Relationships: []
+      }
+      invoice_risk_factors: {
+        Row: {
+          code: string | null
+          contribution: number | null
+          customer_id: string | null
+          invoice_id: string | null
+          label: string | null
+          open_balance: number | null
+          rank: number | null
+          risk_score: number | null
+          tenant_id: string | null
+          value: number | null
+          weight: number | null
+        }
+        Relationships: []
+      }
+      latest_payment_date_predictions: {
+        Row: {
+          basis: string | null
+          customer_id: string | null
+          earliest_date: string | null
+          invoice_id: string | null
+          latest_date: string | null
+          predicted_at: string | null
+          predicted_date: string | null
+          prediction_id: string | null
+          sample_size: number | null
+          tenant_id: string | null
+        }
+        Relationships: []
+      }
+      payment_prediction_accuracy: {
+        Row: {
+          actual_date: string | null
+          basis: string | null
+          customer_id: string | null
+          earliest_date: string | null
+          error_days: number | null
+          invoice_id: string | null
+          latest_date: string | null
+          predicted_at: string | null
+          predicted_date: string | null
+          prediction_id: string | null
+          tenant_id: string | null
+          within_range: boolean | null
+        }
+        Relationships: []
+      }
+      risk_rising_alerts: {
+        Row: {
+          customer_id: string | null
+          customer_name: string | null
+          history_id: string | null
+          invoice_id: string | null
+          invoice_number: string | null
+          previous_band: string | null
+          previous_score: number | null
+          risk_band: string | null
+          risk_score: number | null
+          scored_at: string | null
+          tenant_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_on_account_credit: {
+        Args: { p_allocations: Json; p_customer_id: string }
+        Returns: Json
+      }
+      apply_credit_memo: {
+        Args: {
+          p_allocations: Json
+          p_credit_memo_id: string
+          p_dispute_id?: string
+        }
+        Returns: Json
+      }
+      apply_payment: {
+        Args: {
+          p_allocations: Json
+          p_match_method?: string
+          p_payment_id: string
+          p_reason?: string
+          p_resolution?: string
+        }
+        Returns: Json
+      }
+      customer_exposure: {
+        Args: { p_customer_id: string }
+        Returns: number
+      }
+      find_fx_rate: {
+        Args: {
+          p_date: string
+          p_from: string
+          p_tenant_id: string
+          p_to: string
+        }
+        Returns: number
+      }
+      fx_rate: {
+        Args: {
+          p_date: string
+          p_from: string
+          p_tenant_id: string
+          p_to: string
+        }
+        Returns: number
+      }
+      issue_credit_memo: {
+        Args: {
+          p_amount: number
+          p_apply_to_original?: boolean
+          p_credit_memo_number?: string
+          p_customer_id: string
+          p_original_invoice_id?: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      place_on_account: {
+        Args: {
+          p_customer_id?: string
+          p_payment_id: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      refresh_invoice_balance: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
+      refresh_payment_balance: {
+        Args: { p_payment_id: string }
+        Returns: undefined
+      }
+      resolve_dispute_with_credit_memo: {
+        Args: { p_amount?: number; p_dispute_id: string; p_reason?: string }
+        Returns: Json
+      }
+      risk_band: {
+        Args: { p_score: number }
+        Returns: string
+      }
+      unapply_payment: {
+        Args: {
+          p_application_ids?: string[]
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,25 @@
+export const DEFAULT_CURRENCY = "USD";
+
+export function formatCurrency(value: number | string | undefined | null, currency: string = DEFAULT_CURRENCY) {
+  const amount = Number(value);
+  if (value === undefined || value === null || Number.isNaN(amount)) {
+    return "-";
+  }
+
+  return amount.toLocaleString(undefined, {
+    style: "currency",
+    currency: currency || DEFAULT_CURRENCY,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+// Headline figures, e.g. "$1.2M" or "€840K"
+export function formatCompactCurrency(value: number, currency: string = DEFAULT_CURRENCY) {
+  return value.toLocaleString(undefined, {
+    style: "currency",
+    currency: currency || DEFAULT_CURRENCY,
+    notation: "compact",
+    maximumFractionDigits: 1,
+  });
+}
@@ -0,0 +1,76 @@
+import { formatCompactCurrency } from "@/lib/currency";
+
+export type DsoMethod = "standard" | "countback" | "best_possible" | "add";
+export type DsoPeriod = "month" | "quarter" | "year";
+
+export const DSO_METHOD_LABELS: Record<DsoMethod, string> = {
+  standard: "Standard",
+  countback: "Countback",
+  best_possible: "Best possible",
+  add: "Avg days delinquent",
+};
+
+export const DSO_PERIOD_LABELS: Record<DsoPeriod, string> = {
+  month: "Month",
+  quarter: "Quarter",
+  year: "Year",
+};
+
+// One method's result from calculate-dso, with the figures it was calculated from
+export type DsoResult =
+  | {
+      method: "standard";
+      value: number | null;
+      inputs: { receivables: number; credit_sales: number; days: number };
+    }
+  | {
+      method: "best_possible";
+      value: number | null;
+      inputs: { current_receivables: number; credit_sales: number; days: number };
+    }
+  | {
+      method: "add";
+      value: number | null;
+      inputs: { standard_dso: number | null; best_possible_dso: number | null };
+    }
+  | {
+      method: "countback";
+      value: number | null;
+      inputs: {
+        receivables: number;
+        months: Array<{ start: string; end: string; days: number; credit_sales: number; days_counted: number }>;
+        unaccounted_receivables: number;
+      };
+    };
+
+export interface DsoReport {
+  as_of: string;
+  period: DsoPeriod;
+  period_start: string;
+  days: number;
+  currency: string;
+  method: DsoMethod;
+  dso: number | null;
+  results: Record<DsoMethod, DsoResult>;
+  // Currencies with no loaded rate, whose amounts are left out
+  unconverted_currencies: string[];
+}
+
+// How a result was calculated, e.g. "$1.2M AR / $850K sales × 30 days"
+export function describeDsoInputs(result: DsoResult, currency: string) {
+  switch (result.method) {
+    case "standard":
+      return `${formatCompactCurrency(result.inputs.receivables, currency)} AR / ${formatCompactCurrency(result.inputs.credit_sales, currency)} sales × ${result.inputs.days} days`;
+    case "best_possible":
+      return `${formatCompactCurrency(result.inputs.current_receivables, currency)} current AR / ${formatCompactCurrency(result.inputs.credit_sales, currency)} sales × ${result.inputs.days} days`;
+    case "add":
+      return `Standard ${result.inputs.standard_dso ?? "-"} less best possible ${result.inputs.best_possible_dso ?? "-"}`;
+    case "countback": {
+      const months = result.inputs.months.filter((month) => month.days_counted > 0).length;
+      const unaccounted = result.inputs.unaccounted_receivables > 0
+        ? `, ${formatCompactCurrency(result.inputs.unaccounted_receivables, currency)} older than that`
+        : "";
+      return `${formatCompactCurrency(result.inputs.receivables, currency)} AR counted back through ${months} month${months === 1 ? "" : "s"} of sales${unaccounted}`;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+// One feature's part in an invoice's risk score, as returned by predict-risk
+export interface RiskFactor {
+  code: string;
+  label: string;
+  value: number;
+  weight: number;
+  // Log-odds added to the score; positive raises the risk
+  contribution: number;
+}
+
+export interface RiskDriverSummary {
+  code: string;
+  label: string;
+  // Invoices where the factor is among the top three raising the score
+  invoiceCount: number;
+  // Invoices where it is the single largest
+  topCount: number;
+  exposure: number;
+  totalContribution: number;
+}
+
+// The factors that raised the score, largest first
+export function riskDrivers(factors: RiskFactor[], limit = 3) {
+  return factors
+    .filter((factor) => factor.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, limit);
+}
+
+export function summarizeRiskDrivers(invoices: Array<{ riskFactors: RiskFactor[]; exposure: number }>) {
+  const summaries = new Map<string, RiskDriverSummary>();
+
+  for (const invoice of invoices) {
+    riskDrivers(invoice.riskFactors).forEach((factor, index) => {
+      const summary = summaries.get(factor.code) ?? {
+        code: factor.code,
+        label: factor.label,
+        invoiceCount: 0,
+        topCount: 0,
+        exposure: 0,
+        totalContribution: 0,
+      };
+      summary.invoiceCount += 1;
+      summary.topCount += index === 0 ? 1 : 0;
+      summary.exposure += invoice.exposure;
+      summary.totalContribution += factor.contribution;
+      summaries.set(factor.code, summary);
+    });
+  }
+
+  return Array.from(summaries.values()).sort((a, b) => b.exposure - a.exposure);
+}
+
+export function formatRiskFactorValue(factor: RiskFactor) {
+  switch (factor.code) {
+    case "late_share":
+    case "dispute_rate":
+      return `${Math.round(factor.value * 100)}%`;
+    case "avg_days_late":
+    case "days_to_pay_spread":
+    case "invoice_age":
+      return `${Math.round(factor.value)} days`;
+    case "balance_to_max":
+    case "amount_ratio":
+      return `${factor.value.toFixed(1)}×`;
+    case "new_customer":
+      return factor.value ? "Yes" : "No";
+    default:
+      return factor.value.toString();
+  }
+}
+
+export interface RiskHistoryPoint {
+  // 0-1, as stored
+  riskScore: number;
+  // ISO timestamp for an invoice's scorings, ISO date for a customer's daily average
+  at: string;
+}
+
+export interface RiskHistory {
+  invoice: RiskHistoryPoint[];
+  customer: RiskHistoryPoint[];
+}
+
+// When an open invoice is expected to be paid, as predicted from past payment days
+export interface PaymentPrediction {
+  predicted_date: string;
+  earliest_date: string;
+  latest_date: string;
+  basis: "customer" | "portfolio" | "none";
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+export function formatPredictionRange(prediction: PaymentPrediction) {
+  return prediction.earliest_date === prediction.latest_date
+    ? formatDay(prediction.predicted_date)
+    : `${formatDay(prediction.earliest_date)} – ${formatDay(prediction.latest_date)}`;
+}
+
+export function formatPredictedDate(prediction: PaymentPrediction) {
+  return formatDay(prediction.predicted_date);
+}
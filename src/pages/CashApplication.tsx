@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -8,31 +8,80 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Loader2, RefreshCw } from "lucide-react";
+import { AlertTriangle, CheckCircle2, Eraser, History, Loader2, RefreshCw, RotateCcw, Upload, Wallet, Zap } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MatchRunDialog, type MatchRun, type MatchRunDetail } from "@/components/cash-application/MatchRunDialog";
+import { PaymentHistoryDialog } from "@/components/cash-application/PaymentHistoryDialog";
+import { OnAccountCredits } from "@/components/cash-application/OnAccountCredits";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
 
 interface Payment {
   payment_id: string;
   amount_received: number;
+  amount_applied: number;
+  currency: string;
   payment_date: string;
   status: string;
-  matched_invoice_id: string | null;
+  payer_name: string | null;
+  customer_id: string | null;
+  bank_reference: string | null;
+  check_number: string | null;
+  lockbox_batch: string | null;
+  lockbox_item: number | null;
+  payment_applications: Array<{
+    application_id: string;
+    invoice_id: string;
+    amount_applied: number;
+    reversed_at: string | null;
+    reversal_reason: string | null;
+    invoices: { invoice_number: string; currency: string } | null;
+  }>;
+}
+
+interface ReferenceEvidence {
+  invoiceId: string;
+  invoiceNumber: string;
+  token: string;
+  source: "structured" | "remittance_text" | "bank_reference";
+  matchType: "exact" | "normalized" | "ocr" | "fuzzy";
+  score: number;
 }
 
 interface InvoiceMatch {
   invoiceId: string;
   invoiceNumber: string;
+  // Negative for credit memos netted into a suggestion
   amount: number;
+  currency?: string;
+  isCreditMemo?: boolean;
+  evidence?: ReferenceEvidence | null;
 }
 
+type DifferenceType = "early_pay_discount" | "freight_deduction" | "tax_mismatch" | "short_payment";
+
+// Amounts are in the invoices' currency, which may differ from the payment's
 interface PartialMatchSuggestion {
   invoices: InvoiceMatch[];
+  currency: string;
   totalAmount: number;
   difference: number;
+  differenceType: DifferenceType | null;
   confidence: number;
   reason: string;
+  evidence: ReferenceEvidence[];
+  customerMatch: boolean;
+}
+
+interface PayerCustomer {
+  customerId: string;
+  customerName: string | null;
+  method: "account_alias" | "name_alias" | "name_similarity";
+  scope: "restricted" | "weighted" | "none";
 }
 
 interface MatchResult {
@@ -40,61 +89,160 @@ interface MatchResult {
   message: string;
   paymentId: string;
   paymentAmount?: number;
+  paymentCurrency: string;
   paymentDate?: string;
-  matchedInvoiceId: string | null;
+  unappliedAmount?: number;
   exactMatches: InvoiceMatch[];
   partialMatches: PartialMatchSuggestion[];
+  customer: PayerCustomer | null;
 }
 
+type Resolution = "none" | "write_off" | "dispute";
+
+type ImportFunctionResponse = {
+  imported: number;
+  duplicates: number;
+  errors: Array<{ line: number; message: string }>;
+};
+
+type BatchFunctionResponse = {
+  run: MatchRun;
+  processed: number;
+  done: boolean;
+};
+
+type ReferenceEvidenceResponse = {
+  invoice_id: string;
+  invoice_number: string;
+  token: string;
+  source: ReferenceEvidence["source"];
+  match_type: ReferenceEvidence["matchType"];
+  score: number;
+};
+
 type MatchFunctionResponse = {
   status: string;
   message: string;
   payment?: {
     payment_id: string;
     amount_received: number | string;
+    currency?: string;
     payment_date?: string;
     status: string;
-    matched_invoice_id: string | null;
+    unapplied_amount?: number | string;
   };
   exact_matches?: Array<{
     invoice_id: string;
     invoice_number: string;
     amount: number | string;
+    currency?: string;
+    evidence?: ReferenceEvidenceResponse | null;
   }>;
   partial_matches?: Array<{
     invoices: Array<{
       invoice_id: string;
       invoice_number: string;
       amount: number | string;
+      document_type?: "invoice" | "credit_memo";
     }>;
+    currency?: string;
     total_amount: number | string;
     difference: number | string;
+    difference_type?: DifferenceType | null;
     confidence: number | string;
     reason: string;
+    evidence?: ReferenceEvidenceResponse[];
+    customer_match?: boolean;
   }>;
+  customer?: {
+    customer_id: string;
+    customer_name: string | null;
+    method: PayerCustomer["method"];
+  } | null;
+  customer_scope?: PayerCustomer["scope"];
+};
+
+const EVIDENCE_SOURCE_LABELS: Record<ReferenceEvidence["source"], string> = {
+  structured: "structured remittance",
+  remittance_text: "remittance text",
+  bank_reference: "bank reference",
 };
 
+const EVIDENCE_MATCH_LABELS: Record<ReferenceEvidence["matchType"], string> = {
+  exact: "exact",
+  normalized: "ignoring prefix/zeros",
+  ocr: "typo-corrected",
+  fuzzy: "near match",
+};
+
+const DIFFERENCE_LABELS: Record<DifferenceType, string> = {
+  early_pay_discount: "Early-payment discount taken",
+  freight_deduction: "Freight deduction",
+  tax_mismatch: "Tax mismatch",
+  short_payment: "Unexplained short payment",
+};
+
+const CUSTOMER_METHOD_LABELS: Record<PayerCustomer["method"], string> = {
+  account_alias: "known payer account",
+  name_alias: "known payer name",
+  name_similarity: "similar customer name",
+};
+
+const toReferenceEvidence = (evidence: ReferenceEvidenceResponse): ReferenceEvidence => ({
+  invoiceId: evidence.invoice_id,
+  invoiceNumber: evidence.invoice_number,
+  token: evidence.token,
+  source: evidence.source,
+  matchType: evidence.match_type,
+  score: evidence.score,
+});
+
+const describeEvidence = (evidence: ReferenceEvidence) =>
+  `"${evidence.token}" in ${EVIDENCE_SOURCE_LABELS[evidence.source]} → ${evidence.invoiceNumber} (${EVIDENCE_MATCH_LABELS[evidence.matchType]})`;
+
+// Fill invoices in order until the unapplied payment amount runs out
+// Credit memos are used in full and add their credit to what the payment can cover
+const defaultAllocations = (suggestion: PartialMatchSuggestion, available: number) => {
+  let remaining = suggestion.invoices.reduce((sum, invoice) => (invoice.isCreditMemo ? sum - invoice.amount : sum), available);
+  return Object.fromEntries(
+    suggestion.invoices.map((invoice) => {
+      if (invoice.isCreditMemo) return [invoice.invoiceId, (-invoice.amount).toFixed(2)];
+      const amount = Math.max(0, Math.min(invoice.amount, remaining));
+      remaining -= amount;
+      return [invoice.invoiceId, amount.toFixed(2)];
+    })
+  );
+};
+
+// What the payment can cover in the suggestion's currency. In another currency its value depends
+// on the bank's rate, so up to the invoices' total is allowed and the database checks the
+// converted amount against the FX tolerance.
+const availableFor = (suggestion: PartialMatchSuggestion, result: MatchResult) =>
+  suggestion.currency === result.paymentCurrency
+    ? result.unappliedAmount ?? result.paymentAmount ?? 0
+    : Math.max(suggestion.totalAmount, suggestion.totalAmount + suggestion.difference);
+
 const CashApplication = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [matchingPaymentId, setMatchingPaymentId] = useState<string | null>(null);
+  const [applyingSuggestion, setApplyingSuggestion] = useState<{ index: number; resolution: Resolution; onAccount: boolean } | null>(null);
+  const [allocationDrafts, setAllocationDrafts] = useState<Record<number, Record<string, string>>>({});
   const [matchResult, setMatchResult] = useState<MatchResult | null>(null);
   const [isResultDialogOpen, setIsResultDialogOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [matchRuns, setMatchRuns] = useState<MatchRun[]>([]);
+  const [activeRun, setActiveRun] = useState<MatchRun | null>(null);
+  const [isAutoMatching, setIsAutoMatching] = useState(false);
+  const [runDetail, setRunDetail] = useState<MatchRunDetail | null>(null);
+  const [isRunDialogOpen, setIsRunDialogOpen] = useState(false);
+  const [historyPaymentId, setHistoryPaymentId] = useState<string | null>(null);
+  const [unapplyPayment, setUnapplyPayment] = useState<Payment | null>(null);
+  const [unapplyReason, setUnapplyReason] = useState("");
+  const [isUnapplying, setIsUnapplying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const formatCurrency = (value?: number) => {
-    if (value === undefined || Number.isNaN(value)) {
-      return "-";
-    }
-
-    return value.toLocaleString(undefined, {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
-  };
-
   const toNumber = (value?: number | string | null) => {
     if (value === undefined || value === null) {
       return undefined;
@@ -146,9 +294,168 @@ const CashApplication = () => {
     }
   }, [toast]);
 
+  const fetchMatchRuns = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<MatchRun[]>('match-payments?view=runs', {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      setMatchRuns(data ?? []);
+    } catch (error: unknown) {
+      console.error('Error fetching match runs:', error);
+    }
+  }, []);
+
   useEffect(() => {
     fetchPayments();
-  }, [fetchPayments]);
+    fetchMatchRuns();
+  }, [fetchPayments, fetchMatchRuns]);
+
+  const openMatchRun = async (runId: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.functions.invoke<MatchRunDetail>(`match-payments?run_id=${runId}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      if (data) {
+        setRunDetail(data);
+        setIsRunDialogOpen(true);
+      }
+    } catch (error: unknown) {
+      console.error('Error loading match run:', error);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to load match run",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Each call clears one chunk of the run; keep going until the server reports it is done
+  const handleAutoMatchAll = async () => {
+    try {
+      setIsAutoMatching(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      let runId: string | undefined;
+      let done = false;
+
+      while (!done) {
+        const { data, error } = await supabase.functions.invoke<BatchFunctionResponse>('match-payments', {
+          body: { action: 'batch', run_id: runId },
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        });
+
+        if (error) throw error;
+        if (!data) break;
+
+        runId = data.run.run_id;
+        done = data.done;
+        setActiveRun(data.run);
+      }
+
+      if (runId) {
+        await openMatchRun(runId);
+      }
+
+      toast({
+        title: "Auto-match complete",
+        description: "Review the run summary for payments that still need attention",
+      });
+    } catch (error: unknown) {
+      console.error('Error running auto-match:', error);
+      toast({
+        title: "Auto-match failed",
+        description: getErrorMessage(error) || "Failed to auto-match payments",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAutoMatching(false);
+      setActiveRun(null);
+      await Promise.all([fetchPayments(), fetchMatchRuns()]);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<ImportFunctionResponse>('import-payments', {
+        body: { file_name: file.name, content: await file.text() },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      if (data) {
+        const firstError = data.errors[0];
+        toast({
+          title: `Imported ${data.imported} payment${data.imported === 1 ? "" : "s"}`,
+          description: [
+            data.duplicates > 0 ? `${data.duplicates} already imported` : undefined,
+            data.errors.length > 0
+              ? `${data.errors.length} line${data.errors.length === 1 ? "" : "s"} skipped (line ${firstError.line}: ${firstError.message})`
+              : undefined,
+          ]
+            .filter((part): part is string => Boolean(part))
+            .join(' • ') || file.name,
+          variant: data.errors.length > 0 ? "destructive" : undefined,
+        });
+      }
+
+      await fetchPayments();
+    } catch (error: unknown) {
+      console.error('Error importing bank file:', error);
+      toast({
+        title: "Import failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   const handleMatchPayment = async (paymentId: string) => {
     try {
@@ -181,27 +488,51 @@ const CashApplication = () => {
           message: data.message,
           paymentId,
           paymentAmount: toNumber(data?.payment?.amount_received),
+          paymentCurrency: data?.payment?.currency ?? DEFAULT_CURRENCY,
           paymentDate: data?.payment?.payment_date,
-          matchedInvoiceId: data?.payment?.matched_invoice_id ?? null,
+          unappliedAmount: toNumber(data?.payment?.unapplied_amount),
           exactMatches: (data?.exact_matches || []).map((match) => ({
             invoiceId: match.invoice_id,
             invoiceNumber: match.invoice_number,
             amount: toNumber(match.amount) ?? 0,
+            currency: match.currency,
+            evidence: match.evidence ? toReferenceEvidence(match.evidence) : null,
           })),
           partialMatches: (data?.partial_matches || []).map((match) => ({
             invoices: (match?.invoices || []).map((invoice) => ({
               invoiceId: invoice.invoice_id,
               invoiceNumber: invoice.invoice_number,
               amount: toNumber(invoice.amount) ?? 0,
+              isCreditMemo: invoice.document_type === "credit_memo",
             })),
+            currency: match.currency ?? data?.payment?.currency ?? DEFAULT_CURRENCY,
             totalAmount: toNumber(match.total_amount) ?? 0,
             difference: toNumber(match.difference) ?? 0,
+            differenceType: match.difference_type ?? null,
             confidence: toNumber(match.confidence) ?? 0,
             reason: match.reason,
+            evidence: (match.evidence || []).map(toReferenceEvidence),
+            customerMatch: Boolean(match.customer_match),
           })),
+          customer: data.customer
+            ? {
+                customerId: data.customer.customer_id,
+                customerName: data.customer.customer_name,
+                method: data.customer.method,
+                scope: data.customer_scope ?? "weighted",
+              }
+            : null,
         };
 
         setMatchResult(normalizedResult);
+        setAllocationDrafts(
+          Object.fromEntries(
+            normalizedResult.partialMatches.map((suggestion, index) => [
+              index,
+              defaultAllocations(suggestion, availableFor(suggestion, normalizedResult)),
+            ])
+          )
+        );
         setIsResultDialogOpen(true);
 
         toast({
@@ -224,14 +555,219 @@ const CashApplication = () => {
     }
   };
 
+  const getAllocations = (index: number) =>
+    Object.entries(allocationDrafts[index] ?? {}).map(([invoiceId, value]) => ({
+      invoice_id: invoiceId,
+      amount: toNumber(value) ?? 0,
+    }));
+
+  const handleAllocationChange = (index: number, invoiceId: string, value: string) => {
+    setAllocationDrafts((current) => ({
+      ...current,
+      [index]: { ...current[index], [invoiceId]: value },
+    }));
+  };
+
+  const handleApplySuggestion = async (index: number, resolution: Resolution, onAccount = false) => {
+    if (!matchResult) return;
+    const differenceType = matchResult.partialMatches[index]?.differenceType;
+
+    try {
+      setApplyingSuggestion({ index, resolution, onAccount });
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<MatchFunctionResponse>('match-payments', {
+        body: {
+          action: 'apply',
+          payment_id: matchResult.paymentId,
+          allocations: getAllocations(index).filter((allocation) => allocation.amount > 0),
+          resolution,
+          // The classified deduction becomes the write-off or dispute reason
+          reason: resolution !== "none" && differenceType ? DIFFERENCE_LABELS[differenceType] : undefined,
+          on_account: onAccount,
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: resolution === "dispute" ? "Payment applied, dispute created" : "Payment applied",
+        description: data?.message || "Payment applied",
+      });
+
+      setIsResultDialogOpen(false);
+      await fetchPayments();
+    } catch (error: unknown) {
+      console.error('Error applying payment:', error);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to apply payment",
+        variant: "destructive",
+      });
+    } finally {
+      setApplyingSuggestion(null);
+    }
+  };
+
+  const handlePlaceOnAccount = async (payment: Payment) => {
+    try {
+      setMatchingPaymentId(payment.payment_id);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { error } = await supabase.functions.invoke('unapplied-cash', {
+        body: {
+          action: 'place',
+          payment_id: payment.payment_id,
+          reason: 'residual',
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Held on account",
+        description: `${formatCurrency(toNumber(payment.amount_received - payment.amount_applied), payment.currency)} kept as credit for ${payment.payer_name || "the customer"}`,
+      });
+
+      await fetchPayments();
+    } catch (error: unknown) {
+      console.error('Error placing payment on account:', error);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to hold payment on account",
+        variant: "destructive",
+      });
+    } finally {
+      setMatchingPaymentId(null);
+    }
+  };
+
+  const handleUnapply = async () => {
+    if (!unapplyPayment || !unapplyReason.trim()) return;
+
+    try {
+      setIsUnapplying(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<MatchFunctionResponse>('match-payments', {
+        body: {
+          action: 'unapply',
+          payment_id: unapplyPayment.payment_id,
+          reason: unapplyReason.trim(),
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Match reversed",
+        description: data?.message || "Payment returned to unmatched",
+      });
+
+      setUnapplyPayment(null);
+      setUnapplyReason("");
+      await fetchPayments();
+    } catch (error: unknown) {
+      console.error('Error reversing payment:', error);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to reverse payment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUnapplying(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto p-6 space-y-6">
-        <div>
-          <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent">Cash Application</h1>
-          <p className="text-muted-foreground mt-1">Payment Records</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent">Cash Application</h1>
+            <p className="text-muted-foreground mt-1">Payment Records</p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".bai,.bai2,.txt,.xml,.sta,.940,.mt940,.lbx,.dat"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+              {isImporting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Import bank file
+            </Button>
+            <Button onClick={handleAutoMatchAll} disabled={isAutoMatching}>
+              {isAutoMatching ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Zap className="h-4 w-4 mr-2" />
+              )}
+              Auto-match all
+            </Button>
+          </div>
         </div>
 
+        {isAutoMatching && (
+          <Card className="p-4 bg-gradient-card shadow-card space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Auto-matching unmatched payments</span>
+              <span className="text-muted-foreground">
+                {activeRun
+                  ? `${activeRun.processed_payments} / ${activeRun.total_payments} • ${activeRun.auto_cleared_count} cleared • ${activeRun.needs_review_count} to review`
+                  : "Starting..."}
+              </span>
+            </div>
+            <Progress
+              value={activeRun && activeRun.total_payments > 0 ? (activeRun.processed_payments / activeRun.total_payments) * 100 : 0}
+            />
+          </Card>
+        )}
+
         {isLoading ? (
           <Card className="p-8 bg-gradient-card shadow-card">
             <div className="flex flex-col items-center justify-center space-y-4">
@@ -245,17 +781,18 @@ const CashApplication = () => {
               <TableHeader>
                 <TableRow>
                   <TableHead>Payment ID</TableHead>
+                  <TableHead>Payer</TableHead>
                   <TableHead>Amount Received</TableHead>
                   <TableHead>Payment Date</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Matched Invoice</TableHead>
+                  <TableHead>Applied To</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {payments.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
                       No payments found
                     </TableCell>
                   </TableRow>
@@ -263,21 +800,52 @@ const CashApplication = () => {
                   payments.map((payment) => (
                     <TableRow key={payment.payment_id}>
                       <TableCell className="font-medium">{payment.payment_id.slice(0, 8)}...</TableCell>
-                      <TableCell>${parseFloat(payment.amount_received.toString()).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div>{payment.payer_name || "-"}</div>
+                        {payment.bank_reference && (
+                          <div className="text-xs text-muted-foreground">Ref {payment.bank_reference}</div>
+                        )}
+                        {payment.check_number && (
+                          <div className="text-xs text-muted-foreground">
+                            Check #{payment.check_number}
+                            {payment.lockbox_batch ? ` • batch ${payment.lockbox_batch} item ${payment.lockbox_item ?? "-"}` : ""}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatCurrency(payment.amount_received, payment.currency)}</TableCell>
                       <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
                       <TableCell>
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                           payment.status === 'matched'
                             ? 'bg-success/10 text-success'
+                            : payment.status === 'partially_applied'
+                            ? 'bg-primary/10 text-primary'
+                            : payment.status === 'on_account'
+                            ? 'bg-accent/10 text-accent-foreground'
                             : payment.status === 'unmatched'
                             ? 'bg-warning/10 text-warning'
                             : 'bg-muted/10 text-muted-foreground'
                         }`}>
-                          {payment.status}
+                          {payment.status.replace(/_/g, " ")}
                         </span>
                       </TableCell>
                       <TableCell>
-                        {payment.matched_invoice_id ? payment.matched_invoice_id.slice(0, 8) + "..." : "-"}
+                        {payment.payment_applications?.length ? (
+                          <div className="space-y-0.5">
+                            {payment.payment_applications.map((application) => (
+                              <div
+                                key={application.application_id}
+                                className={application.reversed_at ? "text-sm line-through text-muted-foreground" : "text-sm"}
+                                title={application.reversal_reason ? `Reversed: ${application.reversal_reason}` : undefined}
+                              >
+                                {application.invoices?.invoice_number ?? application.invoice_id.slice(0, 8) + "..."}{" "}
+                                <span className="text-xs text-muted-foreground">
+                                  {formatCurrency(toNumber(application.amount_applied), application.invoices?.currency)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : "-"}
                       </TableCell>
                       <TableCell>
                         <Button
@@ -295,6 +863,43 @@ const CashApplication = () => {
                             </>
                           )}
                         </Button>
+                        {payment.customer_id &&
+                          !["matched", "on_account"].includes(payment.status) &&
+                          payment.amount_received - payment.amount_applied > 0.005 && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="ml-1"
+                            onClick={() => handlePlaceOnAccount(payment)}
+                            disabled={matchingPaymentId === payment.payment_id}
+                            title="Keep the unapplied amount as credit for this customer"
+                          >
+                            <Wallet className="h-4 w-4 mr-1" />
+                            On account
+                          </Button>
+                        )}
+                        {payment.payment_applications?.some((application) => !application.reversed_at) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="ml-1"
+                            onClick={() => setUnapplyPayment(payment)}
+                            title="Reverse this payment's applications"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Unapply
+                          </Button>
+                        )}
+                        {payment.payment_applications?.length > 0 && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setHistoryPaymentId(payment.payment_id)}
+                            title="Show application history"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -303,7 +908,97 @@ const CashApplication = () => {
             </Table>
           </Card>
         )}
+
+        {matchRuns.length > 0 && (
+          <Card className="bg-gradient-card shadow-card">
+            <div className="p-4 pb-0">
+              <h2 className="text-lg font-semibold">Recent auto-match runs</h2>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Payments</TableHead>
+                  <TableHead>Auto-cleared</TableHead>
+                  <TableHead>Needs Review</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matchRuns.map((run) => (
+                  <TableRow key={run.run_id}>
+                    <TableCell>{run.started_at ? new Date(run.started_at).toLocaleString() : "-"}</TableCell>
+                    <TableCell className="capitalize">{run.status}</TableCell>
+                    <TableCell>{run.processed_payments} / {run.total_payments}</TableCell>
+                    <TableCell>
+                      {run.auto_cleared_count}{" "}
+                      <span className="text-xs text-muted-foreground">{formatCurrency(toNumber(run.auto_cleared_amount))}</span>
+                    </TableCell>
+                    <TableCell>{run.needs_review_count}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => openMatchRun(run.run_id)}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+
+        <OnAccountCredits refreshKey={payments} onApplied={fetchPayments} />
       </div>
+      <PaymentHistoryDialog
+        paymentId={historyPaymentId}
+        onOpenChange={(open) => !open && setHistoryPaymentId(null)}
+      />
+      <Dialog
+        open={Boolean(unapplyPayment)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setUnapplyPayment(null);
+            setUnapplyReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse payment match</DialogTitle>
+            <DialogDescription>
+              {unapplyPayment
+                ? `Every invoice this payment (${formatCurrency(toNumber(unapplyPayment.amount_received), unapplyPayment.currency)}) was applied to goes back to its previous balance and status, and any write-offs booked with it are reversed.`
+                : undefined}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Textarea
+              placeholder="Why is this match being reversed?"
+              value={unapplyReason}
+              onChange={(event) => setUnapplyReason(event.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setUnapplyPayment(null)} disabled={isUnapplying}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleUnapply} disabled={isUnapplying || !unapplyReason.trim()}>
+                {isUnapplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                Reverse match
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+      <MatchRunDialog
+        detail={runDetail}
+        open={isRunDialogOpen}
+        onOpenChange={setIsRunDialogOpen}
+        onReviewPayment={(paymentId) => {
+          setIsRunDialogOpen(false);
+          handleMatchPayment(paymentId);
+        }}
+      />
       <Dialog open={isResultDialogOpen} onOpenChange={setIsResultDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[calc(100vh-4rem)] overflow-hidden sm:max-h-[80vh]">
           <DialogHeader>
@@ -312,15 +1007,28 @@ const CashApplication = () => {
               {matchResult
                 ? [
                     `Payment ${matchResult.paymentId.slice(0, 8)}...`,
-                    formatCurrency(matchResult.paymentAmount),
+                    formatCurrency(matchResult.paymentAmount, matchResult.paymentCurrency),
                     matchResult.paymentDate
                       ? new Date(matchResult.paymentDate).toLocaleDateString()
                       : undefined,
+                    matchResult.unappliedAmount && matchResult.unappliedAmount !== matchResult.paymentAmount
+                      ? `${formatCurrency(matchResult.unappliedAmount, matchResult.paymentCurrency)} unapplied`
+                      : undefined,
                   ]
                     .filter((part): part is string => Boolean(part))
                     .join(' • ')
                 : 'Review auto-matched and suggested invoices.'}
             </DialogDescription>
+            {matchResult?.customer && (
+              <p className="text-sm text-muted-foreground">
+                Payer identified as{" "}
+                <span className="font-medium text-foreground">
+                  {matchResult.customer.customerName ?? matchResult.customer.customerId.slice(0, 8)}
+                </span>{" "}
+                by {CUSTOMER_METHOD_LABELS[matchResult.customer.method]}
+                {matchResult.customer.scope === "restricted" ? " — only their invoices were considered" : ""}
+              </p>
+            )}
           </DialogHeader>
 
           <div className="grid gap-6 md:grid-cols-2 overflow-y-auto max-h-[calc(100vh-12rem)] sm:max-h-[calc(80vh-8rem)] pr-1 sm:pr-2">
@@ -336,9 +1044,12 @@ const CashApplication = () => {
                       <div className="p-4 space-y-2">
                         <div className="flex items-center justify-between">
                           <span className="font-medium">{invoice.invoiceNumber}</span>
-                          <span className="text-sm font-semibold text-success">{formatCurrency(invoice.amount)}</span>
+                          <span className="text-sm font-semibold text-success">{formatCurrency(invoice.amount, invoice.currency ?? matchResult.paymentCurrency)}</span>
                         </div>
                         <p className="text-xs text-muted-foreground">Invoice ID: {invoice.invoiceId.slice(0, 8)}...</p>
+                        <p className="text-xs text-muted-foreground">
+                          {invoice.evidence ? `Matched by reference ${describeEvidence(invoice.evidence)}` : "Matched by amount"}
+                        </p>
                       </div>
                     </Card>
                   ))
@@ -357,7 +1068,29 @@ const CashApplication = () => {
               </div>
               <div className="space-y-3">
                 {matchResult?.partialMatches.length ? (
-                  matchResult.partialMatches.map((suggestion, index) => (
+                  matchResult.partialMatches.map((suggestion, index) => {
+                    const available = availableFor(suggestion, matchResult);
+                    const creditMemoIds = new Set(
+                      suggestion.invoices.filter((invoice) => invoice.isCreditMemo).map((invoice) => invoice.invoiceId)
+                    );
+                    // What the payment itself covers, after any credit memo allocations
+                    const allocated = getAllocations(index).reduce(
+                      (sum, allocation) => sum + (creditMemoIds.has(allocation.invoice_id) ? -allocation.amount : allocation.amount),
+                      0
+                    );
+                    const shortfall = suggestion.totalAmount - allocated;
+                    const isOverAllocated =
+                      allocated > available + 0.005 ||
+                      suggestion.invoices.some(
+                        (invoice) => (toNumber(allocationDrafts[index]?.[invoice.invoiceId]) ?? 0) > Math.abs(invoice.amount) + 0.005
+                      );
+                    const canApply = allocated > 0 && !isOverAllocated && applyingSuggestion === null;
+                    const isApplying = (resolution: Resolution, onAccount = false) =>
+                      applyingSuggestion?.index === index &&
+                      applyingSuggestion.resolution === resolution &&
+                      applyingSuggestion.onAccount === onAccount;
+
+                    return (
                     <Card key={index} className="border-primary/40">
                       <div className="p-4 space-y-3">
                         <div className="flex items-center justify-between">
@@ -366,15 +1099,38 @@ const CashApplication = () => {
                         </div>
                         <div className="space-y-2">
                           {suggestion.invoices.map((invoice) => (
-                            <div key={invoice.invoiceId} className="flex items-center justify-between text-sm">
-                              <span>{invoice.invoiceNumber}</span>
-                              <span className="font-medium">{formatCurrency(invoice.amount)}</span>
+                            <div key={invoice.invoiceId} className="flex items-center justify-between gap-3 text-sm">
+                              <span className="flex-1">
+                                {invoice.invoiceNumber}
+                                {invoice.isCreditMemo && <span className="text-xs text-muted-foreground"> credit memo</span>}
+                              </span>
+                              <span className="font-medium">{formatCurrency(invoice.amount, suggestion.currency)}</span>
+                              <Input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                aria-label={
+                                  invoice.isCreditMemo
+                                    ? `Credit to use from ${invoice.invoiceNumber}`
+                                    : `Amount to apply to ${invoice.invoiceNumber}`
+                                }
+                                className="h-8 w-28 text-right"
+                                value={allocationDrafts[index]?.[invoice.invoiceId] ?? ""}
+                                onChange={(event) => handleAllocationChange(index, invoice.invoiceId, event.target.value)}
+                              />
                             </div>
                           ))}
                         </div>
                         <div className="flex items-center justify-between text-sm">
                           <div className="text-muted-foreground">Total</div>
-                          <div className="font-semibold">{formatCurrency(suggestion.totalAmount)}</div>
+                          <div className="font-semibold">{formatCurrency(suggestion.totalAmount, suggestion.currency)}</div>
+                        </div>
+                        <div className="flex items-center justify-between text-sm">
+                          <div className="text-muted-foreground">Applying</div>
+                          <div className={`font-semibold ${isOverAllocated ? "text-destructive" : ""}`}>
+                            {formatCurrency(allocated, suggestion.currency)}
+                            {shortfall > 0.005 ? ` (${formatCurrency(shortfall, suggestion.currency)} left open)` : ""}
+                          </div>
                         </div>
                         <div className="flex items-center justify-between text-xs text-muted-foreground">
                           <span>Variance</span>
@@ -382,13 +1138,98 @@ const CashApplication = () => {
                             {suggestion.difference === 0
                               ? 'Exact amount'
                               : suggestion.difference > 0
-                              ? `${formatCurrency(suggestion.difference)} remaining`
-                              : `${formatCurrency(Math.abs(suggestion.difference))} over`}
+                              ? `${formatCurrency(suggestion.difference, suggestion.currency)} remaining`
+                              : `${formatCurrency(Math.abs(suggestion.difference), suggestion.currency)} over`}
+                          </span>
+                        </div>
+                        {suggestion.differenceType && (
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-muted-foreground">Difference</span>
+                            <span className={suggestion.differenceType === "short_payment" ? "font-medium text-warning" : "font-medium"}>
+                              {DIFFERENCE_LABELS[suggestion.differenceType]}
+                            </span>
+                          </div>
+                        )}
+                        {suggestion.evidence.length > 0 && (
+                          <ul className="space-y-1 border-t border-border pt-2 text-xs text-muted-foreground">
+                            {suggestion.evidence.map((evidence) => (
+                              <li key={evidence.invoiceId}>{describeEvidence(evidence)}</li>
+                            ))}
+                          </ul>
+                        )}
+                        <div className="flex items-center justify-between border-t border-border pt-2">
+                          <span className="text-xs text-muted-foreground">
+                            {matchResult.customer
+                              ? suggestion.customerMatch
+                                ? "Payer's own invoices"
+                                : "Includes other customers' invoices"
+                              : "Payer not identified"}
                           </span>
                         </div>
+                        <div className="flex flex-wrap justify-end gap-2">
+                          <Button size="sm" onClick={() => handleApplySuggestion(index, "none")} disabled={!canApply}>
+                            {isApplying("none") ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <>
+                                <CheckCircle2 className="h-4 w-4 mr-1" />
+                                Apply
+                              </>
+                            )}
+                          </Button>
+                          {available - allocated > 0.005 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleApplySuggestion(index, "none", true)}
+                              disabled={!canApply}
+                              title="Keep what is left of the payment as credit for the customer"
+                            >
+                              {isApplying("none", true) ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <>
+                                  <Wallet className="h-4 w-4 mr-1" />
+                                  Apply, rest on account
+                                </>
+                              )}
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleApplySuggestion(index, "write_off")}
+                            disabled={!canApply || shortfall <= 0.005}
+                          >
+                            {isApplying("write_off") ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <>
+                                <Eraser className="h-4 w-4 mr-1" />
+                                Apply with write-off
+                              </>
+                            )}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleApplySuggestion(index, "dispute")}
+                            disabled={!canApply || shortfall <= 0.005}
+                          >
+                            {isApplying("dispute") ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <>
+                                <AlertTriangle className="h-4 w-4 mr-1" />
+                                Create dispute for difference
+                              </>
+                            )}
+                          </Button>
+                        </div>
                       </div>
                     </Card>
-                  ))
+                    );
+                  })
                 ) : (
                   <Card>
                     <div className="p-4 text-sm text-muted-foreground">No close invoice combinations were identified. Consider manual reconciliation.</div>
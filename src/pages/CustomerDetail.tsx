@@ -0,0 +1,347 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Area, AreaChart, CartesianGrid, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { AlertTriangle, ArrowLeft, Loader2, Save } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCompactCurrency, formatCurrency } from "@/lib/currency";
+
+interface CustomerRiskProfile {
+  customer_id: string;
+  name: string;
+  currency: string;
+  credit_limit: number | null;
+  credit_hold: boolean;
+  credit_hold_reason: string | null;
+  open_invoice_count: number;
+  exposure: number;
+  overdue_exposure: number;
+  weighted_risk: number | null;
+  on_account_credit: number;
+  available_credit: number | null;
+  utilization: number | null;
+  over_limit: boolean;
+  last_payment_date: string | null;
+}
+
+interface CustomerDetailData extends CustomerRiskProfile {
+  timeline: Array<{ date: string; exposure: number; credit_limit: number | null }>;
+  alerts: Array<{
+    alert_id: string;
+    invoice_number: string | null;
+    exposure: number;
+    credit_limit: number | null;
+    credit_hold: boolean;
+    created_at: string;
+  }>;
+}
+
+interface CreditForm {
+  credit_limit: string;
+  credit_hold: boolean;
+  credit_hold_reason: string;
+}
+
+const toForm = (customer: CustomerRiskProfile): CreditForm => ({
+  credit_limit: customer.credit_limit === null ? "" : customer.credit_limit.toString(),
+  credit_hold: customer.credit_hold,
+  credit_hold_reason: customer.credit_hold_reason ?? "",
+});
+
+const CustomerDetail = () => {
+  const { customerId } = useParams<{ customerId: string }>();
+  const [customer, setCustomer] = useState<CustomerDetailData | null>(null);
+  const [form, setForm] = useState<CreditForm | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const getErrorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unexpected error occurred';
+
+  const fetchCustomer = useCallback(async () => {
+    if (!customerId) return;
+
+    try {
+      setIsLoading(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in to view customers",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<CustomerDetailData>(`customer-risk?customer_id=${customerId}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      if (data) {
+        setCustomer(data);
+        setForm(toForm(data));
+      }
+    } catch (error: unknown) {
+      console.error('Error fetching customer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customer",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId, toast]);
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  const handleSave = async () => {
+    if (!form || !customer) return;
+
+    try {
+      setIsSaving(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { error } = await supabase.functions.invoke<CustomerRiskProfile>('customer-risk', {
+        method: 'PUT',
+        body: {
+          customer_id: customer.customer_id,
+          credit_limit: form.credit_limit.trim() === "" ? null : Number(form.credit_limit),
+          credit_hold: form.credit_hold,
+          credit_hold_reason: form.credit_hold ? form.credit_hold_reason : null,
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Credit settings saved",
+        description: form.credit_hold ? `${customer.name} is on credit hold` : undefined,
+      });
+      // The limit line is redrawn from the change just recorded
+      await fetchCustomer();
+    } catch (error: unknown) {
+      console.error('Error saving credit settings:', error);
+      toast({
+        title: "Could not save credit settings",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && !customer) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading customer...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!customer || !form) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto p-6">
+          <Link to="/" className="text-sm text-primary hover:underline">Back to dashboard</Link>
+          <p className="text-muted-foreground mt-4">Customer not found.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const currency = customer.currency;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6">
+        <div>
+          <Link to="/" className="text-sm text-muted-foreground hover:text-foreground inline-flex items-center gap-1">
+            <ArrowLeft className="h-4 w-4" />
+            Dashboard
+          </Link>
+          <div className="flex items-center gap-3 mt-2">
+            <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent">{customer.name}</h1>
+            {customer.credit_hold && <Badge className="bg-danger text-danger-foreground">CREDIT HOLD</Badge>}
+            {customer.over_limit && <Badge className="bg-warning text-warning-foreground">OVER LIMIT</Badge>}
+          </div>
+          <p className="text-muted-foreground mt-1">
+            {customer.open_invoice_count} open invoice{customer.open_invoice_count === 1 ? "" : "s"}
+            {customer.last_payment_date ? `, last paid ${new Date(customer.last_payment_date).toLocaleDateString()}` : ", no payments received"}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <Card className="p-6 bg-gradient-card shadow-card">
+            <p className="text-sm font-medium text-muted-foreground">Exposure</p>
+            <p className="text-3xl font-bold mt-2">{formatCompactCurrency(customer.exposure, currency)}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatCurrency(customer.overdue_exposure, currency)} overdue
+              {customer.on_account_credit > 0 ? `, ${formatCurrency(customer.on_account_credit, currency)} on account` : ""}
+            </p>
+          </Card>
+          <Card className="p-6 bg-gradient-card shadow-card">
+            <p className="text-sm font-medium text-muted-foreground">Credit Limit</p>
+            <p className="text-3xl font-bold mt-2">
+              {customer.credit_limit === null ? "None" : formatCompactCurrency(customer.credit_limit, currency)}
+            </p>
+            {customer.utilization !== null && (
+              <p className="text-xs text-muted-foreground mt-1">{Math.round(customer.utilization * 100)}% used</p>
+            )}
+          </Card>
+          <Card className="p-6 bg-gradient-card shadow-card">
+            <p className="text-sm font-medium text-muted-foreground">Available Credit</p>
+            <p className={`text-3xl font-bold mt-2 ${customer.over_limit ? "text-danger" : ""}`}>
+              {customer.available_credit === null ? "Unlimited" : formatCompactCurrency(customer.available_credit, currency)}
+            </p>
+          </Card>
+          <Card className="p-6 bg-gradient-card shadow-card">
+            <p className="text-sm font-medium text-muted-foreground">Weighted Risk</p>
+            <p className="text-3xl font-bold mt-2">
+              {customer.weighted_risk === null ? "-" : Math.round(customer.weighted_risk * 100)}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">Open invoice scores, weighted by balance</p>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="p-6 bg-gradient-card shadow-card lg:col-span-2">
+            <h2 className="text-xl font-semibold mb-4">Exposure vs. Credit Limit</h2>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={customer.timeline}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date: string) => new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                  />
+                  <YAxis
+                    tickFormatter={(value: number) => formatCompactCurrency(value, currency)}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    width={70}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [formatCurrency(value, currency), name]}
+                    labelFormatter={(date: string) => new Date(date).toLocaleDateString()}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="exposure"
+                    name="Exposure"
+                    stroke="hsl(var(--primary))"
+                    fill="hsl(var(--primary))"
+                    fillOpacity={0.15}
+                  />
+                  <Line
+                    type="stepAfter"
+                    dataKey="credit_limit"
+                    name="Credit limit"
+                    stroke="hsl(var(--danger))"
+                    strokeDasharray="4 4"
+                    dot={false}
+                    connectNulls={false}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <Card className="p-6 bg-gradient-card shadow-card space-y-4">
+            <h2 className="text-xl font-semibold">Credit Settings</h2>
+            <div className="space-y-2">
+              <Label htmlFor="credit-limit">Credit limit ({currency})</Label>
+              <Input
+                id="credit-limit"
+                type="number"
+                min="0"
+                step="1000"
+                placeholder="No limit"
+                value={form.credit_limit}
+                onChange={(event) => setForm({ ...form, credit_limit: event.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="credit-hold">Credit hold</Label>
+              <Switch
+                id="credit-hold"
+                checked={form.credit_hold}
+                onCheckedChange={(checked) => setForm({ ...form, credit_hold: checked })}
+              />
+            </div>
+            {form.credit_hold && (
+              <div className="space-y-2">
+                <Label htmlFor="credit-hold-reason">Reason</Label>
+                <Input
+                  id="credit-hold-reason"
+                  value={form.credit_hold_reason}
+                  onChange={(event) => setForm({ ...form, credit_hold_reason: event.target.value })}
+                />
+              </div>
+            )}
+            <Button className="w-full" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save
+            </Button>
+
+            <div className="pt-4 border-t border-border">
+              <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-warning" />
+                Limit Alerts
+              </h3>
+              {customer.alerts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No invoice has taken this customer over its limit.</p>
+              ) : (
+                <div className="space-y-2">
+                  {customer.alerts.map((alert) => (
+                    <div key={alert.alert_id} className="text-sm">
+                      <p className="font-medium">
+                        {alert.invoice_number ?? "Invoice"}
+                        {alert.credit_hold ? " billed on hold" : ` took exposure to ${formatCurrency(alert.exposure, currency)}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{new Date(alert.created_at).toLocaleString()}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDetail;
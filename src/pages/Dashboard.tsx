@@ -1,36 +1,63 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DollarSign, Clock, AlertTriangle, TrendingUp } from "lucide-react";
 import { InvoiceList } from "@/components/dashboard/InvoiceList";
 import { RiskChart } from "@/components/dashboard/RiskChart";
 import { RiskPanel } from "@/components/dashboard/RiskPanel";
 import { NotificationCenter } from "@/components/dashboard/NotificationCenter";
+import { RiskDrivers } from "@/components/dashboard/RiskDrivers";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_CURRENCY, formatCompactCurrency, formatCurrency } from "@/lib/currency";
+import { DSO_METHOD_LABELS, DSO_PERIOD_LABELS, describeDsoInputs, type DsoMethod, type DsoPeriod, type DsoReport } from "@/lib/dso";
+import { riskDrivers, summarizeRiskDrivers, type PaymentPrediction, type RiskFactor } from "@/lib/risk";
 
 interface Invoice {
   id: string;
   customer: string;
+  customerId?: string;
   amount: number;
+  openBalance?: number;
+  currency: string;
+  // Open balance in the tenant's functional currency; null when no FX rate is loaded
+  functionalOpenBalance?: number | null;
   dueDate: string;
   riskLevel: "high" | "medium" | "low";
   riskScore: number;
   daysOverdue: number;
   invoiceNumber: string;
   riskExplanation?: string;
+  riskFactors: RiskFactor[];
+  paymentPrediction: PaymentPrediction | null;
+  documentType?: "invoice" | "credit_memo";
 }
 
+// Currencies of open balances with no FX rate loaded, which are left out of functional totals
+const unconvertedCurrencies = (documents: Invoice[]) =>
+  documents
+    .filter((inv) => (inv.functionalOpenBalance ?? null) === null && (inv.openBalance ?? inv.amount) !== 0)
+    .map((inv) => inv.currency);
+
 const Dashboard = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [riskFilter, setRiskFilter] = useState<"all" | "high" | "medium" | "low">("all");
-  const [dso, setDso] = useState<number>(42);
+  const [factorFilter, setFactorFilter] = useState<string | null>(null);
+  const [dsoReport, setDsoReport] = useState<DsoReport | null>(null);
+  const [dsoMethod, setDsoMethod] = useState<DsoMethod>("standard");
+  const [dsoPeriod, setDsoPeriod] = useState<DsoPeriod>("month");
+  const [onAccountCredit, setOnAccountCredit] = useState(0);
+  const [creditMemoCredit, setCreditMemoCredit] = useState(0);
+  const [creditMemoUnconverted, setCreditMemoUnconverted] = useState<string[]>([]);
+  const [onAccountUnconverted, setOnAccountUnconverted] = useState<string[]>([]);
+  const [functionalCurrency, setFunctionalCurrency] = useState(DEFAULT_CURRENCY);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchInvoices();
-    fetchDSO();
+    fetchOnAccountCredit();
   }, []);
 
   const fetchInvoices = async () => {
@@ -61,27 +88,40 @@ const Dashboard = () => {
         const today = new Date();
         const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)));
         
+        // Scores are stored as probabilities by predict-risk and the nightly re-scoring job
+        const riskScore = inv.risk_score ?? 0;
         let riskLevel: "high" | "medium" | "low" = "low";
-        if (inv.risk_score >= 70) riskLevel = "high";
-        else if (inv.risk_score >= 40) riskLevel = "medium";
+        if (riskScore >= 0.7) riskLevel = "high";
+        else if (riskScore >= 0.4) riskLevel = "medium";
 
         return {
           id: inv.invoice_id,
           customer: inv.customer_name,
+          customerId: inv.customer_id,
           amount: inv.amount,
+          openBalance: inv.open_balance ?? inv.amount,
+          currency: inv.currency ?? DEFAULT_CURRENCY,
+          functionalOpenBalance: inv.functional_open_balance,
           dueDate: inv.due_date,
           riskLevel,
-          riskScore: inv.risk_score || 0,
+          riskScore: Math.round(riskScore * 100),
           daysOverdue,
           invoiceNumber: inv.invoice_number,
           riskExplanation: inv.risk_explanation,
+          riskFactors: inv.risk_factors ?? [],
+          paymentPrediction: inv.payment_prediction ?? null,
+          documentType: inv.document_type ?? "invoice",
         };
       });
 
-      setInvoices(transformedInvoices);
-      
-      // Automatically calculate risk for invoices without risk scores
-      await calculateRisksForInvoices(transformedInvoices, session.access_token);
+      // Credit memos carry no collection risk; their unused credit only reduces what is owed
+      const receivables = transformedInvoices.filter((inv) => inv.documentType !== "credit_memo");
+      const creditMemos = transformedInvoices.filter((inv) => inv.documentType === "credit_memo");
+      const unusedCredit = creditMemos.reduce((sum, memo) => sum - (memo.functionalOpenBalance ?? 0), 0);
+
+      setInvoices(receivables);
+      setCreditMemoCredit(unusedCredit);
+      setCreditMemoUnconverted(unconvertedCurrencies(creditMemos));
     } catch (error: any) {
       console.error('Error fetching invoices:', error);
       toast({
@@ -94,53 +134,39 @@ const Dashboard = () => {
     }
   };
 
-  const calculateRisksForInvoices = async (invoiceList: Invoice[], accessToken: string) => {
-    const invoicesNeedingRisk = invoiceList.filter(inv => inv.riskScore === 0 || !inv.riskExplanation);
-    
-    if (invoicesNeedingRisk.length === 0) return;
-
-    console.log(`Calculating risk for ${invoicesNeedingRisk.length} invoices...`);
-
-    // Calculate risk for each invoice
-    for (const invoice of invoicesNeedingRisk) {
-      try {
-        const { data, error } = await supabase.functions.invoke('predict-risk', {
-          body: { invoice_id: invoice.id },
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        });
+  const fetchDSO = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      
+      if (!session) return;
 
-        if (error) throw error;
-
-        if (data) {
-          // Update the invoice in state
-          setInvoices(prevInvoices => 
-            prevInvoices.map(inv => 
-              inv.id === invoice.id 
-                ? {
-                    ...inv,
-                    riskScore: data.risk_score * 100,
-                    riskExplanation: data.risk_explanation,
-                    riskLevel: data.risk_score >= 0.7 ? "high" : data.risk_score >= 0.4 ? "medium" : "low"
-                  }
-                : inv
-            )
-          );
-        }
-      } catch (error) {
-        console.error(`Error calculating risk for invoice ${invoice.id}:`, error);
-      }
+      const { data, error } = await supabase.functions.invoke<DsoReport>(`calculate-dso?period=${dsoPeriod}&method=${dsoMethod}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      setDsoReport(data ?? null);
+    } catch (error: unknown) {
+      console.error('Error fetching DSO:', error);
+      setDsoReport(null);
     }
-  };
+  }, [dsoPeriod, dsoMethod]);
+
+  useEffect(() => {
+    fetchDSO();
+  }, [fetchDSO]);
 
-  const fetchDSO = async () => {
+  const fetchOnAccountCredit = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
-      
+
       if (!session) return;
 
-      const { data, error } = await supabase.functions.invoke('calculate-dso', {
+      const { data, error } = await supabase.functions.invoke<{ total_credit: number; functional_currency: string; unconverted_currencies?: string[] }>('unapplied-cash', {
+        method: 'GET',
         headers: {
           Authorization: `Bearer ${session.access_token}`,
         },
@@ -148,16 +174,29 @@ const Dashboard = () => {
 
       if (error) throw error;
 
-      if (data && typeof data.dso === 'number') {
-        setDso(data.dso);
+      if (data && typeof data.total_credit === 'number') {
+        setOnAccountCredit(data.total_credit);
+        setOnAccountUnconverted(data.unconverted_currencies ?? []);
       }
-    } catch (error: any) {
-      console.error('Error fetching DSO:', error);
-      // Keep default value if error
+      if (data?.functional_currency) {
+        setFunctionalCurrency(data.functional_currency);
+      }
+    } catch (error: unknown) {
+      console.error('Error fetching on-account credit:', error);
     }
   };
 
-  const totalAR = invoices.reduce((sum, inv) => sum + inv.amount, 0);
+  // Cash held on account and unused credit memos are credits against what customers owe. Every
+  // figure is in the functional currency; a balance without a loaded rate is left out and its
+  // currency listed.
+  const totalAR = invoices.reduce((sum, inv) => sum + (inv.functionalOpenBalance ?? 0), 0)
+    - onAccountCredit - creditMemoCredit;
+  const invoiceUnconverted = Array.from(new Set(unconvertedCurrencies(invoices)));
+  const excludedCurrencies = Array.from(new Set([...invoiceUnconverted, ...creditMemoUnconverted, ...onAccountUnconverted]));
+  const creditNotes = [
+    onAccountCredit > 0 ? `${formatCurrency(onAccountCredit, functionalCurrency)} on-account credit` : null,
+    creditMemoCredit > 0 ? `${formatCurrency(creditMemoCredit, functionalCurrency)} in credit memos` : null,
+  ].filter(Boolean);
   const overduePercent = invoices.length > 0
     ? (invoices.filter(inv => inv.daysOverdue > 0).length / invoices.length) * 100 
     : 0;
@@ -165,9 +204,13 @@ const Dashboard = () => {
     ? invoices.reduce((sum, inv) => sum + inv.riskScore, 0) / invoices.length
     : 0;
 
-  const filteredInvoices = riskFilter === "all" 
-    ? invoices 
-    : invoices.filter(inv => inv.riskLevel === riskFilter);
+  const drivers = summarizeRiskDrivers(
+    invoices.map((inv) => ({ riskFactors: inv.riskFactors, exposure: inv.functionalOpenBalance ?? 0 }))
+  );
+
+  const filteredInvoices = invoices
+    .filter(inv => riskFilter === "all" || inv.riskLevel === riskFilter)
+    .filter(inv => !factorFilter || riskDrivers(inv.riskFactors).some((factor) => factor.code === factorFilter));
 
   if (loading) {
     return (
@@ -198,7 +241,13 @@ const Dashboard = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Total AR Outstanding</p>
-                <p className="text-3xl font-bold mt-2">${(totalAR / 1000).toFixed(0)}K</p>
+                <p className="text-3xl font-bold mt-2">{formatCompactCurrency(totalAR, functionalCurrency)}</p>
+                {creditNotes.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">after {creditNotes.join(" and ")}</p>
+                )}
+                {excludedCurrencies.length > 0 && (
+                  <p className="text-xs text-muted-foreground">excludes {excludedCurrencies.join(", ")} (no FX rate)</p>
+                )}
               </div>
               <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
                 <DollarSign className="h-6 w-6 text-primary" />
@@ -210,7 +259,41 @@ const Dashboard = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Days Sales Outstanding</p>
-                <p className="text-3xl font-bold mt-2">{dso}</p>
+                <p className="text-3xl font-bold mt-2">{dsoReport?.dso ?? "-"}</p>
+                {dsoReport && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {describeDsoInputs(dsoReport.results[dsoReport.method], dsoReport.currency)}
+                  </p>
+                )}
+                {dsoReport && dsoReport.unconverted_currencies.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    excludes {dsoReport.unconverted_currencies.join(", ")} (no FX rate)
+                  </p>
+                )}
+                <div className="flex gap-2 mt-2">
+                  <Select value={dsoMethod} onValueChange={(value) => setDsoMethod(value as DsoMethod)}>
+                    <SelectTrigger className="h-7 w-auto text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DSO_METHOD_LABELS) as DsoMethod[]).map((method) => (
+                        <SelectItem key={method} value={method}>{DSO_METHOD_LABELS[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {dsoMethod !== "countback" && (
+                    <Select value={dsoPeriod} onValueChange={(value) => setDsoPeriod(value as DsoPeriod)}>
+                      <SelectTrigger className="h-7 w-auto text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DSO_PERIOD_LABELS) as DsoPeriod[]).map((period) => (
+                          <SelectItem key={period} value={period}>{DSO_PERIOD_LABELS[period]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
               </div>
               <div className="h-12 w-12 rounded-full bg-warning/10 flex items-center justify-center">
                 <Clock className="h-6 w-6 text-warning" />
@@ -244,14 +327,24 @@ const Dashboard = () => {
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <Card className="p-6 bg-gradient-card shadow-card">
-            <h2 className="text-xl font-semibold mb-4">AR Portfolio by Risk</h2>
-            <RiskChart 
-              data={invoices} 
-              onSegmentClick={setRiskFilter}
-              activeFilter={riskFilter}
+          <div className="space-y-6">
+            <Card className="p-6 bg-gradient-card shadow-card">
+              <h2 className="text-xl font-semibold mb-4">AR Portfolio by Risk</h2>
+              <RiskChart 
+                data={invoices} 
+                onSegmentClick={setRiskFilter}
+                activeFilter={riskFilter}
+              />
+            </Card>
+
+            <RiskDrivers
+              drivers={drivers}
+              currency={functionalCurrency}
+              excludedCurrencies={invoiceUnconverted}
+              activeFactor={factorFilter}
+              onFactorClick={setFactorFilter}
             />
-          </Card>
+          </div>
 
           <div className="lg:col-span-2">
             <InvoiceList 
@@ -2,9 +2,19 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileText, MessageSquare, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { FileText, MessageSquare, Loader2, ReceiptText } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
 
 type DisputeStatus = "new" | "in-review" | "awaiting-customer" | "resolved";
 
@@ -14,15 +24,25 @@ interface Dispute {
   disputed_amount: number;
   reason: string | null;
   created_at: string;
+  payment_id: string | null;
+  difference_type: "early_pay_discount" | "freight_deduction" | "tax_mismatch" | "short_payment" | null;
+  credit_memo_id: string | null;
+  credit_memo_number: string | null;
+  credit_memo_amount: number | null;
   invoice_id: string;
   invoice_number: string;
   invoice_amount: number;
+  currency: string;
   customer_name: string;
 }
 
 const DisputeManagement = () => {
   const [disputes, setDisputes] = useState<Dispute[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [creditDispute, setCreditDispute] = useState<Dispute | null>(null);
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditReason, setCreditReason] = useState("");
+  const [isCrediting, setIsCrediting] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -83,6 +103,63 @@ const DisputeManagement = () => {
     }
   };
 
+  const openCreditMemo = (dispute: Dispute) => {
+    setCreditDispute(dispute);
+    setCreditAmount(dispute.disputed_amount.toFixed(2));
+    setCreditReason("");
+  };
+
+  // Settles the dispute by issuing a credit memo against the invoice for the agreed amount
+  const handleCreditMemo = async () => {
+    if (!creditDispute) return;
+
+    try {
+      setIsCrediting(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<{ message: string }>('disputes', {
+        method: 'PUT',
+        body: {
+          dispute_id: creditDispute.dispute_id,
+          resolution: 'credit_memo',
+          credit_amount: Number(creditAmount),
+          reason: creditReason.trim() || undefined,
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Dispute resolved",
+        description: data?.message || "Credit memo issued",
+      });
+
+      setCreditDispute(null);
+      await fetchDisputes();
+    } catch (error: unknown) {
+      console.error("Error resolving dispute:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to issue credit memo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCrediting(false);
+    }
+  };
+
   const getStatusColor = (status: DisputeStatus) => {
     switch (status) {
       case "new":
@@ -171,19 +248,28 @@ const DisputeManagement = () => {
                           <div>
                             <p className="font-semibold">{dispute.customer_name}</p>
                             <p className="text-sm text-muted-foreground">{dispute.invoice_number}</p>
+                            {dispute.payment_id && (
+                              <p className="text-xs text-muted-foreground">Raised from payment {dispute.payment_id.slice(0, 8)}...</p>
+                            )}
                           </div>
 
                           <div className="bg-danger-muted rounded-lg p-3">
                             <div className="flex items-center justify-between text-sm mb-1">
                               <span className="text-muted-foreground">Invoice Amount:</span>
-                              <span className="font-medium">${parseFloat(dispute.invoice_amount.toString()).toLocaleString()}</span>
+                              <span className="font-medium">{formatCurrency(dispute.invoice_amount, dispute.currency)}</span>
                             </div>
                             <div className="flex items-center justify-between text-sm pt-2 border-t border-danger">
                               <span className="font-semibold">Disputed Amount:</span>
-                              <span className="font-bold text-danger">${parseFloat(dispute.disputed_amount.toString()).toLocaleString()}</span>
+                              <span className="font-bold text-danger">{formatCurrency(dispute.disputed_amount, dispute.currency)}</span>
                             </div>
                           </div>
 
+                          {dispute.credit_memo_number && (
+                            <p className="text-xs text-muted-foreground">
+                              Credited {formatCurrency(dispute.credit_memo_amount ?? 0, dispute.currency)} on {dispute.credit_memo_number}
+                            </p>
+                          )}
+
                           {dispute.reason && (
                             <div className="text-sm text-muted-foreground bg-muted/50 rounded p-2">
                               <div className="flex items-start gap-2">
@@ -202,6 +288,12 @@ const DisputeManagement = () => {
                               Update
                             </Button>
                           </div>
+                          {dispute.status !== "resolved" && (
+                            <Button variant="outline" size="sm" className="w-full" onClick={() => openCreditMemo(dispute)}>
+                              <ReceiptText className="h-4 w-4 mr-1" />
+                              Resolve with credit memo
+                            </Button>
+                          )}
                         </div>
                       </Card>
                     ))
@@ -212,6 +304,43 @@ const DisputeManagement = () => {
           })}
         </div>
       </div>
+
+      <Dialog open={Boolean(creditDispute)} onOpenChange={(open) => !open && setCreditDispute(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve with credit memo</DialogTitle>
+            <DialogDescription>
+              {creditDispute
+                ? `A credit memo is issued against ${creditDispute.invoice_number} for ${creditDispute.customer_name} and applied to it, and the dispute is resolved.`
+                : undefined}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              aria-label="Credit amount"
+              value={creditAmount}
+              onChange={(event) => setCreditAmount(event.target.value)}
+            />
+            <Textarea
+              placeholder="Reason for the credit (defaults to the dispute reason)"
+              value={creditReason}
+              onChange={(event) => setCreditReason(event.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCreditDispute(null)} disabled={isCrediting}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreditMemo} disabled={isCrediting || !(Number(creditAmount) > 0)}>
+                {isCrediting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ReceiptText className="h-4 w-4 mr-2" />}
+                Issue credit memo
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
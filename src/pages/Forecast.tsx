@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_CURRENCY, formatCompactCurrency, formatCurrency } from "@/lib/currency";
+
+interface ForecastAmounts {
+  optimistic: number;
+  expected: number;
+  pessimistic: number;
+}
+
+interface ForecastWeek extends ForecastAmounts {
+  week_start: string;
+  week_end: string;
+  invoice_count: number;
+}
+
+interface ForecastLine {
+  invoice_id: string;
+  invoice_number: string;
+  customer_name: string;
+  amount: number;
+  risk_score: number | null;
+  disputed: boolean;
+  predicted_date: string;
+  earliest_date: string;
+  latest_date: string;
+  week: number | null;
+}
+
+interface CashForecast {
+  currency: string;
+  as_of: string;
+  exclude_disputed: boolean;
+  weeks: ForecastWeek[];
+  beyond_horizon: ForecastAmounts;
+  total: ForecastAmounts;
+  excluded_disputed: { invoice_count: number; amount: number };
+  invoices: ForecastLine[];
+  // Currencies with no loaded rate, whose invoices are left out
+  unconverted_currencies: string[];
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const Forecast = () => {
+  const [forecast, setForecast] = useState<CashForecast | null>(null);
+  const [excludeDisputed, setExcludeDisputed] = useState(false);
+  const [selectedWeek, setSelectedWeek] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchForecast = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in to view the forecast",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<CashForecast>(
+        `cash-forecast?exclude_disputed=${excludeDisputed}`,
+        {
+          method: 'GET',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      );
+
+      if (error) throw error;
+      setForecast(data ?? null);
+    } catch (error: unknown) {
+      console.error('Error fetching cash forecast:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the cash forecast",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [excludeDisputed, toast]);
+
+  useEffect(() => {
+    fetchForecast();
+  }, [fetchForecast]);
+
+  const currency = forecast?.currency ?? DEFAULT_CURRENCY;
+  const weekInvoices = forecast && selectedWeek !== null
+    ? forecast.invoices.filter((line) => line.week === selectedWeek)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent">Cash Forecast</h1>
+            <p className="text-muted-foreground mt-1">
+              Expected receipts for the next {forecast?.weeks.length ?? 13} weeks, from each customer's payment behavior
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="exclude-disputed"
+              checked={excludeDisputed}
+              onCheckedChange={(checked) => {
+                setExcludeDisputed(checked);
+                setSelectedWeek(null);
+              }}
+            />
+            <Label htmlFor="exclude-disputed">Exclude disputed invoices</Label>
+          </div>
+        </div>
+
+        {isLoading && !forecast ? (
+          <Card className="p-8 bg-gradient-card shadow-card">
+            <div className="flex flex-col items-center justify-center space-y-4">
+              <Loader2 className="h-16 w-16 animate-spin text-primary" />
+              <p className="text-muted-foreground">Building forecast...</p>
+            </div>
+          </Card>
+        ) : forecast && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <Card className="p-6 bg-gradient-card shadow-card">
+                <p className="text-sm font-medium text-muted-foreground">Expected</p>
+                <p className="text-3xl font-bold mt-2">{formatCompactCurrency(forecast.total.expected, currency)}</p>
+                {forecast.unconverted_currencies.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Excludes {forecast.unconverted_currencies.join(", ")} invoices (no FX rate)
+                  </p>
+                )}
+              </Card>
+              <Card className="p-6 bg-gradient-card shadow-card">
+                <p className="text-sm font-medium text-muted-foreground">Optimistic</p>
+                <p className="text-3xl font-bold mt-2 text-success">{formatCompactCurrency(forecast.total.optimistic, currency)}</p>
+              </Card>
+              <Card className="p-6 bg-gradient-card shadow-card">
+                <p className="text-sm font-medium text-muted-foreground">Pessimistic</p>
+                <p className="text-3xl font-bold mt-2 text-danger">{formatCompactCurrency(forecast.total.pessimistic, currency)}</p>
+                <p className="text-xs text-muted-foreground mt-1">Latest likely dates, high-risk invoices left out</p>
+              </Card>
+              <Card className="p-6 bg-gradient-card shadow-card">
+                <p className="text-sm font-medium text-muted-foreground">After Week {forecast.weeks.length}</p>
+                <p className="text-3xl font-bold mt-2">{formatCompactCurrency(forecast.beyond_horizon.expected, currency)}</p>
+                {forecast.exclude_disputed && forecast.excluded_disputed.invoice_count > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatCurrency(forecast.excluded_disputed.amount, currency)} in {forecast.excluded_disputed.invoice_count} disputed
+                    invoice{forecast.excluded_disputed.invoice_count === 1 ? "" : "s"} excluded
+                  </p>
+                )}
+              </Card>
+            </div>
+
+            <Card className="p-6 bg-gradient-card shadow-card">
+              <h2 className="text-xl font-semibold mb-4">Weekly Receipts</h2>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart
+                    data={forecast.weeks}
+                    onClick={(state) => {
+                      if (typeof state?.activeTooltipIndex === "number") setSelectedWeek(state.activeTooltipIndex);
+                    }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="week_start" tickFormatter={formatDay} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                    <YAxis
+                      tickFormatter={(value: number) => formatCompactCurrency(value, currency)}
+                      stroke="hsl(var(--muted-foreground))"
+                      fontSize={12}
+                      width={70}
+                    />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [formatCurrency(value, currency), name]}
+                      labelFormatter={(date: string) => `Week of ${formatDay(date)}`}
+                    />
+                    <Legend />
+                    <Bar dataKey="expected" name="Expected" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} cursor="pointer" />
+                    <Line type="monotone" dataKey="optimistic" name="Optimistic" stroke="hsl(var(--success))" dot={false} />
+                    <Line type="monotone" dataKey="pessimistic" name="Pessimistic" stroke="hsl(var(--danger))" dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="p-6 bg-gradient-card shadow-card">
+                <h2 className="text-xl font-semibold mb-4">By Week</h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Week</TableHead>
+                      <TableHead className="text-right">Optimistic</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Pessimistic</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {forecast.weeks.map((week, index) => (
+                      <TableRow
+                        key={week.week_start}
+                        className={`cursor-pointer ${selectedWeek === index ? "bg-primary/10" : ""}`}
+                        onClick={() => setSelectedWeek(selectedWeek === index ? null : index)}
+                      >
+                        <TableCell>
+                          {formatDay(week.week_start)} – {formatDay(week.week_end)}
+                          <span className="text-xs text-muted-foreground ml-2">{week.invoice_count} inv.</span>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(week.optimistic, currency)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(week.expected, currency)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(week.pessimistic, currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+
+              <Card className="p-6 bg-gradient-card shadow-card">
+                <h2 className="text-xl font-semibold mb-4">
+                  {selectedWeek === null
+                    ? "Invoices"
+                    : `Expected week of ${formatDay(forecast.weeks[selectedWeek].week_start)}`}
+                </h2>
+                {selectedWeek === null ? (
+                  <p className="text-sm text-muted-foreground">Select a week to see the invoices expected in it.</p>
+                ) : weekInvoices.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No invoices are expected to be paid this week.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {weekInvoices.map((line) => (
+                      <div key={line.invoice_id} className="flex items-center justify-between text-sm border-b border-border pb-2">
+                        <div>
+                          <p className="font-medium">
+                            {line.customer_name}
+                            {line.disputed && <span className="text-warning ml-2">Disputed</span>}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {line.invoice_number}, likely {formatDay(line.earliest_date)} – {formatDay(line.latest_date)}
+                          </p>
+                        </div>
+                        <span className="font-medium">{formatCurrency(line.amount, currency)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Forecast;
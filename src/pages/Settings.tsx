@@ -0,0 +1,328 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { FxRates } from "@/components/settings/FxRates";
+import { RiskModel } from "@/components/settings/RiskModel";
+
+interface MatchingSettings {
+  exact_tolerance: number;
+  suggestion_tolerance_percent: number;
+  suggestion_tolerance_minimum: number;
+  combo_bonus: number;
+  fx_tolerance_percent: number;
+  auto_apply_enabled: boolean;
+  auto_apply_min_confidence: number;
+  write_off_limit: number | null;
+  auto_dispute_threshold: number | null;
+  is_default?: boolean;
+}
+
+// Inputs are edited as text so a field can be cleared while typing
+type SettingsForm = Record<Exclude<keyof MatchingSettings, "auto_apply_enabled" | "is_default">, string> & {
+  auto_apply_enabled: boolean;
+};
+
+const toForm = (settings: MatchingSettings): SettingsForm => ({
+  exact_tolerance: settings.exact_tolerance.toString(),
+  suggestion_tolerance_percent: settings.suggestion_tolerance_percent.toString(),
+  suggestion_tolerance_minimum: settings.suggestion_tolerance_minimum.toString(),
+  // Shown as percentage points; stored as a 0-1 fraction
+  combo_bonus: Math.round(settings.combo_bonus * 100).toString(),
+  fx_tolerance_percent: settings.fx_tolerance_percent.toString(),
+  auto_apply_enabled: settings.auto_apply_enabled,
+  auto_apply_min_confidence: settings.auto_apply_min_confidence.toString(),
+  write_off_limit: settings.write_off_limit === null ? "" : settings.write_off_limit.toString(),
+  auto_dispute_threshold: settings.auto_dispute_threshold === null ? "" : settings.auto_dispute_threshold.toString(),
+});
+
+const Settings = () => {
+  const [form, setForm] = useState<SettingsForm | null>(null);
+  const [isDefault, setIsDefault] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const getErrorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unexpected error occurred';
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in to view settings",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<MatchingSettings>('matching-settings', {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      if (data) {
+        setForm(toForm(data));
+        setIsDefault(Boolean(data.is_default));
+      }
+    } catch (error: unknown) {
+      console.error('Error fetching matching settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load matching settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateField = (field: keyof SettingsForm, value: string | boolean) => {
+    setForm((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setIsSaving(true);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<MatchingSettings>('matching-settings', {
+        method: 'PUT',
+        body: {
+          exact_tolerance: Number(form.exact_tolerance),
+          suggestion_tolerance_percent: Number(form.suggestion_tolerance_percent),
+          suggestion_tolerance_minimum: Number(form.suggestion_tolerance_minimum),
+          combo_bonus: Number(form.combo_bonus) / 100,
+          fx_tolerance_percent: Number(form.fx_tolerance_percent),
+          auto_apply_enabled: form.auto_apply_enabled,
+          auto_apply_min_confidence: Number(form.auto_apply_min_confidence),
+          write_off_limit: form.write_off_limit.trim() === "" ? null : Number(form.write_off_limit),
+          auto_dispute_threshold: form.auto_dispute_threshold.trim() === "" ? null : Number(form.auto_dispute_threshold),
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+      if (data) {
+        setForm(toForm(data));
+        setIsDefault(false);
+      }
+
+      toast({
+        title: "Settings saved",
+        description: "Matching rules apply to the next payment matched",
+      });
+    } catch (error: unknown) {
+      console.error('Error saving matching settings:', error);
+      toast({
+        title: "Could not save settings",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6 max-w-3xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent">Settings</h1>
+            <p className="text-muted-foreground mt-1">
+              Payment matching rules{isDefault ? " (using defaults)" : ""}
+            </p>
+          </div>
+          <Button onClick={handleSave} disabled={!form || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+
+        {isLoading || !form ? (
+          <Card className="p-8 bg-gradient-card shadow-card">
+            <div className="flex flex-col items-center justify-center space-y-4">
+              <Loader2 className="h-16 w-16 animate-spin text-primary" />
+              <p className="text-muted-foreground">Loading settings...</p>
+            </div>
+          </Card>
+        ) : (
+          <>
+            <Card className="p-6 bg-gradient-card shadow-card space-y-4">
+              <h2 className="text-xl font-semibold">Tolerances</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="exact-tolerance">Exact match tolerance</Label>
+                  <Input
+                    id="exact-tolerance"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.exact_tolerance}
+                    onChange={(event) => updateField("exact_tolerance", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Payments this close to an invoice are applied as exact matches. A short difference is written off.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="write-off-limit">Write-off limit</Label>
+                  <Input
+                    id="write-off-limit"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No limit"
+                    value={form.write_off_limit}
+                    onChange={(event) => updateField("write_off_limit", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Largest short-payment per invoice that can be written off. Leave empty for no limit.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="suggestion-percent">Suggestion window (% of payment)</Label>
+                  <Input
+                    id="suggestion-percent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={form.suggestion_tolerance_percent}
+                    onChange={(event) => updateField("suggestion_tolerance_percent", event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="suggestion-minimum">Suggestion window minimum</Label>
+                  <Input
+                    id="suggestion-minimum"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={form.suggestion_tolerance_minimum}
+                    onChange={(event) => updateField("suggestion_tolerance_minimum", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Invoice combinations within the larger of the two windows are suggested.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="combo-bonus">Multi-invoice bonus (points)</Label>
+                  <Input
+                    id="combo-bonus"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={form.combo_bonus}
+                    onChange={(event) => updateField("combo_bonus", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Confidence added to suggestions that combine several invoices.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fx-tolerance">FX tolerance (%)</Label>
+                  <Input
+                    id="fx-tolerance"
+                    type="number"
+                    min="0"
+                    max="20"
+                    step="0.1"
+                    value={form.fx_tolerance_percent}
+                    onChange={(event) => updateField("fx_tolerance_percent", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    A payment in another currency that differs from the invoice by no more than this, after conversion, settles it in full. The difference is booked as realized FX.
+                  </p>
+                </div>
+              </div>
+            </Card>
+
+            <Card className="p-6 bg-gradient-card shadow-card space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-xl font-semibold">Auto-apply</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Apply the top suggestion without review when it is confident enough and its difference fits the tolerance or write-off limit.
+                  </p>
+                </div>
+                <Switch
+                  checked={form.auto_apply_enabled}
+                  onCheckedChange={(checked) => updateField("auto_apply_enabled", checked)}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="auto-apply-confidence">Minimum confidence (%)</Label>
+                  <Input
+                    id="auto-apply-confidence"
+                    type="number"
+                    min="50"
+                    max="100"
+                    step="1"
+                    disabled={!form.auto_apply_enabled}
+                    value={form.auto_apply_min_confidence}
+                    onChange={(event) => updateField("auto_apply_min_confidence", event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="auto-dispute-threshold">Dispute short payments from</Label>
+                  <Input
+                    id="auto-dispute-threshold"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Never"
+                    disabled={!form.auto_apply_enabled}
+                    value={form.auto_dispute_threshold}
+                    onChange={(event) => updateField("auto_dispute_threshold", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Unexplained short payments of this amount or more open a dispute instead of a write-off. Discounts, freight and tax deductions are not disputed.
+                  </p>
+                </div>
+              </div>
+            </Card>
+
+            <FxRates />
+
+            <RiskModel />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
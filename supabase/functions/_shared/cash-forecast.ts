@@ -0,0 +1,137 @@
+import type { PaymentPrediction } from './payment-prediction.ts';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const FORECAST_WEEKS = 13;
+
+// Invoices at or above this risk score are not counted on in the pessimistic scenario
+const PESSIMISTIC_RISK_CUTOFF = 0.7;
+
+export type ForecastInvoice = {
+  invoice_id: string;
+  invoice_number: string;
+  customer_name: string;
+  // Open balance in the functional currency
+  amount: number;
+  risk_score: number | null;
+  disputed: boolean;
+};
+
+export type ForecastAmounts = {
+  optimistic: number;
+  expected: number;
+  pessimistic: number;
+};
+
+export type ForecastWeek = ForecastAmounts & {
+  week_start: string;
+  week_end: string;
+  // Invoices expected to be paid this week
+  invoice_count: number;
+};
+
+export type ForecastLine = ForecastInvoice & {
+  predicted_date: string;
+  earliest_date: string;
+  latest_date: string;
+  // Week the invoice is expected in, counting from 0; null when beyond the horizon
+  week: number | null;
+};
+
+export type CashForecast = {
+  as_of: string;
+  weeks: ForecastWeek[];
+  // Expected after the last week
+  beyond_horizon: ForecastAmounts;
+  total: ForecastAmounts;
+  excluded_disputed: { invoice_count: number; amount: number };
+  invoices: ForecastLine[];
+};
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+const weekOf = (asOf: string, date: string, weeks: number) => {
+  const index = Math.floor(Math.max(0, new Date(date).getTime() - new Date(asOf).getTime()) / (7 * MS_PER_DAY));
+  return index < weeks ? index : null;
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Buckets open balances into weeks starting asOf. The optimistic scenario takes each invoice's
+ * earliest likely payment date, the expected one its predicted date, and the pessimistic one its
+ * latest likely date, leaving out high-risk invoices altogether. Disputed invoices are left out
+ * of every scenario when excludeDisputed is set.
+ */
+export const buildCashForecast = (
+  invoices: ForecastInvoice[],
+  predictions: Map<string, PaymentPrediction>,
+  asOf: string,
+  { weeks = FORECAST_WEEKS, excludeDisputed = false }: { weeks?: number; excludeDisputed?: boolean } = {}
+): CashForecast => {
+  const buckets: ForecastWeek[] = Array.from({ length: weeks }, (_, index) => ({
+    week_start: addDays(asOf, index * 7),
+    week_end: addDays(asOf, index * 7 + 6),
+    optimistic: 0,
+    expected: 0,
+    pessimistic: 0,
+    invoice_count: 0,
+  }));
+  const beyond: ForecastAmounts = { optimistic: 0, expected: 0, pessimistic: 0 };
+  const excluded = { invoice_count: 0, amount: 0 };
+  const lines: ForecastLine[] = [];
+
+  const add = (scenario: keyof ForecastAmounts, date: string, amount: number) => {
+    const week = weekOf(asOf, date, weeks);
+    if (week === null) beyond[scenario] += amount;
+    else buckets[week][scenario] += amount;
+  };
+
+  for (const invoice of invoices) {
+    const prediction = predictions.get(invoice.invoice_id);
+    if (!prediction) continue;
+
+    if (excludeDisputed && invoice.disputed) {
+      excluded.invoice_count += 1;
+      excluded.amount += invoice.amount;
+      continue;
+    }
+
+    add('optimistic', prediction.earliest_date, invoice.amount);
+    add('expected', prediction.predicted_date, invoice.amount);
+    if ((invoice.risk_score ?? 0) < PESSIMISTIC_RISK_CUTOFF) {
+      add('pessimistic', prediction.latest_date, invoice.amount);
+    } else {
+      beyond.pessimistic += invoice.amount;
+    }
+
+    const week = weekOf(asOf, prediction.predicted_date, weeks);
+    if (week !== null) buckets[week].invoice_count += 1;
+    lines.push({
+      ...invoice,
+      predicted_date: prediction.predicted_date,
+      earliest_date: prediction.earliest_date,
+      latest_date: prediction.latest_date,
+      week,
+    });
+  }
+
+  const roundAmounts = <T extends ForecastAmounts>(amounts: T): T => ({
+    ...amounts,
+    optimistic: round(amounts.optimistic),
+    expected: round(amounts.expected),
+    pessimistic: round(amounts.pessimistic),
+  });
+  const sum = (scenario: keyof ForecastAmounts) => buckets.reduce((total, bucket) => total + bucket[scenario], 0);
+
+  return {
+    as_of: asOf,
+    weeks: buckets.map(roundAmounts),
+    beyond_horizon: roundAmounts(beyond),
+    // Within the horizon
+    total: roundAmounts({ optimistic: sum('optimistic'), expected: sum('expected'), pessimistic: sum('pessimistic') }),
+    excluded_disputed: { invoice_count: excluded.invoice_count, amount: round(excluded.amount) },
+    invoices: lines.sort((a, b) => a.predicted_date.localeCompare(b.predicted_date)),
+  };
+};
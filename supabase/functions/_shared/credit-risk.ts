@@ -0,0 +1,324 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { convertAmount, type FxContext, today } from './fx.ts';
+
+export type CreditSettings = {
+  // In the functional currency; null means credit is not capped
+  credit_limit: number | null;
+  credit_hold: boolean;
+  credit_hold_reason: string | null;
+};
+
+/**
+ * A customer's credit position, every amount in the tenant's functional currency at today's rates.
+ * A balance without a loaded rate counts as it stands, as in the database's customer_exposure.
+ */
+export type CustomerRiskProfile = CreditSettings & {
+  customer_id: string;
+  name: string;
+  currency: string;
+  open_invoice_count: number;
+  // Open invoice balances
+  exposure: number;
+  overdue_exposure: number;
+  // Average risk score of the open invoices, weighted by balance; null when none are scored
+  weighted_risk: number | null;
+  // Cash held on account, not yet applied to any invoice
+  on_account_credit: number;
+  // Null when there is no limit
+  available_credit: number | null;
+  utilization: number | null;
+  over_limit: boolean;
+  last_payment_date: string | null;
+};
+
+export type ExposurePoint = {
+  date: string;
+  exposure: number;
+  credit_limit: number | null;
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const toFunctional = (fx: FxContext, amount: number, currency: string, date: string) =>
+  convertAmount(fx, amount, currency, fx.functional_currency, date) ?? amount;
+
+/**
+ * Validates a credit settings update. Only the fields present are returned; releasing a hold
+ * clears its reason.
+ */
+export const validateCreditSettings = (
+  body: Record<string, unknown>
+): { settings: Partial<CreditSettings>; errors: string[] } => {
+  const settings: Partial<CreditSettings> = {};
+  const errors: string[] = [];
+
+  if ('credit_limit' in body) {
+    if (body.credit_limit === null || body.credit_limit === '') {
+      settings.credit_limit = null;
+    } else {
+      const limit = typeof body.credit_limit === 'number' ? body.credit_limit : Number(body.credit_limit);
+      if (!Number.isFinite(limit) || limit < 0) {
+        errors.push('credit_limit must be a non-negative number or null');
+      } else {
+        settings.credit_limit = round(limit);
+      }
+    }
+  }
+
+  if ('credit_hold' in body) {
+    if (typeof body.credit_hold !== 'boolean') {
+      errors.push('credit_hold must be true or false');
+    } else {
+      settings.credit_hold = body.credit_hold;
+      if (!body.credit_hold) settings.credit_hold_reason = null;
+    }
+  }
+
+  if ('credit_hold_reason' in body && settings.credit_hold !== false) {
+    if (body.credit_hold_reason !== null && typeof body.credit_hold_reason !== 'string') {
+      errors.push('credit_hold_reason must be text');
+    } else {
+      settings.credit_hold_reason = (body.credit_hold_reason as string | null)?.trim() || null;
+    }
+  }
+
+  if (Object.keys(settings).length === 0 && errors.length === 0) {
+    errors.push('Nothing to update: send credit_limit, credit_hold or credit_hold_reason');
+  }
+
+  return { settings, errors };
+};
+
+/**
+ * Credit positions of the tenant's customers, or of one customer, largest exposure first.
+ */
+export const loadCustomerRiskProfiles = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  fx: FxContext,
+  customerId?: string
+): Promise<CustomerRiskProfile[]> => {
+  let customersQuery = supabase
+    .from('customers')
+    .select('customer_id, name, credit_limit, credit_hold, credit_hold_reason')
+    .eq('tenant_id', tenantId);
+  let invoicesQuery = supabase
+    .from('invoices')
+    .select('customer_id, open_balance, currency, due_date, risk_score')
+    .eq('tenant_id', tenantId)
+    .eq('document_type', 'invoice')
+    .gt('open_balance', 0.005);
+  let creditsQuery = supabase
+    .from('customer_credit_balances')
+    .select('customer_id, unapplied_amount, currency')
+    .eq('tenant_id', tenantId);
+  let paymentsQuery = supabase
+    .from('payments')
+    .select('customer_id, payment_date')
+    .eq('tenant_id', tenantId)
+    .not('customer_id', 'is', null);
+
+  if (customerId) {
+    customersQuery = customersQuery.eq('customer_id', customerId);
+    invoicesQuery = invoicesQuery.eq('customer_id', customerId);
+    creditsQuery = creditsQuery.eq('customer_id', customerId);
+    paymentsQuery = paymentsQuery.eq('customer_id', customerId);
+  }
+
+  const [
+    { data: customers, error: customersError },
+    { data: invoices, error: invoicesError },
+    { data: credits, error: creditsError },
+    { data: payments, error: paymentsError },
+  ] = await Promise.all([customersQuery, invoicesQuery, creditsQuery, paymentsQuery]);
+
+  if (customersError || invoicesError || creditsError || paymentsError) {
+    console.error('Error fetching customer credit data:', customersError ?? invoicesError ?? creditsError ?? paymentsError);
+    throw customersError ?? invoicesError ?? creditsError ?? paymentsError;
+  }
+
+  const rateDate = today();
+  const profiles = new Map<string, CustomerRiskProfile & { scored_exposure: number; risk_sum: number }>();
+  for (const customer of customers || []) {
+    profiles.set(customer.customer_id, {
+      customer_id: customer.customer_id,
+      name: customer.name,
+      currency: fx.functional_currency,
+      credit_limit: customer.credit_limit === null ? null : Number(customer.credit_limit),
+      credit_hold: customer.credit_hold,
+      credit_hold_reason: customer.credit_hold_reason,
+      open_invoice_count: 0,
+      exposure: 0,
+      overdue_exposure: 0,
+      weighted_risk: null,
+      on_account_credit: 0,
+      available_credit: null,
+      utilization: null,
+      over_limit: false,
+      last_payment_date: null,
+      scored_exposure: 0,
+      risk_sum: 0,
+    });
+  }
+
+  for (const invoice of invoices || []) {
+    const profile = profiles.get(invoice.customer_id);
+    if (!profile) continue;
+    const balance = toFunctional(fx, Number(invoice.open_balance), invoice.currency, rateDate);
+    profile.open_invoice_count += 1;
+    profile.exposure += balance;
+    if (invoice.due_date < rateDate) profile.overdue_exposure += balance;
+    if (invoice.risk_score !== null) {
+      profile.scored_exposure += balance;
+      profile.risk_sum += balance * Number(invoice.risk_score);
+    }
+  }
+
+  for (const credit of credits || []) {
+    const profile = profiles.get(credit.customer_id);
+    if (profile) profile.on_account_credit += toFunctional(fx, Number(credit.unapplied_amount), credit.currency, rateDate);
+  }
+
+  for (const payment of payments || []) {
+    const profile = profiles.get(payment.customer_id);
+    if (profile && (!profile.last_payment_date || payment.payment_date > profile.last_payment_date)) {
+      profile.last_payment_date = payment.payment_date;
+    }
+  }
+
+  return Array.from(profiles.values())
+    .map(({ scored_exposure, risk_sum, ...profile }) => {
+      const exposure = round(profile.exposure);
+      return {
+        ...profile,
+        exposure,
+        overdue_exposure: round(profile.overdue_exposure),
+        on_account_credit: round(profile.on_account_credit),
+        weighted_risk: scored_exposure > 0 ? Number((risk_sum / scored_exposure).toFixed(4)) : null,
+        available_credit: profile.credit_limit === null ? null : round(profile.credit_limit - exposure),
+        utilization: profile.credit_limit ? Number((exposure / profile.credit_limit).toFixed(4)) : null,
+        over_limit: profile.credit_limit !== null && exposure > profile.credit_limit + 0.005,
+      };
+    })
+    .sort((a, b) => b.exposure - a.exposure);
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * The customer's exposure at the end of each of the last weeks, rebuilt from when its invoices
+ * were issued and when payments, credit memos and write-offs settled them, against the credit
+ * limit in force on each date. Balances are converted at today's rates so the line moves only with
+ * what the customer owes.
+ */
+export const loadExposureTimeline = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  fx: FxContext,
+  customer: Pick<CustomerRiskProfile, 'customer_id' | 'credit_limit'>,
+  weeks = 26
+): Promise<ExposurePoint[]> => {
+  const { data: invoices, error: invoicesError } = await supabase
+    .from('invoices')
+    .select('invoice_id, amount, currency, created_at, due_date')
+    .eq('tenant_id', tenantId)
+    .eq('customer_id', customer.customer_id)
+    .eq('document_type', 'invoice');
+
+  if (invoicesError) {
+    console.error('Error fetching customer invoices:', invoicesError);
+    throw invoicesError;
+  }
+
+  const invoiceIds = (invoices || []).map((invoice) => invoice.invoice_id);
+  const [
+    { data: applications, error: applicationsError },
+    { data: creditApplications, error: creditApplicationsError },
+    { data: writeOffs, error: writeOffsError },
+    { data: limitChanges, error: limitChangesError },
+  ] = await Promise.all([
+    supabase
+      .from('payment_applications')
+      .select('invoice_id, amount_applied, reversed_at, payments(payment_date)')
+      .eq('tenant_id', tenantId)
+      .in('invoice_id', invoiceIds),
+    supabase
+      .from('credit_memo_applications')
+      .select('invoice_id, amount, applied_at, reversed_at')
+      .eq('tenant_id', tenantId)
+      .in('invoice_id', invoiceIds),
+    supabase
+      .from('invoice_write_offs')
+      .select('invoice_id, amount, created_at, reversed_at')
+      .eq('tenant_id', tenantId)
+      .in('invoice_id', invoiceIds),
+    supabase
+      .from('credit_limit_changes')
+      .select('credit_limit, previous_limit, changed_at')
+      .eq('tenant_id', tenantId)
+      .eq('customer_id', customer.customer_id)
+      .order('changed_at', { ascending: true }),
+  ]);
+
+  if (applicationsError || creditApplicationsError || writeOffsError || limitChangesError) {
+    console.error(
+      'Error fetching exposure history:',
+      applicationsError ?? creditApplicationsError ?? writeOffsError ?? limitChangesError
+    );
+    throw applicationsError ?? creditApplicationsError ?? writeOffsError ?? limitChangesError;
+  }
+
+  // Each settlement as [invoice, amount, from, until]: it reduces the balance from the date it
+  // was made until the date it was reversed, if ever
+  const settlements: Array<[string, number, string, string | null]> = [
+    ...(applications || []).map((application) => {
+      const payment = Array.isArray(application.payments) ? application.payments[0] : application.payments;
+      return [
+        application.invoice_id,
+        Number(application.amount_applied),
+        payment?.payment_date ?? '',
+        application.reversed_at?.slice(0, 10) ?? null,
+      ] as [string, number, string, string | null];
+    }),
+    ...(creditApplications || []).map((application) => [
+      application.invoice_id,
+      Number(application.amount),
+      application.applied_at?.slice(0, 10) ?? '',
+      application.reversed_at?.slice(0, 10) ?? null,
+    ] as [string, number, string, string | null]),
+    ...(writeOffs || []).map((writeOff) => [
+      writeOff.invoice_id,
+      Number(writeOff.amount),
+      writeOff.created_at?.slice(0, 10) ?? '',
+      writeOff.reversed_at?.slice(0, 10) ?? null,
+    ] as [string, number, string, string | null]),
+  ];
+
+  const rateDate = today();
+  const currencies = new Map((invoices || []).map((invoice) => [invoice.invoice_id, invoice.currency]));
+  const changes = limitChanges || [];
+  const limitOn = (date: string) => {
+    const latest = [...changes].reverse().find((change) => change.changed_at.slice(0, 10) <= date);
+    if (latest) return latest.credit_limit === null ? null : Number(latest.credit_limit);
+    // Before the first recorded change the limit was what that change replaced
+    if (changes.length > 0) return changes[0].previous_limit === null ? null : Number(changes[0].previous_limit);
+    return customer.credit_limit;
+  };
+
+  const now = Date.now();
+  return Array.from({ length: weeks + 1 }, (_, index) => {
+    const date = new Date(now - (weeks - index) * WEEK_MS).toISOString().slice(0, 10);
+    const issued = (invoices || []).filter((invoice) => (invoice.created_at ?? invoice.due_date).slice(0, 10) <= date);
+    const billed = issued.reduce(
+      (sum, invoice) => sum + toFunctional(fx, Number(invoice.amount), invoice.currency, rateDate),
+      0
+    );
+    const settled = settlements
+      .filter(([, , from, until]) => from && from <= date && (!until || until > date))
+      .reduce(
+        (sum, [invoiceId, amount]) => sum + toFunctional(fx, amount, currencies.get(invoiceId) ?? fx.functional_currency, rateDate),
+        0
+      );
+    return { date, exposure: round(Math.max(0, billed - settled)), credit_limit: limitOn(date) };
+  });
+};
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// How a short-payment was explained; null for disputes raised by hand
+export type DifferenceType = 'early_pay_discount' | 'freight_deduction' | 'tax_mismatch' | 'short_payment';
+
+export type NewDispute = {
+  invoice_id: string;
+  disputed_amount: number;
+  reason?: string | null;
+  payment_id?: string | null;
+  difference_type?: DifferenceType | null;
+};
+
+export type DisputeRecord = {
+  dispute_id: string;
+  invoice_id: string;
+  payment_id: string | null;
+  disputed_amount: number;
+  reason: string | null;
+  status: string;
+  difference_type: DifferenceType | null;
+  created_at: string;
+};
+
+/**
+ * Opens a dispute on one of the tenant's invoices and marks the invoice disputed.
+ * Returns null when the invoice does not belong to the tenant.
+ */
+export const openDispute = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  dispute: NewDispute
+): Promise<DisputeRecord | null> => {
+  // Verify invoice belongs to this tenant
+  const { data: invoiceCheck, error: invoiceCheckError } = await supabase
+    .from('invoices')
+    .select('invoice_id')
+    .eq('invoice_id', dispute.invoice_id)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (invoiceCheckError) {
+    console.error('Error checking invoice:', invoiceCheckError);
+    throw invoiceCheckError;
+  }
+
+  if (!invoiceCheck) {
+    return null;
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from('disputes')
+    .insert({
+      invoice_id: dispute.invoice_id,
+      payment_id: dispute.payment_id ?? null,
+      disputed_amount: dispute.disputed_amount,
+      reason: dispute.reason || null,
+      difference_type: dispute.difference_type ?? null,
+      status: 'new',
+      tenant_id: tenantId,
+    })
+    .select()
+    .single();
+
+  if (createError) {
+    console.error('Error creating dispute:', createError);
+    throw createError;
+  }
+
+  const { error: updateError } = await supabase
+    .from('invoices')
+    .update({ status: 'disputed' })
+    .eq('invoice_id', dispute.invoice_id);
+
+  if (updateError) {
+    console.error('Error updating invoice status:', updateError);
+    throw updateError;
+  }
+
+  return created as DisputeRecord;
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDso, type DsoDocument, isDsoMethod, isDsoPeriod } from './dso.ts';
+import type { FxContext } from './fx.ts';
+
+const usd: FxContext = { functional_currency: 'USD', rates: [] };
+
+// Sales of 3,000 in January, 2,000 in February and 1,000 less a 200 credit memo in March
+const documents: DsoDocument[] = [
+  { invoice_id: 'a', document_type: 'invoice', currency: 'USD', amount: 3000, issue_date: '2025-01-15', due_date: '2025-02-14', settlements: [{ date: '2025-02-20', amount: 2000 }] },
+  { invoice_id: 'b', document_type: 'invoice', currency: 'USD', amount: 2000, issue_date: '2025-02-15', due_date: '2025-03-17', settlements: [] },
+  { invoice_id: 'c', document_type: 'invoice', currency: 'USD', amount: 1000, issue_date: '2025-03-10', due_date: '2025-04-09', settlements: [] },
+  { invoice_id: 'm', document_type: 'credit_memo', currency: 'USD', amount: -200, issue_date: '2025-03-20', due_date: '2025-03-20', settlements: [] },
+];
+
+describe('isDsoPeriod', () => {
+  it('accepts the periods DSO is calculated over', () => {
+    expect(['month', 'quarter', 'year'].every(isDsoPeriod)).toBe(true);
+  });
+
+  it.each(['toString', 'constructor', 'hasOwnProperty', '__proto__', 'week', ''])('rejects %j', (period) => {
+    expect(isDsoPeriod(period)).toBe(false);
+  });
+});
+
+describe('isDsoMethod', () => {
+  it.each(['standard', 'countback', 'best_possible', 'add'])('accepts %s', (method) => {
+    expect(isDsoMethod(method)).toBe(true);
+  });
+
+  it.each(['toString', 'average', ''])('rejects %j', (method) => {
+    expect(isDsoMethod(method)).toBe(false);
+  });
+});
+
+describe('calculateDso', () => {
+  it('calculates every method for the quarter with its inputs', () => {
+    const report = calculateDso(documents, '2025-03-31', 'quarter', 'standard', usd);
+
+    expect(report.period_start).toBe('2024-12-31');
+    expect(report.results.standard).toEqual({
+      method: 'standard',
+      value: 62.1,
+      inputs: { receivables: 4000, credit_sales: 5800, days: 90 },
+    });
+    expect(report.results.best_possible.value).toBe(15.5);
+    expect(report.results.add.value).toBe(46.6);
+    expect(report.dso).toBe(62);
+  });
+
+  it('counts back through whole months of sales and a share of the last', () => {
+    const report = calculateDso(documents, '2025-03-31', 'month', 'countback', usd);
+
+    // 31 days of March, 28 of February and 1,200 / 3,000 of January's 31
+    expect(report.results.countback.value).toBe(71.4);
+    expect(report.dso).toBe(71);
+  });
+
+  it('has no standard DSO for a period without sales', () => {
+    const report = calculateDso(documents, '2025-06-30', 'month', 'standard', usd);
+
+    expect(report.results.standard.value).toBeNull();
+    expect(report.dso).toBeNull();
+  });
+
+  it('converts each balance once at the measurement date', () => {
+    // The euro weakened between the sale and the payment
+    const fx: FxContext = {
+      functional_currency: 'USD',
+      rates: [
+        { rate_date: '2025-03-15', from_currency: 'EUR', to_currency: 'USD', rate: 1.1 },
+        { rate_date: '2025-03-01', from_currency: 'EUR', to_currency: 'USD', rate: 1.2 },
+      ],
+    };
+    const sales: DsoDocument[] = [
+      { invoice_id: 'paid', document_type: 'invoice', currency: 'EUR', amount: 1000, issue_date: '2025-03-05', due_date: '2025-04-04', settlements: [{ date: '2025-03-20', amount: 1000 }] },
+      { invoice_id: 'open', document_type: 'invoice', currency: 'EUR', amount: 500, issue_date: '2025-03-10', due_date: '2025-04-09', settlements: [] },
+      { invoice_id: 'home', document_type: 'invoice', currency: 'USD', amount: 600, issue_date: '2025-03-15', due_date: '2025-04-14', settlements: [] },
+    ];
+
+    const report = calculateDso(sales, '2025-03-31', 'month', 'standard', fx);
+
+    // The settled invoice owes nothing; the open one is at the month-end rate; sales at their issue-date rates
+    expect(report.results.standard.inputs).toEqual({ receivables: 1150, credit_sales: 2400, days: 30 });
+    expect(report.unconverted_currencies).toEqual([]);
+  });
+
+  it('leaves out and reports amounts in a currency without a rate', () => {
+    const sales: DsoDocument[] = [
+      ...documents,
+      { invoice_id: 'gbp', document_type: 'invoice', currency: 'GBP', amount: 900, issue_date: '2025-03-12', due_date: '2025-04-11', settlements: [] },
+      { invoice_id: 'chf', document_type: 'invoice', currency: 'CHF', amount: 400, issue_date: '2024-06-01', due_date: '2024-07-01', settlements: [{ date: '2024-06-20', amount: 400 }] },
+    ];
+
+    const report = calculateDso(sales, '2025-03-31', 'quarter', 'standard', usd);
+
+    expect(report.results.standard.inputs).toEqual({ receivables: 4000, credit_sales: 5800, days: 90 });
+    // A settled invoice has no balance to convert
+    expect(report.unconverted_currencies).toEqual(['GBP']);
+  });
+});
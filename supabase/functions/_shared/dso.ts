@@ -0,0 +1,313 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { convertAmount, type FxContext } from './fx.ts';
+import { fetchAllRows } from './paging.ts';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const DSO_METHODS = ['standard', 'countback', 'best_possible', 'add'] as const;
+export type DsoMethod = typeof DSO_METHODS[number];
+
+// Days in each period, as conventionally used in the standard formula
+export const DSO_PERIODS = { month: 30, quarter: 90, year: 365 } as const;
+export type DsoPeriod = keyof typeof DSO_PERIODS;
+
+// Own keys only, so names inherited from Object.prototype such as 'toString' are not periods
+export const isDsoPeriod = (value: string): value is DsoPeriod => Object.hasOwn(DSO_PERIODS, value);
+
+export const isDsoMethod = (value: string): value is DsoMethod => (DSO_METHODS as readonly string[]).includes(value);
+
+// Months countback walks through before giving up on receivables older than every sale
+const MAX_COUNTBACK_MONTHS = 24;
+
+/**
+ * An invoice or credit memo with every amount in its own currency. Settlements are the payments,
+ * credit memo applications and write-offs that reduced an invoice, by date.
+ */
+export type DsoDocument = {
+  invoice_id: string;
+  document_type: 'invoice' | 'credit_memo';
+  currency: string;
+  // Negative for a credit memo
+  amount: number;
+  issue_date: string;
+  due_date: string;
+  settlements: Array<{ date: string; amount: number }>;
+};
+
+export type CountbackMonth = {
+  start: string;
+  end: string;
+  days: number;
+  credit_sales: number;
+  // Receivables this month's sales account for
+  receivables_covered: number;
+  days_counted: number;
+};
+
+export type DsoResult =
+  | {
+    method: 'standard';
+    value: number | null;
+    inputs: { receivables: number; credit_sales: number; days: number };
+  }
+  | {
+    method: 'best_possible';
+    value: number | null;
+    inputs: { current_receivables: number; credit_sales: number; days: number };
+  }
+  | {
+    method: 'add';
+    value: number | null;
+    inputs: { standard_dso: number | null; best_possible_dso: number | null };
+  }
+  | {
+    method: 'countback';
+    value: number | null;
+    // Receivables left unaccounted for once the months ran out; countback is only a lower bound then
+    inputs: { receivables: number; months: CountbackMonth[]; unaccounted_receivables: number };
+  };
+
+export type DsoReport = {
+  as_of: string;
+  period: DsoPeriod;
+  period_start: string;
+  days: number;
+  currency: string;
+  method: DsoMethod;
+  // The selected method's value in whole days
+  dso: number | null;
+  results: Record<DsoMethod, DsoResult>;
+  // Currencies with no loaded rate, whose amounts are left out
+  unconverted_currencies: string[];
+};
+
+// Converts an amount in a document's currency to the functional currency on a date
+type ToFunctional = (amount: number, currency: string, date: string) => number;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY);
+
+const addMonths = (date: string, months: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  // Clamp to the last day of the target month, so 31 March less a month is 28 or 29 February
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+const balanceAt = (document: DsoDocument, date: string) =>
+  document.amount -
+  document.settlements.filter((settlement) => settlement.date <= date).reduce((sum, settlement) => sum + settlement.amount, 0);
+
+/**
+ * Open invoice balances at the end of date. Each balance is worked out in the invoice's currency
+ * and converted once at date, so a settled invoice counts nothing however the rate has moved.
+ * Only invoices count; unapplied credit memos and cash on account are not netted off.
+ */
+export const receivablesAt = (
+  documents: DsoDocument[],
+  date: string,
+  toFunctional: ToFunctional,
+  { currentOnly = false } = {}
+) =>
+  round(
+    documents
+      .filter((document) => document.document_type === 'invoice' && document.issue_date <= date)
+      .filter((document) => !currentOnly || document.due_date >= date)
+      .reduce((sum, document) => sum + toFunctional(Math.max(balanceAt(document, date), 0), document.currency, date), 0)
+  );
+
+/**
+ * Net credit sales issued after from and up to and including to: invoices less credit memos,
+ * each converted on the date it was issued.
+ */
+export const creditSalesBetween = (documents: DsoDocument[], from: string, to: string, toFunctional: ToFunctional) =>
+  round(
+    documents
+      .filter((document) => document.issue_date > from && document.issue_date <= to)
+      .reduce((sum, document) => sum + toFunctional(document.amount, document.currency, document.issue_date), 0)
+  );
+
+/**
+ * Walks back from asOf a month at a time, taking each month's sales off the receivables until
+ * they are used up. The days counted are the whole months used plus the share of the last one.
+ */
+const countback = (documents: DsoDocument[], asOf: string, toFunctional: ToFunctional): DsoResult => {
+  const receivables = receivablesAt(documents, asOf, toFunctional);
+  const months: CountbackMonth[] = [];
+  let remaining = receivables;
+
+  for (let index = 0; index < MAX_COUNTBACK_MONTHS && remaining > 0; index++) {
+    const end = addMonths(asOf, -index);
+    const previousEnd = addMonths(asOf, -index - 1);
+    const days = daysBetween(previousEnd, end);
+    const sales = creditSalesBetween(documents, previousEnd, end, toFunctional);
+    const covered = Math.min(remaining, Math.max(sales, 0));
+    months.push({
+      start: addDays(previousEnd, 1),
+      end,
+      days,
+      credit_sales: sales,
+      receivables_covered: round(covered),
+      days_counted: sales > 0 ? round((covered / sales) * days, 1) : 0,
+    });
+    remaining = round(remaining - covered);
+  }
+
+  return {
+    method: 'countback',
+    value: receivables > 0 ? round(months.reduce((sum, month) => sum + month.days_counted, 0), 1) : 0,
+    inputs: { receivables, months, unaccounted_receivables: remaining },
+  };
+};
+
+/**
+ * Every DSO method for the period ending asOf, each with the figures it was calculated from.
+ * Standard DSO is receivables over the period's credit sales times its days; best-possible DSO
+ * is the same with only receivables not yet due; average days delinquent (ADD) is the
+ * difference. Countback does not depend on the period. Amounts are in the functional currency;
+ * those in a currency without a loaded rate are left out and reported.
+ */
+export const calculateDso = (
+  documents: DsoDocument[],
+  asOf: string,
+  period: DsoPeriod,
+  method: DsoMethod,
+  fx: FxContext
+): DsoReport => {
+  const unconverted = new Set<string>();
+  const toFunctional: ToFunctional = (amount, currency, date) => {
+    if (amount === 0) return 0;
+    const converted = convertAmount(fx, amount, currency, fx.functional_currency, date);
+    if (converted === null) unconverted.add(currency);
+    return converted ?? 0;
+  };
+
+  const days = DSO_PERIODS[period];
+  const periodStart = addDays(asOf, -days);
+  const creditSales = creditSalesBetween(documents, periodStart, asOf, toFunctional);
+  const receivables = receivablesAt(documents, asOf, toFunctional);
+  const currentReceivables = receivablesAt(documents, asOf, toFunctional, { currentOnly: true });
+  const overSales = (amount: number) => (creditSales > 0 ? round((amount / creditSales) * days, 1) : null);
+
+  const standard = overSales(receivables);
+  const bestPossible = overSales(currentReceivables);
+  const results: Record<DsoMethod, DsoResult> = {
+    standard: {
+      method: 'standard',
+      value: standard,
+      inputs: { receivables, credit_sales: creditSales, days },
+    },
+    countback: countback(documents, asOf, toFunctional),
+    best_possible: {
+      method: 'best_possible',
+      value: bestPossible,
+      inputs: { current_receivables: currentReceivables, credit_sales: creditSales, days },
+    },
+    add: {
+      method: 'add',
+      value: standard !== null && bestPossible !== null ? round(standard - bestPossible, 1) : null,
+      inputs: { standard_dso: standard, best_possible_dso: bestPossible },
+    },
+  };
+
+  const selected = results[method].value;
+  return {
+    as_of: asOf,
+    period,
+    // Sales are counted after this date
+    period_start: periodStart,
+    days,
+    currency: fx.functional_currency,
+    method,
+    dso: selected === null ? null : Math.round(selected),
+    results,
+    unconverted_currencies: Array.from(unconverted),
+  };
+};
+
+/**
+ * The tenant's invoices and credit memos with what settled them, in each document's currency.
+ * Reversed settlements are left out.
+ */
+export const loadDsoDocuments = async (supabase: SupabaseClient, tenantId: string): Promise<DsoDocument[]> => {
+  const [
+    { data: invoices, error: invoicesError },
+    { data: payments, error: paymentsError },
+    { data: credits, error: creditsError },
+    { data: writeOffs, error: writeOffsError },
+  ] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('invoices')
+        .select('invoice_id, document_type, amount, currency, created_at, due_date')
+        .eq('tenant_id', tenantId)
+        .order('invoice_id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('payment_applications')
+        .select('invoice_id, amount_applied, payments(payment_date)')
+        .eq('tenant_id', tenantId)
+        .is('reversed_at', null)
+        .order('application_id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('credit_memo_applications')
+        .select('invoice_id, amount, applied_at')
+        .eq('tenant_id', tenantId)
+        .is('reversed_at', null)
+        .order('credit_application_id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('invoice_write_offs')
+        .select('invoice_id, amount, created_at')
+        .eq('tenant_id', tenantId)
+        .is('reversed_at', null)
+        .order('write_off_id')
+        .range(from, to)
+    ),
+  ]);
+
+  const loadError = invoicesError ?? paymentsError ?? creditsError ?? writeOffsError;
+  if (loadError) {
+    console.error('Error fetching DSO documents:', loadError);
+    throw loadError;
+  }
+
+  const invoiceIds = new Set((invoices || []).map((invoice) => invoice.invoice_id));
+  const settlements = new Map<string, Array<{ date: string; amount: number }>>();
+  const settle = (invoiceId: string, date: string | null | undefined, amount: number) => {
+    if (!invoiceIds.has(invoiceId) || !date || !Number.isFinite(amount)) return;
+    settlements.set(invoiceId, [...(settlements.get(invoiceId) ?? []), { date: date.slice(0, 10), amount }]);
+  };
+
+  for (const application of payments || []) {
+    const payment = Array.isArray(application.payments) ? application.payments[0] : application.payments;
+    settle(application.invoice_id, payment?.payment_date, Number(application.amount_applied));
+  }
+  for (const credit of credits || []) settle(credit.invoice_id, credit.applied_at, Number(credit.amount));
+  for (const writeOff of writeOffs || []) settle(writeOff.invoice_id, writeOff.created_at, Number(writeOff.amount));
+
+  return (invoices || []).map((invoice) => {
+    const issueDate = (invoice.created_at ?? invoice.due_date).slice(0, 10);
+    return {
+      invoice_id: invoice.invoice_id,
+      document_type: invoice.document_type === 'credit_memo' ? 'credit_memo' : 'invoice',
+      currency: invoice.currency,
+      amount: Number(invoice.amount),
+      issue_date: issueDate,
+      due_date: invoice.due_date,
+      settlements: settlements.get(invoice.invoice_id) ?? [],
+    };
+  });
+};
@@ -0,0 +1,87 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type FxRate = {
+  rate_date: string;
+  from_currency: string;
+  to_currency: string;
+  // One unit of from_currency buys this many units of to_currency
+  rate: number;
+};
+
+export type FxContext = {
+  functional_currency: string;
+  rates: FxRate[];
+};
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Loads the tenant's functional currency and every FX rate it has imported, newest first.
+ */
+export const loadFxContext = async (supabase: SupabaseClient, tenantId: string): Promise<FxContext> => {
+  const [
+    { data: tenant, error: tenantError },
+    { data: rates, error: ratesError },
+  ] = await Promise.all([
+    supabase.from('tenants').select('functional_currency').eq('tenant_id', tenantId).maybeSingle(),
+    supabase
+      .from('fx_rates')
+      .select('rate_date, from_currency, to_currency, rate')
+      .eq('tenant_id', tenantId)
+      .order('rate_date', { ascending: false }),
+  ]);
+
+  if (tenantError || ratesError) {
+    console.error('Error fetching FX rates:', tenantError ?? ratesError);
+    throw tenantError ?? ratesError;
+  }
+
+  return {
+    functional_currency: tenant?.functional_currency ?? DEFAULT_CURRENCY,
+    rates: (rates || []).map((rate) => ({ ...rate, rate: Number(rate.rate) })),
+  };
+};
+
+const directRate = (context: FxContext, from: string, to: string, date: string): number | null => {
+  // Rates are newest first, so the first one on or before the date is the latest
+  const match = context.rates.find(
+    (rate) =>
+      rate.rate_date <= date &&
+      ((rate.from_currency === from && rate.to_currency === to) ||
+        (rate.from_currency === to && rate.to_currency === from))
+  );
+  if (!match) return null;
+  return match.from_currency === from ? match.rate : 1 / match.rate;
+};
+
+/**
+ * Rate from one currency to another on a date, looked up the same way as the database's
+ * find_fx_rate: the latest rate on or before the date, quoted either way round, or crossed
+ * through the functional currency. Null when no rate is loaded.
+ */
+export const findFxRate = (context: FxContext, from: string, to: string, date: string): number | null => {
+  if (from === to) return 1;
+
+  const direct = directRate(context, from, to, date);
+  if (direct !== null) return direct;
+
+  const functional = context.functional_currency;
+  if (from === functional || to === functional) return null;
+
+  const toFunctional = directRate(context, from, functional, date);
+  const fromFunctional = directRate(context, functional, to, date);
+  return toFunctional !== null && fromFunctional !== null ? toFunctional * fromFunctional : null;
+};
+
+export const convertAmount = (
+  context: FxContext,
+  amount: number,
+  from: string,
+  to: string,
+  date: string
+): number | null => {
+  const rate = findFxRate(context, from, to, date);
+  return rate === null ? null : Number((amount * rate).toFixed(2));
+};
+
+export const today = () => new Date().toISOString().slice(0, 10);
@@ -0,0 +1,138 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type MatchingSettings = {
+  // Largest difference (beyond half a cent of rounding) still treated as an exact amount match
+  exact_tolerance: number;
+  // Suggestion search window: the larger of this percentage of the payment and the minimum
+  suggestion_tolerance_percent: number;
+  suggestion_tolerance_minimum: number;
+  // Confidence added to multi-invoice suggestions (0-1)
+  combo_bonus: number;
+  auto_apply_enabled: boolean;
+  // Suggestions at or above this confidence (0-100) are applied without review
+  auto_apply_min_confidence: number;
+  // Largest short-payment that may be written off; null means no limit
+  write_off_limit: number | null;
+  // Unexplained short-payments at or above this are disputed when auto-applied; null never disputes
+  auto_dispute_threshold: number | null;
+  // Extra difference (as a share of the amount) allowed when payment and invoice currencies differ
+  fx_tolerance_percent: number;
+};
+
+export const DEFAULT_MATCHING_SETTINGS: MatchingSettings = {
+  exact_tolerance: 0,
+  suggestion_tolerance_percent: 15,
+  suggestion_tolerance_minimum: 500,
+  combo_bonus: 0.1,
+  auto_apply_enabled: false,
+  auto_apply_min_confidence: 95,
+  write_off_limit: null,
+  auto_dispute_threshold: null,
+  fx_tolerance_percent: 2,
+};
+
+const SETTINGS_COLUMNS =
+  'exact_tolerance, suggestion_tolerance_percent, suggestion_tolerance_minimum, combo_bonus, auto_apply_enabled, auto_apply_min_confidence, write_off_limit, auto_dispute_threshold, fx_tolerance_percent';
+
+const toNumber = (value: unknown, fallback: number) => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Loads the tenant's matching rules, falling back to the defaults for tenants that have
+ * never saved any.
+ */
+export const loadMatchingSettings = async (
+  supabase: SupabaseClient,
+  tenantId: string
+): Promise<MatchingSettings & { is_default: boolean }> => {
+  const { data, error } = await supabase
+    .from('matching_settings')
+    .select(SETTINGS_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching matching settings:', error);
+    throw error;
+  }
+
+  if (!data) {
+    return { ...DEFAULT_MATCHING_SETTINGS, is_default: true };
+  }
+
+  return {
+    exact_tolerance: toNumber(data.exact_tolerance, DEFAULT_MATCHING_SETTINGS.exact_tolerance),
+    suggestion_tolerance_percent: toNumber(data.suggestion_tolerance_percent, DEFAULT_MATCHING_SETTINGS.suggestion_tolerance_percent),
+    suggestion_tolerance_minimum: toNumber(data.suggestion_tolerance_minimum, DEFAULT_MATCHING_SETTINGS.suggestion_tolerance_minimum),
+    combo_bonus: toNumber(data.combo_bonus, DEFAULT_MATCHING_SETTINGS.combo_bonus),
+    auto_apply_enabled: Boolean(data.auto_apply_enabled),
+    auto_apply_min_confidence: toNumber(data.auto_apply_min_confidence, DEFAULT_MATCHING_SETTINGS.auto_apply_min_confidence),
+    write_off_limit: data.write_off_limit === null ? null : toNumber(data.write_off_limit, 0),
+    auto_dispute_threshold: data.auto_dispute_threshold === null ? null : toNumber(data.auto_dispute_threshold, 0),
+    fx_tolerance_percent: toNumber(data.fx_tolerance_percent, DEFAULT_MATCHING_SETTINGS.fx_tolerance_percent),
+    is_default: false,
+  };
+};
+
+/**
+ * Validates a settings payload against the same bounds the table enforces, so the caller can
+ * report every problem at once instead of surfacing a constraint violation.
+ */
+export const validateMatchingSettings = (
+  input: Record<string, unknown>
+): { settings: MatchingSettings; errors: string[] } => {
+  const errors: string[] = [];
+  const settings = { ...DEFAULT_MATCHING_SETTINGS };
+
+  const readNumber = (key: keyof MatchingSettings, min: number, max: number) => {
+    const value = input[key];
+    if (value === undefined) return;
+
+    const parsed = typeof value === 'number' ? value : Number(value);
+    if (value === null || value === '' || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+      errors.push(`${key} must be a number between ${min} and ${max}`);
+      return;
+    }
+    (settings[key] as number) = Number(parsed.toFixed(2));
+  };
+
+  readNumber('exact_tolerance', 0, 1_000_000);
+  readNumber('suggestion_tolerance_percent', 0, 100);
+  readNumber('suggestion_tolerance_minimum', 0, 10_000_000);
+  readNumber('combo_bonus', 0, 1);
+  readNumber('fx_tolerance_percent', 0, 20);
+  readNumber('auto_apply_min_confidence', 50, 100);
+  settings.auto_apply_min_confidence = Math.round(settings.auto_apply_min_confidence);
+
+  if (input.auto_apply_enabled !== undefined) {
+    if (typeof input.auto_apply_enabled !== 'boolean') {
+      errors.push('auto_apply_enabled must be true or false');
+    } else {
+      settings.auto_apply_enabled = input.auto_apply_enabled;
+    }
+  }
+
+  const readOptionalAmount = (key: 'write_off_limit' | 'auto_dispute_threshold', emptyMeaning: string) => {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') return;
+
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || amount < 0) {
+      errors.push(`${key} must be zero or more, or empty for ${emptyMeaning}`);
+      return;
+    }
+    settings[key] = Number(amount.toFixed(2));
+  };
+
+  readOptionalAmount('write_off_limit', 'no limit');
+  readOptionalAmount('auto_dispute_threshold', 'no automatic disputes');
+
+  // Differences inside the exact tolerance are written off, so they must fit under the limit
+  if (settings.write_off_limit !== null && settings.exact_tolerance > settings.write_off_limit) {
+    errors.push('exact_tolerance cannot be larger than write_off_limit');
+  }
+
+  return { settings, errors };
+};
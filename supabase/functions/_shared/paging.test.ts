@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { fetchAllRows, PAGE_SIZE } from './paging.ts';
+
+// A table read the way PostgREST serves it: never more than PAGE_SIZE rows per request
+const table = (count: number) => {
+  const rows = Array.from({ length: count }, (_, index) => ({ id: index }));
+  const requests: Array<[number, number]> = [];
+  const page = async (from: number, to: number) => {
+    requests.push([from, to]);
+    return { data: rows.slice(from, Math.min(to + 1, from + PAGE_SIZE)), error: null };
+  };
+  return { page, requests };
+};
+
+describe('fetchAllRows', () => {
+  it('reads past the first page until a short page comes back', async () => {
+    const { page, requests } = table(2_500);
+
+    const { data, error } = await fetchAllRows(page);
+
+    expect(error).toBeNull();
+    expect(data).toHaveLength(2_500);
+    expect(data[2_499]).toEqual({ id: 2_499 });
+    expect(requests).toEqual([
+      [0, 999],
+      [1_000, 1_999],
+      [2_000, 2_999],
+    ]);
+  });
+
+  it('stops on an empty page when the rows fill whole pages', async () => {
+    const { page, requests } = table(2_000);
+
+    const { data } = await fetchAllRows(page);
+
+    expect(data).toHaveLength(2_000);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('reads a table smaller than a page in one request', async () => {
+    const { page, requests } = table(3);
+
+    expect((await fetchAllRows(page)).data).toHaveLength(3);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('returns the first error', async () => {
+    const failure = new Error('connection reset');
+    const { data, error } = await fetchAllRows(async (from) =>
+      from === 0
+        ? { data: Array.from({ length: PAGE_SIZE }, (_, id) => ({ id })), error: null }
+        : { data: null, error: failure }
+    );
+
+    expect(error).toBe(failure);
+    expect(data).toHaveLength(PAGE_SIZE);
+  });
+});
@@ -0,0 +1,20 @@
+// PostgREST's default max_rows: a longer result is cut to this many rows without an error
+export const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row a query matches, a page at a time, until a short page comes back. page is
+ * given the inclusive row range to fetch, and its query needs a stable order so that pages
+ * neither overlap nor skip rows. Returns the first error, as a single query would.
+ */
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<{ data: T[]; error: unknown }> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+};
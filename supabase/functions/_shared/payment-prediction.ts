@@ -0,0 +1,107 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { RiskInvoice } from './risk-model.ts';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Paid invoices a customer needs before its own habits are used instead of the portfolio's
+const MIN_CUSTOMER_HISTORY = 3;
+
+/**
+ * When an open invoice is expected to be paid, with the range it will most likely fall in.
+ * Stored in payment_date_predictions so predictions can be checked against actual payment dates.
+ */
+export type PaymentPrediction = {
+  invoice_id: string;
+  customer_id: string;
+  predicted_date: string;
+  // Middle 60% of the payment days it was predicted from
+  earliest_date: string;
+  latest_date: string;
+  // 'customer' when predicted from the customer's own paid invoices, 'portfolio' from all of the
+  // tenant's, 'none' when nothing has been paid yet and the due date is all there is
+  basis: 'customer' | 'portfolio' | 'none';
+  sample_size: number;
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY);
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+const percentile = (sorted: number[], share: number) => {
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Predicts the payment date of an open invoice from how many days past due (negative when early)
+ * invoices were paid, using only payments before asOf. An invoice already overdue is predicted
+ * from the past invoices that were paid even later, so the prediction never lies in the past.
+ */
+export const predictPaymentDate = (invoice: RiskInvoice, history: RiskInvoice[], asOf: string): PaymentPrediction => {
+  const paid = history.filter(
+    (other) => other.invoice_id !== invoice.invoice_id && other.paid_date !== null && other.paid_date < asOf
+  );
+  const customerPaid = paid.filter((other) => other.customer_id === invoice.customer_id);
+  const source = customerPaid.length >= MIN_CUSTOMER_HISTORY ? customerPaid : paid;
+  const basis = source.length === 0 ? 'none' : source === customerPaid ? 'customer' : 'portfolio';
+
+  const daysLate = source.map((other) => daysBetween(other.due_date, other.paid_date as string)).sort((a, b) => a - b);
+  const currentlyLate = daysBetween(invoice.due_date, asOf);
+  const stillUnpaid = daysLate.filter((days) => days > currentlyLate);
+  // Later than nearly every past payment: expect the usual spread of payment days, from today
+  const samples = stillUnpaid.length >= MIN_CUSTOMER_HISTORY
+    ? stillUnpaid
+    : currentlyLate > 0 && daysLate.length > 0
+    ? daysLate.map((days) => currentlyLate + days - daysLate[0])
+    : daysLate;
+
+  if (samples.length === 0) {
+    const expected = currentlyLate > 0 ? asOf : invoice.due_date;
+    return {
+      invoice_id: invoice.invoice_id,
+      customer_id: invoice.customer_id,
+      predicted_date: expected,
+      earliest_date: expected,
+      latest_date: addDays(expected, 30),
+      basis,
+      sample_size: 0,
+    };
+  }
+
+  // Days past due can't be earlier than today for an invoice that is still open
+  const fromDueDate = (days: number) => addDays(invoice.due_date, Math.max(Math.round(days), currentlyLate));
+  return {
+    invoice_id: invoice.invoice_id,
+    customer_id: invoice.customer_id,
+    predicted_date: fromDueDate(percentile(samples, 0.5)),
+    earliest_date: fromDueDate(percentile(samples, 0.2)),
+    latest_date: fromDueDate(percentile(samples, 0.8)),
+    basis,
+    sample_size: samples.length,
+  };
+};
+
+/**
+ * Records predictions. Earlier ones are kept, so each can be measured against the date the
+ * invoice was actually paid.
+ */
+export const savePaymentPredictions = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  predictions: PaymentPrediction[]
+) => {
+  if (predictions.length === 0) return;
+
+  const { error } = await supabase
+    .from('payment_date_predictions')
+    .insert(predictions.map((prediction) => ({ tenant_id: tenantId, ...prediction })));
+
+  if (error) {
+    console.error('Error saving payment date predictions:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,275 @@
+import {
+  computeRiskFeatures,
+  RISK_FEATURE_LABELS,
+  type RiskInvoice,
+  type RiskModel,
+  scoreRiskFeatures,
+} from './risk-model.ts';
+
+// Band boundaries used on the dashboard and in risk explanations
+export const HIGH_RISK = 0.7;
+export const MEDIUM_RISK = 0.4;
+
+const CALIBRATION_BINS = 10;
+
+export type BacktestScore = {
+  invoice_id: string;
+  issue_date: string;
+  score: number;
+  late: boolean;
+};
+
+export type CalibrationBin = {
+  lower: number;
+  upper: number;
+  count: number;
+  // Null for an empty bin
+  mean_score: number | null;
+  late_rate: number | null;
+};
+
+export type BandOutcome = {
+  band: 'high' | 'medium' | 'low';
+  lower: number;
+  upper: number;
+  count: number;
+  late: number;
+  on_time: number;
+  late_rate: number | null;
+};
+
+export type Confusion = {
+  // Invoices scored at or above the threshold are predicted late
+  threshold: number;
+  true_positive: number;
+  false_positive: number;
+  true_negative: number;
+  false_negative: number;
+  precision: number | null;
+  recall: number | null;
+};
+
+export type BacktestReport = {
+  model_version: number;
+  generated_at: string;
+  invoice_count: number;
+  late_count: number;
+  late_rate: number | null;
+  // Chance a late invoice was scored above an on-time one; null without both outcomes
+  auc: number | null;
+  brier_score: number | null;
+  log_loss: number | null;
+  calibration: CalibrationBin[];
+  bands: BandOutcome[];
+  confusion: Confusion[];
+  scores: BacktestScore[];
+};
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+const ratio = (part: number, whole: number) => (whole > 0 ? round(part / whole) : null);
+
+/**
+ * Scores each paid invoice as it would have been scored on the day it was issued, using only the
+ * payments and disputes known then, and records whether it went on to be paid late.
+ */
+export const scoreAtIssue = (
+  model: RiskModel,
+  history: RiskInvoice[],
+  include: (invoice: RiskInvoice) => boolean = () => true
+): BacktestScore[] =>
+  history
+    .filter((invoice) => invoice.paid_date !== null && include(invoice))
+    .sort((a, b) => a.issue_date.localeCompare(b.issue_date) || a.invoice_id.localeCompare(b.invoice_id))
+    .map((invoice) => ({
+      invoice_id: invoice.invoice_id,
+      issue_date: invoice.issue_date,
+      score: scoreRiskFeatures(model, computeRiskFeatures(invoice, history, invoice.issue_date)).score,
+      late: (invoice.paid_date as string) > invoice.due_date,
+    }));
+
+// Mann-Whitney U over the ranked scores, with tied scores sharing their average rank
+const areaUnderCurve = (scores: BacktestScore[]) => {
+  const positives = scores.filter((entry) => entry.late).length;
+  const negatives = scores.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const sorted = [...scores].sort((a, b) => a.score - b.score);
+  let rankSum = 0;
+  for (let start = 0; start < sorted.length;) {
+    let end = start;
+    while (end + 1 < sorted.length && sorted[end + 1].score === sorted[start].score) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let index = start; index <= end; index++) {
+      if (sorted[index].late) rankSum += averageRank;
+    }
+    start = end + 1;
+  }
+  return round((rankSum - (positives * (positives + 1)) / 2) / (positives * negatives));
+};
+
+const confusionAt = (scores: BacktestScore[], threshold: number): Confusion => {
+  const counts = { true_positive: 0, false_positive: 0, true_negative: 0, false_negative: 0 };
+  for (const entry of scores) {
+    const predictedLate = entry.score >= threshold;
+    if (predictedLate && entry.late) counts.true_positive++;
+    else if (predictedLate) counts.false_positive++;
+    else if (entry.late) counts.false_negative++;
+    else counts.true_negative++;
+  }
+  return {
+    threshold,
+    ...counts,
+    precision: ratio(counts.true_positive, counts.true_positive + counts.false_positive),
+    recall: ratio(counts.true_positive, counts.true_positive + counts.false_negative),
+  };
+};
+
+/**
+ * Replays the model over the paid invoices in history (or those include selects) and measures how
+ * well its scores at issue matched what happened.
+ */
+export const backtestRiskModel = (
+  model: RiskModel,
+  history: RiskInvoice[],
+  include?: (invoice: RiskInvoice) => boolean
+): BacktestReport => {
+  const scores = scoreAtIssue(model, history, include);
+  const lateCount = scores.filter((entry) => entry.late).length;
+
+  const calibration: CalibrationBin[] = Array.from({ length: CALIBRATION_BINS }, (_, index) => {
+    const lower = index / CALIBRATION_BINS;
+    const upper = (index + 1) / CALIBRATION_BINS;
+    const members = scores.filter(
+      (entry) => entry.score >= lower && (entry.score < upper || (index === CALIBRATION_BINS - 1 && entry.score <= upper))
+    );
+    return {
+      lower,
+      upper,
+      count: members.length,
+      mean_score: members.length > 0 ? round(members.reduce((sum, entry) => sum + entry.score, 0) / members.length) : null,
+      late_rate: ratio(members.filter((entry) => entry.late).length, members.length),
+    };
+  });
+
+  const bands: BandOutcome[] = [
+    { band: 'high' as const, lower: HIGH_RISK, upper: 1 },
+    { band: 'medium' as const, lower: MEDIUM_RISK, upper: HIGH_RISK },
+    { band: 'low' as const, lower: 0, upper: MEDIUM_RISK },
+  ].map((band) => {
+    const members = scores.filter(
+      (entry) => entry.score >= band.lower && (entry.score < band.upper || band.band === 'high')
+    );
+    const late = members.filter((entry) => entry.late).length;
+    return { ...band, count: members.length, late, on_time: members.length - late, late_rate: ratio(late, members.length) };
+  });
+
+  const clipped = (score: number) => Math.min(Math.max(score, 1e-6), 1 - 1e-6);
+  return {
+    model_version: model.version,
+    generated_at: new Date().toISOString(),
+    invoice_count: scores.length,
+    late_count: lateCount,
+    late_rate: ratio(lateCount, scores.length),
+    auc: areaUnderCurve(scores),
+    brier_score: scores.length > 0
+      ? round(scores.reduce((sum, entry) => sum + (entry.score - (entry.late ? 1 : 0)) ** 2, 0) / scores.length)
+      : null,
+    log_loss: scores.length > 0
+      ? round(
+        -scores.reduce(
+          (sum, entry) => sum + (entry.late ? Math.log(clipped(entry.score)) : Math.log(1 - clipped(entry.score))),
+          0
+        ) / scores.length
+      )
+      : null,
+    calibration,
+    bands,
+    confusion: [confusionAt(scores, HIGH_RISK), confusionAt(scores, MEDIUM_RISK)],
+    scores,
+  };
+};
+
+/**
+ * Splits history for an out-of-sample backtest. The most recent holdout share of paid invoices,
+ * by issue date, is tested; training sees only what was known on the first of their issue dates,
+ * so nothing paid or disputed after it leaks into the model.
+ */
+export const splitHistory = (history: RiskInvoice[], holdout: number) => {
+  const issueDates = history
+    .filter((invoice) => invoice.paid_date !== null)
+    .map((invoice) => invoice.issue_date)
+    .sort();
+  const cutoff = issueDates[Math.min(Math.floor(issueDates.length * (1 - holdout)), issueDates.length - 1)] ?? '';
+
+  const training = history
+    .filter((invoice) => invoice.issue_date < cutoff)
+    .map((invoice) => ({
+      ...invoice,
+      paid_date: invoice.paid_date !== null && invoice.paid_date < cutoff ? invoice.paid_date : null,
+      dispute_dates: invoice.dispute_dates.filter((date) => date < cutoff),
+    }));
+
+  return { cutoff, training, isTested: (invoice: RiskInvoice) => invoice.issue_date >= cutoff };
+};
+
+const percent = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+const decimal = (value: number | null) => (value === null ? '-' : value.toFixed(3));
+
+/**
+ * The report as Markdown, for reading or attaching to a model review.
+ */
+export const formatBacktestReport = (report: BacktestReport, model?: RiskModel) => {
+  const lines = [
+    `# Risk model backtest (model v${report.model_version})`,
+    '',
+    `Generated ${report.generated_at}. Each paid invoice is scored as of its issue date and compared with whether it was paid after its due date.`,
+    '',
+    `- Invoices: ${report.invoice_count} (${report.late_count} paid late, ${percent(report.late_rate)})`,
+    `- AUC: ${decimal(report.auc)}`,
+    `- Brier score: ${decimal(report.brier_score)}`,
+    `- Log loss: ${decimal(report.log_loss)}`,
+    '',
+    '## Calibration',
+    '',
+    'When the model is well calibrated, invoices in each score range are paid late about as often as their mean score.',
+    '',
+    '| Score | Invoices | Mean score | Paid late |',
+    '| --- | ---: | ---: | ---: |',
+    ...report.calibration.map(
+      (bin) => `| ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)} | ${bin.count} | ${percent(bin.mean_score)} | ${percent(bin.late_rate)} |`
+    ),
+    '',
+    '## Outcomes by band',
+    '',
+    '| Band | Scores | Invoices | Paid late | On time | Late rate |',
+    '| --- | --- | ---: | ---: | ---: | ---: |',
+    ...report.bands.map(
+      (band) =>
+        `| ${band.band} | ${band.band === 'high' ? `>= ${band.lower}` : `${band.lower}-${band.upper}`} | ${band.count} | ${band.late} | ${band.on_time} | ${percent(band.late_rate)} |`
+    ),
+    '',
+    '## Confusion',
+    '',
+    '| Predicted late at | True positive | False positive | True negative | False negative | Precision | Recall |',
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...report.confusion.map(
+      (entry) =>
+        `| >= ${entry.threshold} | ${entry.true_positive} | ${entry.false_positive} | ${entry.true_negative} | ${entry.false_negative} | ${percent(entry.precision)} | ${percent(entry.recall)} |`
+    ),
+  ];
+
+  if (model) {
+    lines.push(
+      '',
+      '## Model weights',
+      '',
+      '| Feature | Weight |',
+      '| --- | ---: |',
+      ...Object.entries(model.weights).map(
+        ([feature, weight]) => `| ${RISK_FEATURE_LABELS[feature as keyof typeof RISK_FEATURE_LABELS]} | ${weight} |`
+      )
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+};
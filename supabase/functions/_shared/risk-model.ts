@@ -0,0 +1,554 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { fetchAllRows } from './paging.ts';
+import { predictPaymentDate, savePaymentPredictions } from './payment-prediction.ts';
+
+export const RISK_FEATURES = [
+  'avg_days_late',
+  'days_to_pay_spread',
+  'late_share',
+  'dispute_rate',
+  'balance_to_max',
+  'invoice_age',
+  'amount_ratio',
+  'new_customer',
+] as const;
+
+export type RiskFeature = typeof RISK_FEATURES[number];
+export type RiskFeatures = Record<RiskFeature, number>;
+
+export const RISK_FEATURE_LABELS: Record<RiskFeature, string> = {
+  avg_days_late: 'Average days paid late',
+  days_to_pay_spread: 'Variability of days to pay',
+  late_share: 'Share of invoices paid late',
+  dispute_rate: 'Dispute frequency',
+  balance_to_max: 'Open balance vs. largest invoice paid',
+  invoice_age: 'Invoice age',
+  amount_ratio: 'Amount vs. typical invoice',
+  new_customer: 'Limited payment history',
+};
+
+/**
+ * Logistic regression over standardized features: the score is
+ * sigmoid(intercept + sum(weight * (value - mean) / scale)).
+ */
+export type RiskModel = {
+  // 0 is the built-in model used until the tenant trains one
+  version: number;
+  intercept: number;
+  weights: RiskFeatures;
+  means: RiskFeatures;
+  scales: RiskFeatures;
+  sample_size: number;
+};
+
+export const DEFAULT_RISK_MODEL: RiskModel = {
+  version: 0,
+  intercept: -0.8,
+  weights: {
+    avg_days_late: 0.6,
+    days_to_pay_spread: 0.2,
+    late_share: 0.8,
+    dispute_rate: 0.4,
+    balance_to_max: 0.3,
+    invoice_age: 0.3,
+    amount_ratio: 0.2,
+    new_customer: 0.3,
+  },
+  means: {
+    avg_days_late: 5,
+    days_to_pay_spread: 8,
+    late_share: 0.3,
+    dispute_rate: 0.05,
+    balance_to_max: 1,
+    invoice_age: 30,
+    amount_ratio: 1,
+    new_customer: 0.2,
+  },
+  scales: {
+    avg_days_late: 10,
+    days_to_pay_spread: 10,
+    late_share: 0.3,
+    dispute_rate: 0.1,
+    balance_to_max: 1,
+    invoice_age: 30,
+    amount_ratio: 1,
+    new_customer: 0.4,
+  },
+  sample_size: 0,
+};
+
+// Fewer paid invoices than this and the customer is treated as having no history
+const MIN_HISTORY = 3;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * One invoice as the model sees it. paid_date is the payment date of the last application that
+ * settled it, so features can be rebuilt as they stood on any earlier date.
+ */
+export type RiskInvoice = {
+  invoice_id: string;
+  customer_id: string;
+  amount: number;
+  issue_date: string;
+  due_date: string;
+  paid_date: string | null;
+  dispute_dates: string[];
+};
+
+/**
+ * One feature's part in a score, as stored in invoices.risk_factors.
+ */
+export type RiskFactor = {
+  code: RiskFeature;
+  label: string;
+  // Observed value of the feature
+  value: number;
+  // Model weight per standard deviation of the feature
+  weight: number;
+  // Log-odds added to the score; positive raises the risk
+  contribution: number;
+};
+
+export type RiskScore = {
+  score: number;
+  model_version: number;
+  // Largest effect first
+  factors: RiskFactor[];
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY);
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+/**
+ * Features for an invoice as they stood on asOf, from the customer's invoices in history. Only
+ * payments and disputes before asOf are used, so a score can be reproduced for any past date.
+ * Exposure uses invoice amounts rather than today's open balances for the same reason.
+ */
+export const computeRiskFeatures = (invoice: RiskInvoice, history: RiskInvoice[], asOf: string): RiskFeatures => {
+  const customerInvoices = history.filter(
+    (other) => other.customer_id === invoice.customer_id && other.issue_date <= asOf
+  );
+  const paid = customerInvoices.filter(
+    (other) => other.invoice_id !== invoice.invoice_id && other.paid_date !== null && other.paid_date < asOf
+  );
+  const daysLate = paid.map((other) => daysBetween(other.due_date, other.paid_date as string));
+  const hasHistory = paid.length >= MIN_HISTORY;
+
+  const meanLate = daysLate.reduce((sum, days) => sum + Math.max(days, 0), 0) / Math.max(daysLate.length, 1);
+  const meanDays = daysLate.reduce((sum, days) => sum + days, 0) / Math.max(daysLate.length, 1);
+  const spread = Math.sqrt(
+    daysLate.reduce((sum, days) => sum + (days - meanDays) ** 2, 0) / Math.max(daysLate.length, 1)
+  );
+
+  const disputes = customerInvoices.reduce(
+    (count, other) => count + other.dispute_dates.filter((date) => date < asOf).length,
+    0
+  );
+  const exposure = customerInvoices
+    .filter((other) => other.paid_date === null || other.paid_date >= asOf)
+    .reduce((sum, other) => sum + other.amount, 0);
+  const largestPaid = Math.max(0, ...paid.map((other) => other.amount));
+  const typicalAmount = paid.length > 0 ? median(paid.map((other) => other.amount)) : 0;
+
+  // Without history the customer-level features sit at the built-in model's means, so only
+  // new_customer moves the score
+  const neutral = DEFAULT_RISK_MODEL.means;
+  return {
+    avg_days_late: hasHistory ? round(clamp(meanLate, 0, 180)) : neutral.avg_days_late,
+    days_to_pay_spread: hasHistory ? round(clamp(spread, 0, 180)) : neutral.days_to_pay_spread,
+    late_share: hasHistory ? round(daysLate.filter((days) => days > 0).length / daysLate.length) : neutral.late_share,
+    dispute_rate: customerInvoices.length > 0 ? round(clamp(disputes / customerInvoices.length, 0, 1)) : 0,
+    balance_to_max: largestPaid > 0 ? round(clamp(exposure / largestPaid, 0, 10)) : neutral.balance_to_max,
+    invoice_age: clamp(daysBetween(invoice.issue_date, asOf), 0, 365),
+    amount_ratio: typicalAmount > 0 ? round(clamp(invoice.amount / typicalAmount, 0, 10)) : neutral.amount_ratio,
+    new_customer: hasHistory ? 0 : 1,
+  };
+};
+
+const standardize = (model: RiskModel, feature: RiskFeature, value: number) =>
+  (value - model.means[feature]) / (model.scales[feature] || 1);
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+export const scoreRiskFeatures = (model: RiskModel, features: RiskFeatures): RiskScore => {
+  const factors = RISK_FEATURES.map((feature) => ({
+    code: feature,
+    label: RISK_FEATURE_LABELS[feature],
+    value: features[feature],
+    weight: model.weights[feature],
+    contribution: round(model.weights[feature] * standardize(model, feature, features[feature])),
+  })).sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  const logit = model.intercept + factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  return { score: round(sigmoid(logit)), model_version: model.version, factors };
+};
+
+export const describeRisk = (risk: RiskScore) => {
+  const drivers = risk.factors.filter((factor) => factor.contribution >= 0.1).slice(0, 3);
+  const summary = drivers.length > 0
+    ? `Main risk factors: ${drivers.map((factor) => `${factor.label.toLowerCase()} (${factor.value})`).join('; ')}.`
+    : 'No significant risk factors detected in the customer\'s payment history.';
+
+  if (risk.score >= 0.7) {
+    return `${summary} HIGH RISK - Immediate action required. Recommend proactive contact with customer and payment plan discussion.`;
+  }
+  if (risk.score >= 0.4) {
+    return `${summary} MEDIUM RISK - Monitor closely and send payment reminder 5 days before due date.`;
+  }
+  return `${summary} LOW RISK - Standard collection procedures recommended.`;
+};
+
+export type TrainingSample = {
+  invoice_id: string;
+  features: RiskFeatures;
+  late: boolean;
+};
+
+// Paid invoices are replayed at issue and every 30 days while still unpaid, so the model learns
+// how risk changes as an invoice ages without seeing its payment date
+const SNAPSHOT_INTERVAL_DAYS = 30;
+const MAX_SNAPSHOTS = 4;
+
+export const buildTrainingSamples = (history: RiskInvoice[]): TrainingSample[] =>
+  history
+    .filter((invoice) => invoice.paid_date !== null)
+    .sort((a, b) => a.issue_date.localeCompare(b.issue_date) || a.invoice_id.localeCompare(b.invoice_id))
+    .flatMap((invoice) => {
+      const paidDate = invoice.paid_date as string;
+      const late = paidDate > invoice.due_date;
+      const samples: TrainingSample[] = [];
+      for (let snapshot = 0; snapshot < MAX_SNAPSHOTS; snapshot++) {
+        const asOf = new Date(new Date(invoice.issue_date).getTime() + snapshot * SNAPSHOT_INTERVAL_DAYS * MS_PER_DAY)
+          .toISOString()
+          .slice(0, 10);
+        if (snapshot > 0 && asOf >= paidDate) break;
+        samples.push({ invoice_id: invoice.invoice_id, features: computeRiskFeatures(invoice, history, asOf), late });
+      }
+      return samples;
+    });
+
+export type TrainingMetrics = {
+  sample_count: number;
+  invoice_count: number;
+  late_rate: number;
+  log_loss: number;
+  accuracy: number;
+};
+
+export const MIN_TRAINING_INVOICES = 20;
+const ITERATIONS = 500;
+const LEARNING_RATE = 0.1;
+const L2_PENALTY = 0.01;
+
+/**
+ * Why the samples cannot train a model, or null when they can.
+ */
+export const checkTrainingSamples = (samples: TrainingSample[]): string | null => {
+  const invoiceCount = new Set(samples.map((sample) => sample.invoice_id)).size;
+  if (invoiceCount < MIN_TRAINING_INVOICES) {
+    return `At least ${MIN_TRAINING_INVOICES} paid invoices are needed to train; found ${invoiceCount}`;
+  }
+
+  const lateCount = samples.filter((sample) => sample.late).length;
+  if (lateCount === 0 || lateCount === samples.length) {
+    return 'Paid invoices must include both on-time and late payments to train';
+  }
+  return null;
+};
+
+/**
+ * Fits the model by full-batch gradient descent from zero weights with a fixed number of steps,
+ * so the same samples always produce the same model. Samples must pass checkTrainingSamples.
+ */
+export const trainRiskModel = (samples: TrainingSample[], version: number): { model: RiskModel; metrics: TrainingMetrics } => {
+  const invoiceCount = new Set(samples.map((sample) => sample.invoice_id)).size;
+  const lateCount = samples.filter((sample) => sample.late).length;
+
+  const means = {} as RiskFeatures;
+  const scales = {} as RiskFeatures;
+  for (const feature of RISK_FEATURES) {
+    const values = samples.map((sample) => sample.features[feature]);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    means[feature] = round(mean);
+    // A feature that never varies gets scale 1 and, under the penalty, no weight
+    scales[feature] = variance > 1e-9 ? round(Math.sqrt(variance)) : 1;
+  }
+
+  const lateRate = lateCount / samples.length;
+  const model: RiskModel = {
+    version,
+    intercept: Math.log(lateRate / (1 - lateRate)),
+    weights: Object.fromEntries(RISK_FEATURES.map((feature) => [feature, 0])) as RiskFeatures,
+    means,
+    scales,
+    sample_size: samples.length,
+  };
+
+  const rows = samples.map((sample) =>
+    RISK_FEATURES.map((feature) => standardize(model, feature, sample.features[feature]))
+  );
+  const labels = samples.map((sample) => (sample.late ? 1 : 0));
+  const weights = RISK_FEATURES.map(() => 0);
+  let intercept = model.intercept;
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradient = weights.map(() => 0);
+    let interceptGradient = 0;
+    rows.forEach((row, index) => {
+      const error = sigmoid(intercept + row.reduce((sum, value, i) => sum + value * weights[i], 0)) - labels[index];
+      interceptGradient += error;
+      row.forEach((value, i) => {
+        gradient[i] += error * value;
+      });
+    });
+    intercept -= (LEARNING_RATE * interceptGradient) / rows.length;
+    weights.forEach((weight, i) => {
+      weights[i] = weight - LEARNING_RATE * (gradient[i] / rows.length + L2_PENALTY * weight);
+    });
+  }
+
+  model.intercept = round(intercept);
+  RISK_FEATURES.forEach((feature, i) => {
+    model.weights[feature] = round(weights[i]);
+  });
+
+  let logLoss = 0;
+  let correct = 0;
+  samples.forEach((sample, index) => {
+    const probability = Math.min(Math.max(scoreRiskFeatures(model, sample.features).score, 1e-6), 1 - 1e-6);
+    logLoss -= labels[index] ? Math.log(probability) : Math.log(1 - probability);
+    if ((probability >= 0.5) === sample.late) correct++;
+  });
+
+  return {
+    model,
+    metrics: {
+      sample_count: samples.length,
+      invoice_count: invoiceCount,
+      late_rate: round(lateRate),
+      log_loss: round(logLoss / samples.length),
+      accuracy: round(correct / samples.length),
+    },
+  };
+};
+
+/**
+ * The tenant's latest trained model, or the built-in one when none has been trained.
+ */
+export const loadRiskModel = async (supabase: SupabaseClient, tenantId: string): Promise<RiskModel> => {
+  const { data, error } = await supabase
+    .from('risk_models')
+    .select('version, model, sample_size')
+    .eq('tenant_id', tenantId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching risk model:', error);
+    throw error;
+  }
+
+  if (!data) return DEFAULT_RISK_MODEL;
+
+  const stored = data.model as Pick<RiskModel, 'intercept' | 'weights' | 'means' | 'scales'>;
+  return {
+    version: data.version,
+    intercept: Number(stored.intercept),
+    // A feature added after the model was trained carries no weight until it is retrained
+    weights: { ...Object.fromEntries(RISK_FEATURES.map((feature) => [feature, 0])), ...stored.weights } as RiskFeatures,
+    means: { ...DEFAULT_RISK_MODEL.means, ...stored.means },
+    scales: { ...DEFAULT_RISK_MODEL.scales, ...stored.scales },
+    sample_size: data.sample_size,
+  };
+};
+
+/**
+ * Every invoice the tenant has issued, with the date it was paid and the dates it was disputed.
+ * Credit memos are left out; they are not collected.
+ */
+export const loadRiskHistory = async (supabase: SupabaseClient, tenantId: string): Promise<RiskInvoice[]> => {
+  const [
+    { data: invoices, error: invoicesError },
+    { data: applications, error: applicationsError },
+    { data: disputes, error: disputesError },
+  ] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('invoices')
+        .select('invoice_id, customer_id, amount, open_balance, created_at, due_date, status')
+        .eq('tenant_id', tenantId)
+        .eq('document_type', 'invoice')
+        .order('invoice_id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('payment_applications')
+        .select('invoice_id, payments(payment_date)')
+        .eq('tenant_id', tenantId)
+        .is('reversed_at', null)
+        .order('application_id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('disputes')
+        .select('invoice_id, created_at')
+        .eq('tenant_id', tenantId)
+        .order('dispute_id')
+        .range(from, to)
+    ),
+  ]);
+
+  if (invoicesError || applicationsError || disputesError) {
+    console.error('Error fetching risk history:', invoicesError ?? applicationsError ?? disputesError);
+    throw invoicesError ?? applicationsError ?? disputesError;
+  }
+
+  const lastPayment = new Map<string, string>();
+  for (const application of applications || []) {
+    const payment = Array.isArray(application.payments) ? application.payments[0] : application.payments;
+    if (!payment?.payment_date) continue;
+    const current = lastPayment.get(application.invoice_id);
+    if (!current || payment.payment_date > current) lastPayment.set(application.invoice_id, payment.payment_date);
+  }
+
+  const disputeDates = new Map<string, string[]>();
+  for (const dispute of disputes || []) {
+    if (!dispute.created_at) continue;
+    disputeDates.set(dispute.invoice_id, [...(disputeDates.get(dispute.invoice_id) ?? []), dispute.created_at.slice(0, 10)]);
+  }
+
+  return (invoices || []).map((invoice) => {
+    const settled = invoice.status === 'paid' || Number(invoice.open_balance) <= 0.005;
+    return {
+      invoice_id: invoice.invoice_id,
+      customer_id: invoice.customer_id,
+      amount: Number(invoice.amount),
+      issue_date: (invoice.created_at ?? invoice.due_date).slice(0, 10),
+      due_date: invoice.due_date,
+      // Invoices closed without a payment (credited or written off) have no payment behaviour
+      paid_date: settled ? lastPayment.get(invoice.invoice_id) ?? null : null,
+      dispute_dates: disputeDates.get(invoice.invoice_id) ?? [],
+    };
+  });
+};
+
+/**
+ * Stores a score on the invoice. Returns false when no invoice of the tenant matched.
+ */
+export const saveRiskScore = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  invoiceId: string,
+  risk: RiskScore,
+): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .update({
+      risk_score: risk.score,
+      risk_explanation: describeRisk(risk),
+      risk_model_version: risk.model_version,
+      risk_factors: risk.factors,
+    })
+    .eq('invoice_id', invoiceId)
+    .eq('tenant_id', tenantId)
+    .select('invoice_id');
+
+  if (error) {
+    console.error('Error updating invoice risk:', error);
+    throw error;
+  }
+
+  return (data?.length ?? 0) > 0;
+};
+
+export type RiskScoringFilter = {
+  invoice_ids?: string[];
+  customer_id?: string;
+  // Only invoices that have never been scored
+  unscored_only?: boolean;
+};
+
+export type ScoredInvoice = {
+  invoice_id: string;
+  risk_score: number;
+  predicted_payment_date: string;
+};
+
+// Updates in flight at once; each invoice's score is its own row update
+const SAVE_BATCH_SIZE = 25;
+
+/**
+ * Scores the tenant's open invoices, or those matching filter, as of today with the tenant's
+ * latest model, and stores each score along with a fresh payment date prediction. Paid invoices
+ * are left with the score they closed on.
+ */
+export const scoreOpenInvoices = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  filter: RiskScoringFilter = {},
+): Promise<{ model_version: number; scored: ScoredInvoice[] }> => {
+  let query = supabase
+    .from('invoices')
+    .select('invoice_id')
+    .eq('tenant_id', tenantId)
+    .eq('document_type', 'invoice')
+    .gt('open_balance', 0.005);
+
+  if (filter.invoice_ids) query = query.in('invoice_id', filter.invoice_ids);
+  if (filter.customer_id) query = query.eq('customer_id', filter.customer_id);
+  if (filter.unscored_only) query = query.is('risk_score', null);
+
+  const [{ data: targets, error: targetsError }, history, model] = await Promise.all([
+    query,
+    loadRiskHistory(supabase, tenantId),
+    loadRiskModel(supabase, tenantId),
+  ]);
+
+  if (targetsError) {
+    console.error('Error fetching invoices to score:', targetsError);
+    throw targetsError;
+  }
+
+  const asOf = new Date().toISOString().slice(0, 10);
+  const byId = new Map(history.map((invoice) => [invoice.invoice_id, invoice]));
+  const scores = (targets || [])
+    .map((target) => byId.get(target.invoice_id))
+    .filter((invoice): invoice is RiskInvoice => Boolean(invoice))
+    .map((invoice) => ({
+      invoice_id: invoice.invoice_id,
+      risk: scoreRiskFeatures(model, computeRiskFeatures(invoice, history, asOf)),
+      prediction: predictPaymentDate(invoice, history, asOf),
+    }));
+
+  for (let start = 0; start < scores.length; start += SAVE_BATCH_SIZE) {
+    await Promise.all(
+      scores
+        .slice(start, start + SAVE_BATCH_SIZE)
+        .map(({ invoice_id, risk }) => saveRiskScore(supabase, tenantId, invoice_id, risk)),
+    );
+  }
+  await savePaymentPredictions(supabase, tenantId, scores.map(({ prediction }) => prediction));
+
+  return {
+    model_version: model.version,
+    scored: scores.map(({ invoice_id, risk, prediction }) => ({
+      invoice_id,
+      risk_score: risk.score,
+      predicted_payment_date: prediction.predicted_date,
+    })),
+  };
+};
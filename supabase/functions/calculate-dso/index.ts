@@ -1,4 +1,15 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  calculateDso,
+  DSO_METHODS,
+  DSO_PERIODS,
+  type DsoMethod,
+  type DsoPeriod,
+  isDsoMethod,
+  isDsoPeriod,
+  loadDsoDocuments,
+} from '../_shared/dso.ts';
+import { loadFxContext, today } from '../_shared/fx.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -62,125 +73,36 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log(`Calculating DSO for tenant: ${profile.tenant_id}`);
-
-    const MS_PER_DAY = 1000 * 60 * 60 * 24;
-
-    const toNumber = (value: any): number => {
-      if (typeof value === 'number') return value;
-      if (typeof value === 'string') {
-        const parsed = parseFloat(value);
-        return Number.isFinite(parsed) ? parsed : 0;
-      }
-      return 0;
-    };
-
-    const { data: outstandingInvoices, error: outstandingError } = await supabase
-      .from('invoices')
-      .select('amount, due_date, tenant_id')
-      .eq('tenant_id', profile.tenant_id)
-      .in('status', ['open', 'overdue', 'disputed']);
-
-    if (outstandingError) {
-      console.error('Error fetching outstanding invoices:', outstandingError);
-      throw outstandingError;
-    }
-
-    const today = new Date();
-    let weightedOutstandingDays = 0;
-    let outstandingAmountTotal = 0;
-
-    for (const invoice of outstandingInvoices || []) {
-      if (!invoice || invoice.tenant_id !== profile.tenant_id) continue;
-
-      const amount = toNumber(invoice.amount);
-      if (!Number.isFinite(amount) || amount <= 0) continue;
-
-      const dueDate = invoice.due_date ? new Date(invoice.due_date) : null;
-      if (!dueDate || isNaN(dueDate.getTime())) continue;
-
-      const daysOutstanding = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / MS_PER_DAY));
-      weightedOutstandingDays += daysOutstanding * amount;
-      outstandingAmountTotal += amount;
-    }
-
-    if (outstandingAmountTotal > 0 && weightedOutstandingDays > 0) {
-      const avgDSO = Math.round(weightedOutstandingDays / outstandingAmountTotal);
-      console.log(`DSO calculated from outstanding invoices: ${avgDSO} days across ${outstandingInvoices?.length || 0} invoices`);
+    const params = new URL(req.url).searchParams;
+    const period = params.get('period') ?? 'month';
+    const method = params.get('method') ?? 'standard';
+    const asOf = params.get('as_of') ?? today();
 
+    const errors: string[] = [];
+    if (!isDsoPeriod(period)) errors.push(`period must be one of ${Object.keys(DSO_PERIODS).join(', ')}`);
+    if (!isDsoMethod(method)) errors.push(`method must be one of ${DSO_METHODS.join(', ')}`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(new Date(asOf).getTime())) errors.push('as_of must be a date (YYYY-MM-DD)');
+    if (errors.length > 0) {
       return new Response(
-        JSON.stringify({ dso: avgDSO }),
+        JSON.stringify({ error: errors.join('; '), errors }),
         {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200
+          status: 422
         }
       );
     }
 
-    const { data: matchedPayments, error: matchedPaymentsError } = await supabase
-      .from('payments')
-      .select(`
-        amount_received,
-        payment_date,
-        matched_invoice_id,
-        invoices:matched_invoice_id (
-          amount,
-          due_date,
-          tenant_id
-        )
-      `)
-      .eq('tenant_id', profile.tenant_id)
-      .eq('status', 'matched')
-      .not('matched_invoice_id', 'is', null);
-
-    if (matchedPaymentsError) {
-      console.error('Error fetching matched payments:', matchedPaymentsError);
-      throw matchedPaymentsError;
-    }
-
-    let weightedPaymentDays = 0;
-    let totalPaidAmount = 0;
-
-    for (const payment of matchedPayments || []) {
-      const invoice = Array.isArray(payment.invoices) ? payment.invoices[0] : payment.invoices;
-      if (!invoice || invoice.tenant_id !== profile.tenant_id) continue;
-
-      const amount = toNumber(payment.amount_received ?? invoice.amount);
-      if (!Number.isFinite(amount) || amount <= 0) continue;
-
-      const paymentDate = payment.payment_date ? new Date(payment.payment_date) : null;
-      const dueDate = invoice.due_date ? new Date(invoice.due_date) : null;
-      if (!paymentDate || isNaN(paymentDate.getTime()) || !dueDate || isNaN(dueDate.getTime())) continue;
-
-      const daysToCollect = Math.max(0, Math.floor((paymentDate.getTime() - dueDate.getTime()) / MS_PER_DAY));
-      weightedPaymentDays += daysToCollect * amount;
-      totalPaidAmount += amount;
-    }
-
-    if (totalPaidAmount > 0 && weightedPaymentDays > 0) {
-      const avgDSO = Math.round(weightedPaymentDays / totalPaidAmount);
-      console.log(`DSO calculated from matched payments: ${avgDSO} days across ${matchedPayments?.length || 0} payments`);
-
-      return new Response(
-        JSON.stringify({ dso: avgDSO }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200
-        }
-      );
-    }
+    console.log(`Calculating DSO for tenant: ${profile.tenant_id}`);
 
-    // As a final fallback, return a neutral baseline if invoices exist at all
-    const { count: invoiceCount } = await supabase
-      .from('invoices')
-      .select('invoice_id', { count: 'exact', head: true })
-      .eq('tenant_id', profile.tenant_id);
+    // Amounts are summed in the tenant's functional currency
+    const fx = await loadFxContext(supabase, profile.tenant_id);
+    const documents = await loadDsoDocuments(supabase, profile.tenant_id);
+    const report = calculateDso(documents, asOf, period as DsoPeriod, method as DsoMethod, fx);
 
-    const fallbackDSO = invoiceCount && invoiceCount > 0 ? 35 : 0;
-    console.log(`DSO fallback engaged, returning ${fallbackDSO}`);
+    console.log(`DSO (${method}, ${period} to ${asOf}): ${report.dso ?? 'n/a'} days from ${documents.length} documents`);
 
     return new Response(
-      JSON.stringify({ dso: fallbackDSO }),
+      JSON.stringify(report),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200
@@ -0,0 +1,171 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildCashForecast, FORECAST_WEEKS, type ForecastInvoice } from '../_shared/cash-forecast.ts';
+import { convertAmount, loadFxContext, today } from '../_shared/fx.ts';
+import { predictPaymentDate } from '../_shared/payment-prediction.ts';
+import { loadRiskHistory } from '../_shared/risk-model.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    const url = new URL(req.url);
+    const excludeDisputed = url.searchParams.get('exclude_disputed') === 'true';
+    const weeks = Math.min(Math.max(parseInt(url.searchParams.get('weeks') ?? '', 10) || FORECAST_WEEKS, 1), 52);
+
+    console.log(`Building ${weeks}-week cash forecast for tenant: ${profile.tenant_id}`);
+
+    const [
+      fx,
+      history,
+      { data: openInvoices, error: invoicesError },
+      { data: disputes, error: disputesError },
+    ] = await Promise.all([
+      loadFxContext(supabase, profile.tenant_id),
+      loadRiskHistory(supabase, profile.tenant_id),
+      supabase
+        .from('invoices')
+        .select('invoice_id, invoice_number, open_balance, currency, risk_score, customers(name)')
+        .eq('tenant_id', profile.tenant_id)
+        .eq('document_type', 'invoice')
+        .gt('open_balance', 0.005),
+      supabase
+        .from('disputes')
+        .select('invoice_id')
+        .eq('tenant_id', profile.tenant_id)
+        .or('status.is.null,status.neq.resolved'),
+    ]);
+
+    if (invoicesError || disputesError) {
+      console.error('Error fetching forecast data:', invoicesError ?? disputesError);
+      throw invoicesError ?? disputesError;
+    }
+
+    const asOf = today();
+    const disputed = new Set((disputes || []).map((dispute) => dispute.invoice_id));
+    const byId = new Map(history.map((invoice) => [invoice.invoice_id, invoice]));
+
+    // Predicted afresh from today's payment history rather than read from stored predictions,
+    // which are only as recent as the last scoring
+    const predictions = new Map(
+      (openInvoices || [])
+        .filter((invoice) => byId.has(invoice.invoice_id))
+        .map((invoice) => [invoice.invoice_id, predictPaymentDate(byId.get(invoice.invoice_id)!, history, asOf)])
+    );
+
+    // Balances in a currency without a loaded rate are left out of the forecast and reported
+    const unconverted = new Set<string>();
+    const forecastInvoices: ForecastInvoice[] = [];
+    for (const invoice of openInvoices || []) {
+      const amount = convertAmount(fx, Number(invoice.open_balance), invoice.currency, fx.functional_currency, asOf);
+      if (amount === null) {
+        unconverted.add(invoice.currency);
+        continue;
+      }
+
+      const customer = Array.isArray(invoice.customers) ? invoice.customers[0] : invoice.customers;
+      forecastInvoices.push({
+        invoice_id: invoice.invoice_id,
+        invoice_number: invoice.invoice_number,
+        customer_name: customer?.name ?? 'Unknown Customer',
+        amount,
+        risk_score: invoice.risk_score === null ? null : Number(invoice.risk_score),
+        disputed: disputed.has(invoice.invoice_id),
+      });
+    }
+
+    const forecast = buildCashForecast(forecastInvoices, predictions, asOf, { weeks, excludeDisputed });
+
+    return new Response(
+      JSON.stringify({
+        currency: fx.functional_currency,
+        exclude_disputed: excludeDisputed,
+        ...forecast,
+        unconverted_currencies: Array.from(unconverted),
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,354 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadFxContext, today } from '../_shared/fx.ts';
+import { summarizeCreditMemos, toAmount } from './list.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type Allocation = {
+  invoice_id: string;
+  amount: number;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    const url = new URL(req.url);
+    const creditMemoId = url.searchParams.get('credit_memo_id');
+
+    // GET ?credit_memo_id= - one credit memo, where it has been used and the invoices it can still cover
+    if (req.method === 'GET' && creditMemoId) {
+      const { data: memo, error: memoError } = await supabase
+        .from('invoices')
+        .select('invoice_id, invoice_number, customer_id, amount, open_balance, currency, credit_reason, original_invoice_id, status')
+        .eq('tenant_id', profile.tenant_id)
+        .eq('invoice_id', creditMemoId)
+        .eq('document_type', 'credit_memo')
+        .maybeSingle();
+
+      if (memoError) {
+        console.error('Error fetching credit memo:', memoError);
+        throw memoError;
+      }
+
+      if (!memo) {
+        return new Response(
+          JSON.stringify({ error: 'Credit memo not found' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 404
+          }
+        );
+      }
+
+      const [
+        { data: applications, error: applicationsError },
+        { data: openInvoices, error: invoicesError },
+      ] = await Promise.all([
+        supabase
+          .from('credit_memo_applications')
+          .select('credit_application_id, invoice_id, payment_id, dispute_id, amount, applied_at, reversed_at')
+          .eq('tenant_id', profile.tenant_id)
+          .eq('credit_memo_id', creditMemoId)
+          .order('applied_at', { ascending: true }),
+        supabase
+          .from('invoices')
+          .select('invoice_id, invoice_number, due_date, open_balance, currency, status')
+          .eq('tenant_id', profile.tenant_id)
+          .eq('customer_id', memo.customer_id)
+          .eq('document_type', 'invoice')
+          // A credit memo only nets against invoices in its own currency
+          .eq('currency', memo.currency)
+          .in('status', ['open', 'partially_paid', 'overdue', 'disputed'])
+          .gt('open_balance', 0)
+          .order('due_date', { ascending: true }),
+      ]);
+
+      if (applicationsError || invoicesError) {
+        console.error('Error fetching credit memo detail:', applicationsError ?? invoicesError);
+        throw applicationsError ?? invoicesError;
+      }
+
+      // The original invoice is offered first, since that is what the credit was issued against
+      const invoices = (openInvoices || []).sort(
+        (a, b) => Number(b.invoice_id === memo.original_invoice_id) - Number(a.invoice_id === memo.original_invoice_id)
+      );
+
+      return new Response(
+        JSON.stringify({
+          credit_memo_id: memo.invoice_id,
+          credit_memo_number: memo.invoice_number,
+          customer_id: memo.customer_id,
+          currency: memo.currency,
+          amount: Math.abs(toAmount(memo.amount)),
+          remaining_credit: Math.abs(toAmount(memo.open_balance)),
+          credit_reason: memo.credit_reason,
+          original_invoice_id: memo.original_invoice_id,
+          applications: applications || [],
+          open_invoices: invoices,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    // GET - credit memos with credit left, and the customers a memo can be issued to. The
+    // total is in the tenant's functional currency at today's rates.
+    if (req.method === 'GET') {
+      const [
+        fx,
+        { data: memos, error: memosError },
+        { data: customers, error: customersError },
+      ] = await Promise.all([
+        loadFxContext(supabase, profile.tenant_id),
+        supabase
+          .from('invoices')
+          .select('invoice_id, invoice_number, customer_id, amount, open_balance, currency, credit_reason, original_invoice_id, due_date, status')
+          .eq('tenant_id', profile.tenant_id)
+          .eq('document_type', 'credit_memo')
+          .eq('status', 'open')
+          .order('due_date', { ascending: true }),
+        supabase
+          .from('customers')
+          .select('customer_id, name')
+          .eq('tenant_id', profile.tenant_id)
+          .order('name', { ascending: true }),
+      ]);
+
+      if (memosError || customersError) {
+        console.error('Error fetching credit memos:', memosError ?? customersError);
+        throw memosError ?? customersError;
+      }
+
+      const originalIds = Array.from(
+        new Set((memos || []).map((memo) => memo.original_invoice_id).filter((id): id is string => Boolean(id)))
+      );
+      const { data: originals, error: originalsError } = originalIds.length > 0
+        ? await supabase.from('invoices').select('invoice_id, invoice_number').in('invoice_id', originalIds)
+        : { data: [], error: null };
+
+      if (originalsError) {
+        console.error('Error fetching original invoices:', originalsError);
+        throw originalsError;
+      }
+
+      const names = new Map((customers || []).map((customer) => [customer.customer_id, customer.name]));
+      const originalNumbers = new Map((originals || []).map((invoice) => [invoice.invoice_id, invoice.invoice_number]));
+      const { credit_memos: creditMemos, total_credit: totalCredit } = summarizeCreditMemos(
+        memos || [],
+        names,
+        originalNumbers,
+        fx,
+        today()
+      );
+
+      return new Response(
+        JSON.stringify({
+          functional_currency: fx.functional_currency,
+          total_credit: totalCredit,
+          credit_memos: creditMemos,
+          customers: customers || [],
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error('Invalid JSON payload:', parseError);
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON payload' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    // POST { action: 'issue' } creates a credit memo, standalone or against an invoice;
+    // POST { action: 'apply' } uses a credit memo's credit on the customer's invoices
+    let rpcCall;
+    if (body?.action === 'issue' && typeof body.customer_id === 'string') {
+      let originalInvoiceId = typeof body.original_invoice_id === 'string' ? body.original_invoice_id : null;
+
+      // Analysts usually know the invoice by its number
+      if (!originalInvoiceId && typeof body.original_invoice_number === 'string' && body.original_invoice_number.trim()) {
+        const { data: original, error: originalError } = await supabase
+          .from('invoices')
+          .select('invoice_id')
+          .eq('tenant_id', profile.tenant_id)
+          .eq('invoice_number', body.original_invoice_number.trim())
+          .eq('document_type', 'invoice')
+          .maybeSingle();
+
+        if (originalError) {
+          console.error('Error fetching original invoice:', originalError);
+          throw originalError;
+        }
+
+        if (!original) {
+          return new Response(
+            JSON.stringify({ error: `Invoice ${body.original_invoice_number.trim()} not found` }),
+            {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              status: 404
+            }
+          );
+        }
+        originalInvoiceId = original.invoice_id;
+      }
+
+      console.log(`Issuing credit memo for customer ${body.customer_id} (tenant: ${profile.tenant_id})`);
+      rpcCall = supabase.rpc('issue_credit_memo', {
+        p_customer_id: body.customer_id,
+        p_amount: toAmount(body.amount),
+        p_original_invoice_id: originalInvoiceId,
+        p_reason: typeof body.reason === 'string' ? body.reason : null,
+        p_credit_memo_number: typeof body.credit_memo_number === 'string' ? body.credit_memo_number : null,
+        // Credit issued against an invoice usually reduces that invoice straight away
+        p_apply_to_original: body.apply_to_original === true,
+      });
+    } else if (body?.action === 'apply' && typeof body.credit_memo_id === 'string') {
+      const allocations: Allocation[] = (Array.isArray(body.allocations) ? body.allocations : [])
+        .map((allocation: { invoice_id?: unknown; amount?: unknown }) => ({
+          invoice_id: typeof allocation?.invoice_id === 'string' ? allocation.invoice_id : '',
+          amount: toAmount(allocation?.amount),
+        }))
+        .filter((allocation: Allocation) => allocation.invoice_id && allocation.amount > 0);
+
+      if (allocations.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'allocations are required to apply a credit memo' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400
+          }
+        );
+      }
+
+      console.log(`Applying credit memo ${body.credit_memo_id} (tenant: ${profile.tenant_id})`);
+      rpcCall = supabase.rpc('apply_credit_memo', {
+        p_credit_memo_id: body.credit_memo_id,
+        p_allocations: allocations,
+      });
+    } else {
+      return new Response(
+        JSON.stringify({ error: 'action must be "issue" with a customer_id or "apply" with a credit_memo_id' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    const { data, error } = await rpcCall;
+
+    if (error) {
+      console.error('Error updating credit memo:', error);
+      // P0001 is raised by the functions' own validation
+      if (error.code === 'P0001') {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 422
+          }
+        );
+      }
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify(data),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { FxContext } from '../_shared/fx.ts';
+import { type CreditMemoRow, summarizeCreditMemos } from './list.ts';
+
+const fx: FxContext = {
+  functional_currency: 'USD',
+  rates: [{ rate_date: '2025-06-01', from_currency: 'EUR', to_currency: 'USD', rate: 1.1 }],
+};
+
+const memo = (overrides: Partial<CreditMemoRow>): CreditMemoRow => ({
+  invoice_id: 'cm-1',
+  invoice_number: 'CM-0001',
+  customer_id: 'cust-1',
+  amount: -500,
+  open_balance: -200,
+  currency: 'USD',
+  credit_reason: 'Pricing error',
+  original_invoice_id: 'inv-1',
+  due_date: '2025-06-10',
+  ...overrides,
+});
+
+describe('summarizeCreditMemos', () => {
+  it('lists a tenant with open credit memos', () => {
+    const memos = [
+      memo({}),
+      // Amounts arrive from Postgres numeric columns as strings
+      memo({ invoice_id: 'cm-2', invoice_number: 'CM-0002', customer_id: 'cust-2', amount: '-1000.00', open_balance: '-1000.00', currency: 'EUR', original_invoice_id: null }),
+    ];
+
+    const { credit_memos, total_credit } = summarizeCreditMemos(
+      memos,
+      new Map([['cust-1', 'Acme Corp']]),
+      new Map([['inv-1', 'INV-1001']]),
+      fx,
+      '2025-06-15'
+    );
+
+    expect(credit_memos).toEqual([
+      {
+        credit_memo_id: 'cm-1',
+        credit_memo_number: 'CM-0001',
+        customer_id: 'cust-1',
+        customer_name: 'Acme Corp',
+        currency: 'USD',
+        amount: 500,
+        remaining_credit: 200,
+        credit_reason: 'Pricing error',
+        original_invoice_number: 'INV-1001',
+        issue_date: '2025-06-10',
+      },
+      expect.objectContaining({
+        credit_memo_id: 'cm-2',
+        customer_name: 'Unknown Customer',
+        amount: 1000,
+        remaining_credit: 1000,
+        original_invoice_number: null,
+      }),
+    ]);
+    expect(total_credit).toBe(1300);
+  });
+
+  it('leaves credit without a loaded rate out of the total', () => {
+    const { credit_memos, total_credit } = summarizeCreditMemos(
+      [memo({}), memo({ invoice_id: 'cm-3', currency: 'GBP', open_balance: -50 })],
+      new Map(),
+      new Map(),
+      fx,
+      '2025-06-15'
+    );
+
+    expect(credit_memos).toHaveLength(2);
+    expect(total_credit).toBe(200);
+  });
+
+  it('lists nothing for a tenant without open credit memos', () => {
+    expect(summarizeCreditMemos([], new Map(), new Map(), fx, '2025-06-15')).toEqual({ credit_memos: [], total_credit: 0 });
+  });
+});
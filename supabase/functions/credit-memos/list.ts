@@ -0,0 +1,65 @@
+import { convertAmount, type FxContext } from '../_shared/fx.ts';
+
+export const toAmount = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? Number(parsed.toFixed(2)) : 0;
+};
+
+export type CreditMemoRow = {
+  invoice_id: string;
+  invoice_number: string;
+  customer_id: string;
+  // Stored negative, as credit
+  amount: number | string;
+  open_balance: number | string | null;
+  currency: string;
+  credit_reason: string | null;
+  original_invoice_id: string | null;
+  due_date: string;
+};
+
+export type CreditMemoSummary = {
+  credit_memo_id: string;
+  credit_memo_number: string;
+  customer_id: string;
+  customer_name: string;
+  currency: string;
+  amount: number;
+  remaining_credit: number;
+  credit_reason: string | null;
+  original_invoice_number: string | null;
+  issue_date: string;
+};
+
+/**
+ * Open credit memos as listed by GET, with credit shown as positive amounts, and the credit left
+ * in the functional currency at rateDate. Credit in a currency without a loaded rate is left out
+ * of the total.
+ */
+export const summarizeCreditMemos = (
+  memos: CreditMemoRow[],
+  customerNames: Map<string, string>,
+  originalNumbers: Map<string, string>,
+  fx: FxContext,
+  rateDate: string
+): { credit_memos: CreditMemoSummary[]; total_credit: number } => {
+  const creditMemos = memos.map((memo) => ({
+    credit_memo_id: memo.invoice_id,
+    credit_memo_number: memo.invoice_number,
+    customer_id: memo.customer_id,
+    customer_name: customerNames.get(memo.customer_id) ?? 'Unknown Customer',
+    currency: memo.currency,
+    amount: Math.abs(toAmount(memo.amount)),
+    remaining_credit: Math.abs(toAmount(memo.open_balance)),
+    credit_reason: memo.credit_reason,
+    original_invoice_number: memo.original_invoice_id ? originalNumbers.get(memo.original_invoice_id) ?? null : null,
+    issue_date: memo.due_date,
+  }));
+
+  const totalCredit = creditMemos.reduce(
+    (sum, memo) => sum + (convertAmount(fx, memo.remaining_credit, memo.currency, fx.functional_currency, rateDate) ?? 0),
+    0
+  );
+
+  return { credit_memos: creditMemos, total_credit: toAmount(totalCredit) };
+};
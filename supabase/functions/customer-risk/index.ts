@@ -0,0 +1,222 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadCustomerRiskProfiles, loadExposureTimeline, validateCreditSettings } from '../_shared/credit-risk.ts';
+import { loadFxContext } from '../_shared/fx.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    const fx = await loadFxContext(supabase, profile.tenant_id);
+
+    if (req.method === 'GET') {
+      const url = new URL(req.url);
+      const customerId = url.searchParams.get('customer_id');
+
+      // GET - every customer's credit position
+      if (!customerId) {
+        const customers = await loadCustomerRiskProfiles(supabase, profile.tenant_id, fx);
+        return new Response(
+          JSON.stringify({ currency: fx.functional_currency, customers }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200
+          }
+        );
+      }
+
+      // GET ?customer_id= - one customer, with exposure against its limit over time
+      const [customer] = await loadCustomerRiskProfiles(supabase, profile.tenant_id, fx, customerId);
+      if (!customer) {
+        return new Response(
+          JSON.stringify({ error: 'Customer not found' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 404
+          }
+        );
+      }
+
+      const weeks = Math.min(Math.max(parseInt(url.searchParams.get('weeks') ?? '26', 10) || 26, 4), 104);
+      const [timeline, { data: alerts, error: alertsError }] = await Promise.all([
+        loadExposureTimeline(supabase, profile.tenant_id, fx, customer, weeks),
+        supabase
+          .from('credit_limit_alerts')
+          .select('alert_id, invoice_id, exposure, credit_limit, credit_hold, created_at, invoices(invoice_number)')
+          .eq('tenant_id', profile.tenant_id)
+          .eq('customer_id', customerId)
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (alertsError) {
+        console.error('Error fetching credit limit alerts:', alertsError);
+        throw alertsError;
+      }
+
+      return new Response(
+        JSON.stringify({
+          ...customer,
+          timeline,
+          alerts: (alerts || []).map(({ invoices, ...alert }) => ({
+            ...alert,
+            invoice_number: (Array.isArray(invoices) ? invoices[0] : invoices)?.invoice_number ?? null,
+          })),
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    // PUT - change a customer's credit limit or hold
+    if (req.method === 'PUT') {
+      let body: Record<string, unknown>;
+      try {
+        body = await req.json();
+      } catch (parseError) {
+        console.error('Invalid JSON payload:', parseError);
+        return new Response(
+          JSON.stringify({ error: 'Invalid JSON payload' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400
+          }
+        );
+      }
+
+      const { customer_id: customerId, ...changes } = body ?? {};
+      if (typeof customerId !== 'string' || !customerId) {
+        return new Response(
+          JSON.stringify({ error: 'customer_id is required' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400
+          }
+        );
+      }
+
+      const { settings, errors } = validateCreditSettings(changes);
+      if (errors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: errors.join('; '), errors }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 422
+          }
+        );
+      }
+
+      console.log(`Updating credit settings for customer ${customerId} (tenant: ${profile.tenant_id})`);
+
+      const { data: updated, error: updateError } = await supabase
+        .from('customers')
+        .update(settings)
+        .eq('customer_id', customerId)
+        .eq('tenant_id', profile.tenant_id)
+        .select('customer_id');
+
+      if (updateError) {
+        console.error('Error updating credit settings:', updateError);
+        throw updateError;
+      }
+
+      if (!updated || updated.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Customer not found' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 404
+          }
+        );
+      }
+
+      const [customer] = await loadCustomerRiskProfiles(supabase, profile.tenant_id, fx, customerId);
+      return new Response(
+        JSON.stringify(customer),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 405
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { openDispute } from '../_shared/disputes.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -97,10 +98,18 @@ Deno.serve(async (req) => {
           disputed_amount,
           reason,
           created_at,
-          invoices (
+          payment_id,
+          difference_type,
+          credit_memo_id,
+          credit_memo:invoices!disputes_credit_memo_id_fkey (
+            invoice_number,
+            amount
+          ),
+          invoices!disputes_invoice_id_fkey (
             invoice_id,
             invoice_number,
             amount,
+            currency,
             customers (
               customer_id,
               name
@@ -121,9 +130,15 @@ Deno.serve(async (req) => {
         disputed_amount: parseFloat(dispute.disputed_amount),
         reason: dispute.reason,
         created_at: dispute.created_at,
+        payment_id: dispute.payment_id,
+        difference_type: dispute.difference_type,
+        credit_memo_id: dispute.credit_memo_id,
+        credit_memo_number: dispute.credit_memo?.invoice_number ?? null,
+        credit_memo_amount: dispute.credit_memo ? Math.abs(parseFloat(dispute.credit_memo.amount)) : null,
         invoice_id: dispute.invoices?.invoice_id,
         invoice_number: dispute.invoices?.invoice_number,
         invoice_amount: parseFloat(dispute.invoices?.amount || '0'),
+        currency: dispute.invoices?.currency,
         customer_name: dispute.invoices?.customers?.name || 'Unknown Customer'
       }));
 
@@ -154,15 +169,13 @@ Deno.serve(async (req) => {
 
       console.log(`Creating new dispute for invoice ${invoice_id} (tenant: ${profile.tenant_id})`);
 
-      // Verify invoice belongs to this tenant
-      const { data: invoiceCheck, error: invoiceCheckError } = await supabase
-        .from('invoices')
-        .select('invoice_id')
-        .eq('invoice_id', invoice_id)
-        .eq('tenant_id', profile.tenant_id)
-        .single();
+      const dispute = await openDispute(supabase, profile.tenant_id, {
+        invoice_id,
+        disputed_amount,
+        reason,
+      });
 
-      if (invoiceCheckError || !invoiceCheck) {
+      if (!dispute) {
         return new Response(
           JSON.stringify({ error: 'Invoice not found or access denied' }),
           { 
@@ -172,35 +185,6 @@ Deno.serve(async (req) => {
         );
       }
 
-      // Create the dispute with tenant_id
-      const { data: dispute, error: createError } = await supabase
-        .from('disputes')
-        .insert({
-          invoice_id: invoice_id,
-          disputed_amount: disputed_amount,
-          reason: reason || null,
-          status: 'new',
-          tenant_id: profile.tenant_id
-        })
-        .select()
-        .single();
-
-      if (createError) {
-        console.error('Error creating dispute:', createError);
-        throw createError;
-      }
-
-      // Update invoice status to disputed
-      const { error: updateError } = await supabase
-        .from('invoices')
-        .update({ status: 'disputed' })
-        .eq('invoice_id', invoice_id);
-
-      if (updateError) {
-        console.error('Error updating invoice status:', updateError);
-        throw updateError;
-      }
-
       console.log('Successfully created dispute:', dispute.dispute_id);
 
       return new Response(
@@ -217,7 +201,7 @@ Deno.serve(async (req) => {
 
     // PUT /api/disputes/:dispute_id - Update a dispute
     if (method === 'PUT') {
-      const { dispute_id, status, reason } = await req.json();
+      const { dispute_id, status, reason, resolution, credit_amount } = await req.json();
 
       if (!dispute_id) {
         return new Response(
@@ -229,6 +213,45 @@ Deno.serve(async (req) => {
         );
       }
 
+      // Resolving with a credit memo issues the memo against the invoice and applies it
+      if (resolution === 'credit_memo') {
+        console.log(`Resolving dispute ${dispute_id} with a credit memo (tenant: ${profile.tenant_id})`);
+
+        const { data: resolved, error: resolveError } = await supabase.rpc('resolve_dispute_with_credit_memo', {
+          p_dispute_id: dispute_id,
+          p_amount: credit_amount === undefined || credit_amount === null ? null : Number(credit_amount),
+          p_reason: typeof reason === 'string' ? reason : null,
+        });
+
+        if (resolveError) {
+          console.error('Error resolving dispute:', resolveError);
+          // P0001 is raised by the function's own validation
+          if (resolveError.code === 'P0001') {
+            return new Response(
+              JSON.stringify({ error: resolveError.message }),
+              {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                status: 422
+              }
+            );
+          }
+          throw resolveError;
+        }
+
+        console.log(`Dispute ${dispute_id} resolved with credit memo ${resolved.credit_memo_number}`);
+
+        return new Response(
+          JSON.stringify({
+            message: `Dispute resolved with credit memo ${resolved.credit_memo_number}`,
+            resolution: resolved
+          }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200
+          }
+        );
+      }
+
       console.log(`Updating dispute ${dispute_id} (tenant: ${profile.tenant_id})`);
 
       const updateData: any = {};
@@ -0,0 +1,191 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadFxContext } from '../_shared/fx.ts';
+import { parseFxRates } from './parse.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    // GET - the functional currency and the latest rate loaded for each currency pair
+    if (req.method === 'GET') {
+      const fx = await loadFxContext(supabase, profile.tenant_id);
+
+      const latest = new Map<string, (typeof fx.rates)[number]>();
+      for (const rate of fx.rates) {
+        const pair = `${rate.from_currency}/${rate.to_currency}`;
+        if (!latest.has(pair)) latest.set(pair, rate);
+      }
+
+      return new Response(
+        JSON.stringify({
+          functional_currency: fx.functional_currency,
+          rate_count: fx.rates.length,
+          latest_rates: Array.from(latest.values()).sort(
+            (a, b) => a.from_currency.localeCompare(b.from_currency) || a.to_currency.localeCompare(b.to_currency)
+          ),
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    // POST { file_name, content } - imports a rate file; a rate already loaded for the same
+    // pair and date is replaced
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error('Invalid JSON payload:', parseError);
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON payload' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    const content = typeof body?.content === 'string' ? body.content : '';
+    const fileName = typeof body?.file_name === 'string' ? body.file_name : null;
+    if (!content.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'File content is required' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    console.log(`Importing FX rate file ${fileName ?? '(unnamed)'} for tenant: ${profile.tenant_id}`);
+
+    const { rates, errors } = parseFxRates(content);
+
+    if (rates.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No FX rates could be parsed from the file', errors }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 422
+        }
+      );
+    }
+
+    const { data: saved, error: saveError } = await supabase
+      .from('fx_rates')
+      .upsert(
+        rates.map((rate) => ({
+          tenant_id: profile.tenant_id,
+          rate_date: rate.rate_date,
+          from_currency: rate.from_currency,
+          to_currency: rate.to_currency,
+          rate: rate.rate,
+          source: fileName,
+          imported_by: user.id,
+        })),
+        { onConflict: 'tenant_id,from_currency,to_currency,rate_date' }
+      )
+      .select('fx_rate_id');
+
+    if (saveError) {
+      console.error('Error saving FX rates:', saveError);
+      throw saveError;
+    }
+
+    console.log(`Imported ${saved?.length ?? 0} FX rates (${errors.length} errors)`);
+
+    return new Response(
+      JSON.stringify({
+        file_name: fileName,
+        imported: saved?.length ?? 0,
+        errors,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,114 @@
+export type ParsedFxRate = {
+  line: number;
+  rate_date: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+};
+
+export type ParseError = {
+  line: number;
+  message: string;
+};
+
+export type ParseResult = {
+  rates: ParsedFxRate[];
+  errors: ParseError[];
+};
+
+type Column = 'rate_date' | 'from_currency' | 'to_currency' | 'rate';
+
+// Header names accepted for each column, as exported by the usual rate providers
+const HEADER_ALIASES: Record<Column, string[]> = {
+  rate_date: ['date', 'rate_date', 'as_of', 'effective_date'],
+  from_currency: ['from', 'from_currency', 'base', 'base_currency', 'source_currency'],
+  to_currency: ['to', 'to_currency', 'quote', 'quote_currency', 'target_currency'],
+  rate: ['rate', 'fx_rate', 'exchange_rate', 'mid'],
+};
+
+// Without a header the columns are date, from, to, rate
+const DEFAULT_ORDER: Column[] = ['rate_date', 'from_currency', 'to_currency', 'rate'];
+
+const parseDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return value;
+};
+
+const splitRow = (line: string, delimiter: string) =>
+  line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+
+/**
+ * Parses an FX rate file: one rate per row as date (YYYY-MM-DD), from currency, to currency and
+ * rate, comma, semicolon or tab separated. A header row, when present, may name the columns in
+ * any order. A pair quoted twice for the same date keeps the last row.
+ */
+export const parseFxRates = (content: string): ParseResult => {
+  const errors: ParseError[] = [];
+  const byKey = new Map<string, ParsedFxRate>();
+
+  const lines = content.split(/\r?\n/);
+  const firstLine = lines.findIndex((line) => line.trim());
+  if (firstLine === -1) {
+    return { rates: [], errors: [{ line: 1, message: 'File is empty' }] };
+  }
+
+  const delimiter = ['\t', ';', ','].find((candidate) => lines[firstLine].includes(candidate)) ?? ',';
+  const headerCells = splitRow(lines[firstLine], delimiter).map((cell) => cell.toLowerCase());
+  const hasHeader = headerCells.some((cell) => Object.values(HEADER_ALIASES).some((aliases) => aliases.includes(cell)));
+
+  let order: Array<Column | null> = DEFAULT_ORDER;
+  if (hasHeader) {
+    order = headerCells.map(
+      (cell) => (Object.keys(HEADER_ALIASES) as Column[]).find((column) => HEADER_ALIASES[column].includes(cell)) ?? null
+    );
+    const missing = DEFAULT_ORDER.filter((column) => !order.includes(column));
+    if (missing.length > 0) {
+      return { rates: [], errors: [{ line: firstLine + 1, message: `Header is missing ${missing.join(', ')}` }] };
+    }
+  }
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    if (index < firstLine || (hasHeader && index === firstLine) || !rawLine.trim()) return;
+
+    const cells = splitRow(rawLine, delimiter);
+    const value = (column: Column) => cells[order.indexOf(column)] ?? '';
+
+    const rateDate = parseDate(value('rate_date'));
+    const fromCurrency = value('from_currency').toUpperCase();
+    const toCurrency = value('to_currency').toUpperCase();
+    const rate = Number(value('rate'));
+
+    if (!rateDate) {
+      errors.push({ line: lineNumber, message: `Invalid date "${value('rate_date')}"; expected YYYY-MM-DD` });
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(fromCurrency) || !/^[A-Z]{3}$/.test(toCurrency)) {
+      errors.push({ line: lineNumber, message: `Invalid currency pair "${value('from_currency')}/${value('to_currency')}"` });
+      return;
+    }
+    if (fromCurrency === toCurrency) {
+      errors.push({ line: lineNumber, message: `Rate from ${fromCurrency} to itself` });
+      return;
+    }
+    if (!value('rate') || !Number.isFinite(rate) || rate <= 0) {
+      errors.push({ line: lineNumber, message: `Invalid rate "${value('rate')}"` });
+      return;
+    }
+
+    byKey.set(`${rateDate}|${fromCurrency}|${toCurrency}`, {
+      line: lineNumber,
+      rate_date: rateDate,
+      from_currency: fromCurrency,
+      to_currency: toCurrency,
+      rate,
+    });
+  });
+
+  return { rates: Array.from(byKey.values()), errors };
+};
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { convertAmount, loadFxContext, today } from '../_shared/fx.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -64,6 +65,9 @@ Deno.serve(async (req) => {
 
     console.log(`Fetching invoices for tenant: ${profile.tenant_id}`);
 
+    const fx = await loadFxContext(supabase, profile.tenant_id);
+    const rateDate = today();
+
     // Fetch invoices filtered by tenant_id
     const { data: invoices, error } = await supabase
       .from('invoices')
@@ -71,10 +75,16 @@ Deno.serve(async (req) => {
         invoice_id,
         invoice_number,
         amount,
+        amount_paid,
+        open_balance,
+        currency,
         due_date,
         status,
+        document_type,
+        original_invoice_id,
         risk_score,
         risk_explanation,
+        risk_factors,
         created_at,
         customers (
           customer_id,
@@ -89,6 +99,18 @@ Deno.serve(async (req) => {
       throw error;
     }
 
+    const { data: predictions, error: predictionsError } = await supabase
+      .from('latest_payment_date_predictions')
+      .select('invoice_id, predicted_date, earliest_date, latest_date, basis')
+      .eq('tenant_id', profile.tenant_id);
+
+    if (predictionsError) {
+      console.error('Error fetching payment date predictions:', predictionsError);
+      throw predictionsError;
+    }
+
+    const predictionsByInvoice = new Map((predictions || []).map((prediction) => [prediction.invoice_id, prediction]));
+
     // Format the response
     const formattedInvoices = invoices.map((invoice: any) => ({
       invoice_id: invoice.invoice_id,
@@ -96,10 +118,28 @@ Deno.serve(async (req) => {
       customer_name: invoice.customers?.name || 'Unknown Customer',
       customer_id: invoice.customers?.customer_id,
       amount: parseFloat(invoice.amount),
+      amount_paid: parseFloat(invoice.amount_paid),
+      open_balance: parseFloat(invoice.open_balance),
+      currency: invoice.currency,
+      // Open balance in the tenant's functional currency at today's rate; null when no rate is loaded
+      functional_open_balance: convertAmount(
+        fx,
+        parseFloat(invoice.open_balance),
+        invoice.currency,
+        fx.functional_currency,
+        rateDate
+      ),
       due_date: invoice.due_date,
       status: invoice.status,
+      document_type: invoice.document_type,
+      original_invoice_id: invoice.original_invoice_id,
       risk_score: invoice.risk_score,
       risk_explanation: invoice.risk_explanation,
+      risk_factors: invoice.risk_factors ?? [],
+      // Latest predicted payment date and range; null for paid invoices and those not yet scored
+      payment_prediction: parseFloat(invoice.open_balance) > 0.005
+        ? predictionsByInvoice.get(invoice.invoice_id) ?? null
+        : null,
       created_at: invoice.created_at
     }));
 
@@ -0,0 +1,223 @@
+import type { ParsedPayment, ParseError, ParseResult } from './types.ts';
+
+type RawRecord = {
+  line: number;
+  text: string;
+};
+
+type GroupContext = {
+  asOfDate: string;
+  currency: string | null;
+};
+
+type AccountContext = {
+  accountNumber: string;
+  currency: string | null;
+};
+
+// Keywords banks use to label the parts of ACH and wire detail text
+const TEXT_KEYWORDS =
+  'ORIG CO NAME|ORIG ID|CO ID|DESC DATE|CO ENTRY DESCR|ENTRY DESCR|SEC|TRACE|EED|IND ID|IND NAME|TRN|RMR|REF|OBI|BNF|ORG|B/O';
+
+const payerPatterns = [
+  new RegExp(`ORIG CO NAME\\s*[:=]\\s*(.+?)(?=\\s+(?:${TEXT_KEYWORDS})\\s*[:=]|$)`, 'i'),
+  new RegExp(`\\bORG\\s*=\\s*(.+?)(?=\\s+(?:${TEXT_KEYWORDS})\\s*[:=]|$)`, 'i'),
+  new RegExp(`\\bB/O\\s*[:=]?\\s*(.+?)(?=\\s+(?:${TEXT_KEYWORDS})\\s*[:=]|$)`, 'i'),
+  new RegExp(`\\bBY ORDER OF\\s*[:=]?\\s*(.+?)(?=\\s+(?:${TEXT_KEYWORDS})\\s*[:=]|$)`, 'i'),
+];
+
+const extractPayerName = (text: string): string | null => {
+  for (const pattern of payerPatterns) {
+    const match = text.match(pattern);
+    if (match?.[1]?.trim()) {
+      return match[1].trim();
+    }
+  }
+  return null;
+};
+
+// ACH originator IDs are stable per payer, so they serve as the payer's account identity
+const extractPayerAccount = (text: string): string | null => {
+  const match = text.match(new RegExp(`\\b(?:ORIG ID|CO ID)\\s*[:=]\\s*(.+?)(?=\\s+(?:${TEXT_KEYWORDS})\\s*[:=]|$)`, 'i'));
+  return match?.[1]?.trim() || null;
+};
+
+const parseDate = (value: string | undefined): string | null => {
+  if (!value || !/^\d{6}$/.test(value)) return null;
+
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const parseCurrency = (value: string | undefined): string | null => {
+  const code = value?.replace(/\/$/, '').trim().toUpperCase();
+  return code && /^[A-Z]{3}$/.test(code) ? code : null;
+};
+
+// BAI2 amounts carry no decimal point; the last two digits are cents
+const parseAmountCents = (value: string | undefined): number | null => {
+  if (!value || !/^[+-]?\d+$/.test(value)) return null;
+  return Number(value);
+};
+
+// The funds type decides how many availability fields follow it
+const fundsTypeFieldCount = (fundsType: string, fields: string[], index: number): number => {
+  switch (fundsType.toUpperCase()) {
+    case 'V':
+      return 2;
+    case 'S':
+      return 3;
+    case 'D': {
+      const distributions = Number(fields[index] ?? 0);
+      return 1 + (Number.isFinite(distributions) ? distributions * 2 : 0);
+    }
+    default:
+      return 0;
+  }
+};
+
+// Credit transaction detail codes occupy 100-399; 400-699 are debits
+const isCreditTypeCode = (typeCode: string) => {
+  const code = Number(typeCode);
+  return Number.isInteger(code) && code >= 100 && code <= 399;
+};
+
+// Fold 88 continuation records into the record they extend
+const collectRecords = (content: string, errors: ParseError[]): RawRecord[] => {
+  const records: RawRecord[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const text = rawLine.trim();
+    if (!text) return;
+
+    if (text.startsWith('88,')) {
+      const previous = records[records.length - 1];
+      if (!previous) {
+        errors.push({ line: index + 1, message: 'Continuation record (88) without a preceding record' });
+        return;
+      }
+
+      const continuation = text.slice(3);
+      previous.text = previous.text.endsWith('/')
+        ? `${previous.text.slice(0, -1)},${continuation}`
+        : `${previous.text} ${continuation}`;
+      return;
+    }
+
+    records.push({ line: index + 1, text });
+  });
+
+  return records;
+};
+
+export const parseBai2 = (content: string): ParseResult => {
+  const errors: ParseError[] = [];
+  const payments: ParsedPayment[] = [];
+  const records = collectRecords(content, errors);
+
+  if (records.length === 0 || !records[0].text.startsWith('01,')) {
+    errors.push({ line: records[0]?.line ?? 1, message: 'File must start with a 01 file header record' });
+    return { payments, errors };
+  }
+
+  let group: GroupContext | null = null;
+  let account: AccountContext | null = null;
+
+  for (const record of records) {
+    const fields = record.text.split(',');
+    const code = fields[0];
+
+    switch (code) {
+      case '01':
+      case '99':
+        break;
+
+      case '02': {
+        const asOfDate = parseDate(fields[4]);
+        if (!asOfDate) {
+          errors.push({ line: record.line, message: `Invalid as-of date "${fields[4] ?? ''}" in group header` });
+          group = null;
+          break;
+        }
+        group = { asOfDate, currency: parseCurrency(fields[6]) };
+        break;
+      }
+
+      case '03': {
+        const accountNumber = fields[1]?.trim();
+        if (!accountNumber) {
+          errors.push({ line: record.line, message: 'Account identifier record is missing the account number' });
+          account = null;
+          break;
+        }
+        account = { accountNumber, currency: parseCurrency(fields[2]) };
+        break;
+      }
+
+      case '16': {
+        if (!group || !account) {
+          errors.push({ line: record.line, message: 'Transaction detail outside of a valid group/account' });
+          break;
+        }
+
+        const typeCode = fields[1]?.trim() ?? '';
+        if (!isCreditTypeCode(typeCode)) {
+          break;
+        }
+
+        const amountCents = parseAmountCents(fields[2]?.trim());
+        if (amountCents === null || amountCents <= 0) {
+          errors.push({ line: record.line, message: `Invalid amount "${fields[2] ?? ''}" on transaction detail` });
+          break;
+        }
+
+        const fundsType = fields[3]?.trim() ?? '';
+        let cursor = 4 + fundsTypeFieldCount(fundsType, fields, 4);
+        const bankReference = fields[cursor++]?.trim() || null;
+        const customerReference = fields[cursor++]?.trim() || null;
+        const text = fields.slice(cursor).join(',').replace(/\/$/, '').trim() || null;
+
+        payments.push({
+          line: record.line,
+          amount: amountCents / 100,
+          // The account's currency overrides the group default when present
+          currency: account.currency ?? group.currency,
+          payment_date: group.asOfDate,
+          bank_reference: bankReference ?? customerReference,
+          payer_name: text ? extractPayerName(text) : null,
+          payer_account: text ? extractPayerAccount(text) : null,
+          remittance_text: text,
+          remittance_references: [],
+          fingerprint: [
+            'bai2',
+            account.accountNumber,
+            group.asOfDate,
+            typeCode,
+            amountCents,
+            bankReference ?? customerReference ?? `line-${record.line}`,
+          ].join('|'),
+        });
+        break;
+      }
+
+      case '49':
+        account = null;
+        break;
+
+      case '98':
+        group = null;
+        account = null;
+        break;
+
+      default:
+        errors.push({ line: record.line, message: `Unknown record type "${code}"` });
+    }
+  }
+
+  return { payments, errors };
+};
@@ -0,0 +1,215 @@
+import { XMLParser } from 'https://esm.sh/fast-xml-parser@4';
+import type { ParsedPayment, ParseError, ParseResult } from './types.ts';
+
+type XmlNode = Record<string, unknown>;
+
+// Elements that may repeat and must always come back as arrays
+const REPEATED_ELEMENTS = new Set(['Stmt', 'Ntfctn', 'Ntry', 'NtryDtls', 'TxDtls', 'Ustrd', 'Strd', 'RfrdDocInf']);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => REPEATED_ELEMENTS.has(name),
+});
+
+const asNode = (value: unknown): XmlNode | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as XmlNode) : undefined;
+
+const asNodes = (value: unknown): XmlNode[] =>
+  Array.isArray(value) ? value.map(asNode).filter((node): node is XmlNode => Boolean(node)) : [];
+
+const text = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim() || null;
+  const node = asNode(value);
+  if (node && typeof node['#text'] === 'string') return node['#text'].trim() || null;
+  return null;
+};
+
+const child = (node: XmlNode | undefined, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => asNode(current)?.[key], node);
+
+const parseCurrency = (value: unknown): string | null => {
+  const code = asNode(value)?.['@_Ccy'];
+  return typeof code === 'string' && /^[A-Z]{3}$/.test(code) ? code : null;
+};
+
+const parseAmount = (value: unknown): number | null => {
+  const raw = text(value);
+  if (!raw || !/^\d+(\.\d+)?$/.test(raw)) return null;
+  return Number(raw);
+};
+
+// Dates may come as Dt (YYYY-MM-DD) or DtTm (ISO timestamp)
+const parseDate = (value: unknown): string | null => {
+  const raw = text(child(asNode(value), 'Dt')) ?? text(child(asNode(value), 'DtTm'));
+  if (!raw) return null;
+  const date = raw.slice(0, 10);
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+};
+
+// Schema versions before 2019 use <Sts>BOOK</Sts>, later ones <Sts><Cd>BOOK</Cd></Sts>
+const entryStatus = (entry: XmlNode): string | null =>
+  text(entry.Sts) ?? text(child(entry, 'Sts', 'Cd'));
+
+const accountIdentifier = (statement: XmlNode): string =>
+  text(child(statement, 'Acct', 'Id', 'IBAN')) ??
+  text(child(statement, 'Acct', 'Id', 'Othr', 'Id')) ??
+  'unknown-account';
+
+const payerName = (details: XmlNode | undefined): string | null =>
+  text(child(details, 'RltdPties', 'Dbtr', 'Nm')) ??
+  text(child(details, 'RltdPties', 'Dbtr', 'Pty', 'Nm')) ??
+  text(child(details, 'RltdPties', 'UltmtDbtr', 'Nm'));
+
+const payerAccount = (details: XmlNode | undefined): string | null =>
+  text(child(details, 'RltdPties', 'DbtrAcct', 'Id', 'IBAN')) ??
+  text(child(details, 'RltdPties', 'DbtrAcct', 'Id', 'Othr', 'Id'));
+
+const remittance = (details: XmlNode | undefined) => {
+  const remittanceInfo = asNode(child(details, 'RmtInf'));
+  const unstructured = (Array.isArray(remittanceInfo?.Ustrd) ? remittanceInfo.Ustrd : [])
+    .map(text)
+    .filter((line): line is string => Boolean(line));
+
+  const references: string[] = [];
+  asNodes(remittanceInfo?.Strd).forEach((structured) => {
+    asNodes(structured.RfrdDocInf).forEach((document) => {
+      const number = text(document.Nb);
+      if (number) references.push(number);
+    });
+    const creditorReference = text(child(structured, 'CdtrRefInf', 'Ref'));
+    if (creditorReference) references.push(creditorReference);
+  });
+
+  return {
+    text: unstructured.length > 0 ? unstructured.join(' ') : null,
+    references: Array.from(new Set(references)),
+  };
+};
+
+// XML loses line information once parsed, so locate each <Ntry> in the raw text
+const entryLineNumbers = (content: string): number[] => {
+  const lines: number[] = [];
+  const pattern = /<(?:[\w-]+:)?Ntry[\s>]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    lines.push(content.slice(0, match.index).split('\n').length);
+  }
+  return lines;
+};
+
+export const parseCamt = (content: string): ParseResult => {
+  const errors: ParseError[] = [];
+  const payments: ParsedPayment[] = [];
+
+  let document: XmlNode | undefined;
+  try {
+    document = asNode(child(asNode(xmlParser.parse(content)), 'Document'));
+  } catch (error) {
+    errors.push({ line: 1, message: `Invalid XML: ${error instanceof Error ? error.message : String(error)}` });
+    return { payments, errors };
+  }
+
+  // camt.053 carries statements, camt.054 carries notifications; both hold entries the same way
+  const reports = [
+    ...asNodes(child(document, 'BkToCstmrStmt', 'Stmt')),
+    ...asNodes(child(document, 'BkToCstmrDbtCdtNtfctn', 'Ntfctn')),
+  ];
+
+  if (reports.length === 0) {
+    errors.push({ line: 1, message: 'No camt.053 statement or camt.054 notification found' });
+    return { payments, errors };
+  }
+
+  const lineNumbers = entryLineNumbers(content);
+  let entryIndex = 0;
+
+  for (const report of reports) {
+    const account = accountIdentifier(report);
+
+    for (const entry of asNodes(report.Ntry)) {
+      const line = lineNumbers[entryIndex++] ?? 1;
+
+      if (text(entry.CdtDbtInd) !== 'CRDT') continue;
+      if (text(entry.RvslInd) === 'true') continue;
+
+      const status = entryStatus(entry);
+      if (status && status !== 'BOOK') continue;
+
+      const paymentDate = parseDate(entry.ValDt) ?? parseDate(entry.BookgDt);
+      if (!paymentDate) {
+        errors.push({ line, message: 'Entry has no valid value or booking date' });
+        continue;
+      }
+
+      const entryReference = text(entry.AcctSvcrRef);
+      const transactions = asNodes(entry.NtryDtls).flatMap((details) => asNodes(details.TxDtls));
+      const entryAmount = parseAmount(entry.Amt);
+
+      // An entry without transaction details still represents a single receipt
+      const items: Array<XmlNode | undefined> = transactions.length > 0 ? transactions : [undefined];
+
+      items.forEach((transaction, transactionIndex) => {
+        const amount =
+          parseAmount(child(transaction, 'Amt')) ??
+          parseAmount(child(transaction, 'AmtDtls', 'TxAmt', 'Amt')) ??
+          (items.length === 1 ? entryAmount : null);
+
+        if (amount === null || amount <= 0) {
+          errors.push({ line, message: 'Credit entry has no valid amount' });
+          return;
+        }
+
+        const currency =
+          parseCurrency(child(transaction, 'Amt')) ??
+          parseCurrency(child(transaction, 'AmtDtls', 'TxAmt', 'Amt')) ??
+          parseCurrency(entry.Amt);
+        const endToEndId = text(child(transaction, 'Refs', 'EndToEndId'));
+        const bankReference =
+          text(child(transaction, 'Refs', 'AcctSvcrRef')) ??
+          entryReference ??
+          (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null);
+        const { text: remittanceText, references } = remittance(transaction);
+        const debtorName = payerName(transaction);
+        const debtorAccount = payerAccount(transaction);
+
+        // Without the bank's entry reference, key on what the transaction says rather than where it
+        // sits, since a 054 and the 053 may number and batch entries differently. Identical
+        // receipts on one day with nothing to tell them apart are then taken as one.
+        const contentKey = [
+          paymentDate,
+          currency ?? '',
+          endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : '',
+          debtorName ?? '',
+          debtorAccount ?? '',
+          remittanceText ?? '',
+          references.join(','),
+        ].join('/');
+
+        payments.push({
+          line,
+          amount,
+          currency,
+          payment_date: paymentDate,
+          bank_reference: bankReference,
+          payer_name: debtorName,
+          payer_account: debtorAccount,
+          remittance_text: remittanceText,
+          remittance_references: references,
+          // No message type in the key: the same credit often arrives in both a 054 and the 053
+          fingerprint: [
+            'camt',
+            account,
+            entryReference !== null ? `${entryReference}|${transactionIndex}` : contentKey,
+            Math.round(amount * 100),
+          ].join('|'),
+        });
+      });
+    }
+  }
+
+  return { payments, errors };
+};
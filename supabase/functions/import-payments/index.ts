@@ -0,0 +1,285 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseBai2 } from './bai2.ts';
+import { parseCamt } from './camt.ts';
+import { parseLockbox } from './lockbox.ts';
+import { parseMt940 } from './mt940.ts';
+import type { ImportFormat, ParseResult } from './types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const parsers: Record<ImportFormat, (content: string) => ParseResult> = {
+  bai2: parseBai2,
+  camt: parseCamt,
+  mt940: parseMt940,
+  lockbox: parseLockbox,
+};
+
+const detectFormat = (content: string): ImportFormat | null => {
+  if (content.trimStart().startsWith('01,')) return 'bai2';
+  if (/<(?:[\w-]+:)?(?:BkToCstmrStmt|BkToCstmrDbtCdtNtfctn)[\s>]/.test(content)) return 'camt';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940';
+  // Fixed-width lockbox: an immediate address header followed by check detail records
+  if (/^1\d{2}/.test(content.trimStart()) && /^6\d{6}/m.test(content)) return 'lockbox';
+  return null;
+};
+
+// Keep PostgREST `in` filters well below URL length limits
+const FINGERPRINT_CHUNK_SIZE = 200;
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+type ImportRequest = {
+  format?: string;
+  fileName?: string;
+  content: string;
+};
+
+const readImportRequest = async (req: Request): Promise<ImportRequest> => {
+  const contentType = req.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await req.formData();
+    const file = form.get('file');
+    const format = form.get('format');
+    return {
+      format: typeof format === 'string' ? format : undefined,
+      fileName: file instanceof File ? file.name : undefined,
+      content: file instanceof File ? await file.text() : typeof file === 'string' ? file : '',
+    };
+  }
+
+  if (contentType.includes('application/json')) {
+    const body = await req.json();
+    return {
+      // Anything other than a string is kept so it is reported as an unsupported format
+      format: body?.format === undefined || body?.format === null ? undefined : String(body.format),
+      fileName: body?.file_name,
+      content: typeof body?.content === 'string' ? body.content : '',
+    };
+  }
+
+  return { content: await req.text() };
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get authenticated user
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      global: {
+        headers: { Authorization: authHeader }
+      }
+    });
+
+    // Get user's tenant_id
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    let importRequest: ImportRequest;
+    try {
+      importRequest = await readImportRequest(req);
+    } catch (parseError) {
+      console.error('Invalid import payload:', parseError);
+      return new Response(
+        JSON.stringify({ error: 'Invalid import payload' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    if (!importRequest.content.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'File content is required' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    const format = (importRequest.format?.toLowerCase() as ImportFormat | undefined) ?? detectFormat(importRequest.content);
+    // Own keys only, so names inherited from Object.prototype such as 'toString' are rejected
+    if (!format || !Object.hasOwn(parsers, format)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported file format${importRequest.format ? `: ${importRequest.format}` : ''}` }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    console.log(`Importing ${format} file ${importRequest.fileName ?? '(unnamed)'} for tenant: ${profile.tenant_id}`);
+
+    const { payments: parsedPayments, errors } = parsers[format](importRequest.content);
+
+    if (parsedPayments.length === 0 && errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'No payments could be parsed from the file', errors }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 422
+        }
+      );
+    }
+
+    // Skip payments imported by an earlier upload as well as repeats inside this file
+    const existingFingerprints = new Set<string>();
+    const fingerprints = Array.from(new Set(parsedPayments.map((payment) => payment.fingerprint)));
+
+    for (let i = 0; i < fingerprints.length; i += FINGERPRINT_CHUNK_SIZE) {
+      const { data: existing, error: existingError } = await supabase
+        .from('payments')
+        .select('import_fingerprint')
+        .eq('tenant_id', profile.tenant_id)
+        .in('import_fingerprint', fingerprints.slice(i, i + FINGERPRINT_CHUNK_SIZE));
+
+      if (existingError) {
+        console.error('Error checking for duplicate payments:', existingError);
+        throw existingError;
+      }
+
+      (existing || []).forEach((row) => existingFingerprints.add(row.import_fingerprint));
+    }
+
+    const rowsToInsert = [];
+    let duplicates = 0;
+
+    for (const payment of parsedPayments) {
+      if (existingFingerprints.has(payment.fingerprint)) {
+        duplicates++;
+        continue;
+      }
+      existingFingerprints.add(payment.fingerprint);
+
+      rowsToInsert.push({
+        tenant_id: profile.tenant_id,
+        amount_received: payment.amount,
+        currency: payment.currency,
+        payment_date: payment.payment_date,
+        status: 'unmatched',
+        bank_reference: payment.bank_reference,
+        payer_name: payment.payer_name,
+        payer_account: payment.payer_account,
+        remittance_text: payment.remittance_text,
+        remittance_references: payment.remittance_references,
+        source: format,
+        import_fingerprint: payment.fingerprint,
+        ...(payment.check
+          ? {
+              lockbox_number: payment.check.lockbox_number,
+              lockbox_batch: payment.check.batch_number,
+              lockbox_item: payment.check.item_number,
+              check_number: payment.check.check_number,
+              micr_routing_number: payment.check.micr_routing_number,
+              micr_account_number: payment.check.micr_account_number,
+              check_image_key: payment.check.image_key,
+            }
+          : {}),
+      });
+    }
+
+    let inserted: Array<Record<string, unknown>> = [];
+    if (rowsToInsert.length > 0) {
+      // ignoreDuplicates keeps a concurrent upload of the same file from failing the whole batch
+      const { data, error: insertError } = await supabase
+        .from('payments')
+        .upsert(rowsToInsert, { onConflict: 'tenant_id,import_fingerprint', ignoreDuplicates: true })
+        .select('payment_id, amount_received, currency, payment_date, bank_reference, payer_name, check_number');
+
+      if (insertError) {
+        console.error('Error inserting payments:', insertError);
+        throw insertError;
+      }
+
+      inserted = data || [];
+      duplicates += rowsToInsert.length - inserted.length;
+    }
+
+    console.log(`Imported ${inserted.length} payments (${duplicates} duplicates, ${errors.length} errors)`);
+
+    return new Response(
+      JSON.stringify({
+        format,
+        file_name: importRequest.fileName ?? null,
+        imported: inserted.length,
+        duplicates,
+        errors,
+        payments: inserted,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
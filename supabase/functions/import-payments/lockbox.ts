@@ -0,0 +1,266 @@
+import type { CheckDetails, ParsedPayment, ParseError, ParseResult } from './types.ts';
+
+type Position = [start: number, end: number];
+
+type LockboxBatch = {
+  batchNumber: string;
+  lockboxNumber: string;
+  depositDate: string;
+  checkCount: number;
+  checkCents: number;
+};
+
+type PendingCheck = {
+  line: number;
+  batch: LockboxBatch;
+  itemNumber: number;
+  amountCents: number;
+  routingNumber: string | null;
+  accountNumber: string | null;
+  checkNumber: string | null;
+  remitterName: string | null;
+  invoices: Array<{ invoice_number: string; amount: number | null }>;
+};
+
+// BAI lockbox record layouts: 80-character records, 1-based inclusive column positions
+const HEADER_DATE: Position = [24, 29];
+
+const LOCKBOX_HEADER = {
+  batch: [2, 4] as Position,
+  lockbox: [5, 11] as Position,
+  depositDate: [12, 17] as Position,
+};
+
+const CHECK_DETAIL = {
+  batch: [2, 4] as Position,
+  item: [5, 7] as Position,
+  amount: [8, 17] as Position,
+  routing: [18, 26] as Position,
+  account: [27, 36] as Position,
+  check: [37, 46] as Position,
+  remitter: [47, 80] as Position,
+};
+
+// Each overflow record lists up to two invoices from the remittance stub
+const OVERFLOW = {
+  batch: [2, 4] as Position,
+  item: [5, 7] as Position,
+  invoices: [
+    { number: [12, 26] as Position, amount: [27, 36] as Position },
+    { number: [37, 51] as Position, amount: [52, 61] as Position },
+  ],
+};
+
+const BATCH_TOTAL = {
+  batch: [2, 4] as Position,
+  count: [21, 23] as Position,
+  amount: [24, 33] as Position,
+};
+
+const RECORD_LENGTH = 80;
+
+const field = (text: string, [start, end]: Position) => text.slice(start - 1, end).trim();
+
+const parseDate = (value: string): string | null => {
+  if (!/^\d{6}$/.test(value)) return null;
+
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+// Lockbox amounts are zero-filled cents without a decimal point
+const parseCents = (value: string): number | null => (/^\d+$/.test(value) ? Number(value) : null);
+
+// MICR fields are zero-filled to their width; blanks or all zeros mean the line was not read
+const micrValue = (value: string): string | null => {
+  const digits = value.replace(/[^0-9]/g, '');
+  return digits && /[1-9]/.test(digits) ? digits : null;
+};
+
+/**
+ * Parses a BAI lockbox transmission. Each check detail (6) record becomes a payment; overflow (4)
+ * records following it carry the invoice numbers listed on its remittance stub. Batch totals (7)
+ * are checked against the checks read so a truncated file is reported.
+ */
+export const parseLockbox = (content: string): ParseResult => {
+  const errors: ParseError[] = [];
+  const payments: ParsedPayment[] = [];
+
+  const lines = content.split(/\r?\n/);
+  const firstLine = lines.findIndex((line) => line.trim());
+  if (firstLine === -1 || !lines[firstLine].startsWith('1')) {
+    errors.push({ line: firstLine + 1 || 1, message: 'File must start with an immediate address header (1) record' });
+    return { payments, errors };
+  }
+
+  const transmissionDate = parseDate(field(lines[firstLine].padEnd(RECORD_LENGTH), HEADER_DATE));
+  let batch: LockboxBatch | null = null;
+  let pending: PendingCheck | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+
+    const check = pending;
+    const details: CheckDetails = {
+      lockbox_number: check.batch.lockboxNumber,
+      batch_number: check.batch.batchNumber,
+      item_number: check.itemNumber,
+      check_number: check.checkNumber,
+      micr_routing_number: check.routingNumber,
+      micr_account_number: check.accountNumber,
+      // The bank's image archive is keyed by lockbox, deposit date, batch and item
+      image_key: [
+        check.batch.lockboxNumber,
+        check.batch.depositDate.replace(/-/g, ''),
+        check.batch.batchNumber,
+        String(check.itemNumber).padStart(3, '0'),
+      ].join('-'),
+    };
+
+    payments.push({
+      line: check.line,
+      amount: check.amountCents / 100,
+      // Lockbox is a US domestic check service
+      currency: 'USD',
+      payment_date: check.batch.depositDate,
+      bank_reference: null,
+      payer_name: check.remitterName,
+      // The drawer's routing and account number identify the payer on every check they send
+      payer_account: check.routingNumber && check.accountNumber ? `${check.routingNumber}/${check.accountNumber}` : null,
+      remittance_text: check.invoices.length > 0
+        ? check.invoices
+            .map((invoice) => (invoice.amount === null ? invoice.invoice_number : `${invoice.invoice_number} ${invoice.amount.toFixed(2)}`))
+            .join('; ')
+        : null,
+      remittance_references: check.invoices.map((invoice) => invoice.invoice_number),
+      check: details,
+      fingerprint: [
+        'lockbox',
+        check.batch.lockboxNumber,
+        check.batch.depositDate,
+        check.batch.batchNumber,
+        check.itemNumber,
+        check.checkNumber ?? '',
+        check.amountCents,
+      ].join('|'),
+    });
+    pending = null;
+  };
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    if (index <= firstLine || !rawLine.trim()) return;
+
+    const text = rawLine.padEnd(RECORD_LENGTH);
+    const recordType = text[0];
+
+    switch (recordType) {
+      case '2':
+        break;
+
+      case '5': {
+        flush();
+        const depositDate = parseDate(field(text, LOCKBOX_HEADER.depositDate)) ?? transmissionDate;
+        if (!depositDate) {
+          errors.push({ line: lineNumber, message: 'Lockbox header has no valid deposit date' });
+          batch = null;
+          break;
+        }
+        batch = {
+          batchNumber: field(text, LOCKBOX_HEADER.batch),
+          lockboxNumber: field(text, LOCKBOX_HEADER.lockbox),
+          depositDate,
+          checkCount: 0,
+          checkCents: 0,
+        };
+        break;
+      }
+
+      case '6': {
+        flush();
+        if (!batch) {
+          errors.push({ line: lineNumber, message: 'Check detail outside of a valid lockbox batch' });
+          break;
+        }
+
+        const amountCents = parseCents(field(text, CHECK_DETAIL.amount));
+        const itemNumber = Number(field(text, CHECK_DETAIL.item));
+        if (amountCents === null || amountCents <= 0) {
+          errors.push({ line: lineNumber, message: `Invalid check amount "${field(text, CHECK_DETAIL.amount)}"` });
+          break;
+        }
+        if (!Number.isInteger(itemNumber) || itemNumber <= 0) {
+          errors.push({ line: lineNumber, message: `Invalid item sequence "${field(text, CHECK_DETAIL.item)}"` });
+          break;
+        }
+
+        batch.checkCount += 1;
+        batch.checkCents += amountCents;
+        pending = {
+          line: lineNumber,
+          batch,
+          itemNumber,
+          amountCents,
+          routingNumber: micrValue(field(text, CHECK_DETAIL.routing)),
+          accountNumber: micrValue(field(text, CHECK_DETAIL.account)),
+          checkNumber: field(text, CHECK_DETAIL.check).replace(/^0+(?=.)/, '') || null,
+          remitterName: field(text, CHECK_DETAIL.remitter) || null,
+          invoices: [],
+        };
+        break;
+      }
+
+      case '4': {
+        const itemNumber = Number(field(text, OVERFLOW.item));
+        if (!pending || pending.itemNumber !== itemNumber || pending.batch.batchNumber !== field(text, OVERFLOW.batch)) {
+          errors.push({ line: lineNumber, message: 'Overflow record does not follow the check it belongs to' });
+          break;
+        }
+
+        for (const position of OVERFLOW.invoices) {
+          const invoiceNumber = field(text, position.number);
+          if (!invoiceNumber) continue;
+          const amountCents = parseCents(field(text, position.amount));
+          pending.invoices.push({ invoice_number: invoiceNumber, amount: amountCents === null ? null : amountCents / 100 });
+        }
+        break;
+      }
+
+      case '7': {
+        flush();
+        if (!batch || batch.batchNumber !== field(text, BATCH_TOTAL.batch)) {
+          errors.push({ line: lineNumber, message: 'Batch total does not follow its lockbox batch' });
+          break;
+        }
+
+        const expectedCount = Number(field(text, BATCH_TOTAL.count));
+        const expectedCents = parseCents(field(text, BATCH_TOTAL.amount));
+        if (expectedCount !== batch.checkCount || expectedCents !== batch.checkCents) {
+          errors.push({
+            line: lineNumber,
+            message: `Batch ${batch.batchNumber} totals ${batch.checkCount} checks for ${(batch.checkCents / 100).toFixed(2)} but the bank reported ${expectedCount} for ${((expectedCents ?? 0) / 100).toFixed(2)}`,
+          });
+        }
+        break;
+      }
+
+      case '8':
+      case '9':
+        flush();
+        batch = null;
+        break;
+
+      default:
+        errors.push({ line: lineNumber, message: `Unknown record type "${recordType}"` });
+    }
+  });
+
+  flush();
+
+  return { payments, errors };
+};
@@ -0,0 +1,221 @@
+import type { ParsedPayment, ParseError, ParseResult } from './types.ts';
+
+type Field = {
+  tag: string;
+  value: string;
+  line: number;
+};
+
+type Information = {
+  remittance: string | null;
+  payerName: string | null;
+  payerAccount: string | null;
+  reference: string | null;
+};
+
+// :61: value date, optional entry date, mark, optional funds code, amount, type, references, supplementary details
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([NFS][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// Codes used by the SWIFT/SEPA "/CODE/value" layout of :86:
+const SLASH_CODES = /\/(REMI|EREF|ORDP|NAME|IBAN|BIC|TRCD|CSID|MARF|PREF|ULTD|ULTB|BENM|RTRN|ADDR|ISDT|CREF|OCMT|ROC)\//g;
+
+// SEPA keywords inside the German ?20-?29 remittance subfields
+const SEPA_KEYWORDS = /(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE)\+/g;
+
+const parseDate = (value: string): string | null => {
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+// MT940 amounts use a comma as the decimal separator
+const parseAmount = (value: string): number => Number(value.replace(',', '.'));
+
+const clean = (value: string | undefined | null): string | null => {
+  const trimmed = value?.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed : null;
+};
+
+const splitByMarkers = (value: string, markers: RegExp): Map<string, string> => {
+  const parts = new Map<string, string>();
+  const matches = Array.from(value.matchAll(markers));
+
+  matches.forEach((match, index) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = index + 1 < matches.length ? matches[index + 1].index ?? value.length : value.length;
+    const existing = parts.get(match[1]);
+    const part = value.slice(start, end);
+    parts.set(match[1], existing ? `${existing}${part}` : part);
+  });
+
+  return parts;
+};
+
+// German banks: "166?00GUTSCHRIFT?20EREF+...?21SVWZ+...?32PAYER NAME"
+const parseSubfieldLayout = (info: string): Information => {
+  const subfields = splitByMarkers(info.replace(/\n/g, ''), /\?(\d{2})/g);
+  const collect = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, offset) => subfields.get(String(from + offset)) ?? '').join('');
+
+  const purpose = `${collect(20, 29)}${collect(60, 63)}`;
+  const sepa = splitByMarkers(purpose, SEPA_KEYWORDS);
+  const eref = clean(sepa.get('EREF'));
+
+  return {
+    remittance: clean(sepa.get('SVWZ')) ?? clean(purpose),
+    payerName: clean(`${subfields.get('32') ?? ''}${subfields.get('33') ?? ''}`),
+    payerAccount: clean(subfields.get('31')),
+    reference: eref && eref !== 'NOTPROVIDED' ? eref : null,
+  };
+};
+
+// SWIFT/SEPA layout: "/EREF/123/REMI/USTD//INV 1001/ORDP//NAME/BIG CORP"
+const parseSlashLayout = (info: string): Information => {
+  const codes = splitByMarkers(info.replace(/\n/g, ''), SLASH_CODES);
+  const strip = (value: string | undefined) => clean(value?.replace(/^\/+|\/+$/g, ''));
+  const eref = strip(codes.get('EREF'));
+
+  return {
+    remittance: strip(codes.get('REMI')?.replace(/^\/?(?:USTD|STRD)\/+/, '')),
+    payerName: strip(codes.get('NAME')),
+    payerAccount: strip(codes.get('IBAN')),
+    reference: eref && eref !== 'NOTPROVIDED' ? eref : strip(codes.get('ROC')) ?? strip(codes.get('CREF')),
+  };
+};
+
+const parseInformation = (info: string | undefined): Information => {
+  if (!info) return { remittance: null, payerName: null, payerAccount: null, reference: null };
+  if (/^\d{3}\?/.test(info.trim())) return parseSubfieldLayout(info.trim());
+  if (/\/(REMI|EREF|ORDP|NAME)\//.test(info)) return parseSlashLayout(info);
+  return { remittance: clean(info), payerName: null, payerAccount: null, reference: null };
+};
+
+// Drop the SWIFT envelope ({1:...}{2:...}{4: ... -}) so only the text block remains
+const unwrap = (content: string) =>
+  content
+    .replace(/\{5:(?:\{[^}]*\}|[^}])*\}/g, '')
+    .replace(/\{[1-3]:[^}]*\}/g, '')
+    .replace(/\{4:/g, '')
+    .replace(/^-\}?\s*$/gm, '');
+
+const collectFields = (content: string): Field[] => {
+  const fields: Field[] = [];
+
+  unwrap(content).split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/\s+$/, '');
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2], line: index + 1 });
+    } else if (fields.length > 0 && line.length > 0) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+
+  return fields;
+};
+
+export const parseMt940 = (content: string): ParseResult => {
+  const errors: ParseError[] = [];
+  const payments: ParsedPayment[] = [];
+  const fields = collectFields(content);
+
+  if (!fields.some((field) => field.tag === '61')) {
+    errors.push({ line: 1, message: 'No :61: statement lines found' });
+    return { payments, errors };
+  }
+
+  let account = 'unknown-account';
+  let statementNumber = '';
+  let currency: string | null = null;
+  let lineIndex = 0;
+
+  fields.forEach((field, index) => {
+    switch (field.tag) {
+      case '20':
+        account = 'unknown-account';
+        statementNumber = '';
+        currency = null;
+        lineIndex = 0;
+        break;
+
+      case '25':
+        account = field.value.trim();
+        break;
+
+      case '28C':
+        statementNumber = field.value.trim();
+        break;
+
+      case '60F':
+      case '60M': {
+        const currencyMatch = field.value.match(/^[CD]\d{6}([A-Z]{3})/);
+        currency = currencyMatch ? currencyMatch[1] : null;
+        break;
+      }
+
+      case '61': {
+        lineIndex++;
+        const match = field.value.match(STATEMENT_LINE);
+        if (!match) {
+          errors.push({ line: field.line, message: 'Unrecognised :61: statement line layout' });
+          return;
+        }
+
+        const [, valueDate, , mark, , amountText, , customerReference, bankReference] = match;
+
+        // Only real credits are receipts; reversals (RC/RD) and debits are skipped
+        if (mark !== 'C') return;
+
+        const paymentDate = parseDate(valueDate);
+        if (!paymentDate) {
+          errors.push({ line: field.line, message: `Invalid value date "${valueDate}"` });
+          return;
+        }
+
+        const amount = parseAmount(amountText);
+        if (!Number.isFinite(amount) || amount <= 0) {
+          errors.push({ line: field.line, message: `Invalid amount "${amountText}"` });
+          return;
+        }
+
+        const next = fields[index + 1];
+        const information = parseInformation(next?.tag === '86' ? next.value : undefined);
+        const ownerReference = clean(customerReference);
+
+        payments.push({
+          line: field.line,
+          amount,
+          currency,
+          payment_date: paymentDate,
+          bank_reference:
+            clean(bankReference) ??
+            information.reference ??
+            (ownerReference && ownerReference !== 'NONREF' ? ownerReference : null),
+          payer_name: information.payerName,
+          payer_account: information.payerAccount,
+          remittance_text: information.remittance,
+          remittance_references: [],
+          fingerprint: [
+            'mt940',
+            account,
+            statementNumber,
+            lineIndex,
+            paymentDate,
+            Math.round(amount * 100),
+          ].join('|'),
+        });
+        return;
+      }
+
+      default:
+        return;
+    }
+  });
+
+  return { payments, errors };
+};
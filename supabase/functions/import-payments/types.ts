@@ -0,0 +1,38 @@
+export type ImportFormat = 'bai2' | 'camt' | 'mt940' | 'lockbox';
+
+// Where a lockbox check sits in the bank's transmission, and what its MICR line reads
+export type CheckDetails = {
+  lockbox_number: string;
+  batch_number: string;
+  item_number: number;
+  check_number: string | null;
+  micr_routing_number: string | null;
+  micr_account_number: string | null;
+  // Key the bank's check image archive is indexed by
+  image_key: string;
+};
+
+export type ParsedPayment = {
+  line: number;
+  amount: number;
+  currency: string | null;
+  payment_date: string;
+  bank_reference: string | null;
+  payer_name: string | null;
+  // IBAN, account number or originator ID identifying who sent the money
+  payer_account: string | null;
+  remittance_text: string | null;
+  remittance_references: string[];
+  check?: CheckDetails;
+  fingerprint: string;
+};
+
+export type ParseError = {
+  line: number;
+  message: string;
+};
+
+export type ParseResult = {
+  payments: ParsedPayment[];
+  errors: ParseError[];
+};
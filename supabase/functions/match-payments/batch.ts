@@ -0,0 +1,448 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  evaluatePayment,
+  loadMatchingContext,
+  parseNumeric,
+  recordEvaluation,
+  type MatchablePayment,
+  type PaymentEvaluation,
+} from './matcher.ts';
+
+export type MatchRun = {
+  run_id: string;
+  status: 'running' | 'completed' | 'failed';
+  total_payments: number;
+  processed_payments: number;
+  auto_cleared_count: number;
+  auto_cleared_amount: number;
+  needs_review_count: number;
+  conflict_count: number;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+};
+
+type ItemOutcome = {
+  outcome: 'auto_cleared' | 'needs_review' | 'skipped';
+  invoice_ids: string[];
+  amount_applied: number;
+  matched_by: 'reference' | 'amount' | 'suggestion' | null;
+  reason: string | null;
+  conflict: boolean;
+};
+
+// Payments evaluated per call, small enough to stay well inside the function time limit
+export const BATCH_CHUNK_SIZE = 40;
+
+const RUN_COLUMNS =
+  'run_id, status, total_payments, processed_payments, auto_cleared_count, auto_cleared_amount, needs_review_count, conflict_count, error_message, started_at, completed_at';
+
+const toRun = (row: Record<string, unknown>): MatchRun => ({
+  ...(row as MatchRun),
+  auto_cleared_amount: parseNumeric(row.auto_cleared_amount),
+});
+
+/**
+ * Decides which payment keeps an invoice several payments in the same chunk want: an exact
+ * match beats an auto-applied suggestion, a quoted reference beats an amount-only hit, a payer
+ * known by account beats one known by name, and otherwise the older payment wins.
+ */
+const claimPriority = (
+  a: { payment: MatchablePayment; evaluation: PaymentEvaluation },
+  b: { payment: MatchablePayment; evaluation: PaymentEvaluation }
+) =>
+  Number(Boolean(b.evaluation.exactMatch)) - Number(Boolean(a.evaluation.exactMatch)) ||
+  Number(Boolean(b.evaluation.exactEvidence)) - Number(Boolean(a.evaluation.exactEvidence)) ||
+  Number(b.evaluation.customer?.method === 'account_alias') - Number(a.evaluation.customer?.method === 'account_alias') ||
+  (a.payment.payment_date ?? '').localeCompare(b.payment.payment_date ?? '') ||
+  a.payment.payment_id.localeCompare(b.payment.payment_id);
+
+/**
+ * Returns the tenant's running batch run, or starts a new one queueing every unmatched
+ * payment oldest first.
+ */
+export const startMatchRun = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  userId: string
+): Promise<MatchRun> => {
+  const { data: running, error: runningError } = await supabase
+    .from('match_runs')
+    .select(RUN_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .eq('status', 'running')
+    .maybeSingle();
+
+  if (runningError) {
+    console.error('Error loading running match run:', runningError);
+    throw runningError;
+  }
+
+  if (running) {
+    console.log(`Resuming match run ${running.run_id}`);
+    return toRun(running);
+  }
+
+  const { data: payments, error: paymentsError } = await supabase
+    .from('payments')
+    .select('payment_id')
+    .eq('tenant_id', tenantId)
+    .eq('status', 'unmatched')
+    .order('payment_date', { ascending: true })
+    .order('payment_id', { ascending: true });
+
+  if (paymentsError) {
+    console.error('Error fetching unmatched payments:', paymentsError);
+    throw paymentsError;
+  }
+
+  const paymentIds = (payments || []).map((payment) => payment.payment_id as string);
+
+  const { data: run, error: runError } = await supabase
+    .from('match_runs')
+    .insert({
+      tenant_id: tenantId,
+      started_by: userId,
+      total_payments: paymentIds.length,
+      ...(paymentIds.length === 0 ? { status: 'completed', completed_at: new Date().toISOString() } : {}),
+    })
+    .select(RUN_COLUMNS)
+    .single();
+
+  if (runError || !run) {
+    console.error('Error creating match run:', runError);
+    throw runError;
+  }
+
+  for (let offset = 0; offset < paymentIds.length; offset += 500) {
+    const { error: itemsError } = await supabase.from('match_run_items').insert(
+      paymentIds.slice(offset, offset + 500).map((paymentId, index) => ({
+        run_id: run.run_id,
+        tenant_id: tenantId,
+        payment_id: paymentId,
+        sequence: offset + index,
+      }))
+    );
+
+    if (itemsError) {
+      console.error('Error queueing match run items:', itemsError);
+      await supabase
+        .from('match_runs')
+        .update({ status: 'failed', error_message: itemsError.message, completed_at: new Date().toISOString() })
+        .eq('run_id', run.run_id);
+      throw itemsError;
+    }
+  }
+
+  console.log(`Started match run ${run.run_id} for ${paymentIds.length} unmatched payments`);
+  return toRun(run);
+};
+
+// Totals are recomputed from the items so a retried chunk can never double count
+const refreshRunTotals = async (supabase: SupabaseClient, tenantId: string, runId: string): Promise<MatchRun> => {
+  const { data: items, error: itemsError } = await supabase
+    .from('match_run_items')
+    .select('outcome, amount_applied, conflict')
+    .eq('run_id', runId)
+    .eq('tenant_id', tenantId);
+
+  if (itemsError) {
+    console.error('Error summarising match run:', itemsError);
+    throw itemsError;
+  }
+
+  const rows = items || [];
+  const cleared = rows.filter((item) => item.outcome === 'auto_cleared');
+  const remaining = rows.filter((item) => item.outcome === 'pending').length;
+
+  const { data: run, error: runError } = await supabase
+    .from('match_runs')
+    .update({
+      processed_payments: rows.length - remaining,
+      auto_cleared_count: cleared.length,
+      auto_cleared_amount: Number(cleared.reduce((sum, item) => sum + parseNumeric(item.amount_applied), 0).toFixed(2)),
+      needs_review_count: rows.filter((item) => item.outcome === 'needs_review').length,
+      conflict_count: rows.filter((item) => item.conflict).length,
+      ...(remaining === 0 ? { status: 'completed', completed_at: new Date().toISOString() } : {}),
+    })
+    .eq('run_id', runId)
+    .eq('tenant_id', tenantId)
+    .select(RUN_COLUMNS)
+    .single();
+
+  if (runError || !run) {
+    console.error('Error updating match run:', runError);
+    throw runError;
+  }
+
+  return toRun(run);
+};
+
+/**
+ * Matches the next chunk of a run's queued payments and updates the run totals. Every payment
+ * in the chunk is evaluated against the same open-invoice snapshot before anything is written,
+ * so two payments can never both be applied to one invoice.
+ */
+export const processMatchRunChunk = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  runId: string
+): Promise<{ run: MatchRun; processed: number; done: boolean } | null> => {
+  const { data: current, error: currentError } = await supabase
+    .from('match_runs')
+    .select(RUN_COLUMNS)
+    .eq('run_id', runId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (currentError) {
+    console.error('Error fetching match run:', currentError);
+    throw currentError;
+  }
+
+  if (!current) return null;
+
+  if (current.status !== 'running') {
+    return { run: toRun(current), processed: 0, done: true };
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('match_run_items')
+    .select('item_id, payment_id')
+    .eq('run_id', runId)
+    .eq('tenant_id', tenantId)
+    .eq('outcome', 'pending')
+    .order('sequence', { ascending: true })
+    .limit(BATCH_CHUNK_SIZE);
+
+  if (itemsError) {
+    console.error('Error fetching match run items:', itemsError);
+    throw itemsError;
+  }
+
+  const pending = items || [];
+  const outcomes = new Map<string, ItemOutcome>();
+
+  if (pending.length > 0) {
+    const { data: paymentsData, error: paymentsError } = await supabase
+      .from('payments')
+      .select('*')
+      .in('payment_id', pending.map((item) => item.payment_id))
+      .eq('tenant_id', tenantId);
+
+    if (paymentsError) {
+      console.error('Error fetching run payments:', paymentsError);
+      throw paymentsError;
+    }
+
+    const payments = (paymentsData || []) as MatchablePayment[];
+    const context = await loadMatchingContext(supabase, tenantId);
+
+    // Payments an analyst dealt with since the run was queued are left alone
+    const matchable = payments.filter((payment) => payment.status === 'unmatched' && parseNumeric(payment.amount_applied) === 0);
+    payments
+      .filter((payment) => !matchable.includes(payment))
+      .forEach((payment) =>
+        outcomes.set(payment.payment_id, {
+          outcome: 'skipped',
+          invoice_ids: [],
+          amount_applied: 0,
+          matched_by: null,
+          reason: `Payment is ${payment.status.replace(/_/g, ' ')} and was not rematched`,
+          conflict: false,
+        })
+      );
+
+    const evaluated = matchable.map((payment) => ({ payment, evaluation: evaluatePayment(payment, context) }));
+
+    // Settle contested invoices: winners keep their match, losers retry without claimed invoices
+    const claimed = new Set<string>();
+    const conflicted = new Set<string>();
+    const ranked = evaluated
+      .filter(({ evaluation }) => evaluation.plan)
+      .sort(claimPriority);
+
+    for (const entry of ranked) {
+      const invoiceIds = entry.evaluation.plan!.invoices.map((invoice) => invoice.invoice_id);
+      if (invoiceIds.every((invoiceId) => !claimed.has(invoiceId))) {
+        invoiceIds.forEach((invoiceId) => claimed.add(invoiceId));
+        continue;
+      }
+
+      conflicted.add(entry.payment.payment_id);
+      const retry = evaluatePayment(entry.payment, context, { excludedInvoiceIds: claimed });
+      retry.plan?.invoices.forEach((invoice) => claimed.add(invoice.invoice_id));
+      entry.evaluation = retry;
+    }
+
+    for (const { payment, evaluation } of evaluated) {
+      const conflict = conflicted.has(payment.payment_id);
+
+      try {
+        const recorded = await recordEvaluation(supabase, tenantId, payment, evaluation);
+        const { plan } = evaluation;
+        const writtenOff = recorded.write_offs.reduce((sum, writeOff) => sum + parseNumeric(writeOff.amount), 0);
+        const disputed = recorded.disputes.reduce((sum, dispute) => sum + parseNumeric(dispute.disputed_amount), 0);
+        const credited = recorded.credits.reduce((sum, credit) => sum + parseNumeric(credit.amount), 0);
+
+        outcomes.set(payment.payment_id, plan && recorded.applications.length > 0
+          ? {
+              outcome: 'auto_cleared',
+              invoice_ids: Array.from(new Set([
+                ...recorded.applications.map((application) => application.invoice_id),
+                ...recorded.credits.map((credit) => credit.credit_memo_id),
+              ])),
+              // In the payment's currency, like the amount received it is shown against
+              amount_applied: Number(
+                recorded.applications
+                  .reduce((sum, application) => sum + parseNumeric(application.payment_amount ?? application.amount_applied), 0)
+                  .toFixed(2)
+              ),
+              matched_by: plan.method,
+              reason: [
+                conflict ? 'Preferred invoice was claimed by another payment; matched to an alternative' : null,
+                plan.method === 'suggestion' ? `Suggestion applied at ${plan.confidence}% confidence` : null,
+                credited > 0 ? `${credited.toFixed(2)} credit memo netted` : null,
+                writtenOff > 0 ? `${writtenOff.toFixed(2)} written off` : null,
+                disputed > 0 ? `${disputed.toFixed(2)} short payment disputed` : null,
+              ].filter(Boolean).join('; ') || null,
+              conflict,
+            }
+          : {
+              outcome: 'needs_review',
+              invoice_ids: [],
+              amount_applied: 0,
+              matched_by: null,
+              reason: recorded.failure
+                ? `Match could not be applied: ${recorded.failure}`
+                : conflict
+                ? 'Matching invoice was claimed by another payment in this run'
+                : 'No exact invoice match found',
+              conflict,
+            });
+      } catch (error: unknown) {
+        console.error(`Error matching payment ${payment.payment_id} in run ${runId}:`, error);
+        outcomes.set(payment.payment_id, {
+          outcome: 'skipped',
+          invoice_ids: [],
+          amount_applied: 0,
+          matched_by: null,
+          reason: error instanceof Error ? error.message : 'Matching failed',
+          conflict,
+        });
+      }
+    }
+
+    const processedAt = new Date().toISOString();
+    for (const item of pending) {
+      const outcome = outcomes.get(item.payment_id) ?? {
+        outcome: 'skipped' as const,
+        invoice_ids: [],
+        amount_applied: 0,
+        matched_by: null,
+        reason: 'Payment no longer exists',
+        conflict: false,
+      };
+
+      const { error: itemUpdateError } = await supabase
+        .from('match_run_items')
+        .update({ ...outcome, processed_at: processedAt })
+        .eq('item_id', item.item_id);
+
+      if (itemUpdateError) {
+        console.error('Error updating match run item:', itemUpdateError);
+        throw itemUpdateError;
+      }
+    }
+  }
+
+  const run = await refreshRunTotals(supabase, tenantId, runId);
+  return { run, processed: pending.length, done: run.status !== 'running' };
+};
+
+export const failMatchRun = async (supabase: SupabaseClient, tenantId: string, runId: string, message: string) => {
+  const { error } = await supabase
+    .from('match_runs')
+    .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+    .eq('run_id', runId)
+    .eq('tenant_id', tenantId);
+
+  if (error) {
+    console.error('Error marking match run as failed:', error);
+  }
+};
+
+export const listMatchRuns = async (supabase: SupabaseClient, tenantId: string): Promise<MatchRun[]> => {
+  const { data, error } = await supabase
+    .from('match_runs')
+    .select(RUN_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .order('started_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    console.error('Error fetching match runs:', error);
+    throw error;
+  }
+
+  return (data || []).map(toRun);
+};
+
+/**
+ * Loads a run with every processed item, the payment it concerns and the invoice numbers it
+ * was applied to, for the review screen.
+ */
+export const loadMatchRun = async (supabase: SupabaseClient, tenantId: string, runId: string) => {
+  const { data: run, error: runError } = await supabase
+    .from('match_runs')
+    .select(RUN_COLUMNS)
+    .eq('run_id', runId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (runError) {
+    console.error('Error fetching match run:', runError);
+    throw runError;
+  }
+
+  if (!run) return null;
+
+  const { data: items, error: itemsError } = await supabase
+    .from('match_run_items')
+    .select('item_id, payment_id, outcome, invoice_ids, amount_applied, matched_by, reason, conflict, processed_at, payments(payer_name, amount_received, currency, payment_date, bank_reference, status)')
+    .eq('run_id', runId)
+    .eq('tenant_id', tenantId)
+    .order('sequence', { ascending: true });
+
+  if (itemsError) {
+    console.error('Error fetching match run items:', itemsError);
+    throw itemsError;
+  }
+
+  const invoiceIds = Array.from(new Set((items || []).flatMap((item) => item.invoice_ids as string[])));
+  const invoiceNumbers = new Map<string, string>();
+
+  if (invoiceIds.length > 0) {
+    const { data: invoices, error: invoicesError } = await supabase
+      .from('invoices')
+      .select('invoice_id, invoice_number')
+      .in('invoice_id', invoiceIds)
+      .eq('tenant_id', tenantId);
+
+    if (invoicesError) {
+      console.error('Error fetching run invoices:', invoicesError);
+      throw invoicesError;
+    }
+
+    (invoices || []).forEach((invoice) => invoiceNumbers.set(invoice.invoice_id, invoice.invoice_number));
+  }
+
+  return {
+    run: toRun(run),
+    items: (items || []).map((item) => ({
+      ...item,
+      amount_applied: parseNumeric(item.amount_applied),
+      invoice_numbers: (item.invoice_ids as string[]).map((invoiceId) => invoiceNumbers.get(invoiceId) ?? invoiceId),
+    })),
+  };
+};
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type PayerAlias = {
+  customer_id: string;
+  alias_type: 'account' | 'name';
+  alias_value: string;
+  confirmed_matches: number;
+};
+
+export type CustomerRecord = {
+  customer_id: string;
+  name: string;
+};
+
+export type CustomerIdentification = {
+  customer_id: string;
+  customer_name: string | null;
+  method: 'account_alias' | 'name_alias' | 'name_similarity';
+  confidence: number;
+  matched_value: string;
+};
+
+type PayerIdentity = {
+  payer_name?: string | null;
+  payer_account?: string | null;
+};
+
+// Account aliases are strong enough to restrict matching to the customer's own invoices
+export const RESTRICTING_CONFIDENCE = 0.9;
+
+const LEGAL_SUFFIXES = new Set([
+  'INC', 'INCORPORATED', 'LTD', 'LIMITED', 'LLC', 'LLP', 'CORP', 'CORPORATION', 'CO', 'COMPANY',
+  'GMBH', 'AG', 'SA', 'SAS', 'SARL', 'PLC', 'BV', 'NV', 'PTY', 'THE',
+]);
+
+export const normalizePayerName = (name: string | null | undefined): string =>
+  (name ?? '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !LEGAL_SUFFIXES.has(word))
+    .join(' ');
+
+export const normalizePayerAccount = (account: string | null | undefined): string =>
+  (account ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const nameSimilarity = (a: string, b: string) => {
+  const left = new Set(a.split(' ').filter(Boolean));
+  const right = new Set(b.split(' ').filter(Boolean));
+  if (left.size === 0 || right.size === 0) return 0;
+
+  const shared = Array.from(left).filter((word) => right.has(word)).length;
+  return shared / new Set([...left, ...right]).size;
+};
+
+// When several customers share an alias, the one confirmed most often wins
+const strongestAlias = (aliases: PayerAlias[], type: PayerAlias['alias_type'], value: string) =>
+  aliases
+    .filter((alias) => alias.alias_type === type && alias.alias_value === value)
+    .sort((a, b) => b.confirmed_matches - a.confirmed_matches)[0];
+
+export const identifyCustomer = (
+  payment: PayerIdentity,
+  aliases: PayerAlias[],
+  customers: CustomerRecord[]
+): CustomerIdentification | null => {
+  const customerName = (customerId: string) =>
+    customers.find((customer) => customer.customer_id === customerId)?.name ?? null;
+
+  const account = normalizePayerAccount(payment.payer_account);
+  if (account) {
+    const alias = strongestAlias(aliases, 'account', account);
+    if (alias) {
+      return {
+        customer_id: alias.customer_id,
+        customer_name: customerName(alias.customer_id),
+        method: 'account_alias',
+        confidence: 0.95,
+        matched_value: account,
+      };
+    }
+  }
+
+  const name = normalizePayerName(payment.payer_name);
+  if (!name) return null;
+
+  const nameAlias = strongestAlias(aliases, 'name', name);
+  if (nameAlias) {
+    return {
+      customer_id: nameAlias.customer_id,
+      customer_name: customerName(nameAlias.customer_id),
+      method: 'name_alias',
+      confidence: 0.85,
+      matched_value: name,
+    };
+  }
+
+  const ranked = customers
+    .map((customer) => ({ customer, similarity: nameSimilarity(name, normalizePayerName(customer.name)) }))
+    .filter(({ similarity }) => similarity >= 0.6)
+    .sort((a, b) => b.similarity - a.similarity || a.customer.name.localeCompare(b.customer.name));
+
+  // Two customers that look equally like the payer name tell us nothing
+  if (ranked.length === 0 || (ranked.length > 1 && ranked[0].similarity === ranked[1].similarity)) {
+    return null;
+  }
+
+  return {
+    customer_id: ranked[0].customer.customer_id,
+    customer_name: ranked[0].customer.name,
+    method: 'name_similarity',
+    confidence: Number((0.7 * ranked[0].similarity).toFixed(2)),
+    matched_value: name,
+  };
+};
+
+/**
+ * Records the payer account and name of a confirmed match against the customer so later
+ * payments from the same payer are scoped to that customer automatically.
+ */
+export const learnPayerAliases = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  payment: PayerIdentity,
+  customerId: string
+) => {
+  const candidates: Array<Pick<PayerAlias, 'alias_type' | 'alias_value'>> = [];
+
+  const account = normalizePayerAccount(payment.payer_account);
+  if (account) candidates.push({ alias_type: 'account', alias_value: account });
+
+  const name = normalizePayerName(payment.payer_name);
+  if (name) candidates.push({ alias_type: 'name', alias_value: name });
+
+  for (const candidate of candidates) {
+    const { data: existing, error: existingError } = await supabase
+      .from('customer_payer_aliases')
+      .select('alias_id, confirmed_matches')
+      .eq('tenant_id', tenantId)
+      .eq('customer_id', customerId)
+      .eq('alias_type', candidate.alias_type)
+      .eq('alias_value', candidate.alias_value)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Error loading payer alias:', existingError);
+      throw existingError;
+    }
+
+    const { error: saveError } = existing
+      ? await supabase
+          .from('customer_payer_aliases')
+          .update({
+            confirmed_matches: existing.confirmed_matches + 1,
+            last_confirmed_at: new Date().toISOString(),
+          })
+          .eq('alias_id', existing.alias_id)
+      : await supabase.from('customer_payer_aliases').insert({
+          tenant_id: tenantId,
+          customer_id: customerId,
+          ...candidate,
+        });
+
+    if (saveError) {
+      console.error('Error saving payer alias:', saveError);
+      throw saveError;
+    }
+  }
+};
@@ -0,0 +1,80 @@
+import type { DifferenceType } from '../_shared/disputes.ts';
+
+export type { DifferenceType };
+
+type DifferenceInvoice = {
+  amount: number;
+  due_date?: string | null;
+};
+
+type PaymentRemittance = {
+  payment_date?: string | null;
+  remittance_text?: string | null;
+  remittance_references?: string[] | null;
+  bank_reference?: string | null;
+};
+
+export const DIFFERENCE_LABELS: Record<DifferenceType, string> = {
+  early_pay_discount: 'Early-payment discount taken',
+  freight_deduction: 'Freight deduction',
+  tax_mismatch: 'Tax mismatch',
+  short_payment: 'Unexplained short payment',
+};
+
+// What payers write next to a deduction, checked before the arithmetic
+const REMITTANCE_KEYWORDS: Array<[DifferenceType, RegExp]> = [
+  ['freight_deduction', /\b(freight|frt|shipping|carriage|delivery charge)\b/i],
+  ['tax_mismatch', /\b(tax|vat|gst|hst|withholding|wht)\b/i],
+  ['early_pay_discount', /\b(discount|disc|early pay(ment)?|\d\/10)\b/i],
+];
+
+// Common prompt-payment terms (1/10 net 30, 2/10 net 30, ...)
+const EARLY_PAY_DISCOUNT_RATES = [0.01, 0.015, 0.02, 0.025, 0.03];
+
+// Sales tax and VAT rates a payer may have left off a gross invoice
+const TAX_RATES = [0.05, 0.06, 0.07, 0.075, 0.08, 0.0825, 0.0875, 0.1, 0.13, 0.15, 0.2];
+
+const startOfDay = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00Z`).getTime();
+
+/**
+ * Explains why a payment falls short of the invoices it settles. A deduction the payer named in
+ * remittance wins; otherwise the shortfall is compared with discount and tax amounts computed from
+ * the invoices, each invoice allowed a cent of rounding. Returns null when nothing is short.
+ */
+export const classifyDifference = (
+  invoices: DifferenceInvoice[],
+  shortfall: number,
+  payment: PaymentRemittance
+): DifferenceType | null => {
+  if (shortfall <= 0.005 || invoices.length === 0) return null;
+
+  const remittance = [
+    payment.remittance_text,
+    payment.bank_reference,
+    ...(payment.remittance_references ?? []),
+  ]
+    .filter(Boolean)
+    .join(' ');
+  const named = REMITTANCE_KEYWORDS.find(([, pattern]) => pattern.test(remittance));
+  if (named) return named[0];
+
+  const total = invoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+  const rounding = 0.01 * invoices.length + 0.005;
+  const matchesRate = (rates: number[], amountAt: (rate: number) => number) =>
+    rates.some((rate) => Math.abs(shortfall - amountAt(rate)) <= rounding);
+
+  // A discount is only earned by paying before every invoice falls due
+  const paidEarly =
+    Boolean(payment.payment_date) &&
+    invoices.every((invoice) => !invoice.due_date || startOfDay(payment.payment_date!) <= startOfDay(invoice.due_date));
+  if (paidEarly && matchesRate(EARLY_PAY_DISCOUNT_RATES, (rate) => total * rate)) {
+    return 'early_pay_discount';
+  }
+
+  // Tax included in a gross total is total * rate / (1 + rate)
+  if (matchesRate(TAX_RATES, (rate) => (total * rate) / (1 + rate))) {
+    return 'tax_mismatch';
+  }
+
+  return 'short_payment';
+};
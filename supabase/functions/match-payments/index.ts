@@ -1,134 +1,52 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { learnPayerAliases } from "./customers.ts";
+import {
+  failMatchRun,
+  listMatchRuns,
+  loadMatchRun,
+  processMatchRunChunk,
+  startMatchRun,
+} from "./batch.ts";
+import {
+  evaluatePayment,
+  loadMatchingContext,
+  parseNumeric,
+  recordEvaluation,
+  remainingPaymentAmount,
+  type CreditApplication,
+  type MatchablePayment,
+  type PartialMatchSuggestion,
+  type PaymentApplication,
+} from "./matcher.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const parseNumeric = (value: unknown): number => {
-  if (typeof value === 'number') {
-    return value;
-  }
-
-  if (typeof value === 'string') {
-    const parsed = Number(value);
-    if (!Number.isNaN(parsed)) {
-      return parsed;
-    }
-  }
-
-  return Number(value ?? 0);
-};
-
-type InvoiceSummary = {
+type Allocation = {
   invoice_id: string;
-  invoice_number: string;
   amount: number;
-  customer_id?: string | null;
 };
 
-type PartialMatchSuggestion = {
-  invoices: InvoiceSummary[];
-  total_amount: number;
-  difference: number;
-  confidence: number;
-  reason: string;
+type Resolution = 'none' | 'write_off' | 'dispute';
+
+type ApplyResult = {
+  payment_status: string;
+  currency: string;
+  unapplied_amount: number;
+  applications: PaymentApplication[];
+  credits: CreditApplication[];
+  write_offs: Array<{ invoice_id: string; invoice_number: string; amount: number }>;
+  disputes: Array<{ dispute_id: string; invoice_id: string; invoice_number: string; disputed_amount: number }>;
+  fx_gain_loss: number;
+  functional_currency: string;
 };
 
-const buildPartialMatches = (
-  invoices: InvoiceSummary[],
-  targetAmount: number
-): PartialMatchSuggestion[] => {
-  const tolerance = Math.max(targetAmount * 0.15, 500);
-  const suggestions = new Map<string, PartialMatchSuggestion>();
-
-  const registerSuggestion = (suggestion: PartialMatchSuggestion) => {
-    const key = `${suggestion.invoices
-      .map((invoice) => invoice.invoice_id)
-      .sort()
-      .join('-')}|${Math.round(suggestion.total_amount * 100)}`;
-
-    const existing = suggestions.get(key);
-    if (!existing || existing.confidence < suggestion.confidence) {
-      suggestions.set(key, suggestion);
-    }
-  };
-
-  const computeConfidence = (difference: number, invoiceCount: number) => {
-    const relativeDiff = Math.min(Math.abs(difference) / Math.max(targetAmount, 1), 1);
-    const baseScore = 1 - relativeDiff;
-    const comboBonus = invoiceCount > 1 ? 0.1 : 0;
-    return Number(Math.min(baseScore + comboBonus, 1).toFixed(2)) * 100;
-  };
-
-  const shouldInclude = (difference: number) => Math.abs(difference) <= tolerance;
-
-  invoices.forEach((invoice) => {
-    const difference = targetAmount - invoice.amount;
-    if (!shouldInclude(difference)) {
-      return;
-    }
-
-    registerSuggestion({
-      invoices: [invoice],
-      total_amount: Number(invoice.amount.toFixed(2)),
-      difference: Number(difference.toFixed(2)),
-      confidence: computeConfidence(difference, 1),
-      reason: 'Similar single invoice amount',
-    });
-  });
-
-  for (let i = 0; i < invoices.length; i++) {
-    for (let j = i + 1; j < invoices.length; j++) {
-      const combo = [invoices[i], invoices[j]];
-      const total = combo.reduce((sum, invoice) => sum + invoice.amount, 0);
-      const difference = targetAmount - total;
-
-      if (!shouldInclude(difference)) {
-        continue;
-      }
-
-      registerSuggestion({
-        invoices: combo,
-        total_amount: Number(total.toFixed(2)),
-        difference: Number(difference.toFixed(2)),
-        confidence: computeConfidence(difference, combo.length),
-        reason: 'Potential multi-invoice combination',
-      });
-    }
-  }
-
-  for (let i = 0; i < invoices.length; i++) {
-    for (let j = i + 1; j < invoices.length; j++) {
-      for (let k = j + 1; k < invoices.length; k++) {
-        const combo = [invoices[i], invoices[j], invoices[k]];
-        const total = combo.reduce((sum, invoice) => sum + invoice.amount, 0);
-        const difference = targetAmount - total;
-
-        if (!shouldInclude(difference)) {
-          continue;
-        }
-
-        registerSuggestion({
-          invoices: combo,
-          total_amount: Number(total.toFixed(2)),
-          difference: Number(difference.toFixed(2)),
-          confidence: computeConfidence(difference, combo.length),
-          reason: 'Potential multi-invoice combination',
-        });
-      }
-    }
-  }
-
-  return Array.from(suggestions.values())
-    .sort((a, b) => {
-      const diffComparison = Math.abs(a.difference) - Math.abs(b.difference);
-      if (diffComparison !== 0) {
-        return diffComparison;
-      }
-      return b.confidence - a.confidence;
-    })
-    .slice(0, 5);
+type UnapplyResult = {
+  payment_status: string;
+  unapplied_amount: number;
+  reversed: Array<PaymentApplication & { application_id: string }>;
 };
 
 const getErrorMessage = (error: unknown) =>
@@ -194,11 +112,59 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Handle GET request - batch run history or a single run for review
+    const url = new URL(req.url);
+    if (req.method === "GET" && (url.searchParams.get('view') === 'runs' || url.searchParams.get('run_id'))) {
+      const runId = url.searchParams.get('run_id');
+      const result = runId
+        ? await loadMatchRun(supabase, profile.tenant_id, runId)
+        : await listMatchRuns(supabase, profile.tenant_id);
+
+      if (!result) {
+        return new Response(JSON.stringify({ error: 'Match run not found' }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404,
+        });
+      }
+
+      return new Response(
+        JSON.stringify(result),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    // Handle GET request - application and reversal history of one payment
+    const historyPaymentId = url.searchParams.get('payment_id');
+    if (req.method === "GET" && url.searchParams.get('view') === 'history' && historyPaymentId) {
+      const { data: events, error: eventsError } = await supabase
+        .from("payment_match_events")
+        .select("event_id, event_type, amount, match_method, reason, actor_email, created_at, invoice_id, invoices(invoice_number, currency)")
+        .eq("payment_id", historyPaymentId)
+        .eq("tenant_id", profile.tenant_id)
+        .order("created_at", { ascending: true });
+
+      if (eventsError) {
+        console.error("Error fetching payment history:", eventsError);
+        throw eventsError;
+      }
+
+      return new Response(
+        JSON.stringify(events || []),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
     // Handle GET request - list all payments
     if (req.method === "GET") {
       const { data: payments, error: paymentsError } = await supabase
         .from("payments")
-        .select("*")
+        .select("*, payment_applications(application_id, invoice_id, amount_applied, match_method, applied_at, reversed_at, reversal_reason, invoices(invoice_number, currency))")
         .eq("tenant_id", profile.tenant_id)
         .order("payment_date", { ascending: false });
 
@@ -219,6 +185,13 @@ Deno.serve(async (req) => {
     // Handle POST request - match payment
     const contentType = req.headers.get('content-type') || '';
     let payment_id: string | undefined;
+    let action: 'match' | 'apply' | 'batch' | 'unapply' = 'match';
+    let application_ids: string[] | null = null;
+    let run_id: string | undefined;
+    let allocations: Allocation[] = [];
+    let resolution: Resolution = 'none';
+    let reason: string | null = null;
+    let on_account = false;
 
     if (contentType.includes('application/json')) {
       const bodyText = await req.text();
@@ -227,6 +200,20 @@ Deno.serve(async (req) => {
         try {
           const body = JSON.parse(bodyText);
           payment_id = body?.payment_id;
+          action = ['apply', 'batch', 'unapply'].includes(body?.action) ? body.action : 'match';
+          application_ids = Array.isArray(body?.application_ids)
+            ? body.application_ids.filter((id: unknown): id is string => typeof id === 'string')
+            : null;
+          run_id = typeof body?.run_id === 'string' ? body.run_id : undefined;
+          allocations = (Array.isArray(body?.allocations) ? body.allocations : [])
+            .map((allocation: { invoice_id?: unknown; amount?: unknown }) => ({
+              invoice_id: typeof allocation?.invoice_id === 'string' ? allocation.invoice_id : '',
+              amount: Number(parseNumeric(allocation?.amount).toFixed(2)),
+            }))
+            .filter((allocation: Allocation) => allocation.invoice_id && allocation.amount > 0);
+          resolution = body?.resolution === 'write_off' || body?.resolution === 'dispute' ? body.resolution : 'none';
+          reason = typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+          on_account = body?.on_account === true;
         } catch (parseError) {
           console.error('Invalid JSON payload:', parseError);
           return new Response(
@@ -240,13 +227,32 @@ Deno.serve(async (req) => {
       }
     }
 
-    if (!payment_id) {
-      return new Response(
-        JSON.stringify({ error: 'payment_id is required' }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
+    // Batch auto-match: each call starts (or resumes) a run and works through the next chunk
+    if (action === 'batch') {
+      const activeRunId = run_id ?? (await startMatchRun(supabase, profile.tenant_id, user.id)).run_id;
+
+      try {
+        const progress = await processMatchRunChunk(supabase, profile.tenant_id, activeRunId);
+
+        if (!progress) {
+          return new Response(JSON.stringify({ error: "Match run not found" }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 404,
+          });
         }
+
+        console.log(`Match run ${activeRunId}: ${progress.run.processed_payments}/${progress.run.total_payments} payments processed`);
+
+        return new Response(
+          JSON.stringify(progress),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200
+          }
+        );
+      } catch (batchError: unknown) {
+        await failMatchRun(supabase, profile.tenant_id, activeRunId, getErrorMessage(batchError));
+        throw batchError;
       }
     }
 
@@ -257,7 +263,21 @@ Deno.serve(async (req) => {
       });
     }
 
-    console.log(`Matching payment ${payment_id} (tenant: ${profile.tenant_id})`);
+    if (action === 'apply' && allocations.length === 0) {
+      return new Response(JSON.stringify({ error: "allocations are required to apply a payment" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    if (action === 'unapply' && !reason) {
+      return new Response(JSON.stringify({ error: "A reason is required to reverse a match" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    console.log(`${action === 'apply' ? 'Applying' : action === 'unapply' ? 'Reversing' : 'Matching'} payment ${payment_id} (tenant: ${profile.tenant_id})`);
 
     // Fetch payment details filtered by tenant
     const { data: payment, error: paymentError } = await supabase
@@ -276,78 +296,253 @@ Deno.serve(async (req) => {
     }
 
     const paymentAmount = parseNumeric(payment.amount_received);
+    const remainingAmount = remainingPaymentAmount(payment as MatchablePayment);
+
+    // Reverse applications; the database restores balances, statuses and logs the reversal
+    if (action === 'unapply') {
+      const { data: unapplyData, error: unapplyError } = await supabase.rpc('unapply_payment', {
+        p_payment_id: payment_id,
+        p_reason: reason,
+        p_application_ids: application_ids && application_ids.length > 0 ? application_ids : null,
+      });
 
-    // Load open invoices for suggestions and matching
-    const { data: openInvoicesData, error: openInvoicesError } = await supabase
-      .from('invoices')
-      .select('invoice_id, invoice_number, amount, customer_id')
-      .eq('status', 'open')
-      .eq('tenant_id', profile.tenant_id);
+      if (unapplyError) {
+        console.error("Error reversing payment:", unapplyError);
+        if (unapplyError.code === 'P0001') {
+          return new Response(JSON.stringify({ error: unapplyError.message }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 422,
+          });
+        }
+        throw unapplyError;
+      }
 
-    if (openInvoicesError) {
-      console.error('Error fetching open invoices:', openInvoicesError);
-      throw openInvoicesError;
+      const result = unapplyData as UnapplyResult;
+      const invoiceNumbers = result.reversed.map((application) => application.invoice_number).join(', ');
+
+      console.log(`Payment ${payment_id} reversed from ${invoiceNumbers}`);
+
+      return new Response(
+        JSON.stringify({
+          status: result.payment_status,
+          message: `Payment reversed from ${invoiceNumbers}.`,
+          payment: {
+            payment_id,
+            amount_received: Number(paymentAmount.toFixed(2)),
+            currency: payment.currency,
+            payment_date: payment.payment_date,
+            status: result.payment_status,
+            unapplied_amount: parseNumeric(result.unapplied_amount),
+          },
+          reversed: result.reversed,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
     }
 
-    const openInvoices: InvoiceSummary[] = (openInvoicesData || []).map((invoice) => ({
-      invoice_id: invoice.invoice_id,
-      invoice_number: invoice.invoice_number,
-      amount: parseNumeric(invoice.amount),
-      customer_id: invoice.customer_id ?? null,
-    }));
+    if (remainingAmount <= 0) {
+      return new Response(JSON.stringify({ error: "Payment is already fully applied" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 409,
+      });
+    }
 
-    let status: 'matched' | 'needs_review' = 'needs_review';
-    let message = 'No exact invoice match found. Manual review required.';
-    let matched_invoice_id: string | null = null;
-    const exactMatches: InvoiceSummary[] = [];
+    // Analyst applies a suggestion; teaches the payer's identity to the alias table
+    if (action === 'apply') {
+      const { data: appliedInvoices, error: appliedInvoicesError } = await supabase
+        .from('invoices')
+        .select('invoice_id, customer_id, document_type, currency')
+        .in('invoice_id', allocations.map((allocation) => allocation.invoice_id))
+        .eq('tenant_id', profile.tenant_id);
 
-    const exactMatch = openInvoices.find(
-      (invoice) => Math.abs(invoice.amount - paymentAmount) < 0.01
-    );
+      if (appliedInvoicesError) {
+        console.error('Error fetching applied invoices:', appliedInvoicesError);
+        throw appliedInvoicesError;
+      }
 
-    if (exactMatch) {
-      status = 'matched';
-      message = `Payment successfully matched to invoice ${exactMatch.invoice_number}.`;
-      matched_invoice_id = exactMatch.invoice_id;
-      exactMatches.push(exactMatch);
+      // Credit memo allocations are credit netted against the invoices, not payment spent
+      const creditMemoIds = new Set(
+        (appliedInvoices || [])
+          .filter((invoice) => invoice.document_type === 'credit_memo')
+          .map((invoice) => invoice.invoice_id)
+      );
+      const allocatedTotal = allocations.reduce(
+        (sum, allocation) => sum + (creditMemoIds.has(allocation.invoice_id) ? -allocation.amount : allocation.amount),
+        0
+      );
+      // Allocations in another currency are converted and checked by the database at the payment date's rate
+      const sameCurrency = (appliedInvoices || []).every((invoice) => invoice.currency === payment.currency);
+      if (sameCurrency && allocatedTotal > remainingAmount + 0.005) {
+        return new Response(JSON.stringify({ error: "Allocations exceed the unapplied payment amount" }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 422,
+        });
+      }
 
-      console.log(`Exact match found: ${exactMatch.invoice_number}`);
+      // Applications, write-offs and disputes are written in one transaction by the database
+      const { data: applyData, error: applyError } = await supabase.rpc('apply_payment', {
+        p_payment_id: payment_id,
+        p_allocations: allocations,
+        p_resolution: resolution,
+        p_reason: reason,
+      });
 
-      const { error: invoiceUpdateError } = await supabase
-        .from('invoices')
-        .update({ status: 'paid' })
-        .eq('invoice_id', exactMatch.invoice_id)
+      if (applyError) {
+        console.error("Error applying payment:", applyError);
+        // P0001 is raised by the function's own validation
+        if (applyError.code === 'P0001') {
+          return new Response(JSON.stringify({ error: applyError.message }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 422,
+          });
+        }
+        throw applyError;
+      }
+
+      const result = applyData as ApplyResult;
+
+      // Only a single-customer application says anything about who the payer is
+      const customerIds = Array.from(new Set((appliedInvoices || []).map((invoice) => invoice.customer_id)));
+      const appliedCustomerId = customerIds.length === 1 ? customerIds[0] : null;
+
+      const { error: paymentUpdateError } = await supabase
+        .from('payments')
+        .update({
+          customer_id: appliedCustomerId ?? payment.customer_id ?? null,
+          match_evidence: {
+            ...(payment.match_evidence ?? {}),
+            matched_by: 'manual',
+            resolution,
+          },
+        })
+        .eq('payment_id', payment_id)
         .eq('tenant_id', profile.tenant_id);
 
-      if (invoiceUpdateError) {
-        console.error("Error updating invoice:", invoiceUpdateError);
-        throw invoiceUpdateError;
+      if (paymentUpdateError) {
+        console.error("Error updating payment:", paymentUpdateError);
+        throw paymentUpdateError;
+      }
+
+      if (appliedCustomerId) {
+        await learnPayerAliases(supabase, profile.tenant_id, payment, appliedCustomerId);
+      }
+
+      const invoiceNumbers = result.applications.map((application) => application.invoice_number).join(', ');
+      const unapplied = parseNumeric(result.unapplied_amount);
+
+      // What the payer sent beyond these invoices is kept as credit for their next ones
+      let heldOnAccount = false;
+      if (on_account && unapplied > 0.005) {
+        const { error: onAccountError } = await supabase.rpc('place_on_account', {
+          p_payment_id: payment_id,
+          p_customer_id: appliedCustomerId ?? payment.customer_id ?? null,
+          p_reason: 'overpayment',
+        });
+
+        if (onAccountError && onAccountError.code !== 'P0001') {
+          console.error("Error placing payment on account:", onAccountError);
+          throw onAccountError;
+        }
+        heldOnAccount = !onAccountError;
+        if (heldOnAccount) {
+          result.payment_status = 'on_account';
+        }
+      }
+      const messageParts = [`Payment applied to ${invoiceNumbers}.`];
+      if (result.credits.length > 0) {
+        const creditNumbers = Array.from(new Set(result.credits.map((credit) => credit.credit_memo_number)));
+        messageParts.push(`Credit memo${creditNumbers.length === 1 ? '' : 's'} ${creditNumbers.join(', ')} netted against the invoices.`);
+      }
+      if (result.write_offs.length > 0) {
+        const writtenOff = result.write_offs.reduce((sum, writeOff) => sum + parseNumeric(writeOff.amount), 0);
+        messageParts.push(`${writtenOff.toFixed(2)} written off.`);
+      }
+      if (result.disputes.length > 0) {
+        messageParts.push(`${result.disputes.length} dispute${result.disputes.length === 1 ? '' : 's'} opened for the difference.`);
+      }
+      const fxGainLoss = parseNumeric(result.fx_gain_loss);
+      if (Math.abs(fxGainLoss) > 0.005) {
+        messageParts.push(`Realized FX ${fxGainLoss > 0 ? 'gain' : 'loss'} of ${Math.abs(fxGainLoss).toFixed(2)} ${result.functional_currency}.`);
       }
+      if (heldOnAccount) {
+        messageParts.push(`${unapplied.toFixed(2)} held on account.`);
+      } else if (unapplied > 0.005) {
+        messageParts.push(`${unapplied.toFixed(2)} remains unapplied.`);
+      }
+
+      console.log(`Payment ${payment_id} applied to ${invoiceNumbers} (${resolution})`);
+
+      return new Response(
+        JSON.stringify({
+          status: result.payment_status,
+          message: messageParts.join(' '),
+          payment: {
+            payment_id,
+            amount_received: Number(paymentAmount.toFixed(2)),
+            currency: result.currency,
+            payment_date: payment.payment_date,
+            status: result.payment_status,
+            unapplied_amount: unapplied,
+            customer_id: appliedCustomerId,
+          },
+          applications: result.applications,
+          credits: result.credits,
+          write_offs: result.write_offs,
+          disputes: result.disputes,
+          fx_gain_loss: fxGainLoss,
+          functional_currency: result.functional_currency,
+          learned_customer_id: appliedCustomerId,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    const context = await loadMatchingContext(supabase, profile.tenant_id);
+    const evaluation = evaluatePayment(payment as MatchablePayment, context, { includeSuggestions: true });
+    const { customer, customerScope, exactMatch, exactEvidence, referenceMatches, referenceByInvoice, plan } = evaluation;
+
+    if (customer) {
+      console.log(`Payer identified as ${customer.customer_name ?? customer.customer_id} via ${customer.method} (${customerScope})`);
+    }
+
+    if (exactMatch) {
+      console.log(`Exact match found: ${exactMatch.invoice_number}`);
+    } else if (plan) {
+      console.log(`Auto-applying suggestion at ${plan.confidence}% confidence`);
     } else {
       console.log("No exact match found - flagging for review");
     }
 
-    const { error: paymentUpdateError } = await supabase
-      .from('payments')
-      .update({
-        status,
-        matched_invoice_id,
-      })
-      .eq('payment_id', payment_id)
-      .eq('tenant_id', profile.tenant_id);
-
-    if (paymentUpdateError) {
-      console.error("Error updating payment:", paymentUpdateError);
-      throw paymentUpdateError;
-    }
+    const recorded = await recordEvaluation(supabase, profile.tenant_id, payment as MatchablePayment, evaluation);
+    const { status, applications } = recorded;
+    const applied = applications.length > 0;
+    const appliedNumbers = applications.map((application) => application.invoice_number).join(', ');
+    // What the applications drew from the payment, in its own currency
+    const appliedTotal = applications.reduce(
+      (sum, application) => sum + parseNumeric(application.payment_amount ?? application.amount_applied),
+      0
+    );
 
-    const partialMatches =
-      status === 'matched'
-        ? []
-        : buildPartialMatches(
-            openInvoices.filter((invoice) => invoice.invoice_id !== matched_invoice_id),
-            paymentAmount
-          );
+    const matchMessage = recorded.failure
+      ? `Match could not be applied: ${recorded.failure}. Manual review required.`
+      : !applied
+      ? 'No exact invoice match found. Manual review required.'
+      : plan?.method === 'suggestion'
+      ? `Payment auto-applied to ${appliedNumbers} (${plan.confidence}% confidence suggestion).`
+      : exactMatch && exactEvidence
+      ? `Payment matched to invoice ${exactMatch.invoice_number} by quoted reference "${exactEvidence.token}".`
+      : `Payment successfully matched to invoice ${appliedNumbers}.`;
+    const message = recorded.disputes.length > 0
+      ? `${matchMessage} Short payment disputed on ${recorded.disputes.map((dispute) => dispute.invoice_number).join(', ')}.`
+      : matchMessage;
+    const exactMatches = exactMatch && applied ? [exactMatch] : [];
+    const partialMatches: PartialMatchSuggestion[] = applied ? [] : evaluation.suggestions;
 
     console.log('Payment matching completed:', status);
 
@@ -358,12 +553,23 @@ Deno.serve(async (req) => {
         payment: {
           payment_id,
           amount_received: Number(paymentAmount.toFixed(2)),
+          currency: evaluation.currency,
           payment_date: payment.payment_date,
           status,
-          matched_invoice_id,
+          unapplied_amount: Number((remainingAmount - appliedTotal).toFixed(2)),
         },
-        exact_matches: exactMatches,
+        applications,
+        credits: recorded.credits,
+        write_offs: recorded.write_offs,
+        disputes: recorded.disputes,
+        exact_matches: exactMatches.map((invoice) => ({
+          ...invoice,
+          evidence: referenceByInvoice.get(invoice.invoice_id) ?? null,
+        })),
         partial_matches: partialMatches,
+        reference_matches: referenceMatches,
+        customer,
+        customer_scope: customerScope,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -371,15 +577,6 @@ Deno.serve(async (req) => {
       }
     );
 
-  } catch (error: unknown) {
-    console.error('Function error:', error);
-    return new Response(
-      JSON.stringify({ error: getErrorMessage(error) }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500
-      }
-    );
   } catch (error: unknown) {
     console.error("Function error:", error);
     return new Response(JSON.stringify({ error: getErrorMessage(error) }), {
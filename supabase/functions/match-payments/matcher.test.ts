@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MATCHING_SETTINGS, type MatchingSettings } from '../_shared/matching-settings.ts';
+import { evaluatePayment, type InvoiceSummary, type MatchablePayment, type MatchingContext } from './matcher.ts';
+
+const invoices: InvoiceSummary[] = [
+  { invoice_id: 'inv-1', invoice_number: 'INV-1001', amount: 1200, customer_id: 'cust-1', due_date: '2025-05-01', document_type: 'invoice', currency: 'USD' },
+  { invoice_id: 'inv-2', invoice_number: 'INV-1002', amount: 800, customer_id: 'cust-1', due_date: '2025-05-15', document_type: 'invoice', currency: 'USD' },
+];
+
+const contextWith = (settings: Partial<MatchingSettings>): MatchingContext => ({
+  settings: { ...DEFAULT_MATCHING_SETTINGS, auto_apply_enabled: true, ...settings },
+  fx: { functional_currency: 'USD', rates: [] },
+  openInvoices: invoices,
+  aliases: [],
+  customers: [],
+});
+
+const payment = (amount: number): MatchablePayment => ({
+  payment_id: 'pay-1',
+  amount_received: amount,
+  amount_applied: 0,
+  payment_date: '2025-05-20',
+  status: 'unapplied',
+  payer_name: null,
+  payer_account: null,
+  customer_id: null,
+  currency: 'USD',
+  bank_reference: null,
+  remittance_text: null,
+  remittance_references: null,
+});
+
+describe('evaluatePayment auto-apply', () => {
+  it('does not write off a short combination under the default settings', () => {
+    // 100 short of the two invoices: confident enough to auto-apply once the combo bonus is added
+    const evaluation = evaluatePayment(payment(1900), contextWith({}));
+
+    const combination = evaluation.suggestions.find((suggestion) => suggestion.invoices.length === 2);
+    expect(combination?.difference).toBe(-100);
+    expect(combination?.confidence).toBeGreaterThanOrEqual(DEFAULT_MATCHING_SETTINGS.auto_apply_min_confidence);
+    expect(evaluation.plan).toBeNull();
+  });
+
+  it('writes off a short combination inside the write-off limit', () => {
+    const evaluation = evaluatePayment(payment(1900), contextWith({ write_off_limit: 150 }));
+
+    expect(evaluation.plan).toMatchObject({
+      method: 'suggestion',
+      resolution: 'write_off',
+      allocations: [
+        { invoice_id: 'inv-1', amount: 1200 },
+        { invoice_id: 'inv-2', amount: 700 },
+      ],
+    });
+  });
+
+  it('leaves a short combination beyond the write-off limit for review', () => {
+    const evaluation = evaluatePayment(payment(1900), contextWith({ write_off_limit: 50 }));
+
+    expect(evaluation.plan).toBeNull();
+  });
+
+  it('applies a combination that settles the invoices exactly', () => {
+    const evaluation = evaluatePayment(payment(2000), contextWith({}));
+
+    expect(evaluation.plan).toMatchObject({ method: 'suggestion', resolution: 'none' });
+  });
+});
@@ -0,0 +1,735 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  extractReferenceCandidates,
+  findReferenceMatches,
+  type ReferenceEvidence,
+} from './references.ts';
+import {
+  identifyCustomer,
+  RESTRICTING_CONFIDENCE,
+  type CustomerIdentification,
+  type CustomerRecord,
+  type PayerAlias,
+} from './customers.ts';
+import { findInvoiceCombinations } from './subset-sum.ts';
+import { classifyDifference, DIFFERENCE_LABELS, type DifferenceType } from './differences.ts';
+import { loadMatchingSettings, type MatchingSettings } from '../_shared/matching-settings.ts';
+import { openDispute } from '../_shared/disputes.ts';
+import { DEFAULT_CURRENCY, findFxRate, loadFxContext, today, type FxContext } from '../_shared/fx.ts';
+import { fetchAllRows } from '../_shared/paging.ts';
+
+export const parseNumeric = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Number(value);
+    if (!Number.isNaN(parsed)) {
+      return parsed;
+    }
+  }
+
+  return Number(value ?? 0);
+};
+
+export type InvoiceSummary = {
+  invoice_id: string;
+  invoice_number: string;
+  // Open balance still to be collected, not the original invoice amount; negative for credit memos
+  amount: number;
+  customer_id?: string | null;
+  due_date?: string | null;
+  document_type?: 'invoice' | 'credit_memo';
+  currency?: string;
+};
+
+export type CreditApplication = {
+  credit_memo_id: string;
+  credit_memo_number: string;
+  invoice_id: string;
+  invoice_number: string;
+  amount: number;
+};
+
+export type PaymentApplication = {
+  invoice_id: string;
+  invoice_number: string;
+  // In the invoice's currency; payment_amount is what it drew from the payment, in the payment's
+  amount_applied: number;
+  currency?: string;
+  payment_amount?: number;
+  // Realized in the tenant's functional currency; positive is a gain
+  fx_gain_loss?: number;
+};
+
+export type PartialMatchSuggestion = {
+  invoices: InvoiceSummary[];
+  // Totals and differences are in the invoices' currency, which a suggestion never mixes
+  currency: string;
+  total_amount: number;
+  difference: number;
+  // Why the payment falls short of these invoices, when it does
+  difference_type: DifferenceType | null;
+  confidence: number;
+  reason: string;
+  evidence: ReferenceEvidence[];
+  // True when every invoice belongs to the customer identified from the payer
+  customer_match: boolean;
+};
+
+// Suggestions spanning other customers' invoices keep this share of their confidence
+const OTHER_CUSTOMER_PENALTY = 0.5;
+
+// Invoice statuses that can still take payment applications
+export const APPLICABLE_INVOICE_STATUSES = ['open', 'partially_paid', 'overdue'];
+
+// Reference evidence below this score is shown to analysts but never auto-applied
+const STRONG_REFERENCE_SCORE = 0.75;
+
+export const isCreditMemo = (invoice: InvoiceSummary) => invoice.document_type === 'credit_memo';
+
+const documentCurrency = (invoice: InvoiceSummary) => invoice.currency ?? DEFAULT_CURRENCY;
+
+// What the remaining payment amounts to in one document currency
+export type DocumentTerms = {
+  currency: string;
+  amount: number;
+  // Converts the tenant's settings amounts, set in its functional currency, into this currency
+  scale: number;
+  // Further difference tolerated when the payment is in another currency, since the bank's rate
+  // never quite agrees with the loaded one
+  fx_allowance: number;
+};
+
+// Null when no rate converts the payment into the currency, so its invoices cannot be matched
+const documentTerms = (
+  fx: FxContext,
+  settings: MatchingSettings,
+  amount: number,
+  paymentCurrency: string,
+  currency: string,
+  date: string
+): DocumentTerms | null => {
+  const rate = findFxRate(fx, paymentCurrency, currency, date);
+  if (rate === null) return null;
+
+  const converted = Number((amount * rate).toFixed(2));
+  return {
+    currency,
+    amount: converted,
+    scale: findFxRate(fx, fx.functional_currency, currency, date) ?? 1,
+    fx_allowance: currency === paymentCurrency ? 0 : Number(((converted * settings.fx_tolerance_percent) / 100).toFixed(2)),
+  };
+};
+
+export const comboKey = (invoices: InvoiceSummary[]) =>
+  invoices.map((invoice) => invoice.invoice_id).sort().join('-');
+
+// Average reference score across the invoices in a suggestion (0 when nothing was quoted)
+const referenceWeight = (suggestion: PartialMatchSuggestion) =>
+  suggestion.evidence.reduce((sum, evidence) => sum + evidence.score, 0) / Math.max(suggestion.invoices.length, 1);
+
+const buildPartialMatches = (
+  invoices: InvoiceSummary[],
+  termsFor: (currency: string) => DocumentTerms | null,
+  referenceMatches: Map<string, ReferenceEvidence>,
+  customerId: string | null,
+  payment: MatchablePayment,
+  settings: MatchingSettings
+): PartialMatchSuggestion[] => {
+  const suggestions = new Map<string, PartialMatchSuggestion>();
+
+  const registerSuggestion = (
+    candidate: Omit<PartialMatchSuggestion, 'evidence' | 'customer_match' | 'difference_type'>
+  ) => {
+    const evidence = candidate.invoices
+      .map((invoice) => referenceMatches.get(invoice.invoice_id))
+      .filter((match): match is ReferenceEvidence => Boolean(match));
+    const customerMatch = Boolean(customerId) && candidate.invoices.every((invoice) => invoice.customer_id === customerId);
+    const suggestion: PartialMatchSuggestion = {
+      ...candidate,
+      difference_type: classifyDifference(candidate.invoices, -candidate.difference, payment),
+      evidence,
+      customer_match: customerMatch,
+      reason: evidence.length > 0 ? `${candidate.reason} (invoice reference quoted)` : candidate.reason,
+    };
+    suggestion.confidence = Math.min(suggestion.confidence + Math.round(referenceWeight(suggestion) * 30), 100);
+
+    if (customerId && !customerMatch) {
+      suggestion.confidence = Math.round(suggestion.confidence * OTHER_CUSTOMER_PENALTY);
+      suggestion.reason = `${suggestion.reason} (includes another customer's invoices)`;
+    }
+
+    const key = `${comboKey(suggestion.invoices)}|${Math.round(suggestion.total_amount * 100)}`;
+
+    const existing = suggestions.get(key);
+    if (!existing || existing.confidence < suggestion.confidence) {
+      suggestions.set(key, suggestion);
+    }
+  };
+
+  // Invoices are only combined with others in the same currency, against the payment converted into it
+  const currencies = Array.from(new Set(invoices.map(documentCurrency)));
+  for (const currency of currencies) {
+    const terms = termsFor(currency);
+    if (!terms) continue;
+
+    const targetAmount = terms.amount;
+    const tolerance = Math.max(
+      targetAmount * (settings.suggestion_tolerance_percent / 100),
+      settings.suggestion_tolerance_minimum * terms.scale
+    ) + terms.fx_allowance;
+
+    // Differences inside the FX allowance are the bank's rate, not a mismatch
+    const computeConfidence = (difference: number, invoiceCount: number) => {
+      const relativeDiff = Math.min(Math.max(Math.abs(difference) - terms.fx_allowance, 0) / Math.max(targetAmount, 1), 1);
+      const baseScore = 1 - relativeDiff;
+      const comboBonus = invoiceCount > 1 ? settings.combo_bonus : 0;
+      return Number(Math.min(baseScore + comboBonus, 1).toFixed(2)) * 100;
+    };
+
+    // Bounded per-customer subset-sum search over open balances
+    const { matches, truncated } = findInvoiceCombinations(
+      invoices.filter((invoice) => documentCurrency(invoice) === currency),
+      {
+        targetAmount,
+        tolerance,
+        paymentDate: payment.payment_date ?? null,
+        preferredCustomerId: customerId,
+        maxResults: 20,
+      }
+    );
+
+    if (truncated) {
+      console.log(`Invoice combination search in ${currency} stopped at its budget; suggestions may be incomplete`);
+    }
+
+    matches.forEach((match) => {
+      const difference = match.difference_cents / 100;
+
+      registerSuggestion({
+        invoices: match.invoices,
+        currency,
+        total_amount: Number((match.total_cents / 100).toFixed(2)),
+        difference: Number(difference.toFixed(2)),
+        confidence: computeConfidence(difference, match.invoices.length),
+        reason: match.invoices.some(isCreditMemo)
+          ? 'Invoices net of credit memo'
+          : match.invoices.length === 1
+          ? 'Similar single invoice amount'
+          : 'Potential multi-invoice combination',
+      });
+    });
+  }
+
+  return Array.from(suggestions.values())
+    .sort((a, b) => {
+      // A quoted invoice number outranks a closer amount
+      const referenceComparison = referenceWeight(b) - referenceWeight(a);
+      if (referenceComparison !== 0) {
+        return referenceComparison;
+      }
+      // Then the payer's own invoices ahead of anyone else's
+      if (a.customer_match !== b.customer_match) {
+        return a.customer_match ? -1 : 1;
+      }
+      const diffComparison = Math.abs(a.difference) - Math.abs(b.difference);
+      if (diffComparison !== 0) {
+        return diffComparison;
+      }
+      return b.confidence - a.confidence;
+    })
+    .slice(0, 5);
+};
+
+export type MatchablePayment = {
+  payment_id: string;
+  amount_received: number | string;
+  amount_applied: number | string | null;
+  payment_date: string | null;
+  status: string;
+  payer_name: string | null;
+  payer_account: string | null;
+  customer_id: string | null;
+  currency?: string | null;
+  bank_reference: string | null;
+  remittance_text: string | null;
+  remittance_references: string[] | null;
+  match_evidence?: { reversed_invoice_ids?: string[] } | null;
+};
+
+export type MatchingContext = {
+  settings: MatchingSettings;
+  fx: FxContext;
+  openInvoices: InvoiceSummary[];
+  aliases: PayerAlias[];
+  customers: CustomerRecord[];
+};
+
+export type CustomerScope = 'restricted' | 'weighted' | 'none';
+
+export type MatchPlan = {
+  method: 'reference' | 'amount' | 'suggestion';
+  invoices: InvoiceSummary[];
+  allocations: Array<{ invoice_id: string; amount: number }>;
+  // Short-payments inside the tolerance or write-off limit are written off in the same call;
+  // unexplained ones at or above the tenant's threshold are disputed instead
+  resolution: 'none' | 'write_off' | 'dispute';
+  difference_type: DifferenceType | null;
+  confidence: number;
+};
+
+export type PaymentEvaluation = {
+  // In the payment's own currency
+  remainingAmount: number;
+  currency: string;
+  termsFor: (currency: string) => DocumentTerms | null;
+  customer: CustomerIdentification | null;
+  customerScope: CustomerScope;
+  candidateInvoices: InvoiceSummary[];
+  referenceMatches: ReferenceEvidence[];
+  referenceByInvoice: Map<string, ReferenceEvidence>;
+  referencedInvoices: InvoiceSummary[];
+  exactMatch: InvoiceSummary | null;
+  exactEvidence: ReferenceEvidence | null;
+  // Suggestions are only searched when they are needed (for display or auto-apply)
+  suggestions: PartialMatchSuggestion[];
+  plan: MatchPlan | null;
+};
+
+export type RecordedEvaluation = {
+  status: 'matched' | 'partially_applied' | 'on_account' | 'needs_review';
+  applications: PaymentApplication[];
+  // Credit memos netted against the invoices alongside the payment
+  credits: CreditApplication[];
+  write_offs: Array<{ invoice_id: string; invoice_number: string; amount: number }>;
+  disputes: Array<{ dispute_id: string; invoice_id: string; invoice_number: string; disputed_amount: number }>;
+  // Why a planned application was rejected by the database, if it was
+  failure: string | null;
+};
+
+export const remainingPaymentAmount = (payment: MatchablePayment) =>
+  Number((parseNumeric(payment.amount_received) - parseNumeric(payment.amount_applied)).toFixed(2));
+
+/**
+ * Loads everything matching needs for a tenant: applicable open invoices and unused credit
+ * memos, learned payer aliases, the customer list used for name similarity and FX rates.
+ */
+export const loadMatchingContext = async (supabase: SupabaseClient, tenantId: string): Promise<MatchingContext> => {
+  const [
+    settings,
+    fx,
+    { data: openInvoicesData, error: openInvoicesError },
+    { data: aliases, error: aliasesError },
+    { data: customers, error: customersError },
+  ] = await Promise.all([
+    loadMatchingSettings(supabase, tenantId),
+    loadFxContext(supabase, tenantId),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('invoices')
+        .select('invoice_id, invoice_number, open_balance, customer_id, due_date, document_type, currency')
+        .in('status', APPLICABLE_INVOICE_STATUSES)
+        .neq('open_balance', 0)
+        .eq('tenant_id', tenantId)
+        .order('invoice_id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('customer_payer_aliases')
+        .select('customer_id, alias_type, alias_value, confirmed_matches')
+        .eq('tenant_id', tenantId)
+        .order('alias_id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('customers')
+        .select('customer_id, name')
+        .eq('tenant_id', tenantId)
+        .order('customer_id')
+        .range(from, to)
+    ),
+  ]);
+
+  if (openInvoicesError) {
+    console.error('Error fetching open invoices:', openInvoicesError);
+    throw openInvoicesError;
+  }
+
+  if (aliasesError || customersError) {
+    console.error('Error fetching payer identity data:', aliasesError ?? customersError);
+    throw aliasesError ?? customersError;
+  }
+
+  return {
+    settings,
+    fx,
+    openInvoices: (openInvoicesData || []).map((invoice) => ({
+      invoice_id: invoice.invoice_id,
+      invoice_number: invoice.invoice_number,
+      amount: parseNumeric(invoice.open_balance),
+      customer_id: invoice.customer_id ?? null,
+      due_date: invoice.due_date ?? null,
+      document_type: invoice.document_type === 'credit_memo' ? 'credit_memo' : 'invoice',
+      currency: invoice.currency ?? fx.functional_currency,
+    })),
+    aliases: (aliases || []) as PayerAlias[],
+    customers: (customers || []) as CustomerRecord[],
+  };
+};
+
+/**
+ * Identifies the payer and looks for an invoice the remaining payment amount settles exactly,
+ * comparing in each invoice's currency at the rate on the payment date.
+ * Pure: nothing is written, so a batch run can evaluate many payments against one snapshot.
+ */
+export const evaluatePayment = (
+  payment: MatchablePayment,
+  context: MatchingContext,
+  options: { excludedInvoiceIds?: Set<string>; includeSuggestions?: boolean } = {}
+): PaymentEvaluation => {
+  const { settings } = context;
+  const excludedInvoiceIds = options.excludedInvoiceIds ?? new Set<string>();
+  const remainingAmount = remainingPaymentAmount(payment);
+  const paymentCurrency = payment.currency ?? context.fx.functional_currency;
+  const rateDate = payment.payment_date ?? today();
+  const termsByCurrency = new Map<string, DocumentTerms | null>();
+  const termsFor = (currency: string) => {
+    if (!termsByCurrency.has(currency)) {
+      termsByCurrency.set(
+        currency,
+        documentTerms(context.fx, settings, remainingAmount, paymentCurrency, currency, rateDate)
+      );
+    }
+    return termsByCurrency.get(currency) ?? null;
+  };
+  const openInvoices = context.openInvoices.filter((invoice) => !excludedInvoiceIds.has(invoice.invoice_id));
+
+  // Identify the paying customer from learned aliases, falling back to the payer name
+  const customer = identifyCustomer(payment, context.aliases, context.customers);
+  const customerInvoices = customer
+    ? openInvoices.filter((invoice) => invoice.customer_id === customer.customer_id)
+    : [];
+
+  // A known payer account narrows matching to that customer; weaker signals only re-rank
+  const customerScope: CustomerScope = !customer
+    ? 'none'
+    : customer.confidence >= RESTRICTING_CONFIDENCE && customerInvoices.length > 0
+    ? 'restricted'
+    : 'weighted';
+  const candidateInvoices = customerScope === 'restricted' ? customerInvoices : openInvoices;
+
+  // Reference stage: invoice numbers quoted in remittance rank ahead of amount-only hits
+  const referenceMatches = findReferenceMatches(
+    openInvoices,
+    extractReferenceCandidates({
+      remittance_references: payment.remittance_references ?? [],
+      remittance_text: payment.remittance_text,
+      bank_reference: payment.bank_reference,
+    })
+  );
+  const referenceByInvoice = new Map(referenceMatches.map((match) => [match.invoice_id, match]));
+  const referencedInvoices = referenceMatches
+    .filter((match) => match.score >= STRONG_REFERENCE_SCORE)
+    .map((match) => openInvoices.find((invoice) => invoice.invoice_id === match.invoice_id)!)
+    .filter(Boolean);
+
+  // Invoices an analyst already reversed for this payment are never re-applied automatically
+  const reversedInvoiceIds = new Set(payment.match_evidence?.reversed_invoice_ids ?? []);
+
+  // Half a cent absorbs rounding; anything beyond that has to fit the tenant's tolerance, widened
+  // by the FX allowance when the invoice is in another currency
+  const isExactAmount = (invoice: InvoiceSummary) => {
+    const terms = termsFor(documentCurrency(invoice));
+    return (
+      terms !== null &&
+      !isCreditMemo(invoice) &&
+      !reversedInvoiceIds.has(invoice.invoice_id) &&
+      Math.abs(invoice.amount - terms.amount) < settings.exact_tolerance * terms.scale + terms.fx_allowance + 0.005
+    );
+  };
+
+  const exactMatch =
+    referencedInvoices.find(isExactAmount) ??
+    customerInvoices.find(isExactAmount) ??
+    candidateInvoices.find(isExactAmount) ??
+    null;
+
+  const exactEvidence = exactMatch ? referenceByInvoice.get(exactMatch.invoice_id) ?? null : null;
+
+  const evaluation: PaymentEvaluation = {
+    remainingAmount,
+    currency: paymentCurrency,
+    termsFor,
+    customer,
+    customerScope,
+    candidateInvoices,
+    referenceMatches,
+    referenceByInvoice,
+    referencedInvoices,
+    exactMatch,
+    exactEvidence,
+    suggestions: [],
+    plan: null,
+  };
+
+  if (exactMatch) {
+    const terms = termsFor(documentCurrency(exactMatch))!;
+    // Inside the FX allowance the payment settles the invoice in full; the database books the
+    // difference as realized FX rather than a write-off
+    const settled = terms.fx_allowance > 0 && Math.abs(exactMatch.amount - terms.amount) <= terms.fx_allowance + 0.005
+      ? exactMatch.amount
+      : Math.min(terms.amount, exactMatch.amount);
+    const shortfall = Number(Math.max(exactMatch.amount - settled, 0).toFixed(2));
+    evaluation.plan = {
+      method: exactEvidence ? 'reference' : 'amount',
+      invoices: [exactMatch],
+      allocations: [{ invoice_id: exactMatch.invoice_id, amount: settled }],
+      resolution: shortfall > 0.005 ? 'write_off' : 'none',
+      difference_type: null,
+      confidence: 100,
+    };
+    return evaluation;
+  }
+
+  if (options.includeSuggestions || settings.auto_apply_enabled) {
+    evaluation.suggestions = buildSuggestions(payment, evaluation, settings);
+    evaluation.plan = planAutoApply(
+      evaluation.suggestions.filter((suggestion) =>
+        suggestion.invoices.every((invoice) => !reversedInvoiceIds.has(invoice.invoice_id))
+      ),
+      termsFor,
+      settings
+    );
+  }
+
+  return evaluation;
+};
+
+/**
+ * Picks the suggestion to apply without review: it must clear the tenant's confidence cutoff,
+ * be the single most confident one, and leave no difference that is not inside the exact
+ * tolerance, the FX allowance or the write-off limit. An unexplained short-payment at or above
+ * the dispute threshold is applied with a dispute for the rest.
+ */
+const planAutoApply = (
+  suggestions: PartialMatchSuggestion[],
+  termsFor: (currency: string) => DocumentTerms | null,
+  settings: MatchingSettings
+): MatchPlan | null => {
+  if (!settings.auto_apply_enabled) return null;
+
+  const [best, runnerUp] = suggestions
+    .filter((suggestion) => suggestion.confidence >= settings.auto_apply_min_confidence)
+    .sort((a, b) => b.confidence - a.confidence);
+  // Two equally confident suggestions are left to an analyst
+  if (!best || (runnerUp && runnerUp.confidence === best.confidence)) return null;
+
+  const terms = termsFor(best.currency);
+  if (!terms) return null;
+
+  // A difference inside the FX allowance is the bank's rate: the invoices are settled in full
+  const fxSettled = terms.fx_allowance > 0 && Math.abs(best.difference) <= terms.fx_allowance + 0.005;
+
+  // Positive difference is cash left over; negative is a short-payment
+  const leftover = fxSettled ? 0 : best.difference;
+  const shortfall = fxSettled ? 0 : -best.difference;
+  const exactTolerance = settings.exact_tolerance * terms.scale;
+  if (leftover > exactTolerance + 0.005) return null;
+
+  let resolution: MatchPlan['resolution'] = shortfall > 0.005 ? 'write_off' : 'none';
+  const differenceType = shortfall > exactTolerance + 0.005 ? best.difference_type : null;
+  if (differenceType) {
+    const disputable =
+      differenceType === 'short_payment' &&
+      settings.auto_dispute_threshold !== null &&
+      shortfall >= settings.auto_dispute_threshold * terms.scale - 0.005;
+
+    if (disputable) {
+      resolution = 'dispute';
+    } else if (settings.write_off_limit === null || shortfall > settings.write_off_limit * terms.scale + 0.005) {
+      // Without a limit nothing beyond the exact tolerance is written off automatically
+      return null;
+    }
+  }
+
+  // Credit memos are used up in full; invoices are filled in order until payment and credit run out
+  let available = best.invoices
+    .filter(isCreditMemo)
+    .reduce((sum, credit) => sum - credit.amount, fxSettled ? best.total_amount : terms.amount);
+  const allocations = best.invoices.map((invoice) => {
+    if (isCreditMemo(invoice)) {
+      return { invoice_id: invoice.invoice_id, amount: Number((-invoice.amount).toFixed(2)) };
+    }
+    const amount = Number(Math.max(0, Math.min(invoice.amount, available)).toFixed(2));
+    available -= amount;
+    return { invoice_id: invoice.invoice_id, amount };
+  });
+  if (allocations.some((allocation) => allocation.amount <= 0)) return null;
+
+  return {
+    method: 'suggestion',
+    invoices: best.invoices,
+    allocations,
+    resolution,
+    difference_type: differenceType,
+    confidence: best.confidence,
+  };
+};
+
+const buildSuggestions = (
+  payment: MatchablePayment,
+  evaluation: PaymentEvaluation,
+  settings: MatchingSettings
+): PartialMatchSuggestion[] => {
+  const { referencedInvoices, referenceByInvoice, customer, termsFor } = evaluation;
+  const suggestions: PartialMatchSuggestion[] = [];
+
+  // Quoted invoices are suggested together only when they share a currency
+  const referencedCurrencies = new Set(referencedInvoices.map(documentCurrency));
+  const referencedTerms = referencedCurrencies.size === 1 ? termsFor(documentCurrency(referencedInvoices[0])) : null;
+
+  if (referencedTerms) {
+    const total = referencedInvoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+    const difference = Number((referencedTerms.amount - total).toFixed(2));
+    suggestions.push({
+      invoices: referencedInvoices,
+      currency: referencedTerms.currency,
+      total_amount: Number(total.toFixed(2)),
+      difference,
+      difference_type: classifyDifference(referencedInvoices, -difference, payment),
+      confidence: Math.abs(difference) < referencedTerms.fx_allowance + 0.01 ? 100 : 90,
+      reason: 'Invoices quoted in payment remittance',
+      evidence: referencedInvoices.map((invoice) => referenceByInvoice.get(invoice.invoice_id)!),
+      customer_match: Boolean(customer) && referencedInvoices.every((invoice) => invoice.customer_id === customer?.customer_id),
+    });
+  }
+
+  const referencedKey = comboKey(referencedInvoices);
+
+  buildPartialMatches(
+    evaluation.candidateInvoices,
+    termsFor,
+    referenceByInvoice,
+    customer?.customer_id ?? null,
+    payment,
+    settings
+  )
+    .filter((suggestion) => comboKey(suggestion.invoices) !== referencedKey)
+    .forEach((suggestion) => suggestions.push(suggestion));
+
+  return suggestions;
+};
+
+/**
+ * Writes the outcome of an evaluation: a planned match goes through the database's
+ * apply_payment function and the payment keeps the evidence. A plan the database rejects
+ * (an invoice settled meanwhile, a write-off over the limit) leaves the payment for review.
+ * A planned dispute is opened once the payment is applied, linked to the payment.
+ */
+export const recordEvaluation = async (
+  supabase: SupabaseClient,
+  tenantId: string,
+  payment: MatchablePayment,
+  evaluation: PaymentEvaluation
+): Promise<RecordedEvaluation> => {
+  const { plan, customer, customerScope, referenceMatches } = evaluation;
+  const result: RecordedEvaluation = {
+    status: 'needs_review',
+    applications: [],
+    credits: [],
+    write_offs: [],
+    disputes: [],
+    failure: null,
+  };
+
+  if (plan) {
+    const { data, error } = await supabase.rpc('apply_payment', {
+      p_payment_id: payment.payment_id,
+      p_allocations: plan.allocations,
+      p_resolution: plan.resolution === 'write_off' ? 'write_off' : 'none',
+      p_reason: plan.resolution !== 'write_off'
+        ? null
+        : plan.difference_type
+        ? DIFFERENCE_LABELS[plan.difference_type]
+        : 'Difference within matching tolerance',
+      p_match_method: plan.method,
+    });
+
+    if (error && error.code !== 'P0001') {
+      console.error('Error applying payment:', error);
+      throw error;
+    }
+
+    if (error) {
+      console.log(`Planned ${plan.method} match for payment ${payment.payment_id} rejected: ${error.message}`);
+      result.failure = error.message;
+    } else {
+      result.status = ['matched', 'on_account'].includes(data.payment_status) ? data.payment_status : 'partially_applied';
+      result.applications = data.applications;
+      result.credits = data.credits ?? [];
+      result.write_offs = data.write_offs;
+    }
+
+    if (!error && plan.resolution === 'dispute') {
+      for (const invoice of plan.invoices.filter((planned) => !isCreditMemo(planned))) {
+        const allocated = plan.allocations.find((allocation) => allocation.invoice_id === invoice.invoice_id)?.amount ?? 0;
+        const shortPaid = Number((invoice.amount - allocated).toFixed(2));
+        if (shortPaid <= 0.005) continue;
+
+        const dispute = await openDispute(supabase, tenantId, {
+          invoice_id: invoice.invoice_id,
+          payment_id: payment.payment_id,
+          disputed_amount: shortPaid,
+          difference_type: 'short_payment',
+          reason: `${DIFFERENCE_LABELS.short_payment} of ${shortPaid.toFixed(2)}`,
+        });
+
+        if (dispute) {
+          result.disputes.push({
+            dispute_id: dispute.dispute_id,
+            invoice_id: invoice.invoice_id,
+            invoice_number: invoice.invoice_number,
+            disputed_amount: shortPaid,
+          });
+        }
+      }
+    }
+  }
+
+  const applied = result.applications.length > 0;
+  // A payment already partly applied or held on account stays that way until the rest is placed
+  if (!applied && (payment.status === 'partially_applied' || payment.status === 'on_account')) {
+    result.status = payment.status;
+  }
+
+  const { error: paymentUpdateError } = await supabase
+    .from('payments')
+    .update({
+      ...(result.status === 'needs_review' ? { status: result.status } : {}),
+      customer_id: (applied ? plan?.invoices[0].customer_id : null) ?? customer?.customer_id ?? payment.customer_id ?? null,
+      match_evidence: {
+        ...(payment.match_evidence?.reversed_invoice_ids
+          ? { reversed_invoice_ids: payment.match_evidence.reversed_invoice_ids }
+          : {}),
+        matched_by: applied ? plan?.method ?? null : null,
+        ...(applied && plan?.method === 'suggestion' ? { auto_apply_confidence: plan.confidence } : {}),
+        ...(applied && plan?.difference_type ? { difference_type: plan.difference_type } : {}),
+        reference_matches: referenceMatches.slice(0, 10),
+        customer,
+        customer_scope: customerScope,
+      },
+    })
+    .eq('payment_id', payment.payment_id)
+    .eq('tenant_id', tenantId);
+
+  if (paymentUpdateError) {
+    console.error('Error updating payment:', paymentUpdateError);
+    throw paymentUpdateError;
+  }
+
+  return result;
+};
@@ -0,0 +1,175 @@
+export type ReferenceSource = 'structured' | 'remittance_text' | 'bank_reference';
+
+export type ReferenceMatchType = 'exact' | 'normalized' | 'ocr' | 'fuzzy';
+
+export type ReferenceCandidate = {
+  token: string;
+  source: ReferenceSource;
+};
+
+export type ReferenceEvidence = {
+  invoice_id: string;
+  invoice_number: string;
+  token: string;
+  source: ReferenceSource;
+  match_type: ReferenceMatchType;
+  score: number;
+};
+
+type PaymentReferences = {
+  remittance_references?: string[] | null;
+  remittance_text?: string | null;
+  bank_reference?: string | null;
+};
+
+type ReferencedInvoice = {
+  invoice_id: string;
+  invoice_number: string;
+};
+
+const MATCH_TYPE_SCORES: Record<ReferenceMatchType, number> = {
+  exact: 1,
+  normalized: 0.9,
+  ocr: 0.8,
+  fuzzy: 0.6,
+};
+
+// Structured remittance is what the payer's ERP sent; free text and bank references are noisier
+const SOURCE_WEIGHTS: Record<ReferenceSource, number> = {
+  structured: 1,
+  remittance_text: 0.95,
+  bank_reference: 0.9,
+};
+
+// Characters scanners and typists commonly confuse with digits
+const OCR_DIGITS: Record<string, string> = {
+  O: '0', Q: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', T: '7', B: '8',
+};
+
+const canonical = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const stripLeadingZeros = (value: string) => value.replace(/^0+(?=.)/, '');
+
+// "INV-000123" and "123" share the core "123"; letters-only prefixes are dropped
+const referenceCore = (value: string) => stripLeadingZeros(canonical(value).replace(/^[A-Z]+(?=\d)/, ''));
+
+const ocrCore = (value: string) => {
+  const withoutPrefix = canonical(value).replace(/^[A-Z]+(?=[0-9OQDILZSGTB]*\d)/, '');
+  return stripLeadingZeros(withoutPrefix.replace(/[A-Z]/g, (char) => OCR_DIGITS[char] ?? char));
+};
+
+// Damerau-Levenshtein distance capped at 2 (we only care whether it is 0 or 1)
+const editDistance = (a: string, b: string): number => {
+  if (Math.abs(a.length - b.length) > 1) return 2;
+
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+const looksLikeAmount = (token: string) => /^\d+([.,]\d{3})*[.,]\d{2}$/.test(token);
+
+const isCandidateToken = (token: string) => {
+  if (token.length < 3 || token.length > 24 || looksLikeAmount(token)) return false;
+  const digitLike = token.replace(/[^0-9OQDILZSGTB]/gi, '').length;
+  return /\d/.test(token) && digitLike >= 3;
+};
+
+export const extractReferenceCandidates = (payment: PaymentReferences): ReferenceCandidate[] => {
+  const candidates = new Map<string, ReferenceCandidate>();
+
+  const add = (token: string, source: ReferenceSource) => {
+    const key = canonical(token);
+    if (!key || candidates.has(key)) return;
+    candidates.set(key, { token, source });
+  };
+
+  (payment.remittance_references ?? []).forEach((reference) => {
+    if (reference?.trim()) add(reference.trim(), 'structured');
+  });
+
+  // Free text is tokenised on whitespace and the separators banks use (RMR*IV*..., OBI=..., etc.)
+  const tokenize = (text: string | null | undefined, source: ReferenceSource) => {
+    (text ?? '')
+      .toUpperCase()
+      .split(/[\s,;:*=/#()]+/)
+      .map((token) => token.replace(/^[-.]+|[-.]+$/g, ''))
+      .filter(isCandidateToken)
+      .forEach((token) => add(token, source));
+  };
+
+  tokenize(payment.remittance_text, 'remittance_text');
+  tokenize(payment.bank_reference, 'bank_reference');
+
+  return Array.from(candidates.values());
+};
+
+const compareReference = (token: string, invoiceNumber: string): ReferenceMatchType | null => {
+  if (canonical(token) === canonical(invoiceNumber)) return 'exact';
+
+  const tokenCore = referenceCore(token);
+  const invoiceCore = referenceCore(invoiceNumber);
+  if (tokenCore && tokenCore === invoiceCore) return 'normalized';
+
+  const tokenOcr = ocrCore(token);
+  const invoiceOcr = ocrCore(invoiceNumber);
+  if (tokenOcr && tokenOcr === invoiceOcr) return 'ocr';
+
+  // Single-character typos are only trusted on longer numbers to avoid matching "101" to "102"
+  if (invoiceOcr.length >= 4 && tokenOcr.length >= 4 && editDistance(tokenOcr, invoiceOcr) === 1) {
+    return 'fuzzy';
+  }
+
+  return null;
+};
+
+/**
+ * Scores every open invoice against the references quoted on a payment and returns the
+ * strongest piece of evidence per invoice, best first.
+ */
+export const findReferenceMatches = (
+  invoices: ReferencedInvoice[],
+  candidates: ReferenceCandidate[]
+): ReferenceEvidence[] => {
+  if (candidates.length === 0) return [];
+
+  const best = new Map<string, ReferenceEvidence>();
+
+  for (const invoice of invoices) {
+    for (const candidate of candidates) {
+      const matchType = compareReference(candidate.token, invoice.invoice_number);
+      if (!matchType) continue;
+
+      const score = Number((MATCH_TYPE_SCORES[matchType] * SOURCE_WEIGHTS[candidate.source]).toFixed(2));
+      const existing = best.get(invoice.invoice_id);
+      if (!existing || existing.score < score) {
+        best.set(invoice.invoice_id, {
+          invoice_id: invoice.invoice_id,
+          invoice_number: invoice.invoice_number,
+          token: candidate.token,
+          source: candidate.source,
+          match_type: matchType,
+          score,
+        });
+      }
+    }
+  }
+
+  return Array.from(best.values()).sort(
+    (a, b) => b.score - a.score || a.invoice_number.localeCompare(b.invoice_number)
+  );
+};
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { findInvoiceCombinations, type SubsetCandidate } from './subset-sum.ts';
+
+type LedgerInvoice = SubsetCandidate & { invoice_id: string; customer_id: string; due_date: string };
+
+// Small seeded generator so every run sees the same ledger
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const buildLedger = (
+  count: number,
+  { customers, min, max, seed }: { customers: number; min: number; max: number; seed: number }
+): LedgerInvoice[] => {
+  const next = random(seed);
+  return Array.from({ length: count }, (_, index) => ({
+    invoice_id: `inv-${String(index).padStart(5, '0')}`,
+    customer_id: `cust-${String(index % customers).padStart(2, '0')}`,
+    amount: Number((min + next() * (max - min)).toFixed(2)),
+    due_date: new Date(Date.UTC(2025, 0, 1 + Math.floor(next() * 365))).toISOString().slice(0, 10),
+  }));
+};
+
+// Every count-th invoice of the customer, so the chosen ones are spread across the ledger
+const pick = (ledger: LedgerInvoice[], customerId: string, count: number) => {
+  const own = ledger.filter((invoice) => invoice.customer_id === customerId);
+  const step = Math.floor(own.length / count);
+  return Array.from({ length: count }, (_, index) => own[index * step]);
+};
+
+const totalOf = (invoices: SubsetCandidate[]) =>
+  Number(invoices.reduce((sum, invoice) => sum + Math.round(invoice.amount * 100), 0) / 100);
+
+const ids = (invoices: SubsetCandidate[]) => invoices.map((invoice) => invoice.invoice_id);
+
+describe('findInvoiceCombinations', () => {
+  // Targets up to a few thousand over a few dozen invoices fit the dense DP table
+  describe('dynamic programming path', () => {
+    const ledger = buildLedger(40, { customers: 1, min: 20, max: 400, seed: 1 });
+
+    it.each([5, 12, 20])('finds an exact combination of %i invoices', (count) => {
+      const chosen = pick(ledger, 'cust-00', count);
+      const targetAmount = totalOf(chosen);
+
+      const result = findInvoiceCombinations(ledger, { targetAmount, tolerance: 0 });
+
+      expect(result.truncated).toBe(false);
+      expect(result.matches.length).toBeGreaterThan(0);
+      const best = result.matches[0];
+      expect(best.difference_cents).toBe(0);
+      expect(best.invoices.length).toBeLessThanOrEqual(20);
+      expect(new Set(ids(best.invoices)).size).toBe(best.invoices.length);
+      expect(totalOf(best.invoices)).toBe(targetAmount);
+    });
+
+    it('nets a credit memo against the invoices it was deducted from', () => {
+      const invoices: LedgerInvoice[] = [
+        { invoice_id: 'inv-a', customer_id: 'cust-00', amount: 1000, due_date: '2025-01-10' },
+        { invoice_id: 'inv-b', customer_id: 'cust-00', amount: 2500, due_date: '2025-01-20' },
+        { invoice_id: 'inv-c', customer_id: 'cust-00', amount: 777.77, due_date: '2025-01-25' },
+        { invoice_id: 'cm-1', customer_id: 'cust-00', amount: -300, due_date: '2025-01-15' },
+      ];
+
+      const result = findInvoiceCombinations(invoices, { targetAmount: 3200, tolerance: 0 });
+
+      expect(result.matches[0].difference_cents).toBe(0);
+      expect(ids(result.matches[0].invoices).sort()).toEqual(['cm-1', 'inv-a', 'inv-b']);
+      expect(result.matches[0].total_cents).toBe(320000);
+    });
+
+    it('ranks exact matches first, then the preferred customer, then fewer invoices', () => {
+      const invoices: LedgerInvoice[] = [
+        { invoice_id: 'inv-1', customer_id: 'cust-01', amount: 500, due_date: '2025-02-01' },
+        { invoice_id: 'inv-2', customer_id: 'cust-02', amount: 200, due_date: '2025-01-01' },
+        { invoice_id: 'inv-3', customer_id: 'cust-02', amount: 300, due_date: '2025-01-05' },
+        { invoice_id: 'inv-4', customer_id: 'cust-02', amount: 499.5, due_date: '2025-01-03' },
+      ];
+
+      const result = findInvoiceCombinations(invoices, {
+        targetAmount: 500,
+        tolerance: 1,
+        preferredCustomerId: 'cust-02',
+      });
+
+      expect(result.matches.map((match) => ids(match.invoices))).toEqual([
+        ['inv-2', 'inv-3'],
+        ['inv-1'],
+        ['inv-4'],
+      ]);
+    });
+  });
+
+  // Targets above the DP table's cent range fall back to branch-and-bound
+  describe('branch-and-bound path', () => {
+    const ledger = buildLedger(30, { customers: 1, min: 10_000, max: 90_000, seed: 2 });
+
+    // Without a DP table the search is exponential, so larger payments are tested against
+    // customers paying most of what they owe
+    it.each([
+      [5, 30],
+      [12, 24],
+      [20, 26],
+    ])('finds an exact combination of %i invoices among %i', (count, size) => {
+      const open = ledger.slice(0, size);
+      const chosen = pick(open, 'cust-00', count);
+      const targetAmount = totalOf(chosen);
+
+      const result = findInvoiceCombinations(open, { targetAmount, tolerance: 0, timeBudgetMs: 10_000 });
+
+      expect(result.truncated).toBe(false);
+      expect(result.matches.length).toBeGreaterThan(0);
+      expect(result.matches[0].difference_cents).toBe(0);
+      expect(totalOf(result.matches[0].invoices)).toBe(targetAmount);
+    });
+
+    it('nets credit memos against large invoices', () => {
+      const chosen = pick(ledger, 'cust-00', 6);
+      const credits: LedgerInvoice[] = [
+        { invoice_id: 'cm-1', customer_id: 'cust-00', amount: -1234.56, due_date: '2025-03-01' },
+        { invoice_id: 'cm-2', customer_id: 'cust-00', amount: -2000.01, due_date: '2025-03-02' },
+      ];
+      const targetAmount = Number((totalOf(chosen) - 1234.56 - 2000.01).toFixed(2));
+
+      const result = findInvoiceCombinations([...ledger, ...credits], { targetAmount, tolerance: 0, timeBudgetMs: 10_000 });
+
+      expect(result.matches[0].difference_cents).toBe(0);
+      expect(ids(result.matches[0].invoices)).toEqual(expect.arrayContaining(['cm-1', 'cm-2']));
+      expect(result.matches[0].total_cents).toBe(Math.round(targetAmount * 100));
+    });
+  });
+
+  it('returns the same ranking on every run and for any input order', () => {
+    const ledger = buildLedger(60, { customers: 3, min: 50, max: 500, seed: 3 });
+    const targetAmount = totalOf(pick(ledger, 'cust-01', 4));
+    const options = { targetAmount, tolerance: 5, maxResults: 5 };
+
+    const first = findInvoiceCombinations(ledger, options);
+    const again = findInvoiceCombinations(ledger, options);
+    const reversed = findInvoiceCombinations([...ledger].reverse(), options);
+
+    const ranking = (result: typeof first) => result.matches.map((match) => ids(match.invoices));
+    expect(first.matches.length).toBe(5);
+    expect(ranking(again)).toEqual(ranking(first));
+    expect(ranking(reversed)).toEqual(ranking(first));
+  });
+
+  describe('large synthetic ledgers', () => {
+    it('finds a 12-invoice payment among 3,000 open invoices within the time budget', () => {
+      const ledger = buildLedger(3_000, { customers: 10, min: 10, max: 200, seed: 4 });
+      const chosen = pick(ledger, 'cust-03', 12);
+      const timeBudgetMs = 1_500;
+
+      const started = performance.now();
+      const result = findInvoiceCombinations(ledger, {
+        targetAmount: totalOf(chosen),
+        tolerance: 0,
+        preferredCustomerId: 'cust-03',
+        timeBudgetMs,
+      });
+      const elapsed = performance.now() - started;
+
+      expect(result.matches[0].difference_cents).toBe(0);
+      expect(result.matches[0].invoices[0].customer_id).toBe('cust-03');
+      // The budget is checked between steps, so allow for the step that crosses it
+      expect(elapsed).toBeLessThan(timeBudgetMs + 500);
+    });
+
+    it('stops at the time budget and reports the search as truncated', () => {
+      const ledger = buildLedger(4_000, { customers: 8, min: 10, max: 400, seed: 5 });
+      const timeBudgetMs = 50;
+
+      const started = performance.now();
+      // A total no combination reaches, so nothing ends the search before the budget does
+      const result = findInvoiceCombinations(ledger, {
+        targetAmount: 1_999.99,
+        tolerance: 0,
+        timeBudgetMs,
+        maxSearchNodes: Number.MAX_SAFE_INTEGER,
+        maxCredits: 0,
+      });
+      const elapsed = performance.now() - started;
+
+      expect(result.truncated).toBe(true);
+      expect(elapsed).toBeLessThan(timeBudgetMs + 500);
+    });
+
+    it('stops at maxSearchNodes with the same result on every run', () => {
+      const ledger = buildLedger(2_000, { customers: 4, min: 1_000, max: 50_000, seed: 6 });
+      const options = {
+        targetAmount: 987_654.32,
+        tolerance: 10,
+        maxSearchNodes: 20_000,
+        timeBudgetMs: 60_000,
+      };
+
+      const started = performance.now();
+      const first = findInvoiceCombinations(ledger, options);
+      const elapsed = performance.now() - started;
+      const again = findInvoiceCombinations(ledger, options);
+
+      expect(first.truncated).toBe(true);
+      expect(first.searched_customers).toBe(4);
+      expect(again.matches.map((match) => ids(match.invoices))).toEqual(first.matches.map((match) => ids(match.invoices)));
+      // Far inside the time budget: the node cap, not the clock, ended the search
+      expect(elapsed).toBeLessThan(5_000);
+    });
+
+    it('reports a truncated search when a customer has more invoices than are searched', () => {
+      const ledger = buildLedger(1_200, { customers: 1, min: 10, max: 100, seed: 7 });
+
+      const result = findInvoiceCombinations(ledger, {
+        targetAmount: totalOf(pick(ledger, 'cust-00', 3)),
+        tolerance: 0,
+        maxCandidatesPerCustomer: 500,
+      });
+
+      expect(result.truncated).toBe(true);
+    });
+
+    it('does not report a search that ran to completion as truncated', () => {
+      const ledger = buildLedger(200, { customers: 5, min: 10, max: 100, seed: 8 });
+
+      const result = findInvoiceCombinations(ledger, {
+        targetAmount: totalOf(pick(ledger, 'cust-02', 6)),
+        tolerance: 0,
+        timeBudgetMs: 60_000,
+      });
+
+      expect(result.truncated).toBe(false);
+      expect(result.searched_customers).toBe(5);
+    });
+  });
+});
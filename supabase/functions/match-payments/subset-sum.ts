@@ -0,0 +1,364 @@
+export type SubsetCandidate = {
+  invoice_id: string;
+  amount: number;
+  due_date?: string | null;
+  customer_id?: string | null;
+};
+
+export type SubsetSearchOptions = {
+  targetAmount: number;
+  tolerance: number;
+  paymentDate?: string | null;
+  // Customer whose invoices are searched first when the budget is tight
+  preferredCustomerId?: string | null;
+  maxInvoices?: number;
+  maxResults?: number;
+  timeBudgetMs?: number;
+  // Invoices due more than this many days before / after the payment are not considered
+  dueDateWindowDays?: { before: number; after: number };
+  maxCandidatesPerCustomer?: number;
+  // Deterministic cap on depth-first search nodes per customer
+  maxSearchNodes?: number;
+  // Credit memos (negative amounts) netted into one combination, and how many per customer are tried
+  maxCredits?: number;
+  maxCreditCandidates?: number;
+};
+
+export type SubsetMatch<T extends SubsetCandidate> = {
+  invoices: T[];
+  total_cents: number;
+  difference_cents: number;
+};
+
+export type SubsetSearchResult<T extends SubsetCandidate> = {
+  matches: SubsetMatch<T>[];
+  // True when the time budget, node cap or candidate cap cut the search short
+  truncated: boolean;
+  searched_customers: number;
+};
+
+const DEFAULTS = {
+  maxInvoices: 20,
+  maxResults: 5,
+  timeBudgetMs: 1500,
+  dueDateWindowDays: { before: 365, after: 90 },
+  maxCandidatesPerCustomer: 500,
+  maxSearchNodes: 2_000_000,
+  maxCredits: 2,
+  maxCreditCandidates: 6,
+};
+
+// Dense DP is used while invoices x cent range stays below this many steps
+const DP_STEP_LIMIT = 60_000_000;
+const DP_MAX_CENTS = 5_000_000;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const dueTime = (candidate: SubsetCandidate) => {
+  const time = candidate.due_date ? new Date(candidate.due_date).getTime() : NaN;
+  return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time;
+};
+
+// Oldest due date first, then invoice id, so equal inputs always give equal output
+const compareCandidates = (a: SubsetCandidate, b: SubsetCandidate) =>
+  dueTime(a) - dueTime(b) || a.invoice_id.localeCompare(b.invoice_id);
+
+const withinDueWindow = (
+  candidate: SubsetCandidate,
+  paymentTime: number,
+  window: { before: number; after: number }
+) => {
+  if (Number.isNaN(paymentTime)) return true;
+  const time = dueTime(candidate);
+  if (!Number.isFinite(time)) return true;
+  const offsetDays = (time - paymentTime) / MS_PER_DAY;
+  return offsetDays >= -window.before && offsetDays <= window.after;
+};
+
+type GroupSearch = {
+  amounts: number[];
+  lower: number;
+  upper: number;
+  targetCents: number;
+  maxInvoices: number;
+  maxResults: number;
+  deadline: number;
+};
+
+type GroupOutcome = {
+  subsets: number[][];
+  truncated: boolean;
+};
+
+/**
+ * 0/1 subset-sum over cent totals. Each reachable total remembers the first invoice (in due
+ * date order) that reached it, so reconstruction always favours the oldest invoices.
+ */
+const searchByDynamicProgramming = ({ amounts, lower, upper, targetCents, maxInvoices, maxResults, deadline }: GroupSearch): GroupOutcome => {
+  const firstItem = new Int32Array(upper + 1).fill(-1);
+  const counts = new Uint8Array(upper + 1);
+  firstItem[0] = amounts.length;
+  let reached = 0;
+  let truncated = false;
+
+  for (let item = 0; item < amounts.length; item++) {
+    if (Date.now() > deadline) {
+      truncated = true;
+      break;
+    }
+
+    const amount = amounts[item];
+    if (amount <= 0 || amount > upper) continue;
+
+    // Descending so a total reached by this invoice is never extended by it again
+    for (let sum = Math.min(upper, reached + amount); sum >= amount; sum--) {
+      const base = sum - amount;
+      if (firstItem[sum] !== -1 || firstItem[base] === -1 || counts[base] >= maxInvoices) continue;
+      firstItem[sum] = item;
+      counts[sum] = counts[base] + 1;
+    }
+    reached = Math.min(upper, reached + amount);
+  }
+
+  // Walk outwards from the target so the closest totals are collected first
+  const subsets: number[][] = [];
+  for (let offset = 0; subsets.length < maxResults; offset++) {
+    const below = targetCents - offset;
+    const above = targetCents + offset;
+    if (below < lower && above > upper) break;
+
+    for (const sum of offset === 0 ? [targetCents] : [below, above]) {
+      if (sum < Math.max(lower, 1) || sum > upper || firstItem[sum] === -1) continue;
+
+      const subset: number[] = [];
+      for (let remaining = sum; remaining > 0; remaining -= amounts[firstItem[remaining]]) {
+        subset.push(firstItem[remaining]);
+      }
+      subsets.push(subset.reverse());
+    }
+  }
+
+  return { subsets, truncated };
+};
+
+/**
+ * Branch-and-bound for ranges too wide for the DP table: largest invoices first, pruning
+ * branches that overshoot or can no longer reach the window. Bounded by a node count so the
+ * same ledger always yields the same answers.
+ */
+const searchByBranchAndBound = (
+  { amounts, lower, upper, maxInvoices, maxResults, deadline }: GroupSearch,
+  maxNodes: number
+): GroupOutcome => {
+  const order = amounts
+    .map((amount, index) => ({ amount, index }))
+    .filter(({ amount }) => amount > 0 && amount <= upper)
+    .sort((a, b) => b.amount - a.amount || a.index - b.index);
+  const suffix = new Array<number>(order.length + 1).fill(0);
+  for (let i = order.length - 1; i >= 0; i--) {
+    suffix[i] = suffix[i + 1] + order[i].amount;
+  }
+
+  const subsets: number[][] = [];
+  const chosen: number[] = [];
+  let nodes = 0;
+  let truncated = false;
+
+  const visit = (start: number, sum: number) => {
+    if (subsets.length >= maxResults * 4) return;
+    if (++nodes > maxNodes || (nodes % 4096 === 0 && Date.now() > deadline)) {
+      truncated = true;
+      return;
+    }
+
+    if (sum >= lower && chosen.length > 0) {
+      subsets.push(chosen.slice().sort((a, b) => a - b));
+    }
+    if (chosen.length >= maxInvoices) return;
+
+    for (let i = start; i < order.length && !truncated; i++) {
+      if (sum + suffix[i] < lower) return;
+      const next = sum + order[i].amount;
+      if (next > upper) continue;
+
+      chosen.push(order[i].index);
+      visit(i + 1, next);
+      chosen.pop();
+    }
+  };
+
+  visit(0, 0);
+  return { subsets, truncated };
+};
+
+const searchGroup = <T extends SubsetCandidate>(
+  candidates: T[],
+  targetCents: number,
+  toleranceCents: number,
+  maxInvoices: number,
+  maxResults: number,
+  maxNodes: number,
+  deadline: number
+): { matches: SubsetMatch<T>[]; truncated: boolean } => {
+  const amounts = candidates.map((candidate) => toCents(candidate.amount));
+  const upper = targetCents + toleranceCents;
+  const search: GroupSearch = {
+    amounts,
+    lower: targetCents - toleranceCents,
+    upper,
+    targetCents,
+    maxInvoices,
+    maxResults,
+    deadline,
+  };
+
+  let outcome: GroupOutcome;
+  if (upper <= DP_MAX_CENTS && amounts.length * upper <= DP_STEP_LIMIT) {
+    outcome = searchByDynamicProgramming(search);
+  } else {
+    // Exact totals first, then the rest of the tolerance window with what budget is left
+    const exact = searchByBranchAndBound({ ...search, lower: targetCents, upper: targetCents }, maxNodes / 2);
+    const near = searchByBranchAndBound(search, maxNodes / 2);
+    outcome = { subsets: [...exact.subsets, ...near.subsets], truncated: exact.truncated || near.truncated };
+  }
+
+  const seen = new Set<string>();
+  const matches: SubsetMatch<T>[] = [];
+  for (const subset of outcome.subsets) {
+    const key = subset.join(',');
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const total = subset.reduce((sum, index) => sum + amounts[index], 0);
+    matches.push({
+      invoices: subset.map((index) => candidates[index]),
+      total_cents: total,
+      difference_cents: targetCents - total,
+    });
+  }
+
+  return { matches, truncated: outcome.truncated };
+};
+
+// Every set of up to maxSize credits, the empty set first and smaller sets before larger ones
+const creditSets = <T extends SubsetCandidate>(credits: T[], maxSize: number): T[][] => {
+  const sets: number[][] = [[]];
+  let frontier: number[][] = [[]];
+  for (let size = 1; size <= maxSize; size++) {
+    frontier = frontier.flatMap((set) => {
+      const start = set.length > 0 ? set[set.length - 1] + 1 : 0;
+      return Array.from({ length: Math.max(credits.length - start, 0) }, (_, offset) => [...set, start + offset]);
+    });
+    sets.push(...frontier);
+  }
+  return sets.map((set) => set.map((index) => credits[index]));
+};
+
+const rankMatches = <T extends SubsetCandidate>(preferredCustomerId: string | null | undefined) =>
+  (a: SubsetMatch<T>, b: SubsetMatch<T>) =>
+    Math.abs(a.difference_cents) - Math.abs(b.difference_cents) ||
+    Number(b.invoices[0].customer_id === preferredCustomerId) - Number(a.invoices[0].customer_id === preferredCustomerId) ||
+    a.invoices.length - b.invoices.length ||
+    compareCandidates(a.invoices[0], b.invoices[0]) ||
+    a.invoices.map((invoice) => invoice.invoice_id).join().localeCompare(b.invoices.map((invoice) => invoice.invoice_id).join());
+
+/**
+ * Finds invoice combinations (per customer) whose open balances add up to a payment amount,
+ * within a time budget. A customer's credit memos are netted in by searching their invoices for
+ * the payment plus the credit, so a payment of A + B - C is found as well. Results are ranked by
+ * closeness, then the preferred customer, then by fewest documents, then by oldest due date.
+ */
+export const findInvoiceCombinations = <T extends SubsetCandidate>(
+  invoices: T[],
+  options: SubsetSearchOptions
+): SubsetSearchResult<T> => {
+  const maxInvoices = options.maxInvoices ?? DEFAULTS.maxInvoices;
+  const maxResults = options.maxResults ?? DEFAULTS.maxResults;
+  const window = options.dueDateWindowDays ?? DEFAULTS.dueDateWindowDays;
+  const maxCandidates = options.maxCandidatesPerCustomer ?? DEFAULTS.maxCandidatesPerCustomer;
+  const maxNodes = options.maxSearchNodes ?? DEFAULTS.maxSearchNodes;
+  const maxCredits = options.maxCredits ?? DEFAULTS.maxCredits;
+  const maxCreditCandidates = options.maxCreditCandidates ?? DEFAULTS.maxCreditCandidates;
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULTS.timeBudgetMs);
+
+  const targetCents = toCents(options.targetAmount);
+  const toleranceCents = Math.max(toCents(options.tolerance), 0);
+  const paymentTime = options.paymentDate ? new Date(options.paymentDate).getTime() : NaN;
+
+  const groups = new Map<string, T[]>();
+  for (const invoice of invoices) {
+    if (!withinDueWindow(invoice, paymentTime, window)) continue;
+    const key = invoice.customer_id ?? '';
+    const group = groups.get(key) ?? [];
+    group.push(invoice);
+    groups.set(key, group);
+  }
+
+  // The identified payer goes first, the rest in a stable order
+  const groupKeys = Array.from(groups.keys()).sort((a, b) => {
+    if (options.preferredCustomerId) {
+      if (a === options.preferredCustomerId) return -1;
+      if (b === options.preferredCustomerId) return 1;
+    }
+    return a.localeCompare(b);
+  });
+
+  const matches: SubsetMatch<T>[] = [];
+  let truncated = false;
+  let searched = 0;
+
+  for (const key of groupKeys) {
+    if (Date.now() > deadline) {
+      truncated = true;
+      break;
+    }
+
+    const group = groups.get(key)!;
+    let candidates = group.filter((candidate) => candidate.amount > 0).sort(compareCandidates);
+    const credits = group.filter((candidate) => candidate.amount < 0).sort(compareCandidates);
+    if (candidates.length === 0) continue;
+
+    if (credits.length > maxCreditCandidates) {
+      truncated = true;
+    }
+
+    // Very large ledgers: keep the invoices due closest to the payment date
+    if (candidates.length > maxCandidates) {
+      truncated = true;
+      const reference = Number.isNaN(paymentTime) ? Date.now() : paymentTime;
+      candidates = candidates
+        .slice()
+        .sort((a, b) => Math.abs(dueTime(a) - reference) - Math.abs(dueTime(b) - reference) || compareCandidates(a, b))
+        .slice(0, maxCandidates)
+        .sort(compareCandidates);
+    }
+
+    // Plain invoice combinations first, then the same search raised by each set of credits
+    for (const creditSet of creditSets(credits.slice(0, maxCreditCandidates), maxCredits)) {
+      if (creditSet.length > 0 && Date.now() > deadline) {
+        truncated = true;
+        break;
+      }
+
+      const creditCents = creditSet.reduce((sum, credit) => sum - toCents(credit.amount), 0);
+      const result = searchGroup(candidates, targetCents + creditCents, toleranceCents, maxInvoices, maxResults, maxNodes, deadline);
+      truncated = truncated || result.truncated;
+      result.matches.forEach((match) =>
+        matches.push({
+          invoices: [...match.invoices, ...creditSet],
+          total_cents: match.total_cents - creditCents,
+          difference_cents: match.difference_cents,
+        })
+      );
+    }
+    searched++;
+  }
+
+  return {
+    matches: matches.sort(rankMatches<T>(options.preferredCustomerId)).slice(0, maxResults),
+    truncated,
+    searched_customers: searched,
+  };
+};
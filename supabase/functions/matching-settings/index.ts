@@ -0,0 +1,151 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadMatchingSettings, validateMatchingSettings } from '../_shared/matching-settings.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    // GET - current settings, defaults when the tenant has not saved any
+    if (req.method === 'GET') {
+      const settings = await loadMatchingSettings(supabase, profile.tenant_id);
+
+      return new Response(
+        JSON.stringify(settings),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    // PUT - replace the tenant's settings
+    if (req.method === 'PUT') {
+      let body: Record<string, unknown>;
+      try {
+        body = await req.json();
+      } catch (parseError) {
+        console.error('Invalid JSON payload:', parseError);
+        return new Response(
+          JSON.stringify({ error: 'Invalid JSON payload' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400
+          }
+        );
+      }
+
+      const { settings, errors } = validateMatchingSettings(body ?? {});
+      if (errors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: errors.join('; '), errors }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 422
+          }
+        );
+      }
+
+      console.log(`Saving matching settings for tenant: ${profile.tenant_id}`);
+
+      const { error: saveError } = await supabase
+        .from('matching_settings')
+        .upsert({
+          tenant_id: profile.tenant_id,
+          ...settings,
+          updated_by: user.id,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (saveError) {
+        console.error('Error saving matching settings:', saveError);
+        throw saveError;
+      }
+
+      return new Response(
+        JSON.stringify({ ...settings, is_default: false }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 405
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,168 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DEFAULT_CURRENCY } from '../_shared/fx.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    const url = new URL(req.url);
+    const days = Math.min(Math.max(parseInt(url.searchParams.get('days') ?? '14', 10) || 14, 1), 90);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const [
+      { data: rising, error: risingError },
+      { data: overLimit, error: overLimitError },
+    ] = await Promise.all([
+      supabase
+        .from('risk_rising_alerts')
+        .select('history_id, invoice_id, invoice_number, customer_name, previous_score, risk_score, previous_band, risk_band, scored_at')
+        .eq('tenant_id', profile.tenant_id)
+        .gte('scored_at', since)
+        .order('scored_at', { ascending: false })
+        .limit(50),
+      supabase
+        .from('credit_limit_alerts')
+        .select('alert_id, invoice_id, customer_id, exposure, credit_limit, credit_hold, created_at, customers(name), invoices(invoice_number)')
+        .eq('tenant_id', profile.tenant_id)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(50),
+    ]);
+
+    if (risingError || overLimitError) {
+      console.error('Error fetching alerts:', risingError ?? overLimitError);
+      throw risingError ?? overLimitError;
+    }
+
+    const { data: tenant, error: tenantError } = await supabase
+      .from('tenants')
+      .select('functional_currency')
+      .eq('tenant_id', profile.tenant_id)
+      .maybeSingle();
+
+    if (tenantError) {
+      console.error('Error fetching tenant:', tenantError);
+      throw tenantError;
+    }
+
+    // Exposure and limits are in the functional currency
+    const currency = tenant?.functional_currency ?? DEFAULT_CURRENCY;
+    const money = (value: unknown) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(Number(value));
+
+    const notifications = [
+      ...(rising || []).map((alert) => ({
+        id: alert.history_id,
+        type: 'risk-rising',
+        title: alert.risk_band === 'high' ? 'Invoice Moved to High Risk' : 'Invoice Risk Rising',
+        description: `${alert.customer_name} invoice ${alert.invoice_number} rose from ${Math.round(Number(alert.previous_score) * 100)} to ${Math.round(Number(alert.risk_score) * 100)} (${alert.previous_band} to ${alert.risk_band})`,
+        invoice_id: alert.invoice_id,
+        customer_id: null,
+        created_at: alert.scored_at,
+      })),
+      ...(overLimit || []).map((alert) => {
+        const customer = Array.isArray(alert.customers) ? alert.customers[0] : alert.customers;
+        const invoice = Array.isArray(alert.invoices) ? alert.invoices[0] : alert.invoices;
+        return {
+          id: alert.alert_id,
+          type: 'credit-limit',
+          title: alert.credit_hold ? 'Invoice Billed on Credit Hold' : 'Credit Limit Exceeded',
+          description: alert.credit_hold
+            ? `${customer?.name} is on credit hold but was billed invoice ${invoice?.invoice_number}`
+            : `Invoice ${invoice?.invoice_number} took ${customer?.name} to ${money(alert.exposure)} against a ${money(alert.credit_limit)} limit`,
+          invoice_id: alert.invoice_id,
+          customer_id: alert.customer_id,
+          created_at: alert.created_at,
+        };
+      }),
+    ].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return new Response(
+      JSON.stringify({ notifications }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -1,10 +1,23 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  computeRiskFeatures,
+  describeRisk,
+  loadRiskHistory,
+  loadRiskModel,
+  saveRiskScore,
+  scoreOpenInvoices,
+  scoreRiskFeatures,
+} from "../_shared/risk-model.ts";
+import { predictPaymentDate, savePaymentPredictions } from "../_shared/payment-prediction.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// customer_id is a uuid column; anything else would fail in the query rather than match nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -56,117 +69,66 @@ Deno.serve(async (req) => {
       });
     }
 
-    const { invoice_id } = await req.json();
+    const { invoice_id, invoice_ids, customer_id, unscored_only } = await req.json().catch(() => ({}));
 
+    // Batch mode - no invoice_id scores every open invoice, or those matching the filters
     if (!invoice_id) {
-      return new Response(JSON.stringify({ error: "invoice_id is required" }), {
+      if (invoice_ids !== undefined && (!Array.isArray(invoice_ids) || invoice_ids.some((id) => typeof id !== "string"))) {
+        return new Response(JSON.stringify({ error: "invoice_ids must be an array of invoice ids" }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 400,
+        });
+      }
+      if (customer_id !== undefined && (typeof customer_id !== "string" || !UUID_PATTERN.test(customer_id))) {
+        return new Response(JSON.stringify({ error: "customer_id must be a customer id" }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 400,
+        });
+      }
+
+      console.log(`Scoring open invoices in batch (tenant: ${profile.tenant_id})`);
+
+      const { model_version, scored } = await scoreOpenInvoices(supabase, profile.tenant_id, {
+        invoice_ids,
+        customer_id,
+        unscored_only: Boolean(unscored_only),
+      });
+
+      console.log(`Scored ${scored.length} invoices with model v${model_version}`);
+
+      return new Response(JSON.stringify({ scored_count: scored.length, model_version, scored }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 400,
+        status: 200,
       });
     }
 
     console.log(`Predicting risk for invoice ${invoice_id} (tenant: ${profile.tenant_id})`);
 
-    // Fetch invoice and customer data filtered by tenant
-    const { data: invoice, error: fetchError } = await supabase
-      .from("invoices")
-      .select(
-        `
-        invoice_id,
-        amount,
-        customers (
-          customer_id,
-          name,
-          payment_history_notes
-        )
-      `,
-      )
-      .eq("invoice_id", invoice_id)
-      .eq("tenant_id", profile.tenant_id)
-      .single();
+    // Features come from the customer's own history, scored with the tenant's latest model
+    const [history, model] = await Promise.all([
+      loadRiskHistory(supabase, profile.tenant_id),
+      loadRiskModel(supabase, profile.tenant_id),
+    ]);
 
-    if (fetchError || !invoice) {
-      console.error("Error fetching invoice:", fetchError);
+    const invoice = history.find((candidate) => candidate.invoice_id === invoice_id);
+    if (!invoice) {
       return new Response(JSON.stringify({ error: "Invoice not found" }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 404,
       });
     }
 
-    // Cast to proper type for nested data
-    const invoiceData = invoice as any;
-
-    // Mock AI Risk Prediction Logic with balanced distribution
-    let risk_score = 0.2;
-    let risk_explanation = "No significant risk factors detected. Customer has a good payment history.";
-    const risk_factors = [];
-
-    // Rule 1: Very high invoice value
-    if (parseFloat(invoiceData.amount) > 15000) {
-      risk_score = Math.max(risk_score, 0.85);
-      risk_factors.push("Very high invoice value ($" + parseFloat(invoiceData.amount).toFixed(2) + ") significantly increases risk");
-    } else if (parseFloat(invoiceData.amount) > 8000) {
-      risk_score = Math.max(risk_score, 0.65);
-      risk_factors.push("High invoice value ($" + parseFloat(invoiceData.amount).toFixed(2) + ") increases risk");
-    } else if (parseFloat(invoiceData.amount) > 4000) {
-      risk_score = Math.max(risk_score, 0.45);
-      risk_factors.push("Moderate invoice value ($" + parseFloat(invoiceData.amount).toFixed(2) + ")");
-    }
-
-    // Rule 2: Customer payment history contains "late" or "overdue"
-    const paymentNotes = invoiceData.customers?.payment_history_notes?.toLowerCase() || "";
-    if (paymentNotes.includes("consistently late") || paymentNotes.includes("multiple overdue")) {
-      risk_score = Math.max(risk_score, 0.8);
-      risk_factors.push("Customer has a pattern of consistently late payments");
-    } else if (paymentNotes.includes("late") || paymentNotes.includes("overdue")) {
-      risk_score = Math.max(risk_score, 0.55);
-      risk_factors.push("Customer has a history of occasional late payments");
-    }
-
-    // Rule 3: New customer (no history)
-    if (paymentNotes.includes("no history") || paymentNotes.includes("new customer")) {
-      risk_score = Math.max(risk_score, 0.48);
-      risk_factors.push("New customer with limited payment history");
-    }
-
-    // Rule 4: Financial issues mentioned
-    if (paymentNotes.includes("financial difficulties") || paymentNotes.includes("restructuring")) {
-      risk_score = Math.max(risk_score, 0.75);
-      risk_factors.push("Customer experiencing financial difficulties");
-    }
+    const asOf = new Date().toISOString().slice(0, 10);
+    const features = computeRiskFeatures(invoice, history, asOf);
+    const risk = scoreRiskFeatures(model, features);
+    // A paid invoice has its actual payment date; there is nothing left to predict
+    const prediction = invoice.paid_date === null ? predictPaymentDate(invoice, history, asOf) : null;
+    const risk_score = risk.score;
+    const risk_explanation = describeRisk(risk);
 
-    // Generate explanation based on risk factors
-    if (risk_factors.length > 0) {
-      risk_explanation = "Risk factors identified: " + risk_factors.join("; ") + ".";
-
-      if (risk_score >= 0.7) {
-        risk_explanation += " HIGH RISK - Immediate action required. Recommend proactive contact with customer and payment plan discussion.";
-      } else if (risk_score >= 0.4) {
-        risk_explanation += " MEDIUM RISK - Monitor closely and send payment reminder 5 days before due date.";
-      } else {
-        risk_explanation += " LOW RISK - Standard collection procedures recommended.";
-      }
-    }
+    console.log(`Risk prediction (model v${risk.model_version}): ${risk_score} - ${risk_explanation}`);
 
-    console.log(`Risk prediction: ${risk_score} - ${risk_explanation}`);
-
-    // Update the invoice with risk score and explanation
-    const { data: updatedInvoices, error: updateError } = await supabase
-      .from('invoices')
-      .update({
-        risk_score: risk_score,
-        risk_explanation: risk_explanation,
-      })
-      .eq('invoice_id', invoice_id)
-      .eq('tenant_id', profile.tenant_id)
-      .select('invoice_id');
-
-    if (updateError) {
-      console.error("Error updating invoice:", updateError);
-      throw updateError;
-    }
-
-    if (!updatedInvoices || updatedInvoices.length === 0) {
+    if (!(await saveRiskScore(supabase, profile.tenant_id, invoice_id, risk))) {
       console.error('No invoice updated for tenant:', profile.tenant_id);
       return new Response(
         JSON.stringify({ error: 'Invoice not found' }),
@@ -177,6 +139,8 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (prediction) await savePaymentPredictions(supabase, profile.tenant_id, [prediction]);
+
     console.log('Successfully updated invoice with risk prediction');
 
     return new Response(
@@ -184,6 +148,9 @@ Deno.serve(async (req) => {
         risk_score: risk_score,
         risk_explanation: risk_explanation,
         invoice_id: invoice_id,
+        model_version: risk.model_version,
+        risk_factors: risk.factors,
+        payment_prediction: prediction,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
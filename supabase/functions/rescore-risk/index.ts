@@ -0,0 +1,74 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { scoreOpenInvoices } from '../_shared/risk-model.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+// Re-scores every tenant's open invoices so scores keep up with ageing and new payment history.
+// Called on a schedule by pg_cron with the service role key; it is not for signed-in users.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    // The service role bypasses RLS, so every query below is scoped to one tenant explicitly
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const { data: tenants, error: tenantsError } = await supabase
+      .from('tenants')
+      .select('tenant_id');
+
+    if (tenantsError) {
+      console.error('Error fetching tenants:', tenantsError);
+      throw tenantsError;
+    }
+
+    const results = [];
+    for (const tenant of tenants || []) {
+      // One tenant's failure should not hold back the others
+      try {
+        const { model_version, scored } = await scoreOpenInvoices(supabase, tenant.tenant_id);
+        console.log(`Re-scored ${scored.length} invoices for tenant ${tenant.tenant_id} with model v${model_version}`);
+        results.push({ tenant_id: tenant.tenant_id, scored_count: scored.length, model_version });
+      } catch (error: unknown) {
+        console.error(`Error re-scoring tenant ${tenant.tenant_id}:`, error);
+        results.push({ tenant_id: tenant.tenant_id, error: getErrorMessage(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ tenants: results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,130 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { backtestRiskModel, formatBacktestReport } from '../_shared/risk-backtest.ts';
+import { loadRiskHistory, loadRiskModel } from '../_shared/risk-model.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    // GET - replays the current model over the tenant's paid invoices, as JSON or, with
+    // format=markdown, as a report to download
+    const format = new URL(req.url).searchParams.get('format') ?? 'json';
+    if (format !== 'json' && format !== 'markdown') {
+      return new Response(
+        JSON.stringify({ error: 'format must be json or markdown' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 422
+        }
+      );
+    }
+
+    console.log(`Backtesting risk model for tenant: ${profile.tenant_id}`);
+
+    const [history, model] = await Promise.all([
+      loadRiskHistory(supabase, profile.tenant_id),
+      loadRiskModel(supabase, profile.tenant_id),
+    ]);
+    const report = backtestRiskModel(model, history);
+
+    console.log(`Backtested risk model v${model.version} on ${report.invoice_count} invoices (AUC ${report.auc ?? 'n/a'})`);
+
+    if (format === 'markdown') {
+      return new Response(
+        formatBacktestReport(report, model),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'text/markdown; charset=utf-8' },
+          status: 200
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(report),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
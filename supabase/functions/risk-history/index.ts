@@ -0,0 +1,159 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    const url = new URL(req.url);
+    const invoiceId = url.searchParams.get('invoice_id');
+    if (!invoiceId) {
+      return new Response(
+        JSON.stringify({ error: 'invoice_id is required' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('customer_id')
+      .eq('invoice_id', invoiceId)
+      .eq('tenant_id', profile.tenant_id)
+      .maybeSingle();
+
+    if (invoiceError) {
+      console.error('Error fetching invoice:', invoiceError);
+      throw invoiceError;
+    }
+
+    if (!invoice) {
+      return new Response(
+        JSON.stringify({ error: 'Invoice not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    const { data: history, error: historyError } = await supabase
+      .from('risk_score_history')
+      .select('invoice_id, risk_score, risk_band, previous_band, scored_at')
+      .eq('tenant_id', profile.tenant_id)
+      .eq('customer_id', invoice.customer_id)
+      .order('scored_at', { ascending: true });
+
+    if (historyError) {
+      console.error('Error fetching risk score history:', historyError);
+      throw historyError;
+    }
+
+    const rows = (history || []).map((row) => ({ ...row, risk_score: Number(row.risk_score) }));
+
+    // The customer's trend is the average score its invoices were given each day
+    const byDay = new Map<string, number[]>();
+    for (const row of rows) {
+      const day = row.scored_at.slice(0, 10);
+      byDay.set(day, [...(byDay.get(day) ?? []), row.risk_score]);
+    }
+
+    return new Response(
+      JSON.stringify({
+        invoice: rows
+          .filter((row) => row.invoice_id === invoiceId)
+          .map(({ risk_score, risk_band, previous_band, scored_at }) => ({ risk_score, risk_band, previous_band, scored_at })),
+        customer: Array.from(byDay.entries()).map(([date, scores]) => ({
+          date,
+          risk_score: Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10000) / 10000,
+          invoice_count: scores.length,
+        })),
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,186 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildTrainingSamples,
+  checkTrainingSamples,
+  loadRiskHistory,
+  loadRiskModel,
+  trainRiskModel,
+} from '../_shared/risk-model.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    // GET - the model currently used to score the tenant's invoices
+    if (req.method === 'GET') {
+      const [model, { data: latest, error: latestError }] = await Promise.all([
+        loadRiskModel(supabase, profile.tenant_id),
+        supabase
+          .from('risk_models')
+          .select('trained_at, metrics')
+          .eq('tenant_id', profile.tenant_id)
+          .order('version', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (latestError) {
+        console.error('Error fetching risk model:', latestError);
+        throw latestError;
+      }
+
+      return new Response(
+        JSON.stringify({
+          ...model,
+          is_default: model.version === 0,
+          trained_at: latest?.trained_at ?? null,
+          metrics: latest?.metrics ?? null,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    // POST - trains a new model version from every paid invoice the tenant has
+    console.log(`Training risk model for tenant: ${profile.tenant_id}`);
+
+    const [history, current] = await Promise.all([
+      loadRiskHistory(supabase, profile.tenant_id),
+      loadRiskModel(supabase, profile.tenant_id),
+    ]);
+    const samples = buildTrainingSamples(history);
+
+    const problem = checkTrainingSamples(samples);
+    if (problem) {
+      return new Response(
+        JSON.stringify({ error: problem }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 422
+        }
+      );
+    }
+
+    const { model, metrics } = trainRiskModel(samples, current.version + 1);
+
+    const { data: saved, error: saveError } = await supabase
+      .from('risk_models')
+      .insert({
+        tenant_id: profile.tenant_id,
+        version: model.version,
+        model: {
+          intercept: model.intercept,
+          weights: model.weights,
+          means: model.means,
+          scales: model.scales,
+        },
+        metrics,
+        sample_size: model.sample_size,
+        trained_by: user.id,
+      })
+      .select('trained_at')
+      .single();
+
+    if (saveError) {
+      console.error('Error saving risk model:', saveError);
+      throw saveError;
+    }
+
+    console.log(`Trained risk model v${model.version} on ${metrics.invoice_count} invoices (log loss ${metrics.log_loss})`);
+
+    return new Response(
+      JSON.stringify({
+        ...model,
+        is_default: false,
+        trained_at: saved.trained_at,
+        metrics,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,324 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { convertAmount, loadFxContext, today } from '../_shared/fx.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type Allocation = {
+  invoice_id: string;
+  amount: number;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Internal server error';
+
+const toAmount = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? Number(parsed.toFixed(2)) : 0;
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 401
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Error getting profile:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 404
+        }
+      );
+    }
+
+    const url = new URL(req.url);
+    const customerId = url.searchParams.get('customer_id');
+    const currency = url.searchParams.get('currency');
+
+    // GET ?customer_id=&currency= - one customer's credit in a currency and the open invoices in
+    // that currency it can be applied to
+    if (req.method === 'GET' && customerId) {
+      let creditQuery = supabase
+        .from('payments')
+        .select('payment_id, payment_date, amount_received, amount_applied, currency, on_account_reason, bank_reference, check_number')
+        .eq('tenant_id', profile.tenant_id)
+        .eq('customer_id', customerId)
+        .not('on_account_at', 'is', null);
+      let invoicesQuery = supabase
+        .from('invoices')
+        .select('invoice_id, invoice_number, due_date, open_balance, currency')
+        .eq('tenant_id', profile.tenant_id)
+        .eq('customer_id', customerId)
+        .in('status', ['open', 'partially_paid', 'overdue'])
+        .gt('open_balance', 0);
+
+      if (currency) {
+        creditQuery = creditQuery.eq('currency', currency);
+        invoicesQuery = invoicesQuery.eq('currency', currency);
+      }
+
+      const [
+        { data: creditPayments, error: creditError },
+        { data: openInvoices, error: invoicesError },
+      ] = await Promise.all([
+        creditQuery.order('payment_date', { ascending: true }),
+        invoicesQuery.order('due_date', { ascending: true }),
+      ]);
+
+      if (creditError || invoicesError) {
+        console.error('Error fetching customer credit:', creditError ?? invoicesError);
+        throw creditError ?? invoicesError;
+      }
+
+      const payments = (creditPayments || [])
+        .map((payment) => ({
+          ...payment,
+          unapplied_amount: toAmount(toAmount(payment.amount_received) - toAmount(payment.amount_applied)),
+        }))
+        .filter((payment) => payment.unapplied_amount > 0.005);
+
+      return new Response(
+        JSON.stringify({
+          customer_id: customerId,
+          currency,
+          unapplied_amount: toAmount(payments.reduce((sum, payment) => sum + payment.unapplied_amount, 0)),
+          payments,
+          open_invoices: openInvoices || [],
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    // GET - on-account balances per customer and currency, and cash nobody has placed yet.
+    // Totals are in the tenant's functional currency at today's rates.
+    if (req.method === 'GET') {
+      const [
+        fx,
+        { data: balances, error: balancesError },
+        { data: unplaced, error: unplacedError },
+      ] = await Promise.all([
+        loadFxContext(supabase, profile.tenant_id),
+        supabase
+          .from('customer_credit_balances')
+          .select('customer_id, currency, unapplied_amount, payment_count, oldest_payment_date')
+          .eq('tenant_id', profile.tenant_id),
+        supabase
+          .from('payments')
+          .select('amount_received, amount_applied, currency')
+          .eq('tenant_id', profile.tenant_id)
+          .is('on_account_at', null)
+          .neq('status', 'matched'),
+      ]);
+
+      if (balancesError || unplacedError) {
+        console.error('Error fetching unapplied cash:', balancesError ?? unplacedError);
+        throw balancesError ?? unplacedError;
+      }
+
+      const customerIds = (balances || []).map((balance) => balance.customer_id);
+      const { data: customers, error: customersError } = customerIds.length > 0
+        ? await supabase.from('customers').select('customer_id, name').in('customer_id', customerIds)
+        : { data: [], error: null };
+
+      if (customersError) {
+        console.error('Error fetching customers:', customersError);
+        throw customersError;
+      }
+
+      // Amounts in a currency without a loaded rate are left out of the totals and reported
+      const rateDate = today();
+      const unconverted = new Set<string>();
+      const toFunctional = (amount: number, from: string) => {
+        const converted = convertAmount(fx, amount, from, fx.functional_currency, rateDate);
+        if (converted === null) unconverted.add(from);
+        return converted ?? 0;
+      };
+
+      const names = new Map((customers || []).map((customer) => [customer.customer_id, customer.name]));
+      const credits = (balances || [])
+        .map((balance) => ({
+          customer_id: balance.customer_id,
+          customer_name: names.get(balance.customer_id) ?? 'Unknown Customer',
+          currency: balance.currency,
+          unapplied_amount: toAmount(balance.unapplied_amount),
+          functional_amount: toFunctional(toAmount(balance.unapplied_amount), balance.currency),
+          payment_count: balance.payment_count,
+          oldest_payment_date: balance.oldest_payment_date,
+        }))
+        .sort((a, b) => b.functional_amount - a.functional_amount);
+
+      const unplacedAmounts = (unplaced || [])
+        .map((payment) => ({
+          amount: toAmount(payment.amount_received) - toAmount(payment.amount_applied),
+          currency: payment.currency,
+        }))
+        .filter((payment) => payment.amount > 0.005);
+
+      return new Response(
+        JSON.stringify({
+          functional_currency: fx.functional_currency,
+          total_credit: toAmount(credits.reduce((sum, credit) => sum + credit.functional_amount, 0)),
+          customers: credits,
+          unplaced: {
+            amount: toAmount(unplacedAmounts.reduce((sum, payment) => sum + toFunctional(payment.amount, payment.currency), 0)),
+            payment_count: unplacedAmounts.length,
+          },
+          unconverted_currencies: Array.from(unconverted),
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 405
+        }
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error('Invalid JSON payload:', parseError);
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON payload' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    // POST { action: 'place' } holds a payment's remainder on account;
+    // POST { action: 'apply' } spends a customer's credit on their invoices
+    let rpcCall;
+    if (body?.action === 'place' && typeof body.payment_id === 'string') {
+      console.log(`Placing payment ${body.payment_id} on account (tenant: ${profile.tenant_id})`);
+      rpcCall = supabase.rpc('place_on_account', {
+        p_payment_id: body.payment_id,
+        p_customer_id: typeof body.customer_id === 'string' ? body.customer_id : null,
+        p_reason: body.reason === 'overpayment' ? 'overpayment' : 'residual',
+      });
+    } else if (body?.action === 'apply' && typeof body.customer_id === 'string') {
+      const allocations: Allocation[] = (Array.isArray(body.allocations) ? body.allocations : [])
+        .map((allocation: { invoice_id?: unknown; amount?: unknown }) => ({
+          invoice_id: typeof allocation?.invoice_id === 'string' ? allocation.invoice_id : '',
+          amount: toAmount(allocation?.amount),
+        }))
+        .filter((allocation: Allocation) => allocation.invoice_id && allocation.amount > 0);
+
+      if (allocations.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'allocations are required to apply credit' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400
+          }
+        );
+      }
+
+      console.log(`Applying on-account credit for customer ${body.customer_id} (tenant: ${profile.tenant_id})`);
+      rpcCall = supabase.rpc('apply_on_account_credit', {
+        p_customer_id: body.customer_id,
+        p_allocations: allocations,
+      });
+    } else {
+      return new Response(
+        JSON.stringify({ error: 'action must be "place" with a payment_id or "apply" with a customer_id' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
+
+    const { data, error } = await rpcCall;
+
+    if (error) {
+      console.error('Error updating unapplied cash:', error);
+      // P0001 is raised by the functions' own validation
+      if (error.code === 'P0001') {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 422
+          }
+        );
+      }
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify(data),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: getErrorMessage(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,10 @@
+-- Keep the bank's own identifiers on imported payments
+ALTER TABLE public.payments ADD COLUMN bank_reference TEXT;
+ALTER TABLE public.payments ADD COLUMN payer_name TEXT;
+ALTER TABLE public.payments ADD COLUMN remittance_text TEXT;
+ALTER TABLE public.payments ADD COLUMN source TEXT NOT NULL DEFAULT 'manual';
+ALTER TABLE public.payments ADD COLUMN import_fingerprint TEXT;
+
+-- Re-uploading a bank file must never create the same payment twice
+CREATE UNIQUE INDEX payments_tenant_import_fingerprint_key
+  ON public.payments (tenant_id, import_fingerprint);
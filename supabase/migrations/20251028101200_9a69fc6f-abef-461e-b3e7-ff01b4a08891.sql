@@ -0,0 +1,2 @@
+-- Document numbers the payer quoted in structured remittance (e.g. camt RfrdDocInf/Nb)
+ALTER TABLE public.payments ADD COLUMN remittance_references TEXT[] NOT NULL DEFAULT '{}';
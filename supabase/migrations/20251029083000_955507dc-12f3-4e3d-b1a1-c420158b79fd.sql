@@ -0,0 +1,2 @@
+-- ISO 4217 currency of the received amount as reported by the bank
+ALTER TABLE public.payments ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
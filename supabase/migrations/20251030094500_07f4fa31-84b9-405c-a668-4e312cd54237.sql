@@ -0,0 +1,6 @@
+-- Why the matcher picked (or suggested) an invoice: quoted references and how they were matched
+ALTER TABLE public.payments ADD COLUMN match_evidence JSONB;
+
+-- Structured remittance references are looked up by invoice number
+CREATE INDEX payments_remittance_references_idx
+  ON public.payments USING GIN (remittance_references);
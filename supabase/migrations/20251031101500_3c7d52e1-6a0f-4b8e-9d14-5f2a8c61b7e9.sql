@@ -0,0 +1,49 @@
+-- Payer identity captured from bank files and the customer it resolved to
+ALTER TABLE public.payments ADD COLUMN payer_account TEXT;
+ALTER TABLE public.payments ADD COLUMN customer_id UUID REFERENCES public.customers(customer_id) ON DELETE SET NULL;
+
+-- Payer accounts and names learned from confirmed matches
+CREATE TABLE public.customer_payer_aliases (
+  alias_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(customer_id) ON DELETE CASCADE,
+  alias_type TEXT NOT NULL CHECK (alias_type IN ('account', 'name')),
+  alias_value TEXT NOT NULL,
+  confirmed_matches INTEGER NOT NULL DEFAULT 1,
+  last_confirmed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (tenant_id, customer_id, alias_type, alias_value)
+);
+
+CREATE INDEX customer_payer_aliases_lookup_idx
+  ON public.customer_payer_aliases (tenant_id, alias_type, alias_value);
+
+ALTER TABLE public.customer_payer_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's payer aliases"
+ON public.customer_payer_aliases
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert payer aliases for their tenant"
+ON public.customer_payer_aliases
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can update their tenant's payer aliases"
+ON public.customer_payer_aliases
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can delete their tenant's payer aliases"
+ON public.customer_payer_aliases
+FOR DELETE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
@@ -0,0 +1,123 @@
+-- Invoices carry how much has been settled; the open balance is derived
+ALTER TABLE public.invoices ADD COLUMN amount_paid NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE public.invoices ADD COLUMN open_balance NUMERIC GENERATED ALWAYS AS (amount - amount_paid) STORED;
+
+ALTER TABLE public.invoices DROP CONSTRAINT invoices_status_check;
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('open', 'partially_paid', 'paid', 'disputed', 'overdue'));
+
+-- Payments track how much of the receipt has been applied to invoices
+ALTER TABLE public.payments ADD COLUMN amount_applied NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.payments DROP CONSTRAINT payments_status_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_status_check
+  CHECK (status IN ('unmatched', 'partially_applied', 'matched', 'needs_review'));
+
+-- Ledger of payment amounts applied to invoices (many-to-many)
+CREATE TABLE public.payment_applications (
+  application_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES public.payments(payment_id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(invoice_id) ON DELETE CASCADE,
+  amount_applied NUMERIC NOT NULL CHECK (amount_applied > 0),
+  match_method TEXT NOT NULL DEFAULT 'manual' CHECK (match_method IN ('reference', 'amount', 'manual')),
+  applied_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  applied_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX payment_applications_payment_idx ON public.payment_applications (payment_id);
+CREATE INDEX payment_applications_invoice_idx ON public.payment_applications (invoice_id);
+
+ALTER TABLE public.payment_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's payment applications"
+ON public.payment_applications
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert payment applications for their tenant"
+ON public.payment_applications
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Keep invoice and payment balances and statuses in step with the ledger
+CREATE OR REPLACE FUNCTION public.refresh_application_balances()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  changed RECORD;
+  total NUMERIC;
+BEGIN
+  FOR changed IN
+    SELECT DISTINCT invoice_id, payment_id
+    FROM (
+      SELECT NEW.invoice_id, NEW.payment_id WHERE TG_OP <> 'DELETE'
+      UNION ALL
+      SELECT OLD.invoice_id, OLD.payment_id WHERE TG_OP <> 'INSERT'
+    ) touched
+  LOOP
+    SELECT COALESCE(SUM(amount_applied), 0) INTO total
+    FROM public.payment_applications WHERE invoice_id = changed.invoice_id;
+
+    UPDATE public.invoices
+    SET amount_paid = total,
+        status = CASE
+          WHEN amount - total <= 0.005 THEN 'paid'
+          WHEN status = 'disputed' THEN 'disputed'
+          WHEN total > 0 THEN 'partially_paid'
+          WHEN status IN ('paid', 'partially_paid') THEN 'open'
+          ELSE status
+        END
+    WHERE invoice_id = changed.invoice_id;
+
+    IF EXISTS (
+      SELECT 1 FROM public.invoices WHERE invoice_id = changed.invoice_id AND amount_paid > amount + 0.005
+    ) THEN
+      RAISE EXCEPTION 'Applications exceed the amount of invoice %', changed.invoice_id;
+    END IF;
+
+    SELECT COALESCE(SUM(amount_applied), 0) INTO total
+    FROM public.payment_applications WHERE payment_id = changed.payment_id;
+
+    UPDATE public.payments
+    SET amount_applied = total,
+        status = CASE
+          WHEN amount_received - total <= 0.005 THEN 'matched'
+          WHEN total > 0 THEN 'partially_applied'
+          WHEN status IN ('matched', 'partially_applied') THEN 'unmatched'
+          ELSE status
+        END
+    WHERE payment_id = changed.payment_id;
+
+    IF EXISTS (
+      SELECT 1 FROM public.payments WHERE payment_id = changed.payment_id AND amount_applied > amount_received + 0.005
+    ) THEN
+      RAISE EXCEPTION 'Applications exceed the amount received on payment %', changed.payment_id;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER payment_applications_refresh_balances
+AFTER INSERT OR UPDATE OR DELETE ON public.payment_applications
+FOR EACH ROW EXECUTE FUNCTION public.refresh_application_balances();
+
+-- Carry existing single-invoice matches over into the ledger
+-- (the earliest payment wins when several were matched to the same invoice)
+INSERT INTO public.payment_applications (tenant_id, payment_id, invoice_id, amount_applied, match_method, applied_at)
+SELECT DISTINCT ON (p.matched_invoice_id)
+  p.tenant_id, p.payment_id, p.matched_invoice_id, LEAST(p.amount_received, i.amount), 'amount', p.created_at
+FROM public.payments p
+JOIN public.invoices i ON i.invoice_id = p.matched_invoice_id
+WHERE p.status = 'matched' AND p.tenant_id IS NOT NULL AND LEAST(p.amount_received, i.amount) > 0
+ORDER BY p.matched_invoice_id, p.payment_date, p.created_at;
+
+COMMENT ON COLUMN public.payments.matched_invoice_id IS 'Deprecated: use payment_applications';
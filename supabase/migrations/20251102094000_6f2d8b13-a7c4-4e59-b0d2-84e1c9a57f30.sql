@@ -0,0 +1,258 @@
+-- Short-payments can be written off; written-off amounts reduce the open balance
+ALTER TABLE public.invoices ADD COLUMN amount_written_off NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices DROP COLUMN open_balance;
+ALTER TABLE public.invoices ADD COLUMN open_balance NUMERIC
+  GENERATED ALWAYS AS (amount - amount_paid - amount_written_off) STORED;
+
+CREATE TABLE public.invoice_write_offs (
+  write_off_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(invoice_id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES public.payments(payment_id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX invoice_write_offs_invoice_idx ON public.invoice_write_offs (invoice_id);
+
+ALTER TABLE public.invoice_write_offs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's write-offs"
+ON public.invoice_write_offs
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert write-offs for their tenant"
+ON public.invoice_write_offs
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Balance maintenance split per side so write-offs and applications share it
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  paid NUMERIC;
+  written_off NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount_applied), 0) INTO paid
+  FROM public.payment_applications WHERE invoice_id = p_invoice_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO written_off
+  FROM public.invoice_write_offs WHERE invoice_id = p_invoice_id;
+
+  UPDATE public.invoices
+  SET amount_paid = paid,
+      amount_written_off = written_off,
+      status = CASE
+        WHEN amount - paid - written_off <= 0.005 THEN 'paid'
+        WHEN status = 'disputed' THEN 'disputed'
+        WHEN paid > 0 THEN 'partially_paid'
+        WHEN status IN ('paid', 'partially_paid') THEN 'open'
+        ELSE status
+      END
+  WHERE invoice_id = p_invoice_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoices WHERE invoice_id = p_invoice_id AND open_balance < -0.005
+  ) THEN
+    RAISE EXCEPTION 'Applications and write-offs exceed the amount of invoice %', p_invoice_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_payment_balance(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  applied NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount_applied), 0) INTO applied
+  FROM public.payment_applications WHERE payment_id = p_payment_id;
+
+  UPDATE public.payments
+  SET amount_applied = applied,
+      status = CASE
+        WHEN amount_received - applied <= 0.005 THEN 'matched'
+        WHEN applied > 0 THEN 'partially_applied'
+        WHEN status IN ('matched', 'partially_applied') THEN 'unmatched'
+        ELSE status
+      END
+  WHERE payment_id = p_payment_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments WHERE payment_id = p_payment_id AND amount_applied > amount_received + 0.005
+  ) THEN
+    RAISE EXCEPTION 'Applications exceed the amount received on payment %', p_payment_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_application_balances()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_invoice_balance(OLD.invoice_id);
+    PERFORM public.refresh_payment_balance(OLD.payment_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_invoice_balance(NEW.invoice_id);
+    PERFORM public.refresh_payment_balance(NEW.payment_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_write_off_balances()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_invoice_balance(OLD.invoice_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_invoice_balance(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER invoice_write_offs_refresh_balances
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_write_offs
+FOR EACH ROW EXECUTE FUNCTION public.refresh_write_off_balances();
+
+-- Applies a payment to one or more invoices in a single transaction. Whatever the allocations
+-- leave open on those invoices can be written off or disputed in the same call.
+CREATE OR REPLACE FUNCTION public.apply_payment(
+  p_payment_id UUID,
+  p_allocations JSONB,
+  p_resolution TEXT DEFAULT 'none',
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  invoice_row public.invoices%ROWTYPE;
+  allocation JSONB;
+  allocation_amount NUMERIC;
+  remaining NUMERIC;
+  applied JSONB := '[]'::JSONB;
+  written_off JSONB := '[]'::JSONB;
+  disputed JSONB := '[]'::JSONB;
+  new_dispute_id UUID;
+BEGIN
+  IF p_resolution NOT IN ('none', 'write_off', 'dispute') THEN
+    RAISE EXCEPTION 'Unknown resolution "%"', p_resolution;
+  END IF;
+
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID AND tenant_id = payment_row.tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice % not found', allocation->>'invoice_id';
+    END IF;
+
+    IF invoice_row.status NOT IN ('open', 'partially_paid', 'overdue') THEN
+      RAISE EXCEPTION 'Invoice % is not open', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for invoice % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for invoice % exceeds its open balance', invoice_row.invoice_number;
+    END IF;
+
+    INSERT INTO public.payment_applications (tenant_id, payment_id, invoice_id, amount_applied, match_method, applied_by)
+    VALUES (payment_row.tenant_id, p_payment_id, invoice_row.invoice_id, allocation_amount, 'manual', auth.uid());
+
+    applied := applied || jsonb_build_object(
+      'invoice_id', invoice_row.invoice_id,
+      'invoice_number', invoice_row.invoice_number,
+      'amount_applied', allocation_amount
+    );
+
+    remaining := invoice_row.open_balance - allocation_amount;
+    CONTINUE WHEN remaining <= 0.005 OR p_resolution = 'none';
+
+    IF p_resolution = 'write_off' THEN
+      INSERT INTO public.invoice_write_offs (tenant_id, invoice_id, payment_id, amount, reason, created_by)
+      VALUES (payment_row.tenant_id, invoice_row.invoice_id, p_payment_id, remaining, p_reason, auth.uid());
+
+      written_off := written_off || jsonb_build_object(
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount', remaining
+      );
+    ELSE
+      INSERT INTO public.disputes (tenant_id, invoice_id, disputed_amount, reason, status)
+      VALUES (
+        payment_row.tenant_id,
+        invoice_row.invoice_id,
+        remaining,
+        COALESCE(p_reason, 'Short payment'),
+        'new'
+      )
+      RETURNING disputes.dispute_id INTO new_dispute_id;
+
+      UPDATE public.invoices SET status = 'disputed' WHERE invoice_id = invoice_row.invoice_id;
+
+      disputed := disputed || jsonb_build_object(
+        'dispute_id', new_dispute_id,
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'disputed_amount', remaining
+      );
+    END IF;
+  END LOOP;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_status', payment_row.status,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied,
+    'applications', applied,
+    'write_offs', written_off,
+    'disputes', disputed
+  );
+END;
+$$;
@@ -0,0 +1,90 @@
+-- Batch auto-match runs: one row per run, one item per payment the run considered
+CREATE TABLE public.match_runs (
+  run_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  started_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  total_payments INTEGER NOT NULL DEFAULT 0,
+  processed_payments INTEGER NOT NULL DEFAULT 0,
+  auto_cleared_count INTEGER NOT NULL DEFAULT 0,
+  auto_cleared_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  needs_review_count INTEGER NOT NULL DEFAULT 0,
+  conflict_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only one run at a time per tenant, so two runs never race for the same invoices
+CREATE UNIQUE INDEX match_runs_one_running_idx
+  ON public.match_runs (tenant_id)
+  WHERE status = 'running';
+
+CREATE INDEX match_runs_tenant_started_idx
+  ON public.match_runs (tenant_id, started_at DESC);
+
+CREATE TABLE public.match_run_items (
+  item_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.match_runs(run_id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES public.payments(payment_id) ON DELETE CASCADE,
+  -- Processing order within the run (oldest payment first)
+  sequence INTEGER NOT NULL,
+  outcome TEXT NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'auto_cleared', 'needs_review', 'skipped')),
+  invoice_ids UUID[] NOT NULL DEFAULT '{}',
+  amount_applied NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  matched_by TEXT CHECK (matched_by IN ('reference', 'amount')),
+  reason TEXT,
+  -- Set when another payment in the run claimed the invoice this one wanted
+  conflict BOOLEAN NOT NULL DEFAULT false,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (run_id, payment_id)
+);
+
+CREATE INDEX match_run_items_run_outcome_idx
+  ON public.match_run_items (run_id, outcome, sequence);
+
+ALTER TABLE public.match_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_run_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's match runs"
+ON public.match_runs
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert match runs for their tenant"
+ON public.match_runs
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can update their tenant's match runs"
+ON public.match_runs
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can view their tenant's match run items"
+ON public.match_run_items
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert match run items for their tenant"
+ON public.match_run_items
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can update their tenant's match run items"
+ON public.match_run_items
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
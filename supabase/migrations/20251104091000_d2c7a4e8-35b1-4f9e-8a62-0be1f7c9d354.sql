@@ -0,0 +1,183 @@
+-- Tenant-level matching rules. Tenants without a row use the defaults below.
+CREATE TABLE public.matching_settings (
+  tenant_id UUID PRIMARY KEY REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  -- Largest difference (beyond rounding) still treated as an exact amount match
+  exact_tolerance NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (exact_tolerance >= 0),
+  -- Suggestion search window: the larger of this share of the payment and the minimum amount
+  suggestion_tolerance_percent NUMERIC(5, 2) NOT NULL DEFAULT 15 CHECK (suggestion_tolerance_percent BETWEEN 0 AND 100),
+  suggestion_tolerance_minimum NUMERIC(12, 2) NOT NULL DEFAULT 500 CHECK (suggestion_tolerance_minimum >= 0),
+  combo_bonus NUMERIC(4, 2) NOT NULL DEFAULT 0.10 CHECK (combo_bonus BETWEEN 0 AND 1),
+  auto_apply_enabled BOOLEAN NOT NULL DEFAULT false,
+  auto_apply_min_confidence INTEGER NOT NULL DEFAULT 95 CHECK (auto_apply_min_confidence BETWEEN 50 AND 100),
+  -- Largest short-payment that may be written off; NULL means no limit
+  write_off_limit NUMERIC(12, 2) CHECK (write_off_limit >= 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  -- Differences inside the exact tolerance are written off, so they must fit under the limit
+  CHECK (write_off_limit IS NULL OR exact_tolerance <= write_off_limit)
+);
+
+ALTER TABLE public.matching_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's matching settings"
+ON public.matching_settings
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert matching settings for their tenant"
+ON public.matching_settings
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can update their tenant's matching settings"
+ON public.matching_settings
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Suggestions applied automatically above the tenant's confidence cutoff
+ALTER TABLE public.payment_applications DROP CONSTRAINT payment_applications_match_method_check;
+ALTER TABLE public.payment_applications ADD CONSTRAINT payment_applications_match_method_check
+  CHECK (match_method IN ('reference', 'amount', 'manual', 'suggestion'));
+
+ALTER TABLE public.match_run_items DROP CONSTRAINT match_run_items_matched_by_check;
+ALTER TABLE public.match_run_items ADD CONSTRAINT match_run_items_matched_by_check
+  CHECK (matched_by IN ('reference', 'amount', 'suggestion'));
+
+DROP FUNCTION public.apply_payment(UUID, JSONB, TEXT, TEXT);
+
+-- Re-created with the match method recorded on the ledger and the tenant's write-off limit
+-- enforced on every write-off it creates.
+CREATE OR REPLACE FUNCTION public.apply_payment(
+  p_payment_id UUID,
+  p_allocations JSONB,
+  p_resolution TEXT DEFAULT 'none',
+  p_reason TEXT DEFAULT NULL,
+  p_match_method TEXT DEFAULT 'manual'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  invoice_row public.invoices%ROWTYPE;
+  allocation JSONB;
+  allocation_amount NUMERIC;
+  remaining NUMERIC;
+  applied JSONB := '[]'::JSONB;
+  written_off JSONB := '[]'::JSONB;
+  disputed JSONB := '[]'::JSONB;
+  new_dispute_id UUID;
+  tenant_write_off_limit NUMERIC;
+BEGIN
+  IF p_resolution NOT IN ('none', 'write_off', 'dispute') THEN
+    RAISE EXCEPTION 'Unknown resolution "%"', p_resolution;
+  END IF;
+
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  IF p_match_method NOT IN ('reference', 'amount', 'manual', 'suggestion') THEN
+    RAISE EXCEPTION 'Unknown match method "%"', p_match_method;
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  SELECT matching_settings.write_off_limit INTO tenant_write_off_limit
+  FROM public.matching_settings
+  WHERE tenant_id = payment_row.tenant_id;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID AND tenant_id = payment_row.tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice % not found', allocation->>'invoice_id';
+    END IF;
+
+    IF invoice_row.status NOT IN ('open', 'partially_paid', 'overdue') THEN
+      RAISE EXCEPTION 'Invoice % is not open', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for invoice % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for invoice % exceeds its open balance', invoice_row.invoice_number;
+    END IF;
+
+    INSERT INTO public.payment_applications (tenant_id, payment_id, invoice_id, amount_applied, match_method, applied_by)
+    VALUES (payment_row.tenant_id, p_payment_id, invoice_row.invoice_id, allocation_amount, p_match_method, auth.uid());
+
+    applied := applied || jsonb_build_object(
+      'invoice_id', invoice_row.invoice_id,
+      'invoice_number', invoice_row.invoice_number,
+      'amount_applied', allocation_amount
+    );
+
+    remaining := invoice_row.open_balance - allocation_amount;
+    CONTINUE WHEN remaining <= 0.005 OR p_resolution = 'none';
+
+    IF p_resolution = 'write_off' THEN
+      IF tenant_write_off_limit IS NOT NULL AND remaining > tenant_write_off_limit + 0.005 THEN
+        RAISE EXCEPTION 'Write-off of % on invoice % exceeds the limit of %', remaining, invoice_row.invoice_number, tenant_write_off_limit;
+      END IF;
+
+      INSERT INTO public.invoice_write_offs (tenant_id, invoice_id, payment_id, amount, reason, created_by)
+      VALUES (payment_row.tenant_id, invoice_row.invoice_id, p_payment_id, remaining, p_reason, auth.uid());
+
+      written_off := written_off || jsonb_build_object(
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount', remaining
+      );
+    ELSE
+      INSERT INTO public.disputes (tenant_id, invoice_id, disputed_amount, reason, status)
+      VALUES (
+        payment_row.tenant_id,
+        invoice_row.invoice_id,
+        remaining,
+        COALESCE(p_reason, 'Short payment'),
+        'new'
+      )
+      RETURNING disputes.dispute_id INTO new_dispute_id;
+
+      UPDATE public.invoices SET status = 'disputed' WHERE invoice_id = invoice_row.invoice_id;
+
+      disputed := disputed || jsonb_build_object(
+        'dispute_id', new_dispute_id,
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'disputed_amount', remaining
+      );
+    END IF;
+  END LOOP;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_status', payment_row.status,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied,
+    'applications', applied,
+    'write_offs', written_off,
+    'disputes', disputed
+  );
+END;
+$$;
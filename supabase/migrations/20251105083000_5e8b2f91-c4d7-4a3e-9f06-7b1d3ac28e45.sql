@@ -0,0 +1,282 @@
+-- Applications and write-offs are reversed, never deleted, so the ledger keeps its history
+ALTER TABLE public.payment_applications
+  ADD COLUMN invoice_status_before TEXT,
+  ADD COLUMN reversed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reversal_reason TEXT;
+
+ALTER TABLE public.invoice_write_offs
+  ADD COLUMN reversed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX payment_applications_active_payment_idx
+  ON public.payment_applications (payment_id)
+  WHERE reversed_at IS NULL;
+
+CREATE POLICY "Users can update their tenant's payment applications"
+ON public.payment_applications
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can update their tenant's write-offs"
+ON public.invoice_write_offs
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Remember what the invoice looked like before it was first paid, so a reversal can restore it
+CREATE OR REPLACE FUNCTION public.capture_invoice_status_before()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT status INTO NEW.invoice_status_before
+  FROM public.invoices WHERE invoice_id = NEW.invoice_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_applications_capture_invoice_status
+BEFORE INSERT ON public.payment_applications
+FOR EACH ROW EXECUTE FUNCTION public.capture_invoice_status_before();
+
+-- Reversed rows no longer count towards either balance
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  paid NUMERIC;
+  written_off NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount_applied), 0) INTO paid
+  FROM public.payment_applications WHERE invoice_id = p_invoice_id AND reversed_at IS NULL;
+
+  SELECT COALESCE(SUM(amount), 0) INTO written_off
+  FROM public.invoice_write_offs WHERE invoice_id = p_invoice_id AND reversed_at IS NULL;
+
+  UPDATE public.invoices
+  SET amount_paid = paid,
+      amount_written_off = written_off,
+      status = CASE
+        WHEN amount - paid - written_off <= 0.005 THEN 'paid'
+        WHEN status = 'disputed' THEN 'disputed'
+        WHEN paid > 0 THEN 'partially_paid'
+        WHEN status IN ('paid', 'partially_paid') THEN 'open'
+        ELSE status
+      END
+  WHERE invoice_id = p_invoice_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoices WHERE invoice_id = p_invoice_id AND open_balance < -0.005
+  ) THEN
+    RAISE EXCEPTION 'Applications and write-offs exceed the amount of invoice %', p_invoice_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_payment_balance(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  applied NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount_applied), 0) INTO applied
+  FROM public.payment_applications WHERE payment_id = p_payment_id AND reversed_at IS NULL;
+
+  UPDATE public.payments
+  SET amount_applied = applied,
+      status = CASE
+        WHEN amount_received - applied <= 0.005 THEN 'matched'
+        WHEN applied > 0 THEN 'partially_applied'
+        WHEN status IN ('matched', 'partially_applied') THEN 'unmatched'
+        ELSE status
+      END
+  WHERE payment_id = p_payment_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments WHERE payment_id = p_payment_id AND amount_applied > amount_received + 0.005
+  ) THEN
+    RAISE EXCEPTION 'Applications exceed the amount received on payment %', p_payment_id;
+  END IF;
+END;
+$$;
+
+-- Every application and reversal, with who did it, for the Cash Application history
+CREATE TABLE public.payment_match_events (
+  event_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES public.payments(payment_id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES public.invoices(invoice_id) ON DELETE SET NULL,
+  application_id UUID REFERENCES public.payment_applications(application_id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('applied', 'reversed')),
+  amount NUMERIC NOT NULL,
+  match_method TEXT,
+  reason TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Profiles are private to their owner, so the actor's email is kept with the event
+  actor_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX payment_match_events_payment_idx
+  ON public.payment_match_events (payment_id, created_at);
+
+ALTER TABLE public.payment_match_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's match events"
+ON public.payment_match_events
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert match events for their tenant"
+ON public.payment_match_events
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE OR REPLACE FUNCTION public.record_application_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.payment_match_events (
+      tenant_id, payment_id, invoice_id, application_id, event_type, amount, match_method, actor_id, actor_email
+    )
+    VALUES (
+      NEW.tenant_id, NEW.payment_id, NEW.invoice_id, NEW.application_id, 'applied', NEW.amount_applied,
+      NEW.match_method, auth.uid(), (SELECT email FROM public.profiles WHERE id = auth.uid())
+    );
+  ELSIF OLD.reversed_at IS NULL AND NEW.reversed_at IS NOT NULL THEN
+    INSERT INTO public.payment_match_events (
+      tenant_id, payment_id, invoice_id, application_id, event_type, amount, match_method, reason, actor_id, actor_email
+    )
+    VALUES (
+      NEW.tenant_id, NEW.payment_id, NEW.invoice_id, NEW.application_id, 'reversed', NEW.amount_applied,
+      NEW.match_method, NEW.reversal_reason, auth.uid(), (SELECT email FROM public.profiles WHERE id = auth.uid())
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER payment_applications_record_event
+AFTER INSERT OR UPDATE OF reversed_at ON public.payment_applications
+FOR EACH ROW EXECUTE FUNCTION public.record_application_event();
+
+-- Existing applications start the history
+INSERT INTO public.payment_match_events (
+  tenant_id, payment_id, invoice_id, application_id, event_type, amount, match_method, actor_id, created_at
+)
+SELECT tenant_id, payment_id, invoice_id, application_id, 'applied', amount_applied, match_method, applied_by, applied_at
+FROM public.payment_applications;
+
+-- Reverses a payment's applications (all of them, or the ones listed) together with the
+-- write-offs booked with them. Invoices with nothing else applied go back to the status they
+-- had before they were first paid, and the payment returns to unmatched.
+CREATE OR REPLACE FUNCTION public.unapply_payment(
+  p_payment_id UUID,
+  p_reason TEXT,
+  p_application_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  application_row public.payment_applications%ROWTYPE;
+  affected_invoices UUID[] := '{}';
+  reversed JSONB := '[]'::JSONB;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse a match';
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  FOR application_row IN
+    SELECT * FROM public.payment_applications
+    WHERE payment_id = p_payment_id
+      AND reversed_at IS NULL
+      AND (p_application_ids IS NULL OR application_id = ANY (p_application_ids))
+    ORDER BY applied_at
+    FOR UPDATE
+  LOOP
+    UPDATE public.payment_applications
+    SET reversed_at = now(),
+        reversed_by = auth.uid(),
+        reversal_reason = btrim(p_reason)
+    WHERE application_id = application_row.application_id;
+
+    UPDATE public.invoice_write_offs
+    SET reversed_at = now(),
+        reversed_by = auth.uid()
+    WHERE payment_id = p_payment_id
+      AND invoice_id = application_row.invoice_id
+      AND reversed_at IS NULL;
+
+    affected_invoices := array_append(affected_invoices, application_row.invoice_id);
+
+    reversed := reversed || jsonb_build_object(
+      'application_id', application_row.application_id,
+      'invoice_id', application_row.invoice_id,
+      'invoice_number', (SELECT invoice_number FROM public.invoices WHERE invoice_id = application_row.invoice_id),
+      'amount_applied', application_row.amount_applied
+    );
+  END LOOP;
+
+  IF jsonb_array_length(reversed) = 0 THEN
+    RAISE EXCEPTION 'Payment has no applications to reverse';
+  END IF;
+
+  -- Status before the earliest application, for invoices now carrying nothing at all
+  UPDATE public.invoices AS invoice
+  SET status = first_application.invoice_status_before
+  FROM (
+    SELECT DISTINCT ON (invoice_id) invoice_id, invoice_status_before
+    FROM public.payment_applications
+    WHERE invoice_id = ANY (affected_invoices)
+    ORDER BY invoice_id, applied_at
+  ) AS first_application
+  WHERE invoice.invoice_id = first_application.invoice_id
+    AND invoice.amount_paid = 0
+    AND invoice.amount_written_off = 0
+    AND invoice.status = 'open'
+    AND first_application.invoice_status_before IN ('open', 'overdue');
+
+  -- Keep the reversed invoices out of automatic matching for this payment
+  UPDATE public.payments
+  SET matched_invoice_id = CASE WHEN matched_invoice_id = ANY (affected_invoices) THEN NULL ELSE matched_invoice_id END,
+      match_evidence = COALESCE(match_evidence, '{}'::JSONB) || jsonb_build_object(
+        'reversed_invoice_ids',
+        COALESCE(match_evidence->'reversed_invoice_ids', '[]'::JSONB) || to_jsonb(affected_invoices)
+      )
+  WHERE payment_id = p_payment_id;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_status', payment_row.status,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied,
+    'reversed', reversed
+  );
+END;
+$$;
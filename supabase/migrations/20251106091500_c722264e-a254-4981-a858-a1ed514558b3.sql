@@ -0,0 +1,143 @@
+-- Short-payment classification and disputes raised from payment matching
+ALTER TABLE public.disputes
+  ADD COLUMN payment_id UUID REFERENCES public.payments(payment_id) ON DELETE SET NULL,
+  ADD COLUMN difference_type TEXT CHECK (
+    difference_type IN ('early_pay_discount', 'freight_deduction', 'tax_mismatch', 'short_payment')
+  );
+
+CREATE INDEX disputes_payment_id_idx ON public.disputes (payment_id) WHERE payment_id IS NOT NULL;
+
+-- Unexplained short-payments at or above this amount are disputed instead of written off when a
+-- payment is applied automatically; NULL never opens disputes automatically
+ALTER TABLE public.matching_settings
+  ADD COLUMN auto_dispute_threshold NUMERIC(12, 2) CHECK (auto_dispute_threshold >= 0);
+
+-- Re-created so disputes opened for a short-payment keep the payment that caused them
+CREATE OR REPLACE FUNCTION public.apply_payment(
+  p_payment_id UUID,
+  p_allocations JSONB,
+  p_resolution TEXT DEFAULT 'none',
+  p_reason TEXT DEFAULT NULL,
+  p_match_method TEXT DEFAULT 'manual'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  invoice_row public.invoices%ROWTYPE;
+  allocation JSONB;
+  allocation_amount NUMERIC;
+  remaining NUMERIC;
+  applied JSONB := '[]'::JSONB;
+  written_off JSONB := '[]'::JSONB;
+  disputed JSONB := '[]'::JSONB;
+  new_dispute_id UUID;
+  tenant_write_off_limit NUMERIC;
+BEGIN
+  IF p_resolution NOT IN ('none', 'write_off', 'dispute') THEN
+    RAISE EXCEPTION 'Unknown resolution "%"', p_resolution;
+  END IF;
+
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  IF p_match_method NOT IN ('reference', 'amount', 'manual', 'suggestion') THEN
+    RAISE EXCEPTION 'Unknown match method "%"', p_match_method;
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  SELECT matching_settings.write_off_limit INTO tenant_write_off_limit
+  FROM public.matching_settings
+  WHERE tenant_id = payment_row.tenant_id;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID AND tenant_id = payment_row.tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice % not found', allocation->>'invoice_id';
+    END IF;
+
+    IF invoice_row.status NOT IN ('open', 'partially_paid', 'overdue') THEN
+      RAISE EXCEPTION 'Invoice % is not open', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for invoice % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for invoice % exceeds its open balance', invoice_row.invoice_number;
+    END IF;
+
+    INSERT INTO public.payment_applications (tenant_id, payment_id, invoice_id, amount_applied, match_method, applied_by)
+    VALUES (payment_row.tenant_id, p_payment_id, invoice_row.invoice_id, allocation_amount, p_match_method, auth.uid());
+
+    applied := applied || jsonb_build_object(
+      'invoice_id', invoice_row.invoice_id,
+      'invoice_number', invoice_row.invoice_number,
+      'amount_applied', allocation_amount
+    );
+
+    remaining := invoice_row.open_balance - allocation_amount;
+    CONTINUE WHEN remaining <= 0.005 OR p_resolution = 'none';
+
+    IF p_resolution = 'write_off' THEN
+      IF tenant_write_off_limit IS NOT NULL AND remaining > tenant_write_off_limit + 0.005 THEN
+        RAISE EXCEPTION 'Write-off of % on invoice % exceeds the limit of %', remaining, invoice_row.invoice_number, tenant_write_off_limit;
+      END IF;
+
+      INSERT INTO public.invoice_write_offs (tenant_id, invoice_id, payment_id, amount, reason, created_by)
+      VALUES (payment_row.tenant_id, invoice_row.invoice_id, p_payment_id, remaining, p_reason, auth.uid());
+
+      written_off := written_off || jsonb_build_object(
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount', remaining
+      );
+    ELSE
+      INSERT INTO public.disputes (tenant_id, invoice_id, payment_id, disputed_amount, reason, status)
+      VALUES (
+        payment_row.tenant_id,
+        invoice_row.invoice_id,
+        p_payment_id,
+        remaining,
+        COALESCE(p_reason, 'Short payment'),
+        'new'
+      )
+      RETURNING disputes.dispute_id INTO new_dispute_id;
+
+      UPDATE public.invoices SET status = 'disputed' WHERE invoice_id = invoice_row.invoice_id;
+
+      disputed := disputed || jsonb_build_object(
+        'dispute_id', new_dispute_id,
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'disputed_amount', remaining
+      );
+    END IF;
+  END LOOP;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_status', payment_row.status,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied,
+    'applications', applied,
+    'write_offs', written_off,
+    'disputes', disputed
+  );
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Lockbox checks keep where they sit in the bank's transmission and what their MICR line reads
+ALTER TABLE public.payments
+  ADD COLUMN lockbox_number TEXT,
+  ADD COLUMN lockbox_batch TEXT,
+  ADD COLUMN lockbox_item INTEGER,
+  ADD COLUMN check_number TEXT,
+  ADD COLUMN micr_routing_number TEXT,
+  ADD COLUMN micr_account_number TEXT,
+  -- Key the bank's check image archive is indexed by (lockbox, deposit date, batch, item)
+  ADD COLUMN check_image_key TEXT;
+
+CREATE INDEX payments_check_number_idx
+  ON public.payments (tenant_id, check_number)
+  WHERE check_number IS NOT NULL;
@@ -0,0 +1,193 @@
+-- Cash left over on a payment (an overpayment, or a residual nobody could place) is held on
+-- account for the payer and applied to later invoices through the normal application ledger
+ALTER TABLE public.payments
+  ADD COLUMN on_account_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN on_account_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN on_account_reason TEXT CHECK (on_account_reason IN ('overpayment', 'residual'));
+
+ALTER TABLE public.payments DROP CONSTRAINT payments_status_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_status_check
+  CHECK (status IN ('unmatched', 'partially_applied', 'matched', 'needs_review', 'on_account'));
+
+CREATE INDEX payments_on_account_customer_idx
+  ON public.payments (customer_id, payment_date)
+  WHERE on_account_at IS NOT NULL;
+
+-- A payment held on account stays there until it is used up
+CREATE OR REPLACE FUNCTION public.refresh_payment_balance(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  applied NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount_applied), 0) INTO applied
+  FROM public.payment_applications WHERE payment_id = p_payment_id AND reversed_at IS NULL;
+
+  UPDATE public.payments
+  SET amount_applied = applied,
+      status = CASE
+        WHEN amount_received - applied <= 0.005 THEN 'matched'
+        WHEN on_account_at IS NOT NULL THEN 'on_account'
+        WHEN applied > 0 THEN 'partially_applied'
+        WHEN status IN ('matched', 'partially_applied') THEN 'unmatched'
+        ELSE status
+      END
+  WHERE payment_id = p_payment_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments WHERE payment_id = p_payment_id AND amount_applied > amount_received + 0.005
+  ) THEN
+    RAISE EXCEPTION 'Applications exceed the amount received on payment %', p_payment_id;
+  END IF;
+END;
+$$;
+
+-- On-account credit per customer; the dashboard nets it against open receivables
+CREATE VIEW public.customer_credit_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  tenant_id,
+  customer_id,
+  SUM(amount_received - amount_applied) AS unapplied_amount,
+  COUNT(*) AS payment_count,
+  MIN(payment_date) AS oldest_payment_date
+FROM public.payments
+WHERE on_account_at IS NOT NULL
+  AND customer_id IS NOT NULL
+  AND amount_received - amount_applied > 0.005
+GROUP BY tenant_id, customer_id;
+
+-- Holds whatever is left of a payment on account for its customer
+CREATE OR REPLACE FUNCTION public.place_on_account(
+  p_payment_id UUID,
+  p_customer_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT 'residual'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  credit_customer_id UUID;
+BEGIN
+  IF p_reason NOT IN ('overpayment', 'residual') THEN
+    RAISE EXCEPTION 'Unknown on-account reason "%"', p_reason;
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  credit_customer_id := COALESCE(p_customer_id, payment_row.customer_id);
+  IF credit_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Payment % has no identified customer to hold the credit for', p_payment_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.customers
+    WHERE customer_id = credit_customer_id AND tenant_id = payment_row.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Customer % not found', credit_customer_id;
+  END IF;
+
+  IF payment_row.amount_received - payment_row.amount_applied <= 0.005 THEN
+    RAISE EXCEPTION 'Payment % has nothing left to hold on account', p_payment_id;
+  END IF;
+
+  UPDATE public.payments
+  SET customer_id = credit_customer_id,
+      on_account_at = now(),
+      on_account_by = auth.uid(),
+      on_account_reason = p_reason,
+      status = 'on_account'
+  WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'customer_id', credit_customer_id,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied
+  );
+END;
+$$;
+
+-- Applies a customer's on-account credit to their invoices, drawing on the oldest payments
+-- first. Every draw goes through apply_payment, so balances, history and reversal work as
+-- for any other application.
+CREATE OR REPLACE FUNCTION public.apply_on_account_credit(
+  p_customer_id UUID,
+  p_allocations JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  allocation JSONB;
+  invoice_row public.invoices%ROWTYPE;
+  credit_row RECORD;
+  wanted NUMERIC;
+  available_credit NUMERIC;
+  draw NUMERIC;
+  applied JSONB := '[]'::JSONB;
+BEGIN
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  SELECT COALESCE(SUM(amount_received - amount_applied), 0) INTO available_credit
+  FROM public.payments
+  WHERE customer_id = p_customer_id AND on_account_at IS NOT NULL;
+
+  IF (SELECT SUM(ROUND((value->>'amount')::NUMERIC, 2)) FROM jsonb_array_elements(p_allocations)) > available_credit + 0.005 THEN
+    RAISE EXCEPTION 'Allocations exceed the customer''s on-account credit of %', available_credit;
+  END IF;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    wanted := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row FROM public.invoices WHERE invoice_id = (allocation->>'invoice_id')::UUID;
+    IF NOT FOUND OR invoice_row.customer_id <> p_customer_id THEN
+      RAISE EXCEPTION 'Invoice % does not belong to this customer', allocation->>'invoice_id';
+    END IF;
+
+    FOR credit_row IN
+      SELECT payment_id, amount_received - amount_applied AS unapplied
+      FROM public.payments
+      WHERE customer_id = p_customer_id
+        AND on_account_at IS NOT NULL
+        AND amount_received - amount_applied > 0.005
+      ORDER BY payment_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN wanted <= 0.005;
+
+      draw := LEAST(wanted, credit_row.unapplied);
+      applied := applied || (
+        public.apply_payment(
+          credit_row.payment_id,
+          jsonb_build_array(jsonb_build_object('invoice_id', invoice_row.invoice_id, 'amount', draw)),
+          'none',
+          NULL,
+          'manual'
+        )->'applications'
+      );
+      wanted := wanted - draw;
+    END LOOP;
+  END LOOP;
+
+  SELECT COALESCE(SUM(amount_received - amount_applied), 0) INTO available_credit
+  FROM public.payments
+  WHERE customer_id = p_customer_id AND on_account_at IS NOT NULL;
+
+  RETURN jsonb_build_object(
+    'applications', applied,
+    'remaining_credit', available_credit
+  );
+END;
+$$;
@@ -0,0 +1,740 @@
+-- Credit memos are negative documents in the invoices table, either issued against an original
+-- invoice or standalone. Their credit is used up through their own ledger, netted against the
+-- customer's invoices on their own, together with a payment, or to resolve a dispute.
+ALTER TABLE public.invoices
+  ADD COLUMN document_type TEXT NOT NULL DEFAULT 'invoice' CHECK (document_type IN ('invoice', 'credit_memo')),
+  ADD COLUMN original_invoice_id UUID REFERENCES public.invoices(invoice_id) ON DELETE SET NULL,
+  ADD COLUMN credit_reason TEXT,
+  -- Credit received on an invoice, or credit used up from a credit memo (negative)
+  ADD COLUMN amount_credited NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_credit_memo_amount_check
+  CHECK (document_type = 'invoice' OR amount < 0);
+
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_original_invoice_check
+  CHECK (original_invoice_id IS NULL OR document_type = 'credit_memo');
+
+ALTER TABLE public.invoices DROP COLUMN open_balance;
+ALTER TABLE public.invoices ADD COLUMN open_balance NUMERIC
+  GENERATED ALWAYS AS (amount - amount_paid - amount_written_off - amount_credited) STORED;
+
+CREATE INDEX invoices_credit_memo_customer_idx
+  ON public.invoices (customer_id, due_date)
+  WHERE document_type = 'credit_memo';
+
+CREATE INDEX invoices_original_invoice_idx
+  ON public.invoices (original_invoice_id)
+  WHERE original_invoice_id IS NOT NULL;
+
+-- A dispute settled by crediting the customer keeps the credit memo it was resolved with
+ALTER TABLE public.disputes
+  ADD COLUMN credit_memo_id UUID REFERENCES public.invoices(invoice_id) ON DELETE SET NULL;
+
+CREATE TABLE public.credit_memo_applications (
+  credit_application_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  credit_memo_id UUID NOT NULL REFERENCES public.invoices(invoice_id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(invoice_id) ON DELETE CASCADE,
+  -- Set when the credit was netted against the invoice together with a payment
+  payment_id UUID REFERENCES public.payments(payment_id) ON DELETE SET NULL,
+  dispute_id UUID REFERENCES public.disputes(dispute_id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  applied_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  applied_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  reversed_at TIMESTAMP WITH TIME ZONE,
+  reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX credit_memo_applications_credit_memo_idx ON public.credit_memo_applications (credit_memo_id);
+CREATE INDEX credit_memo_applications_invoice_idx ON public.credit_memo_applications (invoice_id);
+CREATE INDEX credit_memo_applications_payment_idx
+  ON public.credit_memo_applications (payment_id)
+  WHERE payment_id IS NOT NULL AND reversed_at IS NULL;
+
+ALTER TABLE public.credit_memo_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's credit memo applications"
+ON public.credit_memo_applications
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert credit memo applications for their tenant"
+ON public.credit_memo_applications
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can update their tenant's credit memo applications"
+ON public.credit_memo_applications
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Credit applied to an invoice reduces its balance like a payment; a credit memo is open until
+-- its (negative) balance is used up, and then reads as paid
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  paid NUMERIC;
+  written_off NUMERIC;
+  credited NUMERIC;
+  invoice_document_type TEXT;
+BEGIN
+  SELECT document_type INTO invoice_document_type FROM public.invoices WHERE invoice_id = p_invoice_id;
+
+  SELECT COALESCE(SUM(amount_applied), 0) INTO paid
+  FROM public.payment_applications WHERE invoice_id = p_invoice_id AND reversed_at IS NULL;
+
+  SELECT COALESCE(SUM(amount), 0) INTO written_off
+  FROM public.invoice_write_offs WHERE invoice_id = p_invoice_id AND reversed_at IS NULL;
+
+  IF invoice_document_type = 'credit_memo' THEN
+    SELECT -COALESCE(SUM(amount), 0) INTO credited
+    FROM public.credit_memo_applications WHERE credit_memo_id = p_invoice_id AND reversed_at IS NULL;
+
+    UPDATE public.invoices
+    SET amount_credited = credited,
+        status = CASE WHEN amount - credited >= -0.005 THEN 'paid' ELSE 'open' END
+    WHERE invoice_id = p_invoice_id;
+
+    IF EXISTS (
+      SELECT 1 FROM public.invoices WHERE invoice_id = p_invoice_id AND open_balance > 0.005
+    ) THEN
+      RAISE EXCEPTION 'Applications exceed the credit on credit memo %', p_invoice_id;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO credited
+  FROM public.credit_memo_applications WHERE invoice_id = p_invoice_id AND reversed_at IS NULL;
+
+  UPDATE public.invoices
+  SET amount_paid = paid,
+      amount_written_off = written_off,
+      amount_credited = credited,
+      status = CASE
+        WHEN amount - paid - written_off - credited <= 0.005 THEN 'paid'
+        WHEN status = 'disputed' THEN 'disputed'
+        WHEN paid > 0 OR credited > 0 THEN 'partially_paid'
+        WHEN status IN ('paid', 'partially_paid') THEN 'open'
+        ELSE status
+      END
+  WHERE invoice_id = p_invoice_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoices WHERE invoice_id = p_invoice_id AND open_balance < -0.005
+  ) THEN
+    RAISE EXCEPTION 'Applications, credits and write-offs exceed the amount of invoice %', p_invoice_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_credit_application_balances()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_invoice_balance(OLD.credit_memo_id);
+    PERFORM public.refresh_invoice_balance(OLD.invoice_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_invoice_balance(NEW.credit_memo_id);
+    PERFORM public.refresh_invoice_balance(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER credit_memo_applications_refresh_balances
+AFTER INSERT OR UPDATE OR DELETE ON public.credit_memo_applications
+FOR EACH ROW EXECUTE FUNCTION public.refresh_credit_application_balances();
+
+-- Issues a credit memo for a customer, optionally against one of their invoices. Credit issued
+-- against an invoice can never add up to more than the invoice itself, and can be applied to it
+-- straight away (up to what is still open on it).
+CREATE OR REPLACE FUNCTION public.issue_credit_memo(
+  p_customer_id UUID,
+  p_amount NUMERIC,
+  p_original_invoice_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_credit_memo_number TEXT DEFAULT NULL,
+  p_apply_to_original BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  customer_tenant_id UUID;
+  original_row public.invoices%ROWTYPE;
+  credit_amount NUMERIC := ROUND(p_amount, 2);
+  already_credited NUMERIC;
+  memo_count INTEGER;
+  memo_number TEXT := NULLIF(btrim(p_credit_memo_number), '');
+  memo_row public.invoices%ROWTYPE;
+BEGIN
+  IF credit_amount IS NULL OR credit_amount <= 0 THEN
+    RAISE EXCEPTION 'Credit memo amount must be positive';
+  END IF;
+
+  SELECT tenant_id INTO customer_tenant_id FROM public.customers WHERE customer_id = p_customer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF p_original_invoice_id IS NOT NULL THEN
+    SELECT * INTO original_row
+    FROM public.invoices
+    WHERE invoice_id = p_original_invoice_id AND tenant_id = customer_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR original_row.document_type <> 'invoice' THEN
+      RAISE EXCEPTION 'Invoice % not found', p_original_invoice_id;
+    END IF;
+
+    IF original_row.customer_id <> p_customer_id THEN
+      RAISE EXCEPTION 'Invoice % belongs to another customer', original_row.invoice_number;
+    END IF;
+
+    SELECT COALESCE(-SUM(amount), 0), COUNT(*) INTO already_credited, memo_count
+    FROM public.invoices
+    WHERE original_invoice_id = p_original_invoice_id AND document_type = 'credit_memo';
+
+    IF already_credited + credit_amount > original_row.amount + 0.005 THEN
+      RAISE EXCEPTION 'Credit memos for invoice % would exceed its amount of %', original_row.invoice_number, original_row.amount;
+    END IF;
+
+    memo_number := COALESCE(memo_number, 'CM-' || original_row.invoice_number || '-' || (memo_count + 1));
+  END IF;
+
+  memo_number := COALESCE(memo_number, 'CM-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(gen_random_uuid()::TEXT), 1, 6)));
+
+  INSERT INTO public.invoices (
+    tenant_id, customer_id, invoice_number, amount, due_date, status, document_type, original_invoice_id, credit_reason
+  )
+  VALUES (
+    customer_tenant_id, p_customer_id, memo_number, -credit_amount, CURRENT_DATE, 'open', 'credit_memo',
+    p_original_invoice_id, NULLIF(btrim(p_reason), '')
+  )
+  RETURNING * INTO memo_row;
+
+  IF p_apply_to_original AND p_original_invoice_id IS NOT NULL AND LEAST(credit_amount, original_row.open_balance) > 0 THEN
+    PERFORM public.apply_credit_memo(
+      memo_row.invoice_id,
+      jsonb_build_array(jsonb_build_object(
+        'invoice_id', p_original_invoice_id,
+        'amount', LEAST(credit_amount, original_row.open_balance)
+      ))
+    );
+    SELECT * INTO memo_row FROM public.invoices WHERE invoice_id = memo_row.invoice_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'credit_memo_id', memo_row.invoice_id,
+    'credit_memo_number', memo_row.invoice_number,
+    'amount', memo_row.amount,
+    'remaining_credit', -memo_row.open_balance,
+    'original_invoice_id', memo_row.original_invoice_id
+  );
+END;
+$$;
+
+-- Applies a credit memo's remaining credit to invoices of the same customer. Disputed invoices
+-- can take credit, since a credit memo is one way of settling the dispute.
+CREATE OR REPLACE FUNCTION public.apply_credit_memo(
+  p_credit_memo_id UUID,
+  p_allocations JSONB,
+  p_dispute_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  memo_row public.invoices%ROWTYPE;
+  invoice_row public.invoices%ROWTYPE;
+  allocation JSONB;
+  allocation_amount NUMERIC;
+  available_credit NUMERIC;
+  applied JSONB := '[]'::JSONB;
+BEGIN
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  SELECT * INTO memo_row FROM public.invoices WHERE invoice_id = p_credit_memo_id FOR UPDATE;
+  IF NOT FOUND OR memo_row.document_type <> 'credit_memo' THEN
+    RAISE EXCEPTION 'Credit memo % not found', p_credit_memo_id;
+  END IF;
+
+  available_credit := -memo_row.open_balance;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID AND tenant_id = memo_row.tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR invoice_row.document_type <> 'invoice' THEN
+      RAISE EXCEPTION 'Invoice % not found', allocation->>'invoice_id';
+    END IF;
+
+    IF invoice_row.customer_id <> memo_row.customer_id THEN
+      RAISE EXCEPTION 'Invoice % belongs to another customer', invoice_row.invoice_number;
+    END IF;
+
+    IF invoice_row.status NOT IN ('open', 'partially_paid', 'overdue', 'disputed') THEN
+      RAISE EXCEPTION 'Invoice % is not open', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for invoice % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for invoice % exceeds its open balance', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > available_credit + 0.005 THEN
+      RAISE EXCEPTION 'Allocations exceed the remaining credit of % on credit memo %', available_credit, memo_row.invoice_number;
+    END IF;
+
+    INSERT INTO public.credit_memo_applications (tenant_id, credit_memo_id, invoice_id, dispute_id, amount, applied_by)
+    VALUES (memo_row.tenant_id, memo_row.invoice_id, invoice_row.invoice_id, p_dispute_id, allocation_amount, auth.uid());
+
+    available_credit := available_credit - allocation_amount;
+    applied := applied || jsonb_build_object(
+      'invoice_id', invoice_row.invoice_id,
+      'invoice_number', invoice_row.invoice_number,
+      'amount', allocation_amount
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'credit_memo_id', memo_row.invoice_id,
+    'credit_memo_number', memo_row.invoice_number,
+    'applications', applied,
+    'remaining_credit', available_credit
+  );
+END;
+$$;
+
+-- Settles a dispute by crediting the customer: a credit memo for the disputed amount (or the
+-- amount agreed) is issued against the invoice and applied to it, and the dispute is resolved.
+-- The invoice leaves the disputed status once none of its disputes are still open.
+CREATE OR REPLACE FUNCTION public.resolve_dispute_with_credit_memo(
+  p_dispute_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  dispute_row public.disputes%ROWTYPE;
+  invoice_row public.invoices%ROWTYPE;
+  credit_amount NUMERIC;
+  memo JSONB;
+BEGIN
+  SELECT * INTO dispute_row FROM public.disputes WHERE dispute_id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute % not found', p_dispute_id;
+  END IF;
+
+  IF dispute_row.status = 'resolved' THEN
+    RAISE EXCEPTION 'Dispute is already resolved';
+  END IF;
+
+  SELECT * INTO invoice_row FROM public.invoices WHERE invoice_id = dispute_row.invoice_id;
+
+  credit_amount := ROUND(COALESCE(p_amount, dispute_row.disputed_amount), 2);
+  IF credit_amount > invoice_row.open_balance + 0.005 THEN
+    RAISE EXCEPTION 'Credit of % exceeds the open balance of % on invoice %', credit_amount, invoice_row.open_balance, invoice_row.invoice_number;
+  END IF;
+
+  memo := public.issue_credit_memo(
+    invoice_row.customer_id,
+    credit_amount,
+    invoice_row.invoice_id,
+    COALESCE(NULLIF(btrim(p_reason), ''), dispute_row.reason, 'Dispute resolution')
+  );
+
+  PERFORM public.apply_credit_memo(
+    (memo->>'credit_memo_id')::UUID,
+    jsonb_build_array(jsonb_build_object('invoice_id', invoice_row.invoice_id, 'amount', credit_amount)),
+    p_dispute_id
+  );
+
+  UPDATE public.disputes
+  SET status = 'resolved',
+      credit_memo_id = (memo->>'credit_memo_id')::UUID
+  WHERE dispute_id = p_dispute_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.disputes WHERE invoice_id = invoice_row.invoice_id AND status <> 'resolved'
+  ) THEN
+    UPDATE public.invoices SET status = 'open' WHERE invoice_id = invoice_row.invoice_id AND status = 'disputed';
+    PERFORM public.refresh_invoice_balance(invoice_row.invoice_id);
+  END IF;
+
+  SELECT * INTO invoice_row FROM public.invoices WHERE invoice_id = invoice_row.invoice_id;
+
+  RETURN memo || jsonb_build_object(
+    'dispute_id', p_dispute_id,
+    'invoice_status', invoice_row.status,
+    'invoice_open_balance', invoice_row.open_balance
+  );
+END;
+$$;
+
+-- Re-created so credit memos listed in the allocations are netted against the same customer's
+-- invoices before the payment is used: a payment of A + B - C applies C's credit to A and B and
+-- the payment to the rest
+CREATE OR REPLACE FUNCTION public.apply_payment(
+  p_payment_id UUID,
+  p_allocations JSONB,
+  p_resolution TEXT DEFAULT 'none',
+  p_reason TEXT DEFAULT NULL,
+  p_match_method TEXT DEFAULT 'manual'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  invoice_row public.invoices%ROWTYPE;
+  allocation JSONB;
+  allocation_amount NUMERIC;
+  remaining NUMERIC;
+  applied JSONB := '[]'::JSONB;
+  written_off JSONB := '[]'::JSONB;
+  disputed JSONB := '[]'::JSONB;
+  credited JSONB := '[]'::JSONB;
+  new_dispute_id UUID;
+  tenant_write_off_limit NUMERIC;
+  credit_ids UUID[] := '{}';
+  credit_customers UUID[] := '{}';
+  credit_numbers TEXT[] := '{}';
+  credit_remaining NUMERIC[] := '{}';
+  credit_index INTEGER;
+  credit_draw NUMERIC;
+  from_credit NUMERIC;
+BEGIN
+  IF p_resolution NOT IN ('none', 'write_off', 'dispute') THEN
+    RAISE EXCEPTION 'Unknown resolution "%"', p_resolution;
+  END IF;
+
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  IF p_match_method NOT IN ('reference', 'amount', 'manual', 'suggestion') THEN
+    RAISE EXCEPTION 'Unknown match method "%"', p_match_method;
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  SELECT matching_settings.write_off_limit INTO tenant_write_off_limit
+  FROM public.matching_settings
+  WHERE tenant_id = payment_row.tenant_id;
+
+  -- Credit memos first, so their credit is available to every invoice in the allocations
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID
+      AND tenant_id = payment_row.tenant_id
+      AND document_type = 'credit_memo'
+    FOR UPDATE;
+
+    CONTINUE WHEN NOT FOUND;
+
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    IF invoice_row.status <> 'open' THEN
+      RAISE EXCEPTION 'Credit memo % has no credit left', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for credit memo % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > -invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for credit memo % exceeds its remaining credit', invoice_row.invoice_number;
+    END IF;
+
+    credit_ids := array_append(credit_ids, invoice_row.invoice_id);
+    credit_customers := array_append(credit_customers, invoice_row.customer_id);
+    credit_numbers := array_append(credit_numbers, invoice_row.invoice_number);
+    credit_remaining := array_append(credit_remaining, allocation_amount);
+  END LOOP;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID AND tenant_id = payment_row.tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice % not found', allocation->>'invoice_id';
+    END IF;
+
+    CONTINUE WHEN invoice_row.document_type = 'credit_memo';
+
+    IF invoice_row.status NOT IN ('open', 'partially_paid', 'overdue') THEN
+      RAISE EXCEPTION 'Invoice % is not open', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for invoice % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for invoice % exceeds its open balance', invoice_row.invoice_number;
+    END IF;
+
+    -- The customer's credit memos cover what they can; the payment covers the rest
+    from_credit := 0;
+    FOR credit_index IN 1 .. COALESCE(array_length(credit_ids, 1), 0)
+    LOOP
+      CONTINUE WHEN credit_customers[credit_index] IS DISTINCT FROM invoice_row.customer_id;
+
+      credit_draw := LEAST(credit_remaining[credit_index], allocation_amount - from_credit);
+      CONTINUE WHEN credit_draw <= 0;
+
+      INSERT INTO public.credit_memo_applications (tenant_id, credit_memo_id, invoice_id, payment_id, amount, applied_by)
+      VALUES (payment_row.tenant_id, credit_ids[credit_index], invoice_row.invoice_id, p_payment_id, credit_draw, auth.uid());
+
+      credit_remaining[credit_index] := credit_remaining[credit_index] - credit_draw;
+      from_credit := from_credit + credit_draw;
+
+      credited := credited || jsonb_build_object(
+        'credit_memo_id', credit_ids[credit_index],
+        'credit_memo_number', credit_numbers[credit_index],
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount', credit_draw
+      );
+    END LOOP;
+
+    IF allocation_amount - from_credit > 0 THEN
+      INSERT INTO public.payment_applications (tenant_id, payment_id, invoice_id, amount_applied, match_method, applied_by)
+      VALUES (payment_row.tenant_id, p_payment_id, invoice_row.invoice_id, allocation_amount - from_credit, p_match_method, auth.uid());
+
+      applied := applied || jsonb_build_object(
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount_applied', allocation_amount - from_credit
+      );
+    END IF;
+
+    remaining := invoice_row.open_balance - allocation_amount;
+    CONTINUE WHEN remaining <= 0.005 OR p_resolution = 'none';
+
+    IF p_resolution = 'write_off' THEN
+      IF tenant_write_off_limit IS NOT NULL AND remaining > tenant_write_off_limit + 0.005 THEN
+        RAISE EXCEPTION 'Write-off of % on invoice % exceeds the limit of %', remaining, invoice_row.invoice_number, tenant_write_off_limit;
+      END IF;
+
+      INSERT INTO public.invoice_write_offs (tenant_id, invoice_id, payment_id, amount, reason, created_by)
+      VALUES (payment_row.tenant_id, invoice_row.invoice_id, p_payment_id, remaining, p_reason, auth.uid());
+
+      written_off := written_off || jsonb_build_object(
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount', remaining
+      );
+    ELSE
+      INSERT INTO public.disputes (tenant_id, invoice_id, payment_id, disputed_amount, reason, status)
+      VALUES (
+        payment_row.tenant_id,
+        invoice_row.invoice_id,
+        p_payment_id,
+        remaining,
+        COALESCE(p_reason, 'Short payment'),
+        'new'
+      )
+      RETURNING disputes.dispute_id INTO new_dispute_id;
+
+      UPDATE public.invoices SET status = 'disputed' WHERE invoice_id = invoice_row.invoice_id;
+
+      disputed := disputed || jsonb_build_object(
+        'dispute_id', new_dispute_id,
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'disputed_amount', remaining
+      );
+    END IF;
+  END LOOP;
+
+  FOR credit_index IN 1 .. COALESCE(array_length(credit_ids, 1), 0)
+  LOOP
+    IF credit_remaining[credit_index] > 0.005 THEN
+      RAISE EXCEPTION 'Credit memo % has % left over; it can only be netted against the same customer''s invoices', credit_numbers[credit_index], credit_remaining[credit_index];
+    END IF;
+  END LOOP;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_status', payment_row.status,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied,
+    'applications', applied,
+    'credits', credited,
+    'write_offs', written_off,
+    'disputes', disputed
+  );
+END;
+$$;
+
+-- Re-created so reversing a payment also gives back the credit netted in with it
+CREATE OR REPLACE FUNCTION public.unapply_payment(
+  p_payment_id UUID,
+  p_reason TEXT,
+  p_application_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  application_row public.payment_applications%ROWTYPE;
+  credit_row public.credit_memo_applications%ROWTYPE;
+  affected_invoices UUID[] := '{}';
+  reversed JSONB := '[]'::JSONB;
+  reversed_credits JSONB := '[]'::JSONB;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse a match';
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  FOR application_row IN
+    SELECT * FROM public.payment_applications
+    WHERE payment_id = p_payment_id
+      AND reversed_at IS NULL
+      AND (p_application_ids IS NULL OR application_id = ANY (p_application_ids))
+    ORDER BY applied_at
+    FOR UPDATE
+  LOOP
+    UPDATE public.payment_applications
+    SET reversed_at = now(),
+        reversed_by = auth.uid(),
+        reversal_reason = btrim(p_reason)
+    WHERE application_id = application_row.application_id;
+
+    UPDATE public.invoice_write_offs
+    SET reversed_at = now(),
+        reversed_by = auth.uid()
+    WHERE payment_id = p_payment_id
+      AND invoice_id = application_row.invoice_id
+      AND reversed_at IS NULL;
+
+    affected_invoices := array_append(affected_invoices, application_row.invoice_id);
+
+    reversed := reversed || jsonb_build_object(
+      'application_id', application_row.application_id,
+      'invoice_id', application_row.invoice_id,
+      'invoice_number', (SELECT invoice_number FROM public.invoices WHERE invoice_id = application_row.invoice_id),
+      'amount_applied', application_row.amount_applied
+    );
+  END LOOP;
+
+  -- Credit netted in with the payment on the same invoices goes back to its credit memo
+  FOR credit_row IN
+    SELECT * FROM public.credit_memo_applications
+    WHERE payment_id = p_payment_id
+      AND reversed_at IS NULL
+      AND (p_application_ids IS NULL OR invoice_id = ANY (affected_invoices))
+    ORDER BY applied_at
+    FOR UPDATE
+  LOOP
+    UPDATE public.credit_memo_applications
+    SET reversed_at = now(),
+        reversed_by = auth.uid()
+    WHERE credit_application_id = credit_row.credit_application_id;
+
+    UPDATE public.invoice_write_offs
+    SET reversed_at = now(),
+        reversed_by = auth.uid()
+    WHERE payment_id = p_payment_id
+      AND invoice_id = credit_row.invoice_id
+      AND reversed_at IS NULL;
+
+    affected_invoices := array_append(affected_invoices, credit_row.invoice_id);
+
+    reversed_credits := reversed_credits || jsonb_build_object(
+      'credit_memo_id', credit_row.credit_memo_id,
+      'invoice_id', credit_row.invoice_id,
+      'amount', credit_row.amount
+    );
+  END LOOP;
+
+  IF jsonb_array_length(reversed) = 0 AND jsonb_array_length(reversed_credits) = 0 THEN
+    RAISE EXCEPTION 'Payment has no applications to reverse';
+  END IF;
+
+  -- Status before the earliest application, for invoices now carrying nothing at all
+  UPDATE public.invoices AS invoice
+  SET status = first_application.invoice_status_before
+  FROM (
+    SELECT DISTINCT ON (invoice_id) invoice_id, invoice_status_before
+    FROM public.payment_applications
+    WHERE invoice_id = ANY (affected_invoices)
+    ORDER BY invoice_id, applied_at
+  ) AS first_application
+  WHERE invoice.invoice_id = first_application.invoice_id
+    AND invoice.amount_paid = 0
+    AND invoice.amount_written_off = 0
+    AND invoice.amount_credited = 0
+    AND invoice.status = 'open'
+    AND first_application.invoice_status_before IN ('open', 'overdue');
+
+  -- Keep the reversed invoices out of automatic matching for this payment
+  UPDATE public.payments
+  SET matched_invoice_id = CASE WHEN matched_invoice_id = ANY (affected_invoices) THEN NULL ELSE matched_invoice_id END,
+      match_evidence = COALESCE(match_evidence, '{}'::JSONB) || jsonb_build_object(
+        'reversed_invoice_ids',
+        COALESCE(match_evidence->'reversed_invoice_ids', '[]'::JSONB) || to_jsonb(affected_invoices)
+      )
+  WHERE payment_id = p_payment_id;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_status', payment_row.status,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied,
+    'reversed', reversed,
+    'reversed_credits', reversed_credits
+  );
+END;
+$$;
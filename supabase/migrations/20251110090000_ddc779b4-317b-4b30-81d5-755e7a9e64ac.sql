@@ -0,0 +1,606 @@
+-- Invoices and payments carry their own ISO 4217 currency; the tenant reports in its functional
+-- currency, converting with rates loaded from file
+ALTER TABLE public.tenants
+  ADD COLUMN functional_currency TEXT NOT NULL DEFAULT 'USD' CHECK (functional_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.invoices ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Everything recorded so far was billed and received in the functional currency
+UPDATE public.invoices AS invoice
+SET currency = tenant.functional_currency
+FROM public.tenants AS tenant
+WHERE invoice.tenant_id = tenant.tenant_id;
+
+UPDATE public.payments AS payment
+SET currency = tenant.functional_currency
+FROM public.tenants AS tenant
+WHERE payment.tenant_id = tenant.tenant_id AND payment.currency IS NULL;
+
+UPDATE public.invoices SET currency = 'USD' WHERE currency IS NULL;
+UPDATE public.payments SET currency = 'USD' WHERE currency IS NULL;
+
+ALTER TABLE public.invoices ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE public.payments ALTER COLUMN currency SET NOT NULL;
+
+-- Documents created without a currency are in the tenant's functional currency. A credit memo is
+-- in the currency of the invoice it credits, or failing that the one its customer is billed in.
+CREATE OR REPLACE FUNCTION public.set_document_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.currency IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'invoices' THEN
+    IF NEW.document_type = 'credit_memo' THEN
+      NEW.currency := COALESCE(
+        (SELECT currency FROM public.invoices WHERE invoice_id = NEW.original_invoice_id),
+        (
+          SELECT currency FROM public.invoices
+          WHERE customer_id = NEW.customer_id AND document_type = 'invoice'
+          ORDER BY created_at DESC
+          LIMIT 1
+        )
+      );
+    END IF;
+  END IF;
+
+  NEW.currency := COALESCE(
+    NEW.currency,
+    (SELECT functional_currency FROM public.tenants WHERE tenant_id = NEW.tenant_id),
+    'USD'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invoices_set_currency
+BEFORE INSERT ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_document_currency();
+
+CREATE TRIGGER payments_set_currency
+BEFORE INSERT ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.set_document_currency();
+
+-- Daily exchange rates: one unit of from_currency buys `rate` units of to_currency
+CREATE TABLE public.fx_rates (
+  fx_rate_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  rate_date DATE NOT NULL,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source TEXT,
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (from_currency <> to_currency),
+  UNIQUE (tenant_id, from_currency, to_currency, rate_date)
+);
+
+CREATE INDEX fx_rates_lookup_idx ON public.fx_rates (tenant_id, from_currency, to_currency, rate_date DESC);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's fx rates"
+ON public.fx_rates
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert fx rates for their tenant"
+ON public.fx_rates
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can update their tenant's fx rates"
+ON public.fx_rates
+FOR UPDATE
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Exchange rate on a date: the latest rate loaded on or before it, quoted either way round, or
+-- crossed through the tenant's functional currency. NULL when no rate is loaded.
+CREATE OR REPLACE FUNCTION public.find_fx_rate(
+  p_tenant_id UUID,
+  p_from TEXT,
+  p_to TEXT,
+  p_date DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  direct_rate NUMERIC;
+  functional TEXT;
+BEGIN
+  IF p_from = p_to THEN
+    RETURN 1;
+  END IF;
+
+  SELECT CASE WHEN from_currency = p_from THEN rate ELSE 1 / rate END INTO direct_rate
+  FROM public.fx_rates
+  WHERE tenant_id = p_tenant_id
+    AND rate_date <= p_date
+    AND (
+      (from_currency = p_from AND to_currency = p_to)
+      OR (from_currency = p_to AND to_currency = p_from)
+    )
+  ORDER BY rate_date DESC, (from_currency = p_from) DESC
+  LIMIT 1;
+
+  IF direct_rate IS NOT NULL THEN
+    RETURN direct_rate;
+  END IF;
+
+  SELECT functional_currency INTO functional FROM public.tenants WHERE tenant_id = p_tenant_id;
+  IF functional IS NULL OR functional IN (p_from, p_to) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.find_fx_rate(p_tenant_id, p_from, functional, p_date)
+    * public.find_fx_rate(p_tenant_id, functional, p_to, p_date);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fx_rate(
+  p_tenant_id UUID,
+  p_from TEXT,
+  p_to TEXT,
+  p_date DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  found_rate NUMERIC := public.find_fx_rate(p_tenant_id, p_from, p_to, p_date);
+BEGIN
+  IF found_rate IS NULL THEN
+    RAISE EXCEPTION 'No % to % exchange rate loaded on or before %', p_from, p_to, p_date;
+  END IF;
+  RETURN found_rate;
+END;
+$$;
+
+-- A payment in another currency than the invoice matches when the converted amounts differ by
+-- no more than this share, since the bank's rate never quite agrees with the loaded one
+ALTER TABLE public.matching_settings
+  ADD COLUMN fx_tolerance_percent NUMERIC(5, 2) NOT NULL DEFAULT 2 CHECK (fx_tolerance_percent BETWEEN 0 AND 20);
+
+-- amount_applied is what the invoice was settled by, in the invoice's currency; payment_amount is
+-- what that drew from the payment, in the payment's currency. fx_gain_loss is the realized
+-- difference in the functional currency: positive is a gain.
+ALTER TABLE public.payment_applications
+  ADD COLUMN payment_amount NUMERIC CHECK (payment_amount > 0),
+  ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+  ADD COLUMN fx_gain_loss NUMERIC NOT NULL DEFAULT 0;
+
+UPDATE public.payment_applications SET payment_amount = amount_applied;
+
+ALTER TABLE public.payment_applications ALTER COLUMN payment_amount SET NOT NULL;
+
+-- Credit memos only net against invoices in their own currency
+CREATE OR REPLACE FUNCTION public.check_credit_application_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT currency FROM public.invoices WHERE invoice_id = NEW.credit_memo_id)
+    IS DISTINCT FROM (SELECT currency FROM public.invoices WHERE invoice_id = NEW.invoice_id) THEN
+    RAISE EXCEPTION 'A credit memo can only be applied to invoices in its own currency';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_memo_applications_check_currency
+BEFORE INSERT ON public.credit_memo_applications
+FOR EACH ROW EXECUTE FUNCTION public.check_credit_application_currency();
+
+-- Re-created so the payment is drawn down in its own currency
+CREATE OR REPLACE FUNCTION public.refresh_payment_balance(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  applied NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(payment_amount), 0) INTO applied
+  FROM public.payment_applications WHERE payment_id = p_payment_id AND reversed_at IS NULL;
+
+  UPDATE public.payments
+  SET amount_applied = applied,
+      status = CASE
+        WHEN amount_received - applied <= 0.005 THEN 'matched'
+        WHEN on_account_at IS NOT NULL THEN 'on_account'
+        WHEN applied > 0 THEN 'partially_applied'
+        WHEN status IN ('matched', 'partially_applied') THEN 'unmatched'
+        ELSE status
+      END
+  WHERE payment_id = p_payment_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments WHERE payment_id = p_payment_id AND amount_applied > amount_received + 0.005
+  ) THEN
+    RAISE EXCEPTION 'Applications exceed the amount received on payment %', p_payment_id;
+  END IF;
+END;
+$$;
+
+-- On-account credit per customer and currency
+CREATE OR REPLACE VIEW public.customer_credit_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  tenant_id,
+  customer_id,
+  SUM(amount_received - amount_applied) AS unapplied_amount,
+  COUNT(*) AS payment_count,
+  MIN(payment_date) AS oldest_payment_date,
+  currency
+FROM public.payments
+WHERE on_account_at IS NOT NULL
+  AND customer_id IS NOT NULL
+  AND amount_received - amount_applied > 0.005
+GROUP BY tenant_id, customer_id, currency;
+
+-- Re-created for payments in another currency than the invoices. Allocations stay in each
+-- invoice's currency and the payment covers them at the rate on its payment date; an invoice that
+-- takes what is left of the payment, give or take the FX tolerance, is settled by all of it.
+-- Realized FX gain or loss against the rate the invoice was booked at is kept on each application.
+CREATE OR REPLACE FUNCTION public.apply_payment(
+  p_payment_id UUID,
+  p_allocations JSONB,
+  p_resolution TEXT DEFAULT 'none',
+  p_reason TEXT DEFAULT NULL,
+  p_match_method TEXT DEFAULT 'manual'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+  invoice_row public.invoices%ROWTYPE;
+  allocation JSONB;
+  allocation_amount NUMERIC;
+  remaining NUMERIC;
+  applied JSONB := '[]'::JSONB;
+  written_off JSONB := '[]'::JSONB;
+  disputed JSONB := '[]'::JSONB;
+  credited JSONB := '[]'::JSONB;
+  new_dispute_id UUID;
+  tenant_write_off_limit NUMERIC;
+  tenant_fx_tolerance NUMERIC;
+  functional TEXT;
+  credit_ids UUID[] := '{}';
+  credit_customers UUID[] := '{}';
+  credit_currencies TEXT[] := '{}';
+  credit_numbers TEXT[] := '{}';
+  credit_remaining NUMERIC[] := '{}';
+  credit_index INTEGER;
+  credit_draw NUMERIC;
+  from_credit NUMERIC;
+  document_amount NUMERIC;
+  drawn_amount NUMERIC;
+  payment_unapplied NUMERIC;
+  gain_loss NUMERIC;
+  total_gain_loss NUMERIC := 0;
+BEGIN
+  IF p_resolution NOT IN ('none', 'write_off', 'dispute') THEN
+    RAISE EXCEPTION 'Unknown resolution "%"', p_resolution;
+  END IF;
+
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  IF p_match_method NOT IN ('reference', 'amount', 'manual', 'suggestion') THEN
+    RAISE EXCEPTION 'Unknown match method "%"', p_match_method;
+  END IF;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  payment_unapplied := payment_row.amount_received - payment_row.amount_applied;
+
+  SELECT functional_currency INTO functional FROM public.tenants WHERE tenant_id = payment_row.tenant_id;
+
+  SELECT matching_settings.write_off_limit, matching_settings.fx_tolerance_percent
+  INTO tenant_write_off_limit, tenant_fx_tolerance
+  FROM public.matching_settings
+  WHERE tenant_id = payment_row.tenant_id;
+
+  tenant_fx_tolerance := COALESCE(tenant_fx_tolerance, 2);
+
+  -- Credit memos first, so their credit is available to every invoice in the allocations
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID
+      AND tenant_id = payment_row.tenant_id
+      AND document_type = 'credit_memo'
+    FOR UPDATE;
+
+    CONTINUE WHEN NOT FOUND;
+
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    IF invoice_row.status <> 'open' THEN
+      RAISE EXCEPTION 'Credit memo % has no credit left', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for credit memo % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > -invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for credit memo % exceeds its remaining credit', invoice_row.invoice_number;
+    END IF;
+
+    credit_ids := array_append(credit_ids, invoice_row.invoice_id);
+    credit_customers := array_append(credit_customers, invoice_row.customer_id);
+    credit_currencies := array_append(credit_currencies, invoice_row.currency);
+    credit_numbers := array_append(credit_numbers, invoice_row.invoice_number);
+    credit_remaining := array_append(credit_remaining, allocation_amount);
+  END LOOP;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    allocation_amount := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row
+    FROM public.invoices
+    WHERE invoice_id = (allocation->>'invoice_id')::UUID AND tenant_id = payment_row.tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice % not found', allocation->>'invoice_id';
+    END IF;
+
+    CONTINUE WHEN invoice_row.document_type = 'credit_memo';
+
+    IF invoice_row.status NOT IN ('open', 'partially_paid', 'overdue') THEN
+      RAISE EXCEPTION 'Invoice % is not open', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount IS NULL OR allocation_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation for invoice % must be positive', invoice_row.invoice_number;
+    END IF;
+
+    IF allocation_amount > invoice_row.open_balance + 0.005 THEN
+      RAISE EXCEPTION 'Allocation for invoice % exceeds its open balance', invoice_row.invoice_number;
+    END IF;
+
+    -- The customer's credit memos in the invoice's currency cover what they can; the payment covers the rest
+    from_credit := 0;
+    FOR credit_index IN 1 .. COALESCE(array_length(credit_ids, 1), 0)
+    LOOP
+      CONTINUE WHEN credit_customers[credit_index] IS DISTINCT FROM invoice_row.customer_id
+        OR credit_currencies[credit_index] <> invoice_row.currency;
+
+      credit_draw := LEAST(credit_remaining[credit_index], allocation_amount - from_credit);
+      CONTINUE WHEN credit_draw <= 0;
+
+      INSERT INTO public.credit_memo_applications (tenant_id, credit_memo_id, invoice_id, payment_id, amount, applied_by)
+      VALUES (payment_row.tenant_id, credit_ids[credit_index], invoice_row.invoice_id, p_payment_id, credit_draw, auth.uid());
+
+      credit_remaining[credit_index] := credit_remaining[credit_index] - credit_draw;
+      from_credit := from_credit + credit_draw;
+
+      credited := credited || jsonb_build_object(
+        'credit_memo_id', credit_ids[credit_index],
+        'credit_memo_number', credit_numbers[credit_index],
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount', credit_draw
+      );
+    END LOOP;
+
+    document_amount := allocation_amount - from_credit;
+    IF document_amount > 0 THEN
+      drawn_amount := ROUND(
+        document_amount * public.fx_rate(payment_row.tenant_id, invoice_row.currency, payment_row.currency, payment_row.payment_date),
+        2
+      );
+
+      -- The bank converted at its own rate: when the invoice takes all but the FX tolerance of what
+      -- is left of the payment (or a little more than it), the rest of the payment settles it
+      IF invoice_row.currency <> payment_row.currency
+        AND ABS(drawn_amount - payment_unapplied) <= payment_unapplied * tenant_fx_tolerance / 100 + 0.005 THEN
+        drawn_amount := payment_unapplied;
+      END IF;
+
+      IF drawn_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment has nothing left to apply to invoice %', invoice_row.invoice_number;
+      END IF;
+
+      payment_unapplied := payment_unapplied - drawn_amount;
+
+      -- What the cash was worth on the payment date against what the invoice was booked at
+      gain_loss := ROUND(
+        drawn_amount * public.fx_rate(payment_row.tenant_id, payment_row.currency, functional, payment_row.payment_date)
+          - document_amount * public.fx_rate(
+            payment_row.tenant_id,
+            invoice_row.currency,
+            functional,
+            COALESCE(invoice_row.created_at::DATE, invoice_row.due_date)
+          ),
+        2
+      );
+      total_gain_loss := total_gain_loss + gain_loss;
+
+      INSERT INTO public.payment_applications (
+        tenant_id, payment_id, invoice_id, amount_applied, payment_amount, exchange_rate, fx_gain_loss, match_method, applied_by
+      )
+      VALUES (
+        payment_row.tenant_id, p_payment_id, invoice_row.invoice_id, document_amount, drawn_amount,
+        drawn_amount / document_amount, gain_loss, p_match_method, auth.uid()
+      );
+
+      applied := applied || jsonb_build_object(
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount_applied', document_amount,
+        'currency', invoice_row.currency,
+        'payment_amount', drawn_amount,
+        'fx_gain_loss', gain_loss
+      );
+    END IF;
+
+    remaining := invoice_row.open_balance - allocation_amount;
+    CONTINUE WHEN remaining <= 0.005 OR p_resolution = 'none';
+
+    IF p_resolution = 'write_off' THEN
+      -- The write-off limit is set in the functional currency
+      IF tenant_write_off_limit IS NOT NULL
+        AND remaining * public.fx_rate(payment_row.tenant_id, invoice_row.currency, functional, payment_row.payment_date)
+          > tenant_write_off_limit + 0.005 THEN
+        RAISE EXCEPTION 'Write-off of % % on invoice % exceeds the limit of % %', remaining, invoice_row.currency, invoice_row.invoice_number, tenant_write_off_limit, functional;
+      END IF;
+
+      INSERT INTO public.invoice_write_offs (tenant_id, invoice_id, payment_id, amount, reason, created_by)
+      VALUES (payment_row.tenant_id, invoice_row.invoice_id, p_payment_id, remaining, p_reason, auth.uid());
+
+      written_off := written_off || jsonb_build_object(
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'amount', remaining
+      );
+    ELSE
+      INSERT INTO public.disputes (tenant_id, invoice_id, payment_id, disputed_amount, reason, status)
+      VALUES (
+        payment_row.tenant_id,
+        invoice_row.invoice_id,
+        p_payment_id,
+        remaining,
+        COALESCE(p_reason, 'Short payment'),
+        'new'
+      )
+      RETURNING disputes.dispute_id INTO new_dispute_id;
+
+      UPDATE public.invoices SET status = 'disputed' WHERE invoice_id = invoice_row.invoice_id;
+
+      disputed := disputed || jsonb_build_object(
+        'dispute_id', new_dispute_id,
+        'invoice_id', invoice_row.invoice_id,
+        'invoice_number', invoice_row.invoice_number,
+        'disputed_amount', remaining
+      );
+    END IF;
+  END LOOP;
+
+  FOR credit_index IN 1 .. COALESCE(array_length(credit_ids, 1), 0)
+  LOOP
+    IF credit_remaining[credit_index] > 0.005 THEN
+      RAISE EXCEPTION 'Credit memo % has % left over; it can only be netted against the same customer''s invoices in %', credit_numbers[credit_index], credit_remaining[credit_index], credit_currencies[credit_index];
+    END IF;
+  END LOOP;
+
+  SELECT * INTO payment_row FROM public.payments WHERE payment_id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_status', payment_row.status,
+    'currency', payment_row.currency,
+    'unapplied_amount', payment_row.amount_received - payment_row.amount_applied,
+    'applications', applied,
+    'credits', credited,
+    'write_offs', written_off,
+    'disputes', disputed,
+    'fx_gain_loss', total_gain_loss,
+    'functional_currency', functional
+  );
+END;
+$$;
+
+-- Re-created so credit held in another currency is converted: each invoice draws on the
+-- customer's credit in its own currency first, then on the oldest credit in any other
+CREATE OR REPLACE FUNCTION public.apply_on_account_credit(
+  p_customer_id UUID,
+  p_allocations JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  allocation JSONB;
+  invoice_row public.invoices%ROWTYPE;
+  credit_row RECORD;
+  wanted NUMERIC;
+  to_credit NUMERIC;
+  draw NUMERIC;
+  applied JSONB := '[]'::JSONB;
+  remaining_credit JSONB;
+BEGIN
+  IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'At least one allocation is required';
+  END IF;
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    wanted := ROUND((allocation->>'amount')::NUMERIC, 2);
+
+    SELECT * INTO invoice_row FROM public.invoices WHERE invoice_id = (allocation->>'invoice_id')::UUID;
+    IF NOT FOUND OR invoice_row.customer_id <> p_customer_id THEN
+      RAISE EXCEPTION 'Invoice % does not belong to this customer', allocation->>'invoice_id';
+    END IF;
+
+    FOR credit_row IN
+      SELECT payment_id, tenant_id, currency, payment_date, amount_received - amount_applied AS unapplied
+      FROM public.payments
+      WHERE customer_id = p_customer_id
+        AND on_account_at IS NOT NULL
+        AND amount_received - amount_applied > 0.005
+      ORDER BY (currency = invoice_row.currency) DESC, payment_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN wanted <= 0.005;
+
+      -- Rounded down so the converted draw never needs more than the payment has left
+      to_credit := public.fx_rate(credit_row.tenant_id, invoice_row.currency, credit_row.currency, credit_row.payment_date);
+      draw := LEAST(wanted, FLOOR(credit_row.unapplied / to_credit * 100) / 100);
+      CONTINUE WHEN draw <= 0;
+
+      applied := applied || (
+        public.apply_payment(
+          credit_row.payment_id,
+          jsonb_build_array(jsonb_build_object('invoice_id', invoice_row.invoice_id, 'amount', draw)),
+          'none',
+          NULL,
+          'manual'
+        )->'applications'
+      );
+      wanted := wanted - draw;
+    END LOOP;
+
+    IF wanted > 0.005 THEN
+      RAISE EXCEPTION 'Allocations exceed the customer''s on-account credit; % % of invoice % is not covered', wanted, invoice_row.currency, invoice_row.invoice_number;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(jsonb_object_agg(currency, unapplied_amount), '{}'::JSONB) INTO remaining_credit
+  FROM public.customer_credit_balances
+  WHERE customer_id = p_customer_id;
+
+  RETURN jsonb_build_object(
+    'applications', applied,
+    'remaining_credit', remaining_credit
+  );
+END;
+$$;
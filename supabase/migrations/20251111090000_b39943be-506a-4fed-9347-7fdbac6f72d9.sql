@@ -0,0 +1,34 @@
+-- Risk models trained from each tenant's own paid invoices. Versions only ever increase; the
+-- latest is the one used to score, so an invoice's score can be reproduced from the version
+-- recorded with it
+CREATE TABLE public.risk_models (
+  model_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  -- Intercept, and per-feature weights, means and scales
+  model JSONB NOT NULL,
+  metrics JSONB NOT NULL DEFAULT '{}'::JSONB,
+  sample_size INTEGER NOT NULL CHECK (sample_size > 0),
+  trained_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  trained_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (tenant_id, version)
+);
+
+ALTER TABLE public.risk_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's risk models"
+ON public.risk_models
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert risk models for their tenant"
+ON public.risk_models
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- 0 is the built-in model used before the tenant trains one
+ALTER TABLE public.invoices ADD COLUMN risk_model_version INTEGER;
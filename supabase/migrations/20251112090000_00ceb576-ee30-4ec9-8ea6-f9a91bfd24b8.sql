@@ -0,0 +1,24 @@
+-- Each feature's part in the latest score, largest effect first:
+-- [{ code, label, value, weight, contribution }]
+ALTER TABLE public.invoices ADD COLUMN risk_factors JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- One row per invoice and factor, ranked as scored, for filtering and aggregating the portfolio
+-- by what drives its risk
+CREATE VIEW public.invoice_risk_factors
+WITH (security_invoker = true)
+AS
+SELECT
+  invoice.tenant_id,
+  invoice.invoice_id,
+  invoice.customer_id,
+  invoice.risk_score,
+  invoice.open_balance,
+  factor.rank::INTEGER AS rank,
+  factor.item->>'code' AS code,
+  factor.item->>'label' AS label,
+  (factor.item->>'value')::NUMERIC AS value,
+  (factor.item->>'weight')::NUMERIC AS weight,
+  (factor.item->>'contribution')::NUMERIC AS contribution
+FROM public.invoices AS invoice
+CROSS JOIN LATERAL jsonb_array_elements(invoice.risk_factors) WITH ORDINALITY AS factor(item, rank)
+WHERE invoice.document_type = 'invoice';
@@ -0,0 +1,100 @@
+-- Band an invoice's risk score falls in, as shown on the dashboard
+CREATE OR REPLACE FUNCTION public.risk_band(p_score NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_score IS NULL THEN NULL
+    WHEN p_score >= 0.7 THEN 'high'
+    WHEN p_score >= 0.4 THEN 'medium'
+    ELSE 'low'
+  END;
+$$;
+
+-- Every score an invoice has been given, with the one it replaced, so its trend survives each
+-- re-scoring
+CREATE TABLE public.risk_score_history (
+  history_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(invoice_id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(customer_id) ON DELETE CASCADE,
+  risk_score NUMERIC NOT NULL,
+  previous_score NUMERIC,
+  risk_band TEXT NOT NULL,
+  previous_band TEXT,
+  risk_model_version INTEGER,
+  scored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX risk_score_history_invoice_idx ON public.risk_score_history (invoice_id, scored_at);
+CREATE INDEX risk_score_history_customer_idx ON public.risk_score_history (customer_id, scored_at);
+
+ALTER TABLE public.risk_score_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's risk score history"
+ON public.risk_score_history
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert risk score history for their tenant"
+ON public.risk_score_history
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Recorded on every scoring, whoever scores: predict-risk, a batch or the nightly job
+CREATE OR REPLACE FUNCTION public.record_risk_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.risk_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.risk_score_history (
+    tenant_id, invoice_id, customer_id, risk_score, previous_score, risk_band, previous_band,
+    risk_model_version
+  )
+  VALUES (
+    NEW.tenant_id, NEW.invoice_id, NEW.customer_id, NEW.risk_score, OLD.risk_score,
+    public.risk_band(NEW.risk_score), public.risk_band(OLD.risk_score), NEW.risk_model_version
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invoices_record_risk_score
+AFTER UPDATE OF risk_score ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.record_risk_score();
+
+-- Scorings that moved an open invoice into a higher band, the signal behind "risk rising"
+-- notifications. An invoice's first score is not a rise.
+CREATE VIEW public.risk_rising_alerts
+WITH (security_invoker = true)
+AS
+SELECT
+  history.history_id,
+  history.tenant_id,
+  history.invoice_id,
+  invoice.invoice_number,
+  history.customer_id,
+  customer.name AS customer_name,
+  history.previous_score,
+  history.risk_score,
+  history.previous_band,
+  history.risk_band,
+  history.scored_at
+FROM public.risk_score_history AS history
+JOIN public.invoices AS invoice ON invoice.invoice_id = history.invoice_id
+JOIN public.customers AS customer ON customer.customer_id = history.customer_id
+WHERE history.previous_band IS NOT NULL
+  AND array_position(ARRAY['low', 'medium', 'high'], history.risk_band)
+    > array_position(ARRAY['low', 'medium', 'high'], history.previous_band)
+  AND invoice.open_balance > 0.005;
@@ -0,0 +1,155 @@
+-- Credit limits are in the tenant's functional currency; no limit means credit is not capped.
+-- A customer on credit hold should not be extended further credit until it is released.
+ALTER TABLE public.customers
+  ADD COLUMN credit_limit NUMERIC CHECK (credit_limit >= 0),
+  ADD COLUMN credit_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN credit_hold_reason TEXT;
+
+-- What the customer owes on open invoices, in the tenant's functional currency at today's rates.
+-- A balance without a loaded rate counts as it stands.
+CREATE OR REPLACE FUNCTION public.customer_exposure(p_customer_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(
+    invoice.open_balance
+      * COALESCE(public.find_fx_rate(invoice.tenant_id, invoice.currency, tenant.functional_currency, CURRENT_DATE), 1)
+  ), 0)
+  FROM public.invoices AS invoice
+  JOIN public.tenants AS tenant ON tenant.tenant_id = invoice.tenant_id
+  WHERE invoice.customer_id = p_customer_id
+    AND invoice.document_type = 'invoice'
+    AND invoice.open_balance > 0.005;
+$$;
+
+-- Every change to a customer's credit limit, so exposure can be charted against the limit in
+-- force at the time
+CREATE TABLE public.credit_limit_changes (
+  change_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(customer_id) ON DELETE CASCADE,
+  credit_limit NUMERIC,
+  previous_limit NUMERIC,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX credit_limit_changes_customer_idx ON public.credit_limit_changes (customer_id, changed_at);
+
+ALTER TABLE public.credit_limit_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's credit limit changes"
+ON public.credit_limit_changes
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert credit limit changes for their tenant"
+ON public.credit_limit_changes
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE OR REPLACE FUNCTION public.record_credit_limit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.credit_limit IS NOT DISTINCT FROM OLD.credit_limit THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.credit_limit_changes (tenant_id, customer_id, credit_limit, previous_limit, changed_by)
+  VALUES (NEW.tenant_id, NEW.customer_id, NEW.credit_limit, OLD.credit_limit, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER customers_record_credit_limit_change
+AFTER UPDATE OF credit_limit ON public.customers
+FOR EACH ROW EXECUTE FUNCTION public.record_credit_limit_change();
+
+-- Raised when an invoice takes its customer's exposure over the credit limit. Exposure and the
+-- limit are as they stood when the invoice was created.
+CREATE TABLE public.credit_limit_alerts (
+  alert_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(customer_id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(invoice_id) ON DELETE CASCADE,
+  exposure NUMERIC NOT NULL,
+  -- Null when the alert was raised by a credit hold on a customer without a limit
+  credit_limit NUMERIC,
+  credit_hold BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX credit_limit_alerts_tenant_idx ON public.credit_limit_alerts (tenant_id, created_at);
+
+ALTER TABLE public.credit_limit_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's credit limit alerts"
+ON public.credit_limit_alerts
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert credit limit alerts for their tenant"
+ON public.credit_limit_alerts
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- Only the invoice that crosses the limit raises an alert; later ones while the customer stays
+-- over it do not. An invoice billed to a customer on credit hold is always raised.
+CREATE OR REPLACE FUNCTION public.check_credit_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  customer_row public.customers%ROWTYPE;
+  exposure NUMERIC;
+  invoice_exposure NUMERIC;
+BEGIN
+  IF NEW.document_type <> 'invoice' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO customer_row FROM public.customers WHERE customer_id = NEW.customer_id;
+  IF customer_row.credit_limit IS NULL AND NOT customer_row.credit_hold THEN
+    RETURN NEW;
+  END IF;
+
+  exposure := public.customer_exposure(NEW.customer_id);
+  invoice_exposure := COALESCE(NEW.open_balance, NEW.amount) * COALESCE(public.find_fx_rate(
+    NEW.tenant_id,
+    NEW.currency,
+    (SELECT functional_currency FROM public.tenants WHERE tenant_id = NEW.tenant_id),
+    CURRENT_DATE
+  ), 1);
+
+  IF customer_row.credit_hold
+    OR (exposure > customer_row.credit_limit + 0.005
+      AND exposure - invoice_exposure <= customer_row.credit_limit + 0.005) THEN
+    INSERT INTO public.credit_limit_alerts (tenant_id, customer_id, invoice_id, exposure, credit_limit, credit_hold)
+    VALUES (
+      NEW.tenant_id, NEW.customer_id, NEW.invoice_id, exposure, customer_row.credit_limit,
+      customer_row.credit_hold
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invoices_check_credit_limit
+AFTER INSERT ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.check_credit_limit();
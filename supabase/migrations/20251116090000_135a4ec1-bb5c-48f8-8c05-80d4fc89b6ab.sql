@@ -0,0 +1,82 @@
+-- Every payment date predicted for an open invoice. Predictions are never overwritten, so each
+-- can be measured against the date the invoice was actually paid.
+CREATE TABLE public.payment_date_predictions (
+  prediction_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(invoice_id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(customer_id) ON DELETE CASCADE,
+  predicted_date DATE NOT NULL,
+  earliest_date DATE NOT NULL,
+  latest_date DATE NOT NULL,
+  -- 'customer', 'portfolio' or 'none': whose paid invoices the prediction was drawn from
+  basis TEXT NOT NULL CHECK (basis IN ('customer', 'portfolio', 'none')),
+  sample_size INTEGER NOT NULL DEFAULT 0,
+  predicted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (earliest_date <= predicted_date AND predicted_date <= latest_date)
+);
+
+CREATE INDEX payment_date_predictions_invoice_idx ON public.payment_date_predictions (invoice_id, predicted_at);
+
+ALTER TABLE public.payment_date_predictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's payment date predictions"
+ON public.payment_date_predictions
+FOR SELECT
+USING (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+CREATE POLICY "Users can insert payment date predictions for their tenant"
+ON public.payment_date_predictions
+FOR INSERT
+WITH CHECK (tenant_id IN (
+  SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+));
+
+-- The prediction currently shown for each invoice
+CREATE VIEW public.latest_payment_date_predictions
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (invoice_id)
+  prediction_id,
+  tenant_id,
+  invoice_id,
+  customer_id,
+  predicted_date,
+  earliest_date,
+  latest_date,
+  basis,
+  sample_size,
+  predicted_at
+FROM public.payment_date_predictions
+ORDER BY invoice_id, predicted_at DESC;
+
+-- Predictions for invoices since paid in full, against the date of the last payment applied.
+-- error_days is positive when the invoice was paid later than predicted.
+CREATE VIEW public.payment_prediction_accuracy
+WITH (security_invoker = true)
+AS
+WITH paid AS (
+  SELECT application.invoice_id, MAX(payment.payment_date) AS paid_date
+  FROM public.payment_applications AS application
+  JOIN public.payments AS payment ON payment.payment_id = application.payment_id
+  WHERE application.reversed_at IS NULL
+  GROUP BY application.invoice_id
+)
+SELECT
+  prediction.prediction_id,
+  prediction.tenant_id,
+  prediction.invoice_id,
+  prediction.customer_id,
+  prediction.basis,
+  prediction.predicted_at,
+  prediction.predicted_date,
+  prediction.earliest_date,
+  prediction.latest_date,
+  paid.paid_date AS actual_date,
+  paid.paid_date - prediction.predicted_date AS error_days,
+  paid.paid_date BETWEEN prediction.earliest_date AND prediction.latest_date AS within_range
+FROM public.payment_date_predictions AS prediction
+JOIN public.invoices AS invoice ON invoice.invoice_id = prediction.invoice_id
+JOIN paid ON paid.invoice_id = prediction.invoice_id
+WHERE invoice.open_balance <= 0.005;
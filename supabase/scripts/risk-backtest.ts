@@ -0,0 +1,84 @@
+/**
+ * Backtests the risk model locally against fixture data, with no database:
+ *
+ *   deno run --allow-read --allow-write supabase/scripts/risk-backtest.ts [fixture.json] [options]
+ *
+ * The fixture is { "invoices": RiskInvoice[] }, optionally with a "model" to test as it is.
+ * Otherwise a model is trained on the older invoices and tested on the most recent ones it never
+ * saw. Writes risk-backtest.json and risk-backtest.md.
+ *
+ *   --holdout <share>  share of paid invoices to test on, 0.3 by default
+ *   --default-model    test the built-in model over every paid invoice instead of training one
+ *   --out <dir>        directory for the report files, the current one by default
+ */
+import { backtestRiskModel, formatBacktestReport, splitHistory } from '../functions/_shared/risk-backtest.ts';
+import {
+  buildTrainingSamples,
+  checkTrainingSamples,
+  DEFAULT_RISK_MODEL,
+  type RiskInvoice,
+  type RiskModel,
+  trainRiskModel,
+} from '../functions/_shared/risk-model.ts';
+
+type Fixture = {
+  invoices: RiskInvoice[];
+  model?: RiskModel;
+};
+
+const DEFAULT_FIXTURE = new URL('./fixtures/risk-history.json', import.meta.url);
+
+const parseArgs = (args: string[]) => {
+  const options = { fixture: DEFAULT_FIXTURE as URL | string, holdout: 0.3, defaultModel: false, out: '.' };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--holdout') options.holdout = Number(args[++index]);
+    else if (arg === '--default-model') options.defaultModel = true;
+    else if (arg === '--out') options.out = args[++index];
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else options.fixture = arg;
+  }
+  if (!Number.isFinite(options.holdout) || options.holdout <= 0 || options.holdout >= 1) {
+    throw new Error('--holdout must be a share between 0 and 1');
+  }
+  if (!options.out) throw new Error('--out needs a directory');
+  return options;
+};
+
+const main = async () => {
+  const options = parseArgs(Deno.args);
+  const fixture: Fixture = JSON.parse(await Deno.readTextFile(options.fixture));
+  const history = fixture.invoices;
+
+  let model: RiskModel;
+  let include: ((invoice: RiskInvoice) => boolean) | undefined;
+  if (fixture.model) {
+    model = fixture.model;
+  } else if (options.defaultModel) {
+    model = DEFAULT_RISK_MODEL;
+  } else {
+    const { cutoff, training, isTested } = splitHistory(history, options.holdout);
+    const samples = buildTrainingSamples(training);
+    const problem = checkTrainingSamples(samples);
+    if (problem) throw new Error(`Cannot train on invoices issued before ${cutoff}: ${problem}`);
+
+    model = trainRiskModel(samples, 1).model;
+    include = isTested;
+    console.log(`Trained on invoices issued before ${cutoff}, testing on those issued since`);
+  }
+
+  const report = backtestRiskModel(model, history, include);
+  await Deno.mkdir(options.out, { recursive: true });
+  await Deno.writeTextFile(`${options.out}/risk-backtest.json`, JSON.stringify({ ...report, model }, null, 2));
+  await Deno.writeTextFile(`${options.out}/risk-backtest.md`, formatBacktestReport(report, model));
+
+  console.log(
+    `Backtested model v${model.version} on ${report.invoice_count} invoices: AUC ${report.auc ?? 'n/a'}, ` +
+      `Brier ${report.brier_score ?? 'n/a'}. Report written to ${options.out}/risk-backtest.md`
+  );
+};
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  Deno.exit(1);
+});